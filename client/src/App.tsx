@@ -35,6 +35,7 @@ import AuthPage from "./pages/AuthPage.tsx";
 import AuthCallback from "./pages/AuthCallback.tsx";
 import ResetPassword from "./pages/ResetPassword.tsx";
 import PublicBookingPage from "./pages/public-booking/[tutorId].tsx";
+import ManageBookingPage from "./pages/public-booking/manage/[token].tsx";
 import PrivacyPolicy from "./pages/privacy-policy";
 import HelpCenter from "./pages/help-center";
 
@@ -647,6 +648,7 @@ function Router() {
       <Route path="/auth">{() => <AuthPage />}</Route>
 
       {/* 4) Public booking */}
+      <Route path="/booking/manage/:token" component={ManageBookingPage} />
       <Route path="/booking/:tutorId" component={PublicBookingPage} />
 
       {/* 5) Privacy Policy (public) */}
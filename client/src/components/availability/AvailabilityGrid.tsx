@@ -7,6 +7,10 @@ import luxonPlugin from '@fullcalendar/luxon3';
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, History } from 'lucide-react';
+import { NO_BUFFERS, type BufferSettings } from '@shared/conflicts';
 
 // Enable dayjs plugins
 dayjs.extend(utc);
@@ -17,6 +21,15 @@ export interface LocalRange {
   endLocal: Date;
 }
 
+// Copy the availability in [sourceStart, sourceEnd) forward by each of the week offsets
+export interface WeekCopyRequest {
+  sourceStart: Date;
+  sourceEnd: Date;
+  weekOffsets: number[];
+}
+
+const COPY_WEEK_OPTIONS = [1, 2, 3, 4, 6, 8, 12];
+
 interface AvailabilityGridProps {
   weekStartLocal: Date;
   bookedRangesLocal: LocalRange[];
@@ -25,6 +38,10 @@ interface AvailabilityGridProps {
   selectedRangesLocal: LocalRange[];
   onProposedRange: (range: LocalRange) => void;
   tutorTimezone: string;
+  buffers?: BufferSettings; // shaded around booked and pending sessions
+  timeOffRangesLocal?: LocalRange[]; // shaded, can't be selected
+  onCopyWeek?: (request: WeekCopyRequest) => void; // shows the copy controls when set
+  slotGranularityMinutes?: number; // rows and drag snapping
 }
 
 interface FullCalendarEvent {
@@ -46,9 +63,15 @@ export default function AvailabilityGrid({
   existingAvailabilityLocal,
   selectedRangesLocal,
   onProposedRange,
-  tutorTimezone
+  tutorTimezone,
+  buffers = NO_BUFFERS,
+  timeOffRangesLocal = [],
+  onCopyWeek,
+  slotGranularityMinutes = 30
 }: AvailabilityGridProps) {
   const [calendarView, setCalendarView] = useState<'timeGridWeek' | 'timeGridDay'>('timeGridWeek');
+  const [visibleRange, setVisibleRange] = useState<{ start: Date; end: Date } | null>(null);
+  const [copyWeeks, setCopyWeeks] = useState(4);
   const calendarRef = useRef<FullCalendar>(null);
   
 
@@ -95,6 +118,50 @@ export default function AvailabilityGrid({
     }));
   }, [existingAvailabilityLocal]);
 
+  const bufferEvents: FullCalendarEvent[] = useMemo(() => {
+    const sessionRanges = [...bookedRangesLocal, ...pendingRangesLocal];
+    const events: FullCalendarEvent[] = [];
+
+    sessionRanges.forEach((range, index) => {
+      if (buffers.before > 0) {
+        events.push({
+          id: `buffer-before-${index}`,
+          title: 'Buffer',
+          start: dayjs(range.startLocal).subtract(buffers.before, 'minute').toDate(),
+          end: range.startLocal,
+          backgroundColor: '#9ca3af',
+          className: 'buffer-event',
+          display: 'background'
+        });
+      }
+      if (buffers.after > 0) {
+        events.push({
+          id: `buffer-after-${index}`,
+          title: 'Buffer',
+          start: range.endLocal,
+          end: dayjs(range.endLocal).add(buffers.after, 'minute').toDate(),
+          backgroundColor: '#9ca3af',
+          className: 'buffer-event',
+          display: 'background'
+        });
+      }
+    });
+
+    return events;
+  }, [bookedRangesLocal, pendingRangesLocal, buffers]);
+
+  const timeOffEvents: FullCalendarEvent[] = useMemo(() => {
+    return timeOffRangesLocal.map((range, index) => ({
+      id: `time-off-${index}`,
+      title: 'Time off',
+      start: range.startLocal,
+      end: range.endLocal,
+      backgroundColor: '#f87171',
+      className: 'time-off-event',
+      display: 'background'
+    }));
+  }, [timeOffRangesLocal]);
+
   const selectedEvents: FullCalendarEvent[] = useMemo(() => {
     return selectedRangesLocal.map((range, index) => ({
       id: `selected-${index}`,
@@ -110,7 +177,7 @@ export default function AvailabilityGrid({
   }, [selectedRangesLocal]);
 
   // Combine all events
-  const allEvents = [...bookedEvents, ...pendingEvents, ...existingAvailabilityEvents, ...selectedEvents];
+  const allEvents = [...timeOffEvents, ...bookedEvents, ...pendingEvents, ...bufferEvents, ...existingAvailabilityEvents, ...selectedEvents];
 
   // Handle calendar time selection for drag/click
   const handleSelect = useCallback((selectInfo: any) => {
@@ -136,8 +203,27 @@ export default function AvailabilityGrid({
     }
   }, [onProposedRange]);
 
+  // The copy controls work on whatever is on screen: a week, or a single day in day view
+  const copyToNextWeeks = () => {
+    if (!visibleRange || !onCopyWeek) return;
+    onCopyWeek({
+      sourceStart: visibleRange.start,
+      sourceEnd: visibleRange.end,
+      weekOffsets: Array.from({ length: copyWeeks }, (_, i) => i + 1)
+    });
+  };
+
+  const copyFromPreviousWeek = () => {
+    if (!visibleRange || !onCopyWeek) return;
+    onCopyWeek({
+      sourceStart: dayjs(visibleRange.start).subtract(1, 'week').toDate(),
+      sourceEnd: dayjs(visibleRange.end).subtract(1, 'week').toDate(),
+      weekOffsets: [1]
+    });
+  };
+
   return (
-    <div className="availability-grid h-full">
+    <div className="availability-grid h-full flex flex-col">
       <style>
         {`
           .selected-event {
@@ -166,50 +252,93 @@ export default function AvailabilityGrid({
         `}
       </style>
       
-      <FullCalendar
-        ref={calendarRef}
-        plugins={[dayGridPlugin, timeGridPlugin, interactionPlugin, luxonPlugin]}
-        initialView={calendarView}
-        headerToolbar={{
-          left: 'prev,next today',
-          center: 'title',
-          right: 'timeGridDay,timeGridWeek'
-        }}
-        height="100%"
-        events={allEvents}
-        selectable={true}
-        selectMirror={true}
-        selectOverlap={false}
-        dayMaxEvents={true}
-        weekends={true}
-        editable={false}
-        droppable={false}
-        select={handleSelect}
-        slotMinTime="06:00:00"
-        slotMaxTime="23:00:00"
-        allDaySlot={false}
-        slotDuration="00:30:00"
-        slotLabelInterval="01:00:00"
-        slotLabelFormat={{
-          hour: 'numeric',
-          minute: '2-digit',
-          omitZeroMinute: false,
-          meridiem: 'short'
-        }}
-        selectConstraint="businessHours"
-        businessHours={{
-          daysOfWeek: [0, 1, 2, 3, 4, 5, 6], // All days
-          startTime: '06:00',
-          endTime: '23:00'
-        }}
-        timeZone={tutorTimezone}
-        viewDidMount={() => {
-          // Set initial week if provided
-          if (weekStartLocal && calendarRef.current) {
-            calendarRef.current.getApi().gotoDate(weekStartLocal);
-          }
-        }}
-      />
+      {onCopyWeek && (
+        <div className="flex flex-wrap items-center gap-2 pb-2">
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={copyFromPreviousWeek}
+            disabled={!visibleRange}
+            data-testid="button-copy-previous-week"
+          >
+            <History className="h-4 w-4 mr-1" />
+            Copy from previous week
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={copyToNextWeeks}
+            disabled={!visibleRange}
+            data-testid="button-copy-next-weeks"
+          >
+            <Copy className="h-4 w-4 mr-1" />
+            Copy to next
+          </Button>
+          <Select value={String(copyWeeks)} onValueChange={(value) => setCopyWeeks(Number(value))}>
+            <SelectTrigger className="h-9 w-28" data-testid="select-copy-weeks">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COPY_WEEK_OPTIONS.map(weeks => (
+                <SelectItem key={weeks} value={String(weeks)}>
+                  {weeks} week{weeks === 1 ? '' : 's'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex-1 min-h-0">
+        <FullCalendar
+          ref={calendarRef}
+          plugins={[dayGridPlugin, timeGridPlugin, interactionPlugin, luxonPlugin]}
+          initialView={calendarView}
+          headerToolbar={{
+            left: 'prev,next today',
+            center: 'title',
+            right: 'timeGridDay,timeGridWeek'
+          }}
+          height="100%"
+          events={allEvents}
+          selectable={true}
+          selectMirror={true}
+          selectOverlap={false}
+          dayMaxEvents={true}
+          weekends={true}
+          editable={false}
+          droppable={false}
+          select={handleSelect}
+          slotMinTime="06:00:00"
+          slotMaxTime="23:00:00"
+          allDaySlot={false}
+          slotDuration={{ minutes: slotGranularityMinutes }}
+          snapDuration={{ minutes: slotGranularityMinutes }}
+          slotLabelInterval="01:00:00"
+          slotLabelFormat={{
+            hour: 'numeric',
+            minute: '2-digit',
+            omitZeroMinute: false,
+            meridiem: 'short'
+          }}
+          selectConstraint="businessHours"
+          businessHours={{
+            daysOfWeek: [0, 1, 2, 3, 4, 5, 6], // All days
+            startTime: '06:00',
+            endTime: '23:00'
+          }}
+          timeZone={tutorTimezone}
+          datesSet={(info) => setVisibleRange({ start: info.start, end: info.end })}
+          viewDidMount={() => {
+            // Set initial week if provided
+            if (weekStartLocal && calendarRef.current) {
+              calendarRef.current.getApi().gotoDate(weekStartLocal);
+            }
+          }}
+        />
+      </div>
     </div>
   );
 }
\ No newline at end of file
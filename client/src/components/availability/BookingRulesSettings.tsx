@@ -0,0 +1,222 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { SlidersHorizontal } from "lucide-react";
+import {
+  BOOKING_DURATION_OPTIONS,
+  MAX_DAYS_AHEAD_OPTIONS,
+  MIN_NOTICE_HOUR_OPTIONS,
+  SLOT_GRANULARITY_OPTIONS,
+  bookingRulesFromTutor,
+  formatBookingDuration,
+  type BookingRules,
+} from "@shared/bookingRules";
+
+const NO_LIMIT = "none";
+const DAILY_CAP_OPTIONS = [1, 2, 3, 4, 5, 6, 8, 10];
+
+function formatNotice(hours: number) {
+  if (hours === 0) return "No minimum";
+  if (hours % 24 === 0) return `${hours / 24} day${hours === 24 ? "" : "s"}`;
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+const RULE_COLUMNS = "booking_min_notice_hours, booking_max_days_ahead, booking_allowed_durations, slot_granularity_minutes, booking_daily_cap";
+
+// Limits on when and how long students can book from the public booking page
+export function BookingRulesSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rules, isLoading } = useQuery({
+    queryKey: ["booking-rules"],
+    queryFn: async (): Promise<BookingRules> => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) {
+        throw new Error("User not authenticated or tutor record not found");
+      }
+
+      const { data, error } = await supabase
+        .from("tutors")
+        .select(RULE_COLUMNS)
+        .eq("id", tutorId)
+        .single();
+
+      if (error) {
+        console.error("Error fetching booking rules:", error);
+        throw error;
+      }
+
+      return bookingRulesFromTutor(data);
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: Record<string, number | number[] | null>) => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) {
+        throw new Error("User not authenticated or tutor record not found");
+      }
+
+      const { error } = await supabase
+        .from("tutors")
+        .update(updates)
+        .eq("id", tutorId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["booking-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["slot-granularity"] });
+      toast({
+        title: "Booking rules updated",
+        description: "Your public booking page now uses the new rules.",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update booking rules.",
+      });
+    },
+  });
+
+  const handleDurationToggle = (duration: number, allowed: boolean) => {
+    const current = rules?.allowedDurations || [];
+    const next = allowed ? [...current, duration].sort((a, b) => a - b) : current.filter(d => d !== duration);
+    if (next.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "At least one duration",
+        description: "Students need at least one session length to choose from.",
+      });
+      return;
+    }
+    updateMutation.mutate({ booking_allowed_durations: next });
+  };
+
+  const parseLimit = (value: string) => (value === NO_LIMIT ? null : Number(value));
+
+  const renderSelect = (
+    id: string,
+    label: string,
+    description: string,
+    value: string,
+    options: Array<{ value: string; label: string }>,
+    onChange: (value: string) => void
+  ) => (
+    <div className="flex items-center justify-between gap-4">
+      <div>
+        <Label htmlFor={id} className="font-medium">{label}</Label>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </div>
+      <Select value={value} onValueChange={onChange} disabled={updateMutation.isPending}>
+        <SelectTrigger id={id} className="w-40" data-testid={`select-${id}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(option => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <SlidersHorizontal className="h-5 w-5" />
+          Booking Rules
+        </CardTitle>
+        <CardDescription>
+          Control when students can book and which session lengths they can choose.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !rules ? (
+          <>
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </>
+        ) : (
+          <>
+            {renderSelect(
+              "booking-min-notice",
+              "Minimum notice",
+              "How far in advance a session has to be booked",
+              String(rules.minNoticeHours),
+              MIN_NOTICE_HOUR_OPTIONS.map(hours => ({ value: String(hours), label: formatNotice(hours) })),
+              (value) => updateMutation.mutate({ booking_min_notice_hours: Number(value) })
+            )}
+
+            {renderSelect(
+              "booking-max-days-ahead",
+              "Book up to",
+              "How far into the future students can book",
+              rules.maxDaysAhead === null ? NO_LIMIT : String(rules.maxDaysAhead),
+              [
+                { value: NO_LIMIT, label: "No limit" },
+                ...MAX_DAYS_AHEAD_OPTIONS.map(days => ({ value: String(days), label: `${days} days ahead` })),
+              ],
+              (value) => updateMutation.mutate({ booking_max_days_ahead: parseLimit(value) })
+            )}
+
+            {renderSelect(
+              "slot-granularity",
+              "Time slots",
+              "Start times step by this much; your calendar and availability grid use the same steps",
+              String(rules.slotGranularityMinutes),
+              SLOT_GRANULARITY_OPTIONS.map(minutes => ({ value: String(minutes), label: `${minutes} minutes` })),
+              (value) => updateMutation.mutate({ slot_granularity_minutes: Number(value) })
+            )}
+
+            {renderSelect(
+              "booking-daily-cap",
+              "Sessions per day",
+              "No more bookings once a day has this many sessions",
+              rules.dailyCap === null ? NO_LIMIT : String(rules.dailyCap),
+              [
+                { value: NO_LIMIT, label: "No limit" },
+                ...DAILY_CAP_OPTIONS.map(cap => ({ value: String(cap), label: `Up to ${cap}` })),
+              ],
+              (value) => updateMutation.mutate({ booking_daily_cap: parseLimit(value) })
+            )}
+
+            <div className="pt-4 border-t">
+              <Label className="font-medium">Session lengths</Label>
+              <p className="text-xs text-muted-foreground mb-3">Students choose from these durations</p>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {BOOKING_DURATION_OPTIONS.map(duration => (
+                  <div key={duration} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`duration-${duration}`}
+                      checked={rules.allowedDurations.includes(duration)}
+                      onCheckedChange={(checked) => handleDurationToggle(duration, checked === true)}
+                      disabled={updateMutation.isPending}
+                      data-testid={`checkbox-duration-${duration}`}
+                    />
+                    <Label htmlFor={`duration-${duration}`} className="text-sm font-normal">
+                      {formatBookingDuration(duration)}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,211 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ClipboardList } from "lucide-react";
+import type { BookingAutoAccept, BookingRequiredField, Tutor } from "@shared/schema";
+
+type BookingSettingsValues = Pick<Tutor, "booking_required_fields" | "booking_change_cutoff_hours" | "booking_auto_accept">;
+
+const FIELD_OPTIONS: Array<{ field: BookingRequiredField; label: string; description: string }> = [
+  {
+    field: "email",
+    label: "Require email",
+    description: "Students get a confirmation email and your answer to their request",
+  },
+  {
+    field: "phone",
+    label: "Require phone number",
+    description: "Shown with the request so you can reach the student",
+  },
+];
+
+const CHANGE_CUTOFF_OPTIONS = [0, 2, 6, 12, 24, 48, 72];
+
+const AUTO_ACCEPT_OPTIONS: Array<{ value: BookingAutoAccept; label: string }> = [
+  { value: "off", label: "Review every request" },
+  { value: "known_students", label: "My students only" },
+  { value: "everyone", label: "Everyone" },
+];
+
+function formatCutoff(hours: number) {
+  if (hours === 0) return "Until the session starts";
+  if (hours % 24 === 0) return `${hours / 24} day${hours === 24 ? "" : "s"} before`;
+  return `${hours} hours before`;
+}
+
+// What students fill in on the public booking page, which requests are confirmed automatically
+// and how late students can change a booking
+export function BookingSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["booking-settings"],
+    queryFn: async (): Promise<BookingSettingsValues> => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) {
+        throw new Error("User not authenticated or tutor record not found");
+      }
+
+      const { data, error } = await supabase
+        .from("tutors")
+        .select("booking_required_fields, booking_change_cutoff_hours, booking_auto_accept")
+        .eq("id", tutorId)
+        .single();
+
+      if (error) {
+        console.error("Error fetching booking settings:", error);
+        throw error;
+      }
+
+      return {
+        booking_required_fields: data.booking_required_fields || [],
+        booking_change_cutoff_hours: data.booking_change_cutoff_hours ?? 24,
+        booking_auto_accept: data.booking_auto_accept || "off",
+      };
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: Partial<BookingSettingsValues>) => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) {
+        throw new Error("User not authenticated or tutor record not found");
+      }
+
+      const { error } = await supabase
+        .from("tutors")
+        .update(updates)
+        .eq("id", tutorId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["booking-settings"] });
+      toast({
+        title: "Booking settings updated",
+        description: "Your public booking page now uses the new settings.",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update booking settings.",
+      });
+    },
+  });
+
+  const handleToggle = (field: BookingRequiredField, required: boolean) => {
+    const current = settings?.booking_required_fields || [];
+    const next = required ? [...current, field] : current.filter(f => f !== field);
+    updateMutation.mutate({ booking_required_fields: next });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ClipboardList className="h-5 w-5" />
+          Booking Settings
+        </CardTitle>
+        <CardDescription>
+          Students always enter their name. Email and phone are optional unless you require them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <>
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </>
+        ) : (
+          <>
+            {FIELD_OPTIONS.map(option => (
+              <div key={option.field} className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor={`require-${option.field}`} className="font-medium">
+                    {option.label}
+                  </Label>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </div>
+                <Switch
+                  id={`require-${option.field}`}
+                  checked={settings?.booking_required_fields?.includes(option.field) ?? false}
+                  onCheckedChange={(checked) => handleToggle(option.field, checked)}
+                  disabled={updateMutation.isPending}
+                  data-testid={`switch-require-${option.field}`}
+                />
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between gap-4 pt-4 border-t">
+              <div>
+                <Label htmlFor="booking-auto-accept" className="font-medium">
+                  Auto-accept requests
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  {settings?.booking_auto_accept === "known_students"
+                    ? "Requests matching an active student's email or name are confirmed right away"
+                    : settings?.booking_auto_accept === "everyone"
+                      ? "Requests that fit your availability are confirmed right away; new names become students"
+                      : "Every request waits in Pending Requests for you"}
+                </p>
+              </div>
+              <Select
+                value={settings?.booking_auto_accept || "off"}
+                onValueChange={(value) => updateMutation.mutate({ booking_auto_accept: value as BookingAutoAccept })}
+                disabled={updateMutation.isPending}
+              >
+                <SelectTrigger id="booking-auto-accept" className="w-48" data-testid="select-booking-auto-accept">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_ACCEPT_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="booking-change-cutoff" className="font-medium">
+                  Cancel or reschedule online
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Students get a link to change their booking until this cutoff
+                </p>
+              </div>
+              <Select
+                value={String(settings?.booking_change_cutoff_hours ?? 24)}
+                onValueChange={(value) => updateMutation.mutate({ booking_change_cutoff_hours: Number(value) })}
+                disabled={updateMutation.isPending}
+              >
+                <SelectTrigger id="booking-change-cutoff" className="w-48" data-testid="select-booking-change-cutoff">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHANGE_CUTOFF_OPTIONS.map(hours => (
+                    <SelectItem key={hours} value={String(hours)}>
+                      {formatCutoff(hours)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
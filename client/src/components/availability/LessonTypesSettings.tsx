@@ -0,0 +1,364 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useLessonTypes } from "@/hooks/useLessonTypes";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import { cn, formatCurrency } from "@/lib/utils";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { BookOpen, Plus, Trash2 } from "lucide-react";
+import { WEEKDAY_LABELS } from "@shared/recurrence";
+import { BOOKING_DURATION_OPTIONS, formatBookingDuration } from "@shared/bookingRules";
+import { LESSON_TYPE_COLORS, isLessonTypeRestricted, type LessonType, type LessonTypeInput } from "@shared/lessonTypes";
+
+// Monday first, as tutors plan their week
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const TIME_OPTIONS = Array.from({ length: 48 }, (_, i) =>
+  `${String(Math.floor(i / 2)).padStart(2, "0")}:${i % 2 === 0 ? "00" : "30"}`
+);
+
+const ANY_TIME = "any";
+
+const hhmm = (time: string) => time.slice(0, 5);
+
+function describeRestriction(lessonType: LessonType): string {
+  const days = lessonType.available_weekdays
+    ? WEEK_ORDER.filter(day => lessonType.available_weekdays!.includes(day)).map(day => WEEKDAY_LABELS[day]).join(", ")
+    : "Every day";
+  const from = lessonType.available_from ? hhmm(lessonType.available_from) : null;
+  const until = lessonType.available_until ? hhmm(lessonType.available_until) : null;
+
+  if (from && until) return `${days}, ${from}–${until}`;
+  if (from) return `${days}, from ${from}`;
+  if (until) return `${days}, until ${until}`;
+  return days;
+}
+
+// Lessons the tutor offers, each with its own length, price and color
+export function LessonTypesSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const lessonTypes = useLessonTypes();
+
+  const [name, setName] = useState("");
+  const [duration, setDuration] = useState(60);
+  const [price, setPrice] = useState("");
+  const [color, setColor] = useState(LESSON_TYPE_COLORS[0]);
+  const [isPublic, setIsPublic] = useState(true);
+  const [weekdays, setWeekdays] = useState<number[]>([]); // empty = every day
+  const [from, setFrom] = useState(ANY_TIME);
+  const [until, setUntil] = useState(ANY_TIME);
+
+  // Fetch tutor's currency preference
+  const { data: tutorCurrency = 'USD' } = useQuery({
+    queryKey: ['tutor-currency'],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('tutors')
+        .select('currency')
+        .eq('user_id', user.id)
+        .single();
+
+      if (error) {
+        console.error('Error fetching tutor currency:', error);
+        return 'USD'; // Fallback to USD on error
+      }
+
+      return data?.currency || 'USD';
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["lesson-types"] });
+  };
+
+  const onError = (description: string) => (error: any) => {
+    console.error(description, error);
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description,
+    });
+  };
+
+  const resetForm = () => {
+    setName("");
+    setDuration(60);
+    setPrice("");
+    setColor(LESSON_TYPE_COLORS[0]);
+    setIsPublic(true);
+    setWeekdays([]);
+    setFrom(ANY_TIME);
+    setUntil(ANY_TIME);
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (lessonType: LessonTypeInput) => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) {
+        throw new Error("User not authenticated or tutor record not found");
+      }
+
+      const { error } = await supabase
+        .from("lesson_types")
+        .insert({ tutor_id: tutorId, ...lessonType });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, lessonType) => {
+      invalidate();
+      toast({
+        title: "Lesson type added",
+        description: lessonType.is_public
+          ? `Students can now book "${lessonType.name}".`
+          : `"${lessonType.name}" is available when you schedule sessions.`,
+      });
+      resetForm();
+    },
+    onError: onError("Failed to add the lesson type."),
+  });
+
+  const togglePublicMutation = useMutation({
+    mutationFn: async ({ id, is_public }: { id: string; is_public: boolean }) => {
+      const { error } = await supabase
+        .from("lesson_types")
+        .update({ is_public })
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to update the lesson type."),
+  });
+
+  // Sessions already booked as this type keep their duration, rate and color
+  const deleteMutation = useMutation({
+    mutationFn: async (lessonTypeId: string) => {
+      const { error } = await supabase
+        .from("lesson_types")
+        .delete()
+        .eq("id", lessonTypeId);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to remove the lesson type."),
+  });
+
+  const handleAdd = () => {
+    const parsedPrice = price.trim() === "" ? 0 : parseFloat(price);
+    if (!name.trim()) {
+      toast({ variant: "destructive", title: "Missing name", description: "Give the lesson type a name." });
+      return;
+    }
+    if (isNaN(parsedPrice) || parsedPrice < 0) {
+      toast({ variant: "destructive", title: "Invalid price", description: "The price must be zero or more." });
+      return;
+    }
+    if (from !== ANY_TIME && until !== ANY_TIME && until <= from) {
+      toast({ variant: "destructive", title: "Invalid hours", description: "The end time must be after the start time." });
+      return;
+    }
+
+    addMutation.mutate({
+      name: name.trim(),
+      duration,
+      price: parsedPrice,
+      color,
+      is_public: isPublic,
+      available_weekdays: weekdays.length > 0 ? weekdays : null,
+      available_from: from === ANY_TIME ? null : from,
+      available_until: until === ANY_TIME ? null : until,
+    });
+  };
+
+  const toggleDay = (day: number) => {
+    setWeekdays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <BookOpen className="h-5 w-5" />
+          Lesson Types
+        </CardTitle>
+        <CardDescription>
+          Choosing a lesson type fills in the session's duration, rate and color. Public types replace the duration choice on your booking page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {lessonTypes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No lesson types yet. Students pick from your allowed durations instead.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {lessonTypes.map(lessonType => (
+              <div key={lessonType.id} className="flex items-center gap-3 py-2">
+                <span className="h-3 w-3 rounded-full shrink-0" style={{ backgroundColor: lessonType.color }} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{lessonType.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBookingDuration(lessonType.duration)} · {Number(lessonType.price) > 0 ? formatCurrency(Number(lessonType.price), tutorCurrency) : "Free"}
+                    {isLessonTypeRestricted(lessonType) && ` · ${describeRestriction(lessonType)}`}
+                  </p>
+                </div>
+                <Badge variant={lessonType.is_public ? "secondary" : "outline"}>
+                  {lessonType.is_public ? "Public" : "Private"}
+                </Badge>
+                <Switch
+                  checked={lessonType.is_public}
+                  onCheckedChange={(checked) => togglePublicMutation.mutate({ id: lessonType.id, is_public: checked })}
+                  disabled={togglePublicMutation.isPending}
+                  aria-label={`Offer ${lessonType.name} on the booking page`}
+                  data-testid={`switch-lesson-type-public-${lessonType.id}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(lessonType.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label={`Remove ${lessonType.name}`}
+                  data-testid={`button-remove-lesson-type-${lessonType.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 p-4 border rounded-lg">
+          <Label className="font-medium">Add lesson type</Label>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Trial lesson"
+              maxLength={80}
+              className="w-48"
+              data-testid="input-lesson-type-name"
+            />
+            <Select value={duration.toString()} onValueChange={(value) => setDuration(parseInt(value, 10))}>
+              <SelectTrigger className="w-32" data-testid="select-lesson-type-duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BOOKING_DURATION_OPTIONS.map(option => (
+                  <SelectItem key={option} value={option.toString()}>{formatBookingDuration(option)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder={`Price (${tutorCurrency})`}
+              className="w-36"
+              data-testid="input-lesson-type-price"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            {LESSON_TYPE_COLORS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setColor(option)}
+                className={cn(
+                  "h-7 w-7 rounded-full border-2 transition-all",
+                  color === option ? "border-gray-900 dark:border-gray-100 scale-110" : "border-transparent"
+                )}
+                style={{ backgroundColor: option }}
+                aria-label={`Use color ${option}`}
+                aria-pressed={color === option}
+              />
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Bookable on (none selected = every day)</p>
+            <div className="flex gap-1 flex-wrap">
+              {WEEK_ORDER.map(day => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  className={cn(
+                    "h-8 w-10 rounded-md border text-xs font-medium transition-colors",
+                    weekdays.includes(day)
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "bg-background hover:bg-accent"
+                  )}
+                  aria-pressed={weekdays.includes(day)}
+                  data-testid={`button-lesson-type-weekday-${day}`}
+                >
+                  {WEEKDAY_LABELS[day]}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={from} onValueChange={setFrom}>
+                <SelectTrigger className="w-32" data-testid="select-lesson-type-from">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_TIME}>Any time</SelectItem>
+                  {TIME_OPTIONS.map(time => (
+                    <SelectItem key={time} value={time}>{time}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">to</span>
+              <Select value={until} onValueChange={setUntil}>
+                <SelectTrigger className="w-32" data-testid="select-lesson-type-until">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_TIME}>Any time</SelectItem>
+                  {TIME_OPTIONS.filter(time => from === ANY_TIME || time > from).map(time => (
+                    <SelectItem key={time} value={time}>{time}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="lesson-type-public"
+                checked={isPublic}
+                onCheckedChange={setIsPublic}
+                data-testid="switch-lesson-type-public"
+              />
+              <Label htmlFor="lesson-type-public" className="text-sm font-normal">Offer on booking page</Label>
+            </div>
+            <Button
+              size="sm"
+              onClick={handleAdd}
+              disabled={addMutation.isPending}
+              data-testid="button-add-lesson-type"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,393 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { CancelSessionModal } from "@/components/modals/cancel-session-modal";
+import { ConflictWarningDialog } from "@/components/sessions/ConflictWarningDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTimeOff } from "@/hooks/useTimeOff";
+import { useTutorBuffers } from "@/hooks/useTutorBuffers";
+import { triggerCalendarSync } from "@/hooks/useGoogleCalendarSync";
+import { useTimezone } from "@/contexts/TimezoneContext";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import { checkSessionConflicts } from "@/services/sessionConflicts";
+import { ensureSeriesMaterialized } from "@/services/sessionSeries";
+import { moveSessionsPastTimeOff } from "@/services/timeOff";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CalendarX, CalendarClock, Plus, Trash2, XCircle } from "lucide-react";
+import { rangesOverlap, type SessionConflict, type TimeRange } from "@shared/conflicts";
+import { shiftPastTimeOff, timeOffDates, timeOffForDates, type TimeOff } from "@shared/timeOff";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+interface AffectedSession {
+  id: string;
+  session_start: string;
+  session_end: string;
+  status: string | null;
+  unassigned_name: string | null;
+  google_calendar_event_id: string | null;
+  recurrence_id: string | null;
+  student_name: string | null;
+}
+
+interface SessionMove {
+  id: string;
+  recurrenceId: string | null;
+  range: TimeRange;
+}
+
+// Date ranges with no lessons. Hides availability inside them and lists sessions that were
+// already booked there so they can be cancelled or moved in one go.
+export function TimeOffSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { tutorTimezone } = useTimezone();
+  const tz = tutorTimezone || "UTC";
+  const timeOff = useTimeOff();
+  const buffers = useTutorBuffers();
+
+  const [firstDate, setFirstDate] = useState("");
+  const [lastDate, setLastDate] = useState("");
+  const [reason, setReason] = useState("");
+  const [cancelBlock, setCancelBlock] = useState<TimeOff | null>(null);
+  const [pendingMove, setPendingMove] = useState<{ moves: SessionMove[]; conflicts: SessionConflict[] } | null>(null);
+
+  const upcoming = timeOff.filter(block => dayjs.utc(block.ends_at).isAfter(dayjs.utc()));
+
+  // Scheduled sessions that haven't started yet and fall inside an upcoming block
+  const { data: affectedByBlock = {} } = useQuery({
+    queryKey: ["time-off-sessions", upcoming.map(block => block.id)],
+    enabled: upcoming.length > 0,
+    queryFn: async (): Promise<Record<string, AffectedSession[]>> => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) return {};
+
+      const lastEnd = upcoming.reduce((latest, block) => (block.ends_at > latest ? block.ends_at : latest), upcoming[0].ends_at);
+      await ensureSeriesMaterialized(tutorId, lastEnd);
+
+      const { data, error } = await supabase
+        .from("sessions")
+        .select("id, session_start, session_end, status, unassigned_name, google_calendar_event_id, recurrence_id, students(name)")
+        .eq("tutor_id", tutorId)
+        .gte("session_start", dayjs.utc().toISOString())
+        .lt("session_start", lastEnd)
+        .or("status.is.null,status.neq.cancelled")
+        .order("session_start", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching sessions during time off:", error);
+        throw error;
+      }
+
+      const sessions: AffectedSession[] = (data || []).map((session: any) => ({
+        id: session.id,
+        session_start: session.session_start,
+        session_end: session.session_end,
+        status: session.status,
+        unassigned_name: session.unassigned_name,
+        google_calendar_event_id: session.google_calendar_event_id,
+        recurrence_id: session.recurrence_id,
+        student_name: session.students?.name ?? null,
+      }));
+
+      return Object.fromEntries(upcoming.map(block => [
+        block.id,
+        sessions.filter(session => rangesOverlap(
+          { start: session.session_start, end: session.session_end },
+          { start: block.starts_at, end: block.ends_at }
+        )),
+      ]));
+    },
+  });
+
+  const invalidateSessions = () => {
+    queryClient.invalidateQueries({ queryKey: ["time-off-sessions"] });
+    queryClient.invalidateQueries({ queryKey: ["calendar-sessions"] });
+    queryClient.invalidateQueries({ queryKey: ["upcoming-sessions"] });
+    queryClient.invalidateQueries({ queryKey: ["all-upcoming-sessions"] });
+  };
+
+  const onError = (description: string) => (error: any) => {
+    console.error(description, error);
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description,
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) {
+        throw new Error("User not authenticated or tutor record not found");
+      }
+
+      const { error } = await supabase
+        .from("time_off")
+        .insert({
+          tutor_id: tutorId,
+          ...timeOffForDates(firstDate, lastDate || firstDate, tz),
+          reason: reason.trim() || null,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["time-off"] });
+      toast({
+        title: "Time off added",
+        description: "Students can't book you during this time.",
+      });
+      setFirstDate("");
+      setLastDate("");
+      setReason("");
+    },
+    onError: onError("Failed to add time off."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (blockId: string) => {
+      const { error } = await supabase
+        .from("time_off")
+        .delete()
+        .eq("id", blockId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["time-off"] });
+    },
+    onError: onError("Failed to remove time off."),
+  });
+
+  // All sessions move in one server call, or none do
+  const moveMutation = useMutation({
+    mutationFn: async (moves: SessionMove[]) => {
+      const { data, error } = await moveSessionsPastTimeOff(moves.map(move => move.id));
+      if (error || !data) throw error ?? new Error("Failed to move sessions");
+
+      for (const session of data.sessions) {
+        triggerCalendarSync(session.id);
+      }
+      return data;
+    },
+    onSuccess: ({ sessions, skippedIds }) => {
+      invalidateSessions();
+      const count = sessions.length;
+      const skipped = skippedIds.length > 0
+        ? ` ${skippedIds.length} recurring lesson${skippedIds.length === 1 ? " was" : "s were"} left in place because the student already has a lesson that week; cancel ${skippedIds.length === 1 ? "it" : "them"} instead.`
+        : "";
+      toast({
+        title: count === 1 ? "Session moved" : "Sessions moved",
+        description: `${count} session${count === 1 ? "" : "s"} moved to the first free week after your time off.${skipped}`,
+      });
+    },
+    onError: onError("Failed to move sessions."),
+  });
+
+  const handleAdd = () => {
+    if (lastDate && lastDate < firstDate) {
+      toast({ variant: "destructive", title: "Invalid dates", description: "The last day can't be before the first day." });
+      return;
+    }
+    addMutation.mutate();
+  };
+
+  // Same weekday and time, as many weeks later as it takes to clear every block. A recurring
+  // lesson that lands on its own series' next lesson is left in place by the server, so that
+  // isn't shown as a conflict.
+  const handleMove = async (sessions: AffectedSession[]) => {
+    const moves: SessionMove[] = sessions.map(session => ({
+      id: session.id,
+      recurrenceId: session.recurrence_id,
+      range: shiftPastTimeOff({ start: session.session_start, end: session.session_end }, timeOff, tz),
+    }));
+
+    const found = await checkSessionConflicts({
+      ranges: moves.map(move => move.range),
+      excludeIds: sessions.map(session => session.id),
+      buffers,
+    });
+    const staysInPlace = (move: SessionMove) => !!move.recurrenceId && found.some(conflict =>
+      conflict.kind === "overlap" && conflict.proposed.start === move.range.start && conflict.session.recurrence_id === move.recurrenceId
+    );
+    const moving = moves.filter(move => !staysInPlace(move));
+    const conflicts = found.filter(conflict => moving.some(move => move.range.start === conflict.proposed.start));
+
+    if (conflicts.length > 0) {
+      setPendingMove({ moves, conflicts });
+      return;
+    }
+    moveMutation.mutate(moves);
+  };
+
+  const formatDates = (block: TimeOff) => {
+    const { first, last } = timeOffDates(block, tz);
+    return first === last
+      ? dayjs(first).format("ddd, MMM D")
+      : `${dayjs(first).format("ddd, MMM D")} – ${dayjs(last).format("ddd, MMM D")}`;
+  };
+
+  const cancelSessions = cancelBlock ? affectedByBlock[cancelBlock.id] || [] : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CalendarX className="h-5 w-5" />
+          Time Off
+        </CardTitle>
+        <CardDescription>
+          Whole days when you don't teach. They override your weekly hours and one-off slots.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {upcoming.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No upcoming time off.</p>
+        ) : (
+          <div className="space-y-3">
+            {upcoming.map(block => {
+              const sessions = affectedByBlock[block.id] || [];
+              return (
+                <div key={block.id} className="p-4 border rounded-lg space-y-3" data-testid={`time-off-${block.id}`}>
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium">{formatDates(block)}</p>
+                      {block.reason && <p className="text-xs text-muted-foreground">{block.reason}</p>}
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(block.id)}
+                      disabled={deleteMutation.isPending}
+                      aria-label={`Remove time off ${formatDates(block)}`}
+                      data-testid={`button-remove-time-off-${block.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {sessions.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="destructive">
+                          {sessions.length} session{sessions.length === 1 ? "" : "s"} booked
+                        </Badge>
+                      </div>
+                      <ul className="text-sm text-muted-foreground space-y-1">
+                        {sessions.map(session => (
+                          <li key={session.id}>
+                            {dayjs.utc(session.session_start).tz(tz).format("ddd, MMM D HH:mm")} ·{" "}
+                            {session.student_name || session.unassigned_name || "Unassigned"}
+                            {session.status === "pending" && " (pending)"}
+                          </li>
+                        ))}
+                      </ul>
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleMove(sessions)}
+                          disabled={moveMutation.isPending}
+                          data-testid={`button-move-time-off-sessions-${block.id}`}
+                        >
+                          <CalendarClock className="h-4 w-4 mr-1" />
+                          Move after time off
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setCancelBlock(block)}
+                          data-testid={`button-cancel-time-off-sessions-${block.id}`}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Cancel all
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-3 p-4 border rounded-lg">
+          <Label className="font-medium">Add time off</Label>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="date"
+              value={firstDate}
+              min={dayjs().format("YYYY-MM-DD")}
+              onChange={(e) => setFirstDate(e.target.value)}
+              className="w-40"
+              aria-label="First day"
+              data-testid="input-time-off-first"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              value={lastDate}
+              min={firstDate || dayjs().format("YYYY-MM-DD")}
+              onChange={(e) => setLastDate(e.target.value)}
+              className="w-40"
+              aria-label="Last day"
+              data-testid="input-time-off-last"
+            />
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (only you see this)"
+              maxLength={100}
+              className="w-56"
+              data-testid="input-time-off-reason"
+            />
+            <Button
+              size="sm"
+              onClick={handleAdd}
+              disabled={!firstDate || addMutation.isPending}
+              data-testid="button-add-time-off"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      {cancelBlock && (
+        <CancelSessionModal
+          isOpen={!!cancelBlock}
+          onClose={() => setCancelBlock(null)}
+          sessionId={cancelSessions[0]?.id ?? ""}
+          studentName=""
+          isBulk={true}
+          bulkSessionIds={cancelSessions.map(session => session.id)}
+          bulkGoogleEventIds={cancelSessions.map(session => session.google_calendar_event_id || "")}
+          onSuccess={invalidateSessions}
+        />
+      )}
+
+      <ConflictWarningDialog
+        open={!!pendingMove}
+        conflicts={pendingMove?.conflicts ?? []}
+        timezone={tz}
+        onConfirm={() => {
+          const moves = pendingMove?.moves;
+          setPendingMove(null);
+          if (moves) moveMutation.mutate(moves);
+        }}
+        onCancel={() => setPendingMove(null)}
+      />
+    </Card>
+  );
+}
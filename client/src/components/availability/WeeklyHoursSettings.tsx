@@ -0,0 +1,387 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useTimezone } from "@/contexts/TimezoneContext";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import { getTimezoneDisplayName } from "@/lib/timezones";
+import { cn } from "@/lib/utils";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CalendarOff, Plus, Repeat, X } from "lucide-react";
+import { WEEKDAY_LABELS } from "@shared/recurrence";
+import {
+  templateRangesOverlap,
+  type AvailabilityException,
+  type AvailabilityTemplate,
+} from "@shared/availabilityTemplates";
+import dayjs from "dayjs";
+
+// Monday first, as tutors plan their week
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const TIME_OPTIONS = Array.from({ length: 48 }, (_, i) =>
+  `${String(Math.floor(i / 2)).padStart(2, "0")}:${i % 2 === 0 ? "00" : "30"}`
+);
+
+const hhmm = (time: string) => time.slice(0, 5);
+
+interface WeeklyHours {
+  templates: AvailabilityTemplate[];
+  exceptions: AvailabilityException[];
+}
+
+// Regular weekly hours that open booking windows automatically, plus dates they're switched off
+export function WeeklyHoursSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { tutorTimezone } = useTimezone();
+
+  const [newDays, setNewDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [newStart, setNewStart] = useState("16:00");
+  const [newEnd, setNewEnd] = useState("20:00");
+  const [exceptionDate, setExceptionDate] = useState("");
+  const [exceptionNote, setExceptionNote] = useState("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["availability-templates"],
+    queryFn: async (): Promise<WeeklyHours> => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) {
+        throw new Error("User not authenticated or tutor record not found");
+      }
+
+      const [templatesResult, exceptionsResult] = await Promise.all([
+        supabase
+          .from("availability_templates")
+          .select("*")
+          .eq("tutor_id", tutorId)
+          .order("start_time", { ascending: true }),
+        supabase
+          .from("availability_exceptions")
+          .select("*")
+          .eq("tutor_id", tutorId)
+          .gte("exception_date", dayjs().format("YYYY-MM-DD"))
+          .order("exception_date", { ascending: true }),
+      ]);
+
+      if (templatesResult.error || exceptionsResult.error) {
+        const error = templatesResult.error || exceptionsResult.error;
+        console.error("Error fetching weekly hours:", error);
+        throw error;
+      }
+
+      return {
+        templates: templatesResult.data as AvailabilityTemplate[],
+        exceptions: exceptionsResult.data as AvailabilityException[],
+      };
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["availability-templates"] });
+  };
+
+  const onError = (description: string) => (error: any) => {
+    console.error(description, error);
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description,
+    });
+  };
+
+  const addTemplatesMutation = useMutation({
+    mutationFn: async () => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) {
+        throw new Error("User not authenticated or tutor record not found");
+      }
+
+      const { error } = await supabase
+        .from("availability_templates")
+        .insert(newDays.map(weekday => ({
+          tutor_id: tutorId,
+          weekday,
+          start_time: newStart,
+          end_time: newEnd,
+        })));
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Weekly hours added",
+        description: `${newStart}–${newEnd} on ${WEEK_ORDER.filter(d => newDays.includes(d)).map(d => WEEKDAY_LABELS[d]).join(", ")}.`,
+      });
+    },
+    onError: onError("Failed to add weekly hours."),
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const { error } = await supabase
+        .from("availability_templates")
+        .delete()
+        .eq("id", templateId);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to remove weekly hours."),
+  });
+
+  const addExceptionMutation = useMutation({
+    mutationFn: async () => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) {
+        throw new Error("User not authenticated or tutor record not found");
+      }
+
+      const { error } = await supabase
+        .from("availability_exceptions")
+        .upsert({
+          tutor_id: tutorId,
+          exception_date: exceptionDate,
+          note: exceptionNote.trim() || null,
+        }, { onConflict: "tutor_id,exception_date" });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Day off added",
+        description: `Your weekly hours won't apply on ${dayjs(exceptionDate).format("dddd, MMMM D")}.`,
+      });
+      setExceptionDate("");
+      setExceptionNote("");
+    },
+    onError: onError("Failed to add the day off."),
+  });
+
+  const deleteExceptionMutation = useMutation({
+    mutationFn: async (exceptionId: string) => {
+      const { error } = await supabase
+        .from("availability_exceptions")
+        .delete()
+        .eq("id", exceptionId);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to remove the day off."),
+  });
+
+  const templates = data?.templates || [];
+  const exceptions = data?.exceptions || [];
+
+  const handleAddTemplates = () => {
+    if (newDays.length === 0) {
+      toast({ variant: "destructive", title: "No days selected", description: "Pick at least one day of the week." });
+      return;
+    }
+    if (newEnd <= newStart) {
+      toast({ variant: "destructive", title: "Invalid hours", description: "The end time must be after the start time." });
+      return;
+    }
+
+    const range = { start_time: newStart, end_time: newEnd };
+    const clashing = newDays.filter(day =>
+      templates.some(template => template.weekday === day && templateRangesOverlap(template, range))
+    );
+    if (clashing.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Overlapping hours",
+        description: `These hours overlap existing ones on ${clashing.map(d => WEEKDAY_LABELS[d]).join(", ")}.`,
+      });
+      return;
+    }
+
+    addTemplatesMutation.mutate();
+  };
+
+  const toggleDay = (day: number) => {
+    setNewDays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Repeat className="h-5 w-5" />
+          Weekly Hours
+        </CardTitle>
+        <CardDescription>
+          Repeats every week in {tutorTimezone ? getTimezoneDisplayName(tutorTimezone) : "your timezone"}. Students can book these hours without you adding slots,
+          alongside any one-off slots below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <>
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </>
+        ) : (
+          <>
+            <div className="divide-y">
+              {WEEK_ORDER.map(day => {
+                const dayTemplates = templates.filter(template => template.weekday === day);
+                return (
+                  <div key={day} className="flex items-center gap-4 py-2">
+                    <span className="w-12 text-sm font-medium">{WEEKDAY_LABELS[day]}</span>
+                    <div className="flex flex-wrap gap-2">
+                      {dayTemplates.length === 0 ? (
+                        <span className="text-sm text-muted-foreground">Unavailable</span>
+                      ) : (
+                        dayTemplates.map(template => (
+                          <Badge key={template.id} variant="secondary" className="gap-1">
+                            {hhmm(template.start_time)}–{hhmm(template.end_time)}
+                            <button
+                              type="button"
+                              onClick={() => deleteTemplateMutation.mutate(template.id)}
+                              disabled={deleteTemplateMutation.isPending}
+                              className="ml-1 rounded-sm opacity-70 hover:opacity-100"
+                              aria-label={`Remove ${WEEKDAY_LABELS[day]} ${hhmm(template.start_time)}–${hhmm(template.end_time)}`}
+                              data-testid={`button-remove-template-${template.id}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-3 p-4 border rounded-lg">
+              <Label className="font-medium">Add hours</Label>
+              <div className="flex gap-1 flex-wrap">
+                {WEEK_ORDER.map(day => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className={cn(
+                      "h-8 w-10 rounded-md border text-xs font-medium transition-colors",
+                      newDays.includes(day)
+                        ? "bg-primary text-primary-foreground border-primary"
+                        : "bg-background hover:bg-accent"
+                    )}
+                    aria-pressed={newDays.includes(day)}
+                    data-testid={`button-template-weekday-${day}`}
+                  >
+                    {WEEKDAY_LABELS[day]}
+                  </button>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={newStart} onValueChange={setNewStart}>
+                  <SelectTrigger className="w-28" data-testid="select-template-start">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIME_OPTIONS.map(time => (
+                      <SelectItem key={time} value={time}>{time}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-muted-foreground">to</span>
+                <Select value={newEnd} onValueChange={setNewEnd}>
+                  <SelectTrigger className="w-28" data-testid="select-template-end">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIME_OPTIONS.filter(time => time > newStart).map(time => (
+                      <SelectItem key={time} value={time}>{time}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  onClick={handleAddTemplates}
+                  disabled={addTemplatesMutation.isPending}
+                  data-testid="button-add-template"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <Label className="font-medium flex items-center gap-2">
+                  <CalendarOff className="h-4 w-4" />
+                  Days off
+                </Label>
+                <p className="text-xs text-muted-foreground">Your weekly hours don't apply on these dates</p>
+              </div>
+
+              {exceptions.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {exceptions.map(exception => (
+                    <Badge key={exception.id} variant="outline" className="gap-1">
+                      {dayjs(exception.exception_date).format("ddd, MMM D")}
+                      {exception.note && <span className="text-muted-foreground">· {exception.note}</span>}
+                      <button
+                        type="button"
+                        onClick={() => deleteExceptionMutation.mutate(exception.id)}
+                        disabled={deleteExceptionMutation.isPending}
+                        className="ml-1 rounded-sm opacity-70 hover:opacity-100"
+                        aria-label={`Remove day off ${exception.exception_date}`}
+                        data-testid={`button-remove-exception-${exception.id}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  type="date"
+                  value={exceptionDate}
+                  min={dayjs().format("YYYY-MM-DD")}
+                  onChange={(e) => setExceptionDate(e.target.value)}
+                  className="w-40"
+                  data-testid="input-exception-date"
+                />
+                <Input
+                  value={exceptionNote}
+                  onChange={(e) => setExceptionNote(e.target.value)}
+                  placeholder="Note (optional)"
+                  maxLength={100}
+                  className="w-48"
+                  data-testid="input-exception-note"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => addExceptionMutation.mutate()}
+                  disabled={!exceptionDate || addExceptionMutation.isPending}
+                  data-testid="button-add-exception"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add day off
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
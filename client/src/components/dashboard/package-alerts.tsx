@@ -0,0 +1,91 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Link } from "wouter";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import { useTimezone } from "@/contexts/TimezoneContext";
+import { todayPaymentDate } from "@/services/payments";
+import { formatPackageRemaining } from "@/components/students/StudentPackages";
+import { packageAlert, type StudentPackage } from "@shared/studentPackages";
+
+type PackageWithStudent = StudentPackage & { students: { name: string } | null };
+
+interface PackageAlertsProps {
+  currency?: string;
+}
+
+// Packages that are running low or about to expire; renders nothing while there are none
+export function PackageAlerts({ currency = 'USD' }: PackageAlertsProps) {
+  const { tutorTimezone } = useTimezone();
+  const today = todayPaymentDate(tutorTimezone || undefined);
+
+  const { data: packages = [] } = useQuery({
+    queryKey: ['student-packages', 'with-students'],
+    queryFn: async (): Promise<PackageWithStudent[]> => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) return [];
+
+      const { data, error } = await supabase
+        .from('student_packages')
+        .select('*, students (name)')
+        .eq('tutor_id', tutorId);
+
+      if (error) {
+        console.error('Error fetching package alerts:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const alerts = packages
+    .map(pkg => ({ pkg, alert: packageAlert(pkg, today) }))
+    .filter(({ alert }) => alert !== null)
+    .sort((a, b) => (a.pkg.expires_on ?? '9999-12-31').localeCompare(b.pkg.expires_on ?? '9999-12-31'));
+
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="dark:bg-card dark:shadow-md dark:border-gray-700" data-testid="card-package-alerts">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2 dark:text-gray-100">
+          📦 Prepaid Packages
+          <Badge variant="outline" className="border-amber-300 text-amber-700">
+            {alerts.length}
+          </Badge>
+        </CardTitle>
+        <Button variant="ghost" size="sm" asChild className="dark:hover:bg-gray-700 dark:text-gray-300">
+          <Link href="/students">Students</Link>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {alerts.map(({ pkg, alert }) => (
+            <div key={pkg.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
+              <div className="w-2 h-2 rounded-full bg-amber-500" />
+              <div className="flex-1">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium text-foreground">
+                    {pkg.students?.name || 'Unknown Student'}
+                  </p>
+                  <Badge variant="outline" className="text-xs text-amber-600 border-amber-300">
+                    {alert === 'low_balance' ? 'Running low' : `Expires ${pkg.expires_on}`}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {pkg.name} · {formatPackageRemaining(pkg, currency)}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
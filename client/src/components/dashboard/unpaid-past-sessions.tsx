@@ -4,15 +4,15 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { formatCurrency } from "@/lib/utils";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
 import { getCurrentTutorId } from "@/lib/tutorHelpers";
-import { useToast } from "@/hooks/use-toast";
 import { Coins, AlertTriangle, TrendingUp } from "lucide-react";
 import { Link } from "wouter";
 import { formatUtcToTutorTimezone, calculateDurationMinutes } from "@/lib/dateUtils";
 import { useTimezone } from "@/contexts/TimezoneContext";
-import { ConfirmActionModal } from "@/components/ui/confirm-action-modal";
+import { RecordPaymentModal } from "@/components/modals/record-payment-modal";
+import { isPartiallyPaid, sessionBalance } from "@shared/payments";
 
 interface UnpaidSession {
   id: string;
@@ -23,6 +23,7 @@ interface UnpaidSession {
   duration: number;
   rate: number;
   paid: boolean;
+  amount_paid: number;
   created_at: string;
 }
 
@@ -48,13 +49,13 @@ type ViewMode = 'overdue' | 'expected';
 type ExpectedTimeframe = 'next30days' | 'nextMonth' | 'allFuture';
 
 export function PaymentOverview({ currency = 'USD', limit = 0, showViewAll = true }: PaymentOverviewProps) {
-  const { toast } = useToast();
   const queryClient = useQueryClient();
   const { tutorTimezone } = useTimezone();
 
   // Toggle state for view mode and expected earnings timeframe
   const [viewMode, setViewMode] = useState<ViewMode>('overdue');
   const [expectedTimeframe, setExpectedTimeframe] = useState<ExpectedTimeframe>('next30days');
+  const [paymentSession, setPaymentSession] = useState<UnpaidSession | null>(null);
 
   // Fetch unpaid past sessions (overdue) - ALWAYS fetch all for total calculation
   const { data: unpaidSessions, isLoading: isLoadingUnpaid, error: unpaidError } = useQuery({
@@ -78,6 +79,7 @@ export function PaymentOverview({ currency = 'USD', limit = 0, showViewAll = tru
           duration,
           rate,
           paid,
+          amount_paid,
           created_at,
           students (
             name
@@ -181,48 +183,6 @@ export function PaymentOverview({ currency = 'USD', limit = 0, showViewAll = tru
     };
   }, [queryClient, limit]);
 
-  // Mark as paid mutation
-  const markAsPaidMutation = useMutation({
-    mutationFn: async (sessionId: string) => {
-      const { error } = await supabase
-        .from('sessions')
-        .update({ paid: true })
-        .eq('id', sessionId);
-
-      if (error) {
-        console.error('Error marking session as paid:', error);
-        throw error;
-      }
-    },
-    onSuccess: () => {
-      console.log('✅ UnpaidSessions: Payment marked as paid, invalidating caches');
-      toast({
-        title: "Payment recorded",
-        description: "The session has been marked as paid.",
-      });
-      // Use exact: false to catch all variations of the query key
-      queryClient.invalidateQueries({ 
-        queryKey: ['unpaid-past-sessions'], 
-        exact: false 
-      });
-      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
-      queryClient.invalidateQueries({ queryKey: ['upcoming-sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['earnings-sessions'] });
-    },
-    onError: (error) => {
-      console.error('Error marking session as paid:', error);
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Failed to update payment status. Please try again.",
-      });
-    },
-  });
-
-  const handleMarkAsPaid = (sessionId: string, studentName: string) => {
-    markAsPaidMutation.mutate(sessionId);
-  };
-
   const getDaysOverdue = (sessionStart: string) => {
     const sessionDateTime = new Date(sessionStart);
     const now = new Date();
@@ -231,9 +191,9 @@ export function PaymentOverview({ currency = 'USD', limit = 0, showViewAll = tru
     return diffDays;
   };
 
-  // Calculate total from ALL unpaid sessions, not just displayed ones
+  // Calculate total from ALL unpaid sessions, not just displayed ones (less partial payments)
   const totalOverdue = unpaidSessions?.allSessions?.reduce((sum, session) => {
-    return sum + (session.duration / 60) * session.rate;
+    return sum + sessionBalance(session);
   }, 0) || 0;
 
   // Use display sessions for rendering
@@ -317,7 +277,7 @@ export function PaymentOverview({ currency = 'USD', limit = 0, showViewAll = tru
           <div className="space-y-3">
             {Array.isArray(displaySessions) ? displaySessions.map((session) => {
               const daysOverdue = getDaysOverdue(session.session_start);
-              const earnings = (session.duration / 60) * session.rate;
+              const balance = sessionBalance(session);
 
               return (
                 <div key={session.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
@@ -330,6 +290,11 @@ export function PaymentOverview({ currency = 'USD', limit = 0, showViewAll = tru
                       <Badge variant="destructive" className="text-xs">
                         {daysOverdue} days overdue
                       </Badge>
+                      {isPartiallyPaid(session) && (
+                        <Badge variant="outline" className="text-xs text-amber-600 border-amber-300">
+                          Partly paid
+                        </Badge>
+                      )}
                     </div>
                     <p className="text-xs text-muted-foreground">
                       {tutorTimezone
@@ -344,27 +309,17 @@ export function PaymentOverview({ currency = 'USD', limit = 0, showViewAll = tru
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="text-xs text-orange-600 bg-orange-100 px-2 py-1 rounded-full font-medium">
-                      {formatCurrency(earnings, currency)}
+                      {formatCurrency(balance, currency)}
                     </span>
-                    <ConfirmActionModal
-                      trigger={
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="h-6 text-xs px-2 text-green-600 border-green-200 hover:bg-green-50"
-                          disabled={markAsPaidMutation.isPending}
-                        >
-                          <Coins className="h-3 w-3 mr-1" />
-                          Mark Paid
-                        </Button>
-                      }
-                      title={`Mark session with ${session.student_name} as paid?`}
-                      description="This will move the session out of overdue payments."
-                      confirmText="Confirm"
-                      cancelText="Cancel"
-                      onConfirm={() => handleMarkAsPaid(session.id, session.student_name)}
-                      disabled={markAsPaidMutation.isPending}
-                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-6 text-xs px-2 text-green-600 border-green-200 hover:bg-green-50"
+                      onClick={() => setPaymentSession(session)}
+                    >
+                      <Coins className="h-3 w-3 mr-1" />
+                      Mark Paid
+                    </Button>
                   </div>
                 </div>
               );
@@ -372,6 +327,13 @@ export function PaymentOverview({ currency = 'USD', limit = 0, showViewAll = tru
           </div>
         )}
       </CardContent>
+
+      <RecordPaymentModal
+        isOpen={!!paymentSession}
+        onClose={() => setPaymentSession(null)}
+        sessionIds={paymentSession ? [paymentSession.id] : []}
+        studentName={paymentSession?.student_name}
+      />
     </Card>
   );
 }
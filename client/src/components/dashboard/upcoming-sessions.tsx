@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -12,6 +12,7 @@ import { X, Coins, Repeat } from "lucide-react";
 import { formatUtcToTutorTimezone, calculateDurationMinutes } from "@/lib/dateUtils";
 import { useTimezone } from "@/contexts/TimezoneContext";
 import { ConfirmActionModal } from "@/components/ui/confirm-action-modal";
+import { RecordPaymentModal } from "@/components/modals/record-payment-modal";
 
 interface Session {
   id: string;
@@ -36,6 +37,7 @@ export function UpcomingSessions({ currency = 'USD', limit = 5, showViewAll = tr
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { tutorTimezone } = useTimezone();
+  const [paymentSession, setPaymentSession] = useState<Session | null>(null);
 
   const { data: sessions, isLoading, error } = useQuery({
     queryKey: ['upcoming-sessions', limit],
@@ -141,70 +143,21 @@ export function UpcomingSessions({ currency = 'USD', limit = 5, showViewAll = tr
     },
   });
 
-  // Mark as paid mutation
-  const markAsPaidMutation = useMutation({
-    mutationFn: async (sessionId: string) => {
-      const { error } = await supabase
-        .from('sessions')
-        .update({ paid: true })
-        .eq('id', sessionId);
-
-      if (error) {
-        console.error('Error marking session as paid:', error);
-        throw error;
-      }
-    },
-    onSuccess: () => {
-      toast({
-        title: "Payment recorded",
-        description: "The session has been marked as paid.",
-      });
-      // Refresh all relevant queries
-      queryClient.invalidateQueries({ queryKey: ['upcoming-sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
-      queryClient.invalidateQueries({ queryKey: ['earnings-sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['calendar-sessions'] });
-    },
-    onError: (error) => {
-      console.error('Error marking session as paid:', error);
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Failed to update payment status. Please try again.",
-      });
-    },
-  });
-
   const handleCancelSession = (sessionId: string) => {
     cancelSessionMutation.mutate(sessionId);
   };
 
-  const handleMarkAsPaid = (sessionId: string, studentName: string) => {
-    // if (window.confirm(`Mark session with ${studentName} as paid?`)) {
-    //   markAsPaidMutation.mutate(sessionId);
-    // }
-    const onConfirm = () => {
-      markAsPaidMutation.mutate(sessionId);
-    };
-
-    return (
-      <ConfirmActionModal
-        title="Mark session as paid?"
-        description={`Mark session with ${studentName} as paid?`}
-        onConfirm={onConfirm}
-      >
-        <Button
-          variant="outline"
-          size="sm"
-          className="h-6 text-xs px-2 text-green-600 dark:text-green-400 border-green-200 dark:border-green-700 hover:bg-green-50 dark:hover:bg-green-900/20"
-          disabled={markAsPaidMutation.isPending}
-        >
-          <Coins className="h-3 w-3 mr-1" />
-          Mark Paid
-        </Button>
-      </ConfirmActionModal>
-    );
-  };
+  const renderMarkAsPaid = (session: Session) => (
+    <Button
+      variant="outline"
+      size="sm"
+      className="h-6 text-xs px-2 text-green-600 dark:text-green-400 border-green-200 dark:border-green-700 hover:bg-green-50 dark:hover:bg-green-900/20"
+      onClick={() => setPaymentSession(session)}
+    >
+      <Coins className="h-3 w-3 mr-1" />
+      Mark Paid
+    </Button>
+  );
 
   if (isLoading) {
     return (
@@ -346,7 +299,7 @@ export function UpcomingSessions({ currency = 'USD', limit = 5, showViewAll = tr
                       Paid
                     </span>
                   ) : (
-                    handleMarkAsPaid(session.id, session.student_name)
+                    renderMarkAsPaid(session)
                   )}
                   <ConfirmActionModal
                     trigger={
@@ -373,6 +326,13 @@ export function UpcomingSessions({ currency = 'USD', limit = 5, showViewAll = tr
           })}
         </div>
       </CardContent>
+
+      <RecordPaymentModal
+        isOpen={!!paymentSession}
+        onClose={() => setPaymentSession(null)}
+        sessionIds={paymentSession ? [paymentSession.id] : []}
+        studentName={paymentSession?.student_name}
+      />
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,52 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useStudentRateChanges } from "@/hooks/useStudentRateChanges";
+import { formatCurrency } from "@/lib/utils";
+import { ArrowRight } from "lucide-react";
+import dayjs from "dayjs";
+
+interface RateChangesCardProps {
+  currency: string;
+  className?: string;
+}
+
+// When each student's price changed, so jumps in the earnings trend can be explained
+export function RateChangesCard({ currency, className }: RateChangesCardProps) {
+  const changes = useStudentRateChanges().filter(change => change.previousRate !== null);
+  const today = dayjs().format('YYYY-MM-DD');
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={className} data-testid="card-rate-changes">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">🏷️ Rate Changes</CardTitle>
+        <CardDescription>Hourly rates per student and when they took effect.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y">
+          {changes.map(({ entry, previousRate, studentName }) => (
+            <div key={entry.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{studentName}</p>
+                <p className="text-xs text-muted-foreground">
+                  {dayjs(entry.effective_from).format('MMM D, YYYY')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {entry.effective_from > today && <Badge variant="outline">Upcoming</Badge>}
+                <span className="text-muted-foreground">{formatCurrency(previousRate!, currency)}</span>
+                <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                <span className={Number(entry.rate) >= previousRate! ? "font-medium text-green-600" : "font-medium text-red-600"}>
+                  {formatCurrency(Number(entry.rate), currency)}/h
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,8 +8,15 @@ import dayGridPlugin from '@fullcalendar/daygrid';
 import timeGridPlugin from '@fullcalendar/timegrid';
 import interactionPlugin from '@fullcalendar/interaction';
 import luxonPlugin from '@fullcalendar/luxon3';
-import AvailabilityGrid, { LocalRange } from '@/components/availability/AvailabilityGrid';
-import { createAvailabilitySlots, normalizeToSlotGranularity, validateRangesNoOverlap } from '@/services/availability';
+import AvailabilityGrid, { LocalRange, type WeekCopyRequest } from '@/components/availability/AvailabilityGrid';
+import {
+  createAvailabilitySlots,
+  normalizeToSlotGranularity,
+  previewWeekCopy,
+  validateRangesNoOverlap,
+  type WeekCopyConflictReason,
+  type WeekCopyPreview
+} from '@/services/availability';
 import {
   Dialog,
   DialogContent,
@@ -25,6 +32,9 @@ import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabaseClient';
 import { getCurrentTutorId } from '@/lib/tutorHelpers';
 import { useTimezone } from '@/contexts/TimezoneContext';
+import { useTutorBuffers } from '@/hooks/useTutorBuffers';
+import { useTimeOff } from '@/hooks/useTimeOff';
+import { useSlotGranularity } from '@/hooks/useSlotGranularity';
 import { useOnboarding } from '@/contexts/OnboardingContext';
 import {
   Clock,
@@ -45,6 +55,13 @@ import { isWithinInterval, parseISO } from 'date-fns';
 dayjs.extend(utc);
 dayjs.extend(timezone);
 
+const COPY_CONFLICT_LABELS: Record<WeekCopyConflictReason, string> = {
+  past: 'In the past',
+  time_off: 'Time off',
+  session: 'Booked session',
+  availability: 'Already available',
+};
+
 // Mobile detection hook
 const useIsMobile = () => {
   const [isMobile, setIsMobile] = useState(false);
@@ -134,9 +151,13 @@ export default function AddSlotCalendarModal({
   const [isFullScreen, setIsFullScreen] = useState(false);
   const [editingSlot, setEditingSlot] = useState<BookingSlot | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [copyPreview, setCopyPreview] = useState<WeekCopyPreview | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { tutorTimezone } = useTimezone();
+  const buffers = useTutorBuffers();
+  const timeOff = useTimeOff();
+  const slotGranularity = useSlotGranularity();
   const { refreshProgress } = useOnboarding();
   const calendarRef = useRef<FullCalendar>(null);
   const isMobile = useIsMobile();
@@ -313,24 +334,29 @@ export default function AddSlotCalendarModal({
       }));
   }, [bookingSlots, tutorTimezone]);
 
+  const timeOffRangesLocal: LocalRange[] = useMemo(() => {
+    if (!timeOff.length || !tutorTimezone) return [];
+    return timeOff.map(block => ({
+      startLocal: dayjs.utc(block.starts_at).tz(tutorTimezone).toDate(),
+      endLocal: dayjs.utc(block.ends_at).tz(tutorTimezone).toDate()
+    }));
+  }, [timeOff, tutorTimezone]);
+
   // Multi-select handlers
   const overlaps = useCallback((a: LocalRange, b: LocalRange) => 
     a.startLocal < b.endLocal && b.startLocal < a.endLocal, []);
 
   const collidesWithSystemRanges = useCallback((r: LocalRange) => {
-    const allSystemRanges = [
-      ...bookedRangesLocal,
-      ...pendingRangesLocal,
-      ...existingAvailabilityLocal,
-    ];
-    return allSystemRanges.some((x) => overlaps(r, x));
-  }, [bookedRangesLocal, pendingRangesLocal, existingAvailabilityLocal, overlaps]);
+    // Sessions block their buffer time as well; existing availability only itself
+    const sessionCheck = validateRangesNoOverlap([r], [...bookedRangesLocal, ...pendingRangesLocal], buffers);
+    return !sessionCheck.valid || existingAvailabilityLocal.some((x) => overlaps(r, x));
+  }, [bookedRangesLocal, pendingRangesLocal, existingAvailabilityLocal, overlaps, buffers]);
 
   const collidesWithSelected = useCallback((r: LocalRange) =>
     selectedSlots.some((x) => overlaps(r, x)), [selectedSlots, overlaps]);
 
   const onProposedRange = useCallback((r: LocalRange) => {
-    const norm = normalizeToSlotGranularity(r);
+    const norm = normalizeToSlotGranularity(r, slotGranularity);
     if (norm.endLocal <= norm.startLocal) {
       toast({
         variant: "destructive",
@@ -339,6 +365,14 @@ export default function AddSlotCalendarModal({
       });
       return;
     }
+    if (timeOffRangesLocal.some((x) => overlaps(norm, x))) {
+      toast({
+        variant: "destructive",
+        title: "Time Off",
+        description: "That range falls within your time off."
+      });
+      return;
+    }
     if (collidesWithSystemRanges(norm)) {
       toast({
         variant: "destructive",
@@ -367,18 +401,72 @@ export default function AddSlotCalendarModal({
       return;
     }
     setSelectedSlots(prev => [...prev, norm].sort((a, b) => +a.startLocal - +b.startLocal));
-  }, [selectedSlots, collidesWithSystemRanges, collidesWithSelected, toast]);
+  }, [selectedSlots, slotGranularity, timeOffRangesLocal, overlaps, collidesWithSystemRanges, collidesWithSelected, toast]);
 
   const removeSelected = useCallback((idx: number) =>
     setSelectedSlots(prev => prev.filter((_, i) => i !== idx)), []);
 
   const clearSelection = useCallback(() => setSelectedSlots([]), []);
 
-  // Check for overlaps with existing sessions
+  // Saved and still-unsaved ranges in the source period, copied forward; conflicts are previewed first
+  const handleCopyWeek = useCallback((request: WeekCopyRequest) => {
+    const inSource = (r: LocalRange) => r.startLocal >= request.sourceStart && r.startLocal < request.sourceEnd;
+    const sourceRanges = [...existingAvailabilityLocal, ...selectedSlots].filter(inSource);
+
+    if (sourceRanges.length === 0) {
+      toast({
+        title: "Nothing to copy",
+        description: "There's no availability in that week yet."
+      });
+      return;
+    }
+
+    setCopyPreview(previewWeekCopy(
+      sourceRanges,
+      request.weekOffsets,
+      tutorTimezone || 'UTC',
+      {
+        availability: existingAvailabilityLocal,
+        sessions: [...bookedRangesLocal, ...pendingRangesLocal],
+        timeOff: timeOffRangesLocal
+      },
+      buffers,
+      slotGranularity
+    ));
+  }, [existingAvailabilityLocal, selectedSlots, bookedRangesLocal, pendingRangesLocal, timeOffRangesLocal, tutorTimezone, buffers, slotGranularity, toast]);
+
+  const handleConfirmCopy = async () => {
+    if (!copyPreview || copyPreview.ranges.length === 0) return;
+
+    setIsSubmitting(true);
+    try {
+      // One insert for every week
+      const { error } = await createAvailabilitySlots(copyPreview.ranges, tutorTimezone || 'UTC');
+      if (error) throw error;
+
+      toast({
+        title: "Availability copied",
+        description: `Added ${copyPreview.ranges.length} slot${copyPreview.ranges.length > 1 ? 's' : ''}.`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["booking-slots"] });
+      onSlotAdded();
+      setCopyPreview(null);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to copy availability. Please try again.",
+      });
+    }
+    setIsSubmitting(false);
+  };
+
+  // Check for overlaps with existing sessions (including the tutor's buffer time)
   const checkForOverlap = (start: Date, end: Date): boolean => {
     return existingSessions.some(session => {
-      const sessionStart = new Date(session.session_start);
-      const sessionEnd = new Date(session.session_end);
+      const sessionStart = dayjs(session.session_start).subtract(buffers.before, 'minute').toDate();
+      const sessionEnd = dayjs(session.session_end).add(buffers.after, 'minute').toDate();
       
       return (
         (start >= sessionStart && start < sessionEnd) ||
@@ -838,6 +926,10 @@ export default function AddSlotCalendarModal({
                     existingAvailabilityLocal={existingAvailabilityLocal}
                     selectedRangesLocal={selectedSlots}
                     onProposedRange={onProposedRange}
+                    buffers={buffers}
+                    timeOffRangesLocal={timeOffRangesLocal}
+                    onCopyWeek={handleCopyWeek}
+                    slotGranularityMinutes={slotGranularity}
                     tutorTimezone={tutorTimezone || 'UTC'}
                   />
                 </div>
@@ -904,6 +996,57 @@ export default function AddSlotCalendarModal({
       </DialogContent>
 
       {/* Edit Slot Modal */}
+      <Dialog open={!!copyPreview} onOpenChange={(isOpen) => !isOpen && setCopyPreview(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Copy Availability</DialogTitle>
+          </DialogHeader>
+
+          {copyPreview && (
+            <div className="space-y-4">
+              <p className="text-sm">
+                {copyPreview.ranges.length === 0
+                  ? "None of the copied slots fit. Nothing will be added."
+                  : `${copyPreview.ranges.length} slot${copyPreview.ranges.length > 1 ? 's' : ''} will be added.`}
+              </p>
+
+              {copyPreview.conflicts.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-amber-700 dark:text-amber-300">
+                    {copyPreview.conflicts.length} skipped:
+                  </p>
+                  <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+                    {copyPreview.conflicts.map((conflict, index) => (
+                      <li key={index} className="flex items-center justify-between gap-2">
+                        <span>
+                          {dayjs(conflict.range.startLocal).tz(tutorTimezone || 'UTC').format('ddd, MMM D HH:mm')}–
+                          {dayjs(conflict.range.endLocal).tz(tutorTimezone || 'UTC').format('HH:mm')}
+                        </span>
+                        <Badge variant="outline">{COPY_CONFLICT_LABELS[conflict.reason]}</Badge>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="button" variant="outline" onClick={() => setCopyPreview(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  type="button"
+                  onClick={handleConfirmCopy}
+                  disabled={isSubmitting || copyPreview.ranges.length === 0}
+                  data-testid="button-confirm-copy-week"
+                >
+                  {isSubmitting ? "Adding..." : `Add ${copyPreview.ranges.length} Slot${copyPreview.ranges.length === 1 ? '' : 's'}`}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={showEditModal} onOpenChange={setShowEditModal}>
         <DialogContent className="max-w-md">
           <DialogHeader>
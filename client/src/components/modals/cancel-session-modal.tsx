@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
 import { useToast } from "@/hooks/use-toast";
@@ -19,7 +19,9 @@ import { AlertTriangle, User, UserX } from "lucide-react";
 import { triggerCalendarDelete } from "@/hooks/useGoogleCalendarSync";
 import { getCurrentTutorId } from "@/lib/tutorHelpers";
 import { invalidateSessionCountCache } from "@/lib/queryOptimizer";
-import type { CancellationReason, CancellationSource } from "@shared/schema";
+import { cancelSessionSeries } from "@/services/sessionSeries";
+import { SeriesScopePicker } from "@/components/sessions/SeriesScopePicker";
+import type { CancellationReason, CancellationSource, SeriesEditScope } from "@shared/schema";
 
 interface CancelSessionModalProps {
   isOpen: boolean;
@@ -31,6 +33,8 @@ interface CancelSessionModalProps {
   isBulk?: boolean;
   bulkSessionIds?: string[];
   bulkGoogleEventIds?: string[];
+  recurrenceId?: string; // offers this / following / all scopes for a recurring session
+  defaultScope?: SeriesEditScope;
   onSuccess?: () => void;
 }
 
@@ -44,6 +48,8 @@ export function CancelSessionModal({
   isBulk = false,
   bulkSessionIds = [],
   bulkGoogleEventIds = [],
+  recurrenceId,
+  defaultScope = "this",
   onSuccess,
 }: CancelSessionModalProps) {
   const { toast } = useToast();
@@ -52,7 +58,15 @@ export function CancelSessionModal({
   const [cancellationNote, setCancellationNote] = useState("");
   const [excludeFromRate, setExcludeFromRate] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [scope, setScope] = useState<SeriesEditScope>(defaultScope);
 
+  useEffect(() => {
+    if (isOpen) {
+      setScope(defaultScope);
+    }
+  }, [isOpen, defaultScope]);
+
+  const isSeriesScope = !isBulk && !!recurrenceId && scope !== "this";
   const sessionCount = isBulk ? bulkSessionIds.length : 1;
 
   const handleCancel = async () => {
@@ -68,28 +82,45 @@ export function CancelSessionModal({
     setIsSubmitting(true);
 
     try {
-      const now = new Date().toISOString();
-      const source: CancellationSource = isBulk ? "bulk" : "single";
-      const idsToCancel = isBulk ? bulkSessionIds : [sessionId];
+      let cancelledCount = sessionCount;
+
+      if (isSeriesScope && recurrenceId) {
+        // Cancels the rows and ends the series in one server-side transaction,
+        // so materializing the series later can't bring the lessons back
+        const { data, error } = await cancelSessionSeries(recurrenceId, {
+          scope: scope as "following" | "all",
+          fromSessionId: scope === "following" ? sessionId : undefined,
+          cancellationReason,
+          cancellationNote: cancellationNote || null,
+          excludeFromRate,
+        });
 
-      const { error } = await supabase
-        .from("sessions")
-        .update({
-          status: "cancelled",
-          cancellation_reason: cancellationReason,
-          cancelled_at: now,
-          cancellation_note: cancellationNote || null,
-          cancellation_source: source,
-          bulk_excluded: excludeFromRate,
-        })
-        .in("id", idsToCancel);
+        if (error) throw error;
+        cancelledCount = data?.cancelledCount ?? 0;
+      } else {
+        const now = new Date().toISOString();
+        const source: CancellationSource = isBulk ? "bulk" : "single";
+        const idsToCancel = isBulk ? bulkSessionIds : [sessionId];
+
+        const { error } = await supabase
+          .from("sessions")
+          .update({
+            status: "cancelled",
+            cancellation_reason: cancellationReason,
+            cancelled_at: now,
+            cancellation_note: cancellationNote || null,
+            cancellation_source: source,
+            bulk_excluded: excludeFromRate,
+          })
+          .in("id", idsToCancel);
 
-      if (error) throw error;
+        if (error) throw error;
 
-      const eventIdsToDelete = isBulk ? bulkGoogleEventIds : (googleCalendarEventId ? [googleCalendarEventId] : []);
-      for (const eventId of eventIdsToDelete) {
-        if (eventId) {
-          triggerCalendarDelete(eventId);
+        const eventIdsToDelete = isBulk ? bulkGoogleEventIds : (googleCalendarEventId ? [googleCalendarEventId] : []);
+        for (const eventId of eventIdsToDelete) {
+          if (eventId) {
+            triggerCalendarDelete(eventId);
+          }
         }
       }
 
@@ -113,9 +144,9 @@ export function CancelSessionModal({
       }
 
       toast({
-        title: isBulk ? "Sessions Cancelled" : "Session Cancelled",
-        description: isBulk
-          ? `${sessionCount} sessions have been cancelled.`
+        title: isBulk || isSeriesScope ? "Sessions Cancelled" : "Session Cancelled",
+        description: isBulk || isSeriesScope
+          ? `${cancelledCount} sessions have been cancelled.`
           : `The session with ${studentName} has been cancelled.`,
       });
 
@@ -137,6 +168,7 @@ export function CancelSessionModal({
     setCancellationReason("");
     setCancellationNote("");
     setExcludeFromRate(false);
+    setScope(defaultScope);
     onClose();
   };
 
@@ -146,16 +178,22 @@ export function CancelSessionModal({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <AlertTriangle className="h-5 w-5 text-orange-500" />
-            {isBulk ? `Cancel ${sessionCount} Sessions` : "Cancel Session"}
+            {isBulk ? `Cancel ${sessionCount} Sessions` : isSeriesScope ? "Cancel Recurring Sessions" : "Cancel Session"}
           </DialogTitle>
           <DialogDescription>
             {isBulk
               ? `You are about to cancel ${sessionCount} sessions. Please indicate who is cancelling.`
-              : `Cancel the session with ${studentName}. This action helps track cancellation patterns.`}
+              : isSeriesScope
+                ? `Cancel the sessions with ${studentName} in this series. Paid sessions are kept.`
+                : `Cancel the session with ${studentName}. This action helps track cancellation patterns.`}
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-6 py-4">
+          {!isBulk && recurrenceId && (
+            <SeriesScopePicker value={scope} onChange={setScope} label="Which sessions?" />
+          )}
+
           <div className="space-y-3">
             <Label className="text-sm font-medium">Who is cancelling?</Label>
             <RadioGroup
@@ -242,8 +280,10 @@ export function CancelSessionModal({
                 Exclude from cancellation rate
               </Label>
               <p className="text-xs text-muted-foreground">
-                {sessionCount === 1 
+                {sessionCount === 1 && !isSeriesScope
                   ? "This session won't count toward cancellation statistics"
+                  : isSeriesScope
+                  ? "These sessions won't count toward cancellation statistics"
                   : `These ${sessionCount} sessions won't count toward cancellation statistics`}
               </p>
             </div>
@@ -269,6 +309,8 @@ export function CancelSessionModal({
               ? "Cancelling..."
               : isBulk
               ? `Cancel ${sessionCount} Sessions`
+              : isSeriesScope
+              ? "Cancel Sessions"
               : "Cancel Session"}
           </Button>
         </DialogFooter>
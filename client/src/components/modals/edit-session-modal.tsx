@@ -35,7 +35,10 @@ import { TimePicker } from "@/components/ui/time-picker";
 import { useTimezone } from "@/contexts/TimezoneContext";
 import { formatUtcToTutorTimezone, calculateDurationMinutes } from "@/lib/dateUtils";
 import { getCurrentTutorId } from "@/lib/tutorHelpers";
-import { triggerCalendarDelete } from "@/hooks/useGoogleCalendarSync";
+import { triggerCalendarDelete, triggerCalendarSync } from "@/hooks/useGoogleCalendarSync";
+import { deleteSessionSeries, updateSessionSeries } from "@/services/sessionSeries";
+import { SeriesScopePicker } from "@/components/sessions/SeriesScopePicker";
+import type { SeriesEditScope } from "@shared/schema";
 import { invalidateSessionCountCache } from "@/lib/queryOptimizer";
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
@@ -81,6 +84,7 @@ export function EditSessionModal({ open, onOpenChange, session, isRecurring = fa
   const [rateInput, setRateInput] = useState("");
   const [userModifiedFields, setUserModifiedFields] = useState<Set<string>>(new Set());
   const [prefillNote, setPrefillNote] = useState<string | null>(null);
+  const [scope, setScope] = useState<SeriesEditScope>(isRecurring ? 'following' : 'this');
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -239,6 +243,7 @@ export function EditSessionModal({ open, onOpenChange, session, isRecurring = fa
       });
 
       // Set initial state
+      setScope(isRecurring && session.recurrence_id ? 'following' : 'this');
       setRateInput(initialRate.toString());
       setUserModifiedFields(new Set());
       setPrefillNote(null);
@@ -277,81 +282,43 @@ export function EditSessionModal({ open, onOpenChange, session, isRecurring = fa
     }
 
     try {
-      if (isRecurring && session.recurrence_id) {
-        // For recurring sessions, fetch all future sessions and update each with new time
-        console.log('📅 Bulk updating future sessions in series:', {
-          recurrence_id: session.recurrence_id,
-          session_start_threshold: session.session_start,
-          updates: {
-            time: data.time,
-            duration: data.duration,
-            rate: data.rate,
-            color: data.color
-          }
+      if (scope !== 'this' && session.recurrence_id) {
+        // Only send what actually changed, so e.g. a color change doesn't split the series
+        const originalTime = formatUtcToTutorTimezone(session.session_start, tutorTimezone, 'HH:mm');
+        const changes = {
+          ...(data.student_id !== (session.student_id || "") && { studentId: data.student_id }),
+          ...(data.time !== originalTime && { time: data.time }),
+          ...(data.duration !== session.duration && { duration: data.duration }),
+          ...(data.rate !== Number(session.rate) && { rate: data.rate }),
+          ...(data.color !== (session.color || "#3B82F6") && { color: data.color }),
+        };
+
+        // The server splits or updates the series in one transaction; past sessions are left as they are
+        const { data: result, error } = await updateSessionSeries(session.recurrence_id, {
+          scope,
+          fromSessionId: scope === 'following' ? session.id : undefined,
+          changes,
         });
 
-        // First, fetch all future sessions in the series
-        const { data: futureSessions, error: fetchError } = await supabase
-          .from('sessions')
-          .select('id, session_start')
-          .eq('recurrence_id', session.recurrence_id)
-          .gte('session_start', session.session_start)
-          .order('session_start', { ascending: true });
-
-        if (fetchError) {
-          console.error('Error fetching future sessions:', fetchError);
+        if (error) {
+          console.error('Error updating recurring sessions:', error);
           toast({
             variant: "destructive",
             title: "Error",
-            description: "Failed to fetch future sessions. Please try again.",
+            description: error.message || "Failed to update recurring sessions. Please try again.",
           });
           return;
         }
 
-        // Update each session individually with the new time
-        for (const futureSession of futureSessions || []) {
-          // Extract the date from the existing session_start
-          const sessionDate = dayjs.utc(futureSession.session_start).tz(tutorTimezone).format('YYYY-MM-DD');
-          
-          // Create new start time by combining the date with the new time
-          const newStartUTC = dayjs.tz(`${sessionDate} ${data.time}`, tutorTimezone).utc();
-          const newEndUTC = newStartUTC.add(data.duration, 'minutes');
-
-          console.log('🕐 Updating session time:', {
-            session_id: futureSession.id,
-            original_start: futureSession.session_start,
-            session_date: sessionDate,
-            new_time: data.time,
-            new_start_utc: newStartUTC.toISOString(),
-            new_end_utc: newEndUTC.toISOString()
-          });
-
-          const { error: updateError } = await supabase
-            .from('sessions')
-            .update({
-              student_id: data.student_id,
-              session_start: newStartUTC.toISOString(),
-              session_end: newEndUTC.toISOString(),
-              duration: data.duration,
-              rate: data.rate,
-              color: data.color,
-            })
-            .eq('id', futureSession.id);
-
-          if (updateError) {
-            console.error('Error updating session:', updateError);
-            toast({
-              variant: "destructive",
-              title: "Error",
-              description: `Failed to update session ${futureSession.id}. Please try again.`,
-            });
-            return;
-          }
+        for (const updated of result?.sessions ?? []) {
+          triggerCalendarSync(updated.id);
         }
 
         toast({
-          title: "Future Sessions Updated",
-          description: "All future sessions in the series have been updated successfully.",
+          title: scope === 'following' ? "Following Sessions Updated" : "Series Updated",
+          description: scope === 'following'
+            ? "This and all following sessions in the series have been updated."
+            : "All upcoming sessions in the series have been updated.",
         });
       } else {
         // For single session, update with time change
@@ -440,6 +407,16 @@ export function EditSessionModal({ open, onOpenChange, session, isRecurring = fa
   const deleteSessionMutation = useMutation({
     mutationFn: async () => {
       if (!session) throw new Error('No session to delete');
+
+      if (scope !== 'this' && session.recurrence_id) {
+        // Calendar events of the removed sessions are cleaned up by the server
+        const { data, error } = await deleteSessionSeries(
+          session.recurrence_id,
+          scope === 'following' ? session.id : undefined
+        );
+        if (error) throw error;
+        return { session, deletedCount: data?.deletedCount ?? 0 };
+      }
       
       const { error } = await supabase
         .from('sessions')
@@ -448,11 +425,11 @@ export function EditSessionModal({ open, onOpenChange, session, isRecurring = fa
 
       if (error) throw error;
       
-      return session;
+      return { session, deletedCount: 1 };
     },
-    onSuccess: async (deletedSession) => {
+    onSuccess: async ({ session: deletedSession, deletedCount }) => {
       // Delete Google Calendar event if exists (non-blocking)
-      if (deletedSession.google_calendar_event_id) {
+      if (scope === 'this' && deletedSession.google_calendar_event_id) {
         triggerCalendarDelete(deletedSession.google_calendar_event_id);
       }
       
@@ -467,8 +444,10 @@ export function EditSessionModal({ open, onOpenChange, session, isRecurring = fa
       }
       
       toast({
-        title: "Session deleted",
-        description: "The session has been successfully deleted.",
+        title: deletedCount === 1 ? "Session deleted" : "Sessions deleted",
+        description: deletedCount === 1
+          ? "The session has been successfully deleted."
+          : `${deletedCount} sessions have been deleted.`,
       });
       onOpenChange(false);
     },
@@ -496,7 +475,7 @@ export function EditSessionModal({ open, onOpenChange, session, isRecurring = fa
       <DialogContent className="sm:max-w-[400px] w-[95vw] sm:w-full">
         <DialogHeader>
           <DialogTitle>
-            {isRecurring ? "Edit Future Sessions" : "Edit Session"}
+            {scope === 'following' ? "Edit Following Sessions" : scope === 'all' ? "Edit Series" : "Edit Session"}
           </DialogTitle>
         </DialogHeader>
 
@@ -661,17 +640,9 @@ export function EditSessionModal({ open, onOpenChange, session, isRecurring = fa
               )}
             />
 
-            {/* Recurring session warning */}
-            {isRecurring && session && session.recurrence_id && (
-              <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
-                <strong>Bulk Edit Mode:</strong> Changes will apply to all future sessions in this recurring series (including this one).
-              </div>
-            )}
-            
-            {!isRecurring && session && session.recurrence_id && (
-              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
-                This session is part of a recurring series. Only this individual session will be updated.
-              </div>
+            {/* Recurring session scope */}
+            {session && session.recurrence_id && (
+              <SeriesScopePicker value={scope} onChange={setScope} />
             )}
 
             <DialogFooter className="gap-2">
@@ -690,12 +661,14 @@ export function EditSessionModal({ open, onOpenChange, session, isRecurring = fa
                 variant="destructive"
                 disabled={deleteSessionMutation.isPending}
               >
-                {deleteSessionMutation.isPending ? "Deleting..." : "Delete Session"}
+                {deleteSessionMutation.isPending ? "Deleting..." : scope === 'this' ? "Delete Session" : "Delete Sessions"}
               </Button>
             }
-            title="Delete Session"
-            description="Are you sure you want to delete this session? This action cannot be undone."
-            confirmText="Delete Session"
+            title={scope === 'this' ? "Delete Session" : "Delete Recurring Sessions"}
+            description={scope === 'this'
+              ? "Are you sure you want to delete this session? This action cannot be undone."
+              : `Are you sure you want to delete ${scope === 'following' ? "this and all following sessions" : "all upcoming sessions"} in this series? Paid and past sessions are kept. This action cannot be undone.`}
+            confirmText={scope === 'this' ? "Delete Session" : "Delete Sessions"}
             onConfirm={handleDeleteSession}
             isDestructive={true}
             disabled={deleteSessionMutation.isPending}
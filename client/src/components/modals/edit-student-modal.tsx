@@ -6,6 +6,10 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
 import { getCurrentTutorId } from "@/lib/tutorHelpers";
 import { useToast } from "@/hooks/use-toast";
+import { useTimezone } from "@/contexts/TimezoneContext";
+import { formatCurrency } from "@/lib/utils";
+import { fetchStudentDefaults, saveStudentRate } from "@/services/studentRates";
+import { rateChanges, rateOn } from "@shared/studentRates";
 import CreatableSelect from "react-select/creatable";
 import {
   Dialog,
@@ -26,7 +30,19 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Loader2 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, X } from "lucide-react";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const optionalNumber = (value: string) => {
+  const parsed = value === "" ? undefined : Number(value);
+  return parsed === undefined || isNaN(parsed) ? undefined : parsed;
+};
 
 // Validation schema
 const editStudentSchema = z.object({
@@ -34,6 +50,10 @@ const editStudentSchema = z.object({
   phone: z.string().optional(),
   email: z.string().email("Invalid email format").optional().or(z.literal("")),
   tags: z.array(z.string()).optional(),
+  defaultDuration: z.number().int().min(15, "At least 15 minutes").max(480, "At most 8 hours").optional(),
+  defaultRate: z.number().min(0, "Rate must be a positive number").optional(),
+  rateEffectiveFrom: z.string().min(1, "Pick the date the rate starts"),
+  paymentReminders: z.boolean(),
 });
 
 type EditStudentForm = z.infer<typeof editStudentSchema>;
@@ -61,6 +81,59 @@ export function EditStudentModal({ isOpen, onClose, student }: EditStudentModalP
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedTags, setSelectedTags] = useState<TagOption[]>([]);
+  const { tutorTimezone } = useTimezone();
+  const timezoneForRates = tutorTimezone || 'UTC';
+  const today = dayjs().tz(timezoneForRates).format('YYYY-MM-DD');
+
+  // Fetch tutor's currency preference
+  const { data: tutorCurrency = 'USD' } = useQuery({
+    queryKey: ['tutor-currency'],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('tutors')
+        .select('currency')
+        .eq('user_id', user.id)
+        .single();
+
+      if (error) {
+        console.error('Error fetching tutor currency:', error);
+        return 'USD'; // Fallback to USD on error
+      }
+
+      return data?.currency || 'USD';
+    },
+  });
+
+  // Default duration and rate history
+  const { data: defaults } = useQuery({
+    queryKey: ['student-defaults', student?.id],
+    queryFn: () => fetchStudentDefaults(student!.id),
+    enabled: isOpen && !!student,
+  });
+  const rateHistory = defaults?.rateHistory || [];
+
+  // Whether the student gets payment reminder emails (they can also opt out from the email)
+  const { data: remindersOptOut } = useQuery({
+    queryKey: ['student-reminders', student?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('students')
+        .select('payment_reminders_opt_out')
+        .eq('id', student!.id)
+        .single();
+
+      if (error) {
+        console.error('Error fetching payment reminder preference:', error);
+        throw error;
+      }
+
+      return data.payment_reminders_opt_out as boolean;
+    },
+    enabled: isOpen && !!student,
+  });
 
   // Fetch existing tags from all students
   const { data: existingTagOptions = [] } = useQuery({
@@ -100,6 +173,10 @@ export function EditStudentModal({ isOpen, onClose, student }: EditStudentModalP
       phone: "",
       email: "",
       tags: [],
+      defaultDuration: undefined,
+      defaultRate: undefined,
+      rateEffectiveFrom: "",
+      paymentReminders: true,
     },
   });
 
@@ -111,6 +188,10 @@ export function EditStudentModal({ isOpen, onClose, student }: EditStudentModalP
         phone: student.phone || "",
         email: student.email || "",
         tags: student.tags || [],
+        defaultDuration: undefined,
+        defaultRate: undefined,
+        rateEffectiveFrom: today,
+        paymentReminders: true,
       });
       
       // Set selected tags for react-select
@@ -122,6 +203,21 @@ export function EditStudentModal({ isOpen, onClose, student }: EditStudentModalP
     }
   }, [student, isOpen, form]);
 
+  // Fill in the defaults once they've loaded
+  useEffect(() => {
+    if (defaults && isOpen) {
+      form.setValue('defaultDuration', defaults.defaultDuration ?? undefined);
+      form.setValue('defaultRate', rateOn(defaults.rateHistory, today) ?? undefined);
+      form.setValue('rateEffectiveFrom', today);
+    }
+  }, [defaults, isOpen]);
+
+  useEffect(() => {
+    if (remindersOptOut !== undefined && isOpen) {
+      form.setValue('paymentReminders', !remindersOptOut);
+    }
+  }, [remindersOptOut, isOpen]);
+
   // Update student mutation
   const updateStudentMutation = useMutation({
     mutationFn: async (data: EditStudentForm) => {
@@ -134,6 +230,8 @@ export function EditStudentModal({ isOpen, onClose, student }: EditStudentModalP
           phone: data.phone || null,
           email: data.email || null,
           tags: data.tags || [],
+          default_duration: data.defaultDuration ?? null,
+          payment_reminders_opt_out: !data.paymentReminders,
         })
         .eq('id', student.id);
 
@@ -142,17 +240,43 @@ export function EditStudentModal({ isOpen, onClose, student }: EditStudentModalP
         throw error;
       }
 
-      return { studentName: data.name };
+      // A new rate only becomes a history entry when it differs from the one already in effect
+      let repricedSessions = 0;
+      const rateChanged = data.defaultRate !== undefined && data.defaultRate !== rateOn(rateHistory, data.rateEffectiveFrom);
+      if (rateChanged) {
+        const tutorId = await getCurrentTutorId();
+        if (!tutorId) throw new Error("User not authenticated or tutor record not found");
+
+        repricedSessions = await saveStudentRate({
+          tutorId,
+          studentId: student.id,
+          rate: data.defaultRate!,
+          effectiveFrom: data.rateEffectiveFrom,
+          tutorTimezone: timezoneForRates,
+          history: rateHistory,
+        });
+      }
+
+      return { studentName: data.name, rateChanged, repricedSessions };
     },
     onSuccess: (data) => {
       toast({
         title: "Student Updated",
-        description: `${data.studentName}'s information has been updated successfully.`,
+        description: data.repricedSessions > 0
+          ? `${data.studentName}'s information has been updated. ${data.repricedSessions} upcoming recurring session${data.repricedSessions !== 1 ? 's' : ''} now use the new rate.`
+          : `${data.studentName}'s information has been updated successfully.`,
       });
       
       // Invalidate relevant queries to refresh data
       queryClient.invalidateQueries({ queryKey: ['student-sessions'] });
       queryClient.invalidateQueries({ queryKey: ['students'] });
+      queryClient.invalidateQueries({ queryKey: ['student-defaults'] });
+      queryClient.invalidateQueries({ queryKey: ['student-reminders'] });
+      if (data.rateChanged) {
+        queryClient.invalidateQueries({ queryKey: ['student-rate-changes'] });
+        queryClient.invalidateQueries({ queryKey: ['upcoming-sessions'] });
+        queryClient.invalidateQueries({ queryKey: ['calendar-sessions'] });
+      }
       
       onClose();
     },
@@ -165,6 +289,29 @@ export function EditStudentModal({ isOpen, onClose, student }: EditStudentModalP
     },
   });
 
+  // Removing an entry doesn't touch sessions that were already priced with it
+  const deleteRateMutation = useMutation({
+    mutationFn: async (rateId: string) => {
+      const { error } = await supabase
+        .from('student_rates')
+        .delete()
+        .eq('id', rateId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['student-defaults'] });
+      queryClient.invalidateQueries({ queryKey: ['student-rate-changes'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove the rate. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: EditStudentForm) => {
     // Include tags from react-select state
     const formDataWithTags = {
@@ -254,13 +401,13 @@ export function EditStudentModal({ isOpen, onClose, student }: EditStudentModalP
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             📝 Edit Student
           </DialogTitle>
           <DialogDescription>
-            Update student information and tags.
+            Update student information, tags and lesson defaults.
           </DialogDescription>
         </DialogHeader>
 
@@ -321,6 +468,29 @@ export function EditStudentModal({ isOpen, onClose, student }: EditStudentModalP
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="paymentReminders"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                  <div className="space-y-1">
+                    <FormLabel>Payment reminder emails</FormLabel>
+                    <FormDescription>
+                      Sent on your reminder schedule when sessions stay unpaid.
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      disabled={updateStudentMutation.isPending}
+                      data-testid="switch-student-payment-reminders"
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="tags"
@@ -350,6 +520,111 @@ export function EditStudentModal({ isOpen, onClose, student }: EditStudentModalP
               )}
             />
 
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="defaultDuration"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Default duration (min)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder="60"
+                        name={field.name}
+                        ref={field.ref}
+                        onBlur={field.onBlur}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(optionalNumber(e.target.value))}
+                        disabled={updateStudentMutation.isPending}
+                        data-testid="input-default-duration"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="defaultRate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rate (per hour in {tutorCurrency})</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        placeholder="45.00"
+                        name={field.name}
+                        ref={field.ref}
+                        onBlur={field.onBlur}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(optionalNumber(e.target.value))}
+                        disabled={updateStudentMutation.isPending}
+                        data-testid="input-default-rate"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="rateEffectiveFrom"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rate effective from</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      {...field}
+                      disabled={updateStudentMutation.isPending}
+                      data-testid="input-rate-effective-from"
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    New sessions from this date use the rate, and so do upcoming unpaid recurring sessions.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {rateHistory.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Rate history</p>
+                <ul className="space-y-1 max-h-32 overflow-y-auto">
+                  {rateChanges(rateHistory).map(({ entry, previousRate }) => (
+                    <li key={entry.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span>
+                        {dayjs(entry.effective_from).format('MMM D, YYYY')}
+                        {entry.effective_from > today && <span className="text-muted-foreground"> (upcoming)</span>}
+                      </span>
+                      <span className="flex items-center gap-2">
+                        {previousRate !== null && (
+                          <span className="text-muted-foreground line-through">{formatCurrency(previousRate, tutorCurrency)}</span>
+                        )}
+                        <span className="font-medium">{formatCurrency(Number(entry.rate), tutorCurrency)}/h</span>
+                        <button
+                          type="button"
+                          onClick={() => deleteRateMutation.mutate(entry.id)}
+                          disabled={deleteRateMutation.isPending}
+                          className="rounded-sm opacity-70 hover:opacity-100"
+                          aria-label={`Remove the rate from ${entry.effective_from}`}
+                          data-testid={`button-remove-rate-${entry.id}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <DialogFooter className="flex flex-col-reverse sm:flex-row gap-2">
               <Button
                 type="button"
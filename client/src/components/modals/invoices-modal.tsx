@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileText, Plus, Printer, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useInvoices } from "@/hooks/useInvoices";
+import { useTimezone } from "@/contexts/TimezoneContext";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import { formatCurrency } from "@/lib/utils";
+import { createInvoice, deleteInvoice, openInvoice, setInvoiceStatus } from "@/services/invoices";
+import { INVOICE_STATUSES, formatInvoiceNumber, invoiceAmountDue, type InvoiceStatus } from "@shared/invoices";
+import type { CreateInvoiceInput } from "@shared/schema";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const STATUS_CLASSES: Record<InvoiceStatus, string> = {
+  draft: "text-muted-foreground",
+  sent: "text-blue-600 dark:text-blue-400",
+  paid: "text-green-600 dark:text-green-400",
+};
+
+interface InvoicesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Numbered invoices: make one for a student and a period, print it, and track its status
+export function InvoicesModal({ isOpen, onClose }: InvoicesModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { tutorTimezone } = useTimezone();
+  const invoices = useInvoices();
+
+  // Last month by default, the usual billing period
+  const lastMonth = (tutorTimezone ? dayjs().tz(tutorTimezone) : dayjs()).subtract(1, 'month');
+  const [isCreating, setIsCreating] = useState(false);
+  const [selectedStudentId, setSelectedStudentId] = useState("");
+  const [periodStart, setPeriodStart] = useState(lastMonth.startOf('month').format('YYYY-MM-DD'));
+  const [periodEnd, setPeriodEnd] = useState(lastMonth.endOf('month').format('YYYY-MM-DD'));
+  const [notes, setNotes] = useState("");
+
+  const { data: students = [] } = useQuery({
+    queryKey: ['invoice-students'],
+    queryFn: async () => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) {
+        throw new Error('User not authenticated or tutor record not found');
+      }
+
+      const { data, error } = await supabase
+        .from('students')
+        .select('id, name')
+        .eq('tutor_id', tutorId)
+        .is('archived_at', null)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching students:', error);
+        throw error;
+      }
+
+      return (data || []) as Array<{ id: string; name: string }>;
+    },
+    enabled: isOpen,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['invoices'] });
+    queryClient.invalidateQueries({ queryKey: ['session-invoice'] });
+  };
+
+  const showError = (title: string) => (error: any) => {
+    console.error(title, error);
+    toast({
+      variant: "destructive",
+      title,
+      description: error.message || "Please try again.",
+    });
+  };
+
+  const handleOpen = async (invoiceId: string) => {
+    const { error } = await openInvoice(invoiceId);
+    if (error) showError("Failed to open invoice")(error);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (input: CreateInvoiceInput) => {
+      const { data, error } = await createInvoice(input);
+      if (error) throw error;
+      return data!;
+    },
+    onSuccess: (invoice) => {
+      invalidate();
+      toast({
+        title: "Invoice created",
+        description: `${formatInvoiceNumber(invoice.number)} for ${invoice.student_name}, ${formatCurrency(Number(invoice.total), invoice.currency)}.`,
+      });
+      setIsCreating(false);
+      setNotes("");
+    },
+    onError: showError("Failed to create invoice"),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: InvoiceStatus }) => {
+      const { error } = await setInvoiceStatus(id, status);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: showError("Failed to update invoice"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await deleteInvoice(id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Draft deleted" });
+    },
+    onError: showError("Failed to delete invoice"),
+  });
+
+  const handleCreate = () => {
+    if (!selectedStudentId) {
+      toast({
+        variant: "destructive",
+        title: "Choose a student",
+        description: "Invoices are made for one student at a time.",
+      });
+      return;
+    }
+
+    createMutation.mutate({
+      studentId: selectedStudentId,
+      periodStart,
+      periodEnd,
+      notes: notes.trim() || null,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="w-[95vw] max-w-2xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5 text-purple-600" />
+            Invoices
+          </DialogTitle>
+          <DialogDescription>
+            Bill a student for the sessions in a period. Open an invoice to print it or save it as a PDF.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {isCreating ? (
+            <div className="space-y-3 rounded-lg border bg-muted/30 p-3">
+              <div className="space-y-1">
+                <Label>Student</Label>
+                <Select value={selectedStudentId} onValueChange={setSelectedStudentId}>
+                  <SelectTrigger data-testid="select-invoice-student">
+                    <SelectValue placeholder="Choose a student" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {students.map(student => (
+                      <SelectItem key={student.id} value={student.id}>{student.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="invoice-from">From</Label>
+                  <Input
+                    id="invoice-from"
+                    type="date"
+                    value={periodStart}
+                    onChange={(e) => setPeriodStart(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="invoice-until">Until</Label>
+                  <Input
+                    id="invoice-until"
+                    type="date"
+                    value={periodEnd}
+                    min={periodStart}
+                    onChange={(e) => setPeriodEnd(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="invoice-notes">Notes (optional)</Label>
+                <Textarea
+                  id="invoice-notes"
+                  value={notes}
+                  placeholder="Payment details, thank-you note..."
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                  className="resize-none"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setIsCreating(false)} disabled={createMutation.isPending}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleCreate} disabled={createMutation.isPending} data-testid="button-create-invoice">
+                  {createMutation.isPending ? "Creating..." : "Create Invoice"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button variant="outline" className="w-full" onClick={() => setIsCreating(true)} data-testid="button-new-invoice">
+              <Plus className="h-4 w-4 mr-2" />
+              New Invoice
+            </Button>
+          )}
+
+          {invoices.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-6">No invoices yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {invoices.map(invoice => (
+                <div key={invoice.id} className="flex items-center gap-3 rounded-lg border p-3" data-testid={`invoice-${invoice.id}`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{formatInvoiceNumber(invoice.number)}</span>
+                      <span className="text-sm truncate">{invoice.student_name}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {invoice.period_start} – {invoice.period_end} · {formatCurrency(Number(invoice.total), invoice.currency)}
+                      {invoice.status !== 'paid' && invoiceAmountDue(invoice) < Number(invoice.total) && (
+                        <> · {formatCurrency(invoiceAmountDue(invoice), invoice.currency)} due</>
+                      )}
+                    </p>
+                  </div>
+                  <Select
+                    value={invoice.status}
+                    onValueChange={(status) => statusMutation.mutate({ id: invoice.id, status: status as InvoiceStatus })}
+                  >
+                    <SelectTrigger className={`w-[100px] h-8 ${STATUS_CLASSES[invoice.status]}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INVOICE_STATUSES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleOpen(invoice.id)}
+                    title="Open printable invoice"
+                  >
+                    <Printer className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-red-600"
+                    onClick={() => deleteMutation.mutate(invoice.id)}
+                    disabled={invoice.status !== 'draft' || deleteMutation.isPending}
+                    title={invoice.status === 'draft' ? "Delete draft" : "Only drafts can be deleted"}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
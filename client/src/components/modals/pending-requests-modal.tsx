@@ -17,10 +17,11 @@ import {
 import { Card, CardContent } from "@/components/ui/card";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
+import { apiRequest } from "@/lib/queryClient";
 import { getCurrentTutorId } from "@/lib/tutorHelpers";
 import { useToast } from "@/hooks/use-toast";
 import { invalidateSessionCountCache } from "@/lib/queryOptimizer";
-import { Clock, User, Calendar, Check, X, Loader2, Plus } from "lucide-react";
+import { Clock, User, Calendar, Check, X, Loader2, Plus, Mail, Phone } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { formatCurrency } from "@/lib/utils";
 import { DateTime } from "luxon";
@@ -38,6 +39,8 @@ interface PendingRequest {
   rate: number;
   notes?: string;
   created_at: string;
+  booking_email?: string | null;
+  booking_phone?: string | null;
 }
 
 interface Student {
@@ -79,7 +82,7 @@ export function PendingRequestsModal({ open, onOpenChange, highlightSessionId }:
 
       const { data, error } = await supabase
         .from('sessions')
-        .select('id, unassigned_name, session_start, session_end, duration, rate, notes, created_at')
+        .select('id, unassigned_name, session_start, session_end, duration, rate, notes, created_at, booking_email, booking_phone')
         .eq('tutor_id', tutorId)
         .eq('status', 'pending')
         .is('student_id', null)
@@ -189,19 +192,8 @@ export function PendingRequestsModal({ open, onOpenChange, highlightSessionId }:
         studentId
       });
 
-      const { error } = await supabase
-        .from('sessions')
-        .update({
-          student_id: studentId,
-          unassigned_name: null,
-          status: 'confirmed'
-        })
-        .eq('id', requestId);
-
-      if (error) {
-        console.error('❌ Error updating session:', error);
-        throw error;
-      }
+      // Goes through the server so the student gets a confirmation email
+      await apiRequest('POST', `/api/sessions/${requestId}/accept-booking`, { studentId });
 
       console.log('✅ Session updated successfully');
     },
@@ -255,13 +247,8 @@ export function PendingRequestsModal({ open, onOpenChange, highlightSessionId }:
   // Decline request mutation
   const declineMutation = useMutation({
     mutationFn: async (requestId: string) => {
-      // Delete the session entirely (default behavior)
-      const { error } = await supabase
-        .from('sessions')
-        .delete()
-        .eq('id', requestId);
-
-      if (error) throw error;
+      // Deletes the session entirely (default behavior) and lets the student know by email
+      await apiRequest('POST', `/api/sessions/${requestId}/decline-booking`);
     },
     onSuccess: async () => {
       toast({
@@ -451,6 +438,23 @@ export function PendingRequestsModal({ open, onOpenChange, highlightSessionId }:
                           )}
                         </div>
 
+                        {(request.booking_email || request.booking_phone) && (
+                          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                            {request.booking_email && (
+                              <a href={`mailto:${request.booking_email}`} className="flex items-center gap-1 hover:underline">
+                                <Mail className="h-4 w-4" />
+                                {sanitizeText(request.booking_email)}
+                              </a>
+                            )}
+                            {request.booking_phone && (
+                              <a href={`tel:${request.booking_phone}`} className="flex items-center gap-1 hover:underline">
+                                <Phone className="h-4 w-4" />
+                                {sanitizeText(request.booking_phone)}
+                              </a>
+                            )}
+                          </div>
+                        )}
+
                         {request.notes && (
                           <div className="text-sm text-muted-foreground">
                             <span className="font-medium">Notes:</span> {request.notes}
@@ -0,0 +1,291 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabaseClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+import { useTimezone } from "@/contexts/TimezoneContext";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import { invalidateSessionCountCache } from "@/lib/queryOptimizer";
+import { recordPayment, settleSessions, todayPaymentDate } from "@/services/payments";
+import { PAYMENT_METHODS, sessionBalance, type PayableSession, type PaymentMethod } from "@shared/payments";
+
+// Everything that shows whether or how much a session has been paid
+const PAYMENT_QUERY_KEYS = [
+  'sessions',
+  'calendar-sessions',
+  'student-sessions',
+  'student-session-history',
+  'unpaid-sessions',
+  'all-unpaid-sessions',
+  'unpaid-past-sessions',
+  'upcoming-sessions',
+  'all-upcoming-sessions',
+  'dashboard',
+  'dashboard-stats',
+  'earnings',
+  'earnings-sessions',
+  'session-payments',
+];
+
+export async function invalidatePaymentQueries(queryClient: QueryClient) {
+  for (const key of PAYMENT_QUERY_KEYS) {
+    queryClient.invalidateQueries({ queryKey: [key] });
+  }
+
+  const tutorId = await getCurrentTutorId();
+  if (tutorId) {
+    invalidateSessionCountCache(tutorId);
+  }
+}
+
+type PaymentSessionRow = PayableSession & { student_id: string | null };
+
+interface RecordPaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionIds: string[];
+  studentName?: string; // for the title; omitted when the sessions are of several students
+  onSuccess?: () => void;
+}
+
+export function RecordPaymentModal({ isOpen, onClose, sessionIds, studentName, onSuccess }: RecordPaymentModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { tutorTimezone } = useTimezone();
+  const [amount, setAmount] = useState("");
+  const [paymentDate, setPaymentDate] = useState(todayPaymentDate());
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: tutorCurrency = 'USD' } = useQuery({
+    queryKey: ['tutor-currency'],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('tutors')
+        .select('currency')
+        .eq('user_id', user.id)
+        .single();
+
+      if (error) {
+        console.error('Error fetching tutor currency:', error);
+        return 'USD';
+      }
+      return data?.currency || 'USD';
+    },
+    enabled: isOpen,
+  });
+
+  // Read balances fresh: the caller's list may predate another payment
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: ['session-payments', 'balances', ...sessionIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('sessions')
+        .select('id, student_id, session_start, duration, rate, amount_paid, paid')
+        .in('id', sessionIds);
+
+      if (error) throw error;
+      return (data || []) as PaymentSessionRow[];
+    },
+    enabled: isOpen && sessionIds.length > 0,
+  });
+
+  const owed = useMemo(() => sessions.filter(session => sessionBalance(session) > 0), [sessions]);
+  const totalBalance = Math.round(owed.reduce((total, session) => total + sessionBalance(session), 0) * 100) / 100;
+  const studentCount = new Set(owed.map(session => session.student_id)).size;
+  const amountValue = Number(amount);
+  const isPartial = amountValue > 0 && amountValue < totalBalance;
+
+  useEffect(() => {
+    if (isOpen) {
+      setPaymentDate(todayPaymentDate(tutorTimezone || undefined));
+    }
+  }, [isOpen, tutorTimezone]);
+
+  useEffect(() => {
+    if (isOpen && !isLoading) {
+      setAmount(totalBalance > 0 ? totalBalance.toFixed(2) : "");
+    }
+  }, [isOpen, isLoading, totalBalance]);
+
+  const handleClose = () => {
+    setAmount("");
+    setMethod("cash");
+    setNote("");
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!(amountValue > 0) || amountValue > totalBalance) {
+      toast({
+        variant: "destructive",
+        title: "Invalid amount",
+        description: `Enter an amount between 0 and ${formatCurrency(totalBalance, tutorCurrency)}.`,
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      if (studentCount > 1) {
+        // Several students: one full payment each
+        const recorded = await settleSessions(owed, { paymentDate, method });
+        toast({
+          title: "Payments Recorded",
+          description: `Recorded ${recorded} payment${recorded !== 1 ? 's' : ''} for ${owed.length} sessions.`,
+        });
+      } else {
+        const { error } = await recordPayment({
+          amount: amountValue,
+          paymentDate,
+          method,
+          note: note.trim() || null,
+          sessionIds: owed.map(session => session.id),
+        });
+        if (error) throw error;
+
+        toast({
+          title: isPartial ? "Partial Payment Recorded" : "Payment Recorded",
+          description: isPartial
+            ? `${formatCurrency(amountValue, tutorCurrency)} recorded, ${formatCurrency(totalBalance - amountValue, tutorCurrency)} still outstanding.`
+            : `${formatCurrency(amountValue, tutorCurrency)} recorded${studentName ? ` for ${studentName}` : ''}.`,
+        });
+      }
+
+      await invalidatePaymentQueries(queryClient);
+      onSuccess?.();
+      handleClose();
+    } catch (error: any) {
+      console.error("Error recording payment:", error);
+      toast({
+        variant: "destructive",
+        title: "Failed to Record Payment",
+        description: error.message || "An error occurred while recording the payment.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="w-[95vw] max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CheckCircle className="h-5 w-5 text-green-600" />
+            Record Payment
+          </DialogTitle>
+          <DialogDescription>
+            {owed.length > 1
+              ? `${owed.length} sessions${studentName ? ` with ${studentName}` : ''}, ${formatCurrency(totalBalance, tutorCurrency)} outstanding. Older sessions are settled first.`
+              : `${studentName ? `Session with ${studentName}, ` : ''}${formatCurrency(totalBalance, tutorCurrency)} outstanding.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Loading balance...</div>
+        ) : owed.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Nothing is owed on {sessionIds.length > 1 ? 'these sessions' : 'this session'}.</div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="payment-amount">Amount ({tutorCurrency})</Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  disabled={studentCount > 1}
+                  data-testid="input-payment-amount"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment-date">Date</Label>
+                <Input
+                  id="payment-date"
+                  type="date"
+                  value={paymentDate}
+                  onChange={(e) => setPaymentDate(e.target.value)}
+                  data-testid="input-payment-date"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                <SelectTrigger data-testid="select-payment-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {studentCount > 1 ? (
+              <p className="text-xs text-muted-foreground">
+                These sessions belong to {studentCount} students, so one full payment is recorded per student.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="payment-note">Note (optional)</Label>
+                <Textarea
+                  id="payment-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={2}
+                  className="resize-none"
+                />
+              </div>
+            )}
+
+            {isPartial && (
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                Partial payment: {formatCurrency(totalBalance - amountValue, tutorCurrency)} will stay outstanding.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || isLoading || owed.length === 0}
+            className="bg-green-600 hover:bg-green-700 text-white"
+            data-testid="button-record-payment"
+          >
+            {isSubmitting ? "Saving..." : "Record Payment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -50,6 +50,15 @@ import { formatUtcToTutorTimezone } from "@/lib/dateUtils";
 import { useTimezone } from "@/contexts/TimezoneContext";
 import { useOnboarding } from "@/contexts/OnboardingContext";
 import { invalidateSessionCountCache } from "@/lib/queryOptimizer";
+import { createSessionSeries, previewSeriesOccurrences } from "@/services/sessionSeries";
+import { checkSessionConflicts } from "@/services/sessionConflicts";
+import { ConflictWarningDialog } from "@/components/sessions/ConflictWarningDialog";
+import type { SessionConflict } from "@shared/conflicts";
+import { RecurrenceEditor, defaultRecurrenceValue, toRecurrenceRule } from "@/components/sessions/RecurrenceEditor";
+import { useLessonTypes } from "@/hooks/useLessonTypes";
+import { lessonTypeHourlyRate } from "@shared/lessonTypes";
+import { fetchStudentDefaults, type StudentDefaults } from "@/services/studentRates";
+import { rateDateOf, rateOn } from "@shared/studentRates";
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
@@ -70,20 +79,45 @@ const scheduleSessionSchema = z.object({
     invalid_type_error: "Rate is required",
   }).min(0, "Rate must be a positive number"),
   color: z.string().default("#3B82F6"),
-  repeatWeekly: z.boolean().default(false),
-  repeatWeeks: z.number().min(1, "Must repeat for at least 1 week").max(12, "Cannot repeat for more than 12 weeks").optional(),
+  lessonTypeId: z.string().default(""),
+  repeat: z.boolean().default(false),
+  recurrence: z.object({
+    frequency: z.enum(["weekly", "monthly"]),
+    interval: z.number().min(1).max(4),
+    weekdays: z.array(z.number().min(0).max(6)),
+    monthlyWeek: z.number().nullable(),
+    endType: z.enum(["never", "until", "count"]),
+    until: z.string(),
+    count: z.number(),
+  }),
   notes: z.string().optional(),
   applyNotesToSeries: z.boolean().default(false),
 }).refine((data) => {
-  if (data.repeatWeekly && !data.repeatWeeks) {
-    return false;
+  if (data.repeat && data.recurrence.endType === "count") {
+    return data.recurrence.count >= 2 && data.recurrence.count <= 200;
   }
   return true;
 }, {
-  message: "Please specify how many weeks to repeat",
-  path: ["repeatWeeks"],
+  message: "Number of sessions must be between 2 and 200",
+  path: ["recurrence"],
 }).refine((data) => {
-  if (data.repeatWeekly) {
+  if (data.repeat && data.recurrence.endType === "until") {
+    return !!data.recurrence.until && data.recurrence.until >= dayjs(data.sessionStart).format('YYYY-MM-DD');
+  }
+  return true;
+}, {
+  message: "End date must be on or after the first session",
+  path: ["recurrence"],
+}).refine((data) => {
+  if (data.repeat && data.recurrence.frequency === "monthly") {
+    return data.recurrence.monthlyWeek !== null;
+  }
+  return true;
+}, {
+  message: "Please choose which weekday of the month to repeat on",
+  path: ["recurrence"],
+}).refine((data) => {
+  if (data.repeat) {
     const sessionStartDate = dayjs(data.sessionStart);
     const today = dayjs().startOf('day');
     return sessionStartDate.isAfter(today) || sessionStartDate.isSame(today);
@@ -110,6 +144,7 @@ interface Session {
   rate: number;
   notes?: string;
   color?: string;
+  lesson_type_id?: string | null;
   recurrence_id?: string;
   student_id: string;
 }
@@ -126,6 +161,7 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
   const [showAddStudent, setShowAddStudent] = useState(false);
   const [newStudentName, setNewStudentName] = useState("");
   const [showNotes, setShowNotes] = useState(false);
+  const [pendingConflict, setPendingConflict] = useState<{ conflicts: SessionConflict[]; data: ScheduleSessionForm } | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { tutorTimezone, isLoading: isTimezoneLoading } = useTimezone();
@@ -162,6 +198,7 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
   });
 
   const tutorCurrency = tutorPreferences.currency;
+  const lessonTypes = useLessonTypes();
   const timeFormat = tutorPreferences.time_format;
 
   // Fetch students from Supabase for current user
@@ -251,8 +288,9 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
       duration: 60,
       rate: 0,
       color: "#3B82F6",
-      repeatWeekly: false,
-      repeatWeeks: 1,
+      lessonTypeId: "",
+      repeat: false,
+      recurrence: defaultRecurrenceValue,
       notes: "",
       applyNotesToSeries: false,
     },
@@ -272,9 +310,10 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
       form.setValue('duration', editSession.duration);
       form.setValue('rate', editSession.rate);
       form.setValue('color', editSession.color || "#3B82F6");
+      form.setValue('lessonTypeId', editSession.lesson_type_id || "");
       form.setValue('notes', editSession.notes || "");
-      form.setValue('repeatWeekly', false); // Don't allow editing recurring sessions
-      form.setValue('repeatWeeks', 1);
+      form.setValue('repeat', false); // Don't allow editing recurring sessions
+      form.setValue('recurrence', defaultRecurrenceValue);
       form.setValue('applyNotesToSeries', false);
       
       // Mark all fields as user-modified to prevent auto-prefilling
@@ -314,28 +353,51 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
     }
   };
 
-  // Handle student selection change to prefill form with last session data
+  // The student's own defaults, or null when they can't be loaded
+  const fetchDefaults = async (studentId: string): Promise<StudentDefaults | null> => {
+    try {
+      return await fetchStudentDefaults(studentId);
+    } catch (error) {
+      console.error('Error fetching student defaults:', error);
+      return null;
+    }
+  };
+
+  // Handle student selection change to prefill form with the student's defaults,
+  // falling back to their last session
   const handleStudentChange = async (studentId: string) => {
     // Update the student field
     form.setValue('studentId', studentId);
     
-    // Fetch student's last session data
-    const lastSession = await fetchStudentLastSession(studentId);
-    
-    if (lastSession) {
+    const [lastSession, defaults] = await Promise.all([
+      fetchStudentLastSession(studentId),
+      fetchDefaults(studentId),
+    ]);
+
+    // The rate in effect on the session's date (today until a date is picked)
+    const currentStart = form.getValues('sessionStart');
+    const rateDate = currentStart && tutorTimezone
+      ? rateDateOf(currentStart, tutorTimezone)
+      : dayjs().format('YYYY-MM-DD');
+    const defaultRate = defaults ? rateOn(defaults.rateHistory, rateDate) : null;
+    const defaultDuration = defaults?.defaultDuration ?? null;
+
+    if (lastSession || defaultRate !== null || defaultDuration !== null) {
       // Only prefill fields that haven't been manually modified by the user
       const fieldsToUpdate: Array<{ field: string; value: any }> = [];
       
-      if (!userModifiedFields.has('rate') && lastSession.rate !== null) {
-        fieldsToUpdate.push({ field: 'rate', value: Number(lastSession.rate) });
+      const rate = defaultRate ?? (lastSession?.rate != null ? Number(lastSession.rate) : null);
+      if (!userModifiedFields.has('rate') && rate !== null) {
+        fieldsToUpdate.push({ field: 'rate', value: rate });
       }
       
-      if (!userModifiedFields.has('duration') && lastSession.duration !== null) {
-        fieldsToUpdate.push({ field: 'duration', value: lastSession.duration });
+      const duration = defaultDuration ?? lastSession?.duration ?? null;
+      if (!userModifiedFields.has('duration') && duration !== null) {
+        fieldsToUpdate.push({ field: 'duration', value: duration });
       }
       
       // Prefill time from last session's session_start if available and not manually modified
-      if (!userModifiedFields.has('sessionStart') && lastSession.session_start && tutorTimezone) {
+      if (!userModifiedFields.has('sessionStart') && lastSession?.session_start && tutorTimezone) {
         const lastSessionTime = formatUtcToTutorTimezone(lastSession.session_start, tutorTimezone, 'HH:mm');
         const existingDate = form.watch('sessionStart') ? 
           dayjs.utc(form.watch('sessionStart')).tz(tutorTimezone).format('YYYY-MM-DD') : 
@@ -358,9 +420,12 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
         });
         
         // Show success toast
+        const fromDefaults = defaultRate !== null || defaultDuration !== null;
         toast({
-          title: "Prefilled from last session",
-          description: "Form fields filled with this student's most recent session data.",
+          title: fromDefaults ? "Prefilled from student defaults" : "Prefilled from last session",
+          description: fromDefaults
+            ? "Rate and duration come from this student's settings."
+            : "Form fields filled with this student's most recent session data.",
         });
       }
     }
@@ -371,6 +436,18 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
     setUserModifiedFields(prev => new Set(prev).add(fieldName));
   };
 
+  // A lesson type fills in its duration, rate and color, which can still be changed afterwards
+  const handleLessonTypeChange = (lessonTypeId: string) => {
+    form.setValue('lessonTypeId', lessonTypeId);
+    const lessonType = lessonTypes.find(type => type.id === lessonTypeId);
+    if (!lessonType) return;
+
+    form.setValue('duration', lessonType.duration);
+    form.setValue('rate', lessonTypeHourlyRate(lessonType));
+    form.setValue('color', lessonType.color);
+    setUserModifiedFields(prev => new Set(prev).add('lessonTypeId').add('duration').add('rate').add('color'));
+  };
+
   // Handle cancel button click - reset form and close modal
   const handleCancel = () => {
     form.reset();
@@ -431,7 +508,7 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
     return utcTimestamp.toISOString();
   };
 
-  const onSubmit = async (data: ScheduleSessionForm) => {
+  const onSubmit = async (data: ScheduleSessionForm, skipConflictCheck = false) => {
     setIsSubmitting(true);
     
     console.log('Session submission data:', {
@@ -469,6 +546,23 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
         }
       });
 
+      // Warn about overlaps with existing sessions, checking every occurrence of a new series
+      if (!skipConflictCheck) {
+        const proposedRanges = data.repeat && !isEditMode
+          ? previewSeriesOccurrences(toRecurrenceRule(data.recurrence), startUTC.toISOString(), data.duration, tutorTimezone)
+          : [{ start: startUTC.toISOString(), end: endUTC.toISOString() }];
+
+        const conflicts = await checkSessionConflicts({
+          ranges: proposedRanges,
+          excludeIds: isEditMode && editSession ? [editSession.id] : [],
+        });
+
+        if (conflicts.length > 0) {
+          setPendingConflict({ conflicts, data });
+          return;
+        }
+      }
+
       if (isEditMode && editSession) {
         // Update existing session with UTC timestamps only
         const { error } = await supabase
@@ -480,6 +574,8 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
             duration: data.duration,
             rate: data.rate,
             color: data.color,
+            // Not every caller passes the session's lesson type, so keep it unless it was changed here
+            ...(userModifiedFields.has('lessonTypeId') && { lesson_type_id: data.lessonTypeId || null }),
             notes: data.notes || null,
           })
           .eq('id', editSession.id);
@@ -514,64 +610,45 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
         invalidateSessionCountCache(tutorId);
 
       } else {
-        // Create new session(s) with UTC timestamps
-        const recurrenceId = data.repeatWeekly ? crypto.randomUUID() : null;
-        const sessionsToInsert = [];
-        
-        // First session
-        const firstStartUTC = startUTC;
-        const firstEndUTC = endUTC;
-        
-        sessionsToInsert.push({
-          student_id: data.studentId,
-          session_start: firstStartUTC.toISOString(),
-          session_end: firstEndUTC.toISOString(),
-          duration: data.duration,
-          rate: data.rate,
-          color: data.color,
-          notes: data.notes || null,
-          tutor_id: tutorId,
-          paid: false,
-          recurrence_id: recurrenceId,
-          created_at: new Date().toISOString(),
-        });
-
-        if (data.repeatWeekly && data.repeatWeeks) {
-          for (let week = 1; week < data.repeatWeeks; week++) {
-            // Calculate recurring session times by adding weeks in local timezone (DST-aware)
-            // This ensures that "13:00 Kyiv" remains "13:00 Kyiv" even when DST changes
-            const weeklyStartLocal = startUTC.tz(tutorTimezone).add(week, 'weeks');
-            const weeklyStartUTC = weeklyStartLocal.utc();
-            const weeklyEndUTC = weeklyStartUTC.add(data.duration, 'minutes');
-            
-            console.log(`Recurring session ${week} UTC (DST-aware):`, {
-              week_offset: week,
-              local_time: weeklyStartLocal.format('YYYY-MM-DD HH:mm'),
-              start_utc: weeklyStartUTC.toISOString(),
-              end_utc: weeklyEndUTC.toISOString()
-            });
-            
-            sessionsToInsert.push({
+        // Create a single session, or a recurring series materialized from its rule
+        let insertedData: any[] | null;
+        let error: any;
+
+        if (data.repeat) {
+          // The series and its sessions are created atomically on the server
+          const result = await createSessionSeries({
+            studentId: data.studentId,
+            firstSessionStart: startUTC.toISOString(),
+            duration: data.duration,
+            rate: data.rate,
+            color: data.color,
+            notes: data.notes || null,
+            applyNotesToSeries: data.applyNotesToSeries,
+            timezone: tutorTimezone,
+            rule: toRecurrenceRule(data.recurrence),
+          });
+          insertedData = result.data?.sessions ?? null;
+          error = result.error;
+        } else {
+          ({ data: insertedData, error } = await supabase
+            .from('sessions')
+            .insert([{
               student_id: data.studentId,
-              session_start: weeklyStartUTC.toISOString(),
-              session_end: weeklyEndUTC.toISOString(),
+              session_start: startUTC.toISOString(),
+              session_end: endUTC.toISOString(),
               duration: data.duration,
               rate: data.rate,
               color: data.color,
-              notes: data.applyNotesToSeries ? (data.notes || null) : null,
+              lesson_type_id: data.lessonTypeId || null,
+              notes: data.notes || null,
               tutor_id: tutorId,
               paid: false,
-              recurrence_id: recurrenceId,
+              recurrence_id: null,
               created_at: new Date().toISOString(),
-            });
-          }
+            }])
+            .select());
         }
 
-        const { data: insertedData, error } = await supabase
-          .from('sessions')
-          .insert(sessionsToInsert)
-          .select();
-
         if (error) {
           console.error('Supabase error details:', error);
           toast({
@@ -584,11 +661,11 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
 
         triggerSuccessConfetti();
         
-        const sessionCount = sessionsToInsert.length;
+        const sessionCount = insertedData?.length ?? 1;
         toast({
           title: "🎉 Success!",
-          description: sessionCount > 1 
-            ? `${sessionCount} sessions scheduled successfully!`
+          description: data.repeat
+            ? `Recurring series created with ${sessionCount} upcoming session${sessionCount !== 1 ? 's' : ''}!`
             : "Session scheduled successfully!",
         });
 
@@ -716,7 +793,7 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
         </DialogHeader>
 
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col flex-1 min-h-0">
+          <form onSubmit={form.handleSubmit((data) => onSubmit(data))} className="flex flex-col flex-1 min-h-0">
             <div className="space-y-2 overflow-y-auto flex-1 min-h-0 px-4 sm:px-6 pb-2">
               {/* Student Selection */}
               <FormField
@@ -901,6 +978,41 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
               )}
             />
 
+            {/* Lesson Type */}
+            {lessonTypes.length > 0 && (
+              <FormField
+                control={form.control}
+                name="lessonTypeId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lesson Type</FormLabel>
+                    <Select
+                      value={field.value || "none"}
+                      onValueChange={(value) => handleLessonTypeChange(value === "none" ? "" : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-lesson-type">
+                          <SelectValue placeholder="No lesson type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No lesson type</SelectItem>
+                        {lessonTypes.map(lessonType => (
+                          <SelectItem key={lessonType.id} value={lessonType.id}>
+                            <span className="flex items-center gap-2">
+                              <span className="h-3 w-3 rounded-full" style={{ backgroundColor: lessonType.color }} />
+                              {lessonType.name} · {lessonType.duration} min
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {/* Duration */}
             <FormField
               control={form.control}
@@ -1012,18 +1124,19 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
               <>
                 <FormField
                   control={form.control}
-                  name="repeatWeekly"
+                  name="repeat"
                   render={({ field }) => (
                     <FormItem className="flex flex-row items-start space-x-3 space-y-0">
                       <FormControl>
                         <Checkbox
                           checked={field.value}
                           onCheckedChange={field.onChange}
+                          data-testid="checkbox-repeat"
                         />
                       </FormControl>
                       <div className="space-y-1 leading-none">
                         <FormLabel>
-                          Repeat Weekly
+                          Repeat
                         </FormLabel>
                       </div>
                       <FormMessage />
@@ -1031,29 +1144,19 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
                   )}
                 />
 
-                {form.watch('repeatWeekly') && (
+                {form.watch('repeat') && (
                   <FormField
                     control={form.control}
-                    name="repeatWeeks"
+                    name="recurrence"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Number of weeks to repeat</FormLabel>
                         <FormControl>
-                          <Select 
-                            onValueChange={(value) => field.onChange(parseInt(value, 10))}
-                            value={field.value?.toString()}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select weeks" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {Array.from({ length: 12 }, (_, i) => i + 1).map((week) => (
-                                <SelectItem key={week} value={week.toString()}>
-                                  {week} week{week > 1 ? 's' : ''}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
+                          <RecurrenceEditor
+                            value={field.value}
+                            onChange={field.onChange}
+                            firstSessionStart={form.watch('sessionStart') || undefined}
+                            timezone={tutorTimezone || 'UTC'}
+                          />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -1105,7 +1208,7 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
                     )}
                   />
 
-                  {form.watch('repeatWeekly') && (
+                  {form.watch('repeat') && (
                     <FormField
                       control={form.control}
                       name="applyNotesToSeries"
@@ -1156,6 +1259,19 @@ export function ScheduleSessionModal({ open, onOpenChange, editSession, editMode
           </form>
         </Form>
       </DialogContent>
+
+      <ConflictWarningDialog
+        open={!!pendingConflict}
+        conflicts={pendingConflict?.conflicts ?? []}
+        timezone={tutorTimezone || 'UTC'}
+        timeFormat={timeFormat}
+        onConfirm={() => {
+          const data = pendingConflict?.data;
+          setPendingConflict(null);
+          if (data) onSubmit(data, true);
+        }}
+        onCancel={() => setPendingConflict(null)}
+      />
     </Dialog>
   );
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -12,12 +12,13 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Calendar, Clock, User, DollarSign, Edit, Trash2, ChevronDown, Plus, Pencil, Repeat, CheckCircle } from "lucide-react";
+import { Calendar, Clock, User, DollarSign, Edit, Trash2, ChevronDown, Plus, Pencil, Repeat, CheckCircle, X, FileText } from "lucide-react";
 import { formatDate, formatTime, formatCurrency } from "@/lib/utils";
 import { formatUtcToTutorTimezone, calculateDurationMinutes } from "@/lib/dateUtils";
 import { useTimezone } from "@/contexts/TimezoneContext";
 import { getSessionDisplayInfo } from "@/lib/sessionDisplay";
 import { CancelSessionModal } from "@/components/modals/cancel-session-modal";
+import { RecordPaymentModal, invalidatePaymentQueries } from "@/components/modals/record-payment-modal";
 import { sanitizeText } from "@/lib/sanitize";
 import { getCurrentTutorId } from "@/lib/tutorHelpers";
 import { invalidateSessionCountCache } from "@/lib/queryOptimizer";
@@ -25,6 +26,12 @@ import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
 import { triggerCalendarSync } from "@/hooks/useGoogleCalendarSync";
+import { createSessionSeries } from "@/services/sessionSeries";
+import { deletePayment } from "@/services/payments";
+import { openInvoice } from "@/services/invoices";
+import { paymentMethodLabel, sessionAmountDue, type Payment } from "@shared/payments";
+import { formatInvoiceNumber, invoiceStatusLabel, type Invoice } from "@shared/invoices";
+import type { SeriesEditScope } from "@shared/schema";
 
 // Configure dayjs plugins
 dayjs.extend(utc);
@@ -67,9 +74,8 @@ export function SessionDetailsModal({ isOpen, onClose, session }: SessionDetails
   const [showNotesSection, setShowNotesSection] = useState(false);
   const [repeatWeekly, setRepeatWeekly] = useState(false);
   const [showCancelModal, setShowCancelModal] = useState(false);
-  const [showBulkCancelModal, setShowBulkCancelModal] = useState(false);
-  const [bulkSessionIds, setBulkSessionIds] = useState<string[]>([]);
-  const [bulkGoogleEventIds, setBulkGoogleEventIds] = useState<string[]>([]);
+  const [cancelScope, setCancelScope] = useState<SeriesEditScope>("this");
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
 
   // Reset state when modal opens/closes
   const handleClose = () => {
@@ -106,56 +112,40 @@ export function SessionDetailsModal({ isOpen, onClose, session }: SessionDetails
 
       // Handle repeat weekly logic first (only for non-recurring sessions)
       if (repeatWeekly && !session.recurrence_id) {
-        // Get the current tutor ID
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) throw new Error('User not authenticated');
-        
-        const tutorId = user.id;
+        if (!session.student_id) throw new Error('Assign a student before repeating this session');
+
         const recurrenceCount = 12; // 12 weeks = ~3 months
-        const recurringGroupId = session.id;
-        const newSessions = [];
-
-        // Create future weekly sessions FIRST (don't update current session yet)
-        for (let i = 1; i <= recurrenceCount; i++) {
-          const nextStart = new Date(session.session_start);
-          const nextEnd = new Date(session.session_end);
-          nextStart.setDate(nextStart.getDate() + i * 7);
-          nextEnd.setDate(nextEnd.getDate() + i * 7);
-
-          newSessions.push({
-            tutor_id: tutorId,
-            student_id: session.student_id,
-            duration: session.duration,
-            rate: session.rate,
-            notes,
-            color,
-            paid: false,
-            session_start: nextStart.toISOString(),
-            session_end: nextEnd.toISOString(),
-            recurrence_id: recurringGroupId,
-            created_at: new Date().toISOString(),
-          });
-        }
 
-        // Step 1: Try inserting future sessions
-        const { error: insertError } = await supabase
-          .from('sessions')
-          .insert(newSessions);
+        // The current session becomes the first occurrence; all writes happen in one server-side transaction
+        const { data, error } = await createSessionSeries({
+          studentId: session.student_id,
+          firstSessionStart: session.session_start,
+          duration: session.duration,
+          rate: session.rate,
+          color,
+          notes,
+          applyNotesToSeries: true,
+          timezone: tutorTimezone || 'UTC',
+          rule: {
+            frequency: 'weekly',
+            interval: 1,
+            weekdays: [],
+            monthlyWeek: null,
+            until: null,
+            count: recurrenceCount + 1,
+          },
+          existingSessionId: session.id,
+        });
 
-        if (insertError) {
-          console.error('Error creating recurring sessions:', insertError);
-          throw new Error(`Failed to create recurring sessions: ${insertError.message}`);
+        if (error) {
+          console.error('Error creating recurring sessions:', error);
+          throw new Error(`Failed to create recurring sessions: ${error.message}`);
         }
 
-        // Step 2: Update the original session ONLY AFTER successful creation
-        const { error: updateError } = await supabase
-          .from('sessions')
-          .update({ notes, color, recurrence_id: recurringGroupId })
-          .eq('id', session.id);
-
-        if (updateError) {
-          console.error('Error updating current session:', updateError);
-          throw new Error(`Failed to update current session: ${updateError.message}`);
+        for (const created of data?.sessions ?? []) {
+          if (created.id !== session.id) {
+            triggerCalendarSync(created.id);
+          }
         }
 
         return { type: 'recurring', count: recurrenceCount + 1 };
@@ -233,44 +223,69 @@ export function SessionDetailsModal({ isOpen, onClose, session }: SessionDetails
     },
   });
 
-  const markAsPaidMutation = useMutation({
-    mutationFn: async () => {
-      if (!session) throw new Error("No session selected");
+  // Payments that went (partly) to this session, newest first
+  const { data: sessionPayments = [] } = useQuery({
+    queryKey: ['session-payments', session?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('payment_allocations')
+        .select('amount, payments (id, amount, payment_date, method, note)')
+        .eq('session_id', session!.id);
+
+      if (error) throw error;
+      return ((data || []) as any[])
+        .filter(row => row.payments)
+        .map(row => ({ ...(row.payments as Payment), allocated: Number(row.amount) }))
+        .sort((a, b) => b.payment_date.localeCompare(a.payment_date));
+    },
+    enabled: isOpen && !!session?.id,
+  });
 
-      const { error } = await supabase
-        .from('sessions')
-        .update({ paid: true })
-        .eq('id', session.id);
+  // Invoices this session was billed on, newest first
+  const { data: sessionInvoices = [] } = useQuery({
+    queryKey: ['session-invoice', session?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('invoice_items')
+        .select('invoices (id, number, status)')
+        .eq('session_id', session!.id);
+
+      if (error) throw error;
+      return ((data || []) as any[])
+        .map(row => row.invoices as Pick<Invoice, 'id' | 'number' | 'status'> | null)
+        .filter((invoice): invoice is Pick<Invoice, 'id' | 'number' | 'status'> => !!invoice)
+        .sort((a, b) => b.number - a.number);
+    },
+    enabled: isOpen && !!session?.id,
+  });
 
-      if (error) {
-        console.error('Error marking session as paid:', error);
-        throw error;
-      }
+  const handleOpenInvoice = async (invoiceId: string) => {
+    const { error } = await openInvoice(invoiceId);
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to open the invoice.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deletePaymentMutation = useMutation({
+    mutationFn: async (paymentId: string) => {
+      const { error } = await deletePayment(paymentId);
+      if (error) throw error;
     },
     onSuccess: async () => {
       toast({
-        title: "Session Marked as Paid",
-        description: `Payment recorded for ${session?.student_name || 'this session'}`,
+        title: "Payment Deleted",
+        description: "The payment was removed from every session it covered.",
       });
-
-      queryClient.invalidateQueries({ queryKey: ['student-sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['calendar-sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['unpaid-sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['earnings'] });
-      queryClient.invalidateQueries({ queryKey: ['dashboard'] });
-      
-      const tutorId = await getCurrentTutorId();
-      if (tutorId) {
-        invalidateSessionCountCache(tutorId);
-      }
-
-      handleClose();
+      await invalidatePaymentQueries(queryClient);
     },
     onError: (error: any) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to mark session as paid. Please try again.",
+        description: error.message || "Failed to delete payment. Please try again.",
         variant: "destructive",
       });
     },
@@ -280,44 +295,11 @@ export function SessionDetailsModal({ isOpen, onClose, session }: SessionDetails
     updateSessionMutation.mutate({ notes, color: sessionColor, applyToSeries, repeatWeekly });
   };
 
-  const openCancelModal = () => {
+  const openCancelModal = (scope: SeriesEditScope = "this") => {
+    setCancelScope(scope);
     setShowCancelModal(true);
   };
 
-  const openBulkCancelModal = async () => {
-    if (!session?.recurrence_id) {
-      toast({
-        title: "Error",
-        description: "Cannot cancel future sessions: No recurrence group found",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    try {
-      const { data: sessionsToCancel, error: fetchError } = await supabase
-        .from('sessions')
-        .select('id, google_calendar_event_id')
-        .eq('recurrence_id', session.recurrence_id)
-        .gte('session_start', session.session_start);
-
-      if (fetchError) throw fetchError;
-
-      if (sessionsToCancel && sessionsToCancel.length > 0) {
-        setBulkSessionIds(sessionsToCancel.map(s => s.id));
-        setBulkGoogleEventIds(sessionsToCancel.filter(s => s.google_calendar_event_id).map(s => s.google_calendar_event_id!));
-        setShowBulkCancelModal(true);
-      }
-    } catch (error) {
-      console.error('Error fetching sessions for bulk cancel:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load sessions for cancellation",
-        variant: "destructive",
-      });
-    }
-  };
-
   const handleCancelSuccess = () => {
     handleClose();
   };
@@ -340,6 +322,7 @@ export function SessionDetailsModal({ isOpen, onClose, session }: SessionDetails
     session_end: session.session_end || ''
   }, tutorTimezone ?? 'UTC');
   const earnings = (durationMinutes / 60) * session.rate;
+  const amountPaid = sessionPayments.reduce((total, payment) => total + payment.allocated, 0);
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
@@ -514,23 +497,78 @@ export function SessionDetailsModal({ isOpen, onClose, session }: SessionDetails
                 <div className="border rounded-md p-3 bg-green-50/50 dark:bg-green-950/30 border-green-200 dark:border-green-800">
                   <div className="flex items-center justify-between">
                     <div>
-                      <h4 className="text-sm font-medium text-green-800 dark:text-green-200">Payment Pending</h4>
-                      <p className="text-xs text-green-600 dark:text-green-400">This session hasn't been marked as paid yet</p>
+                      <h4 className="text-sm font-medium text-green-800 dark:text-green-200">
+                        {amountPaid > 0 ? "Partially Paid" : "Payment Pending"}
+                      </h4>
+                      <p className="text-xs text-green-600 dark:text-green-400">
+                        {amountPaid > 0
+                          ? `${formatCurrency(amountPaid, 'USD')} of ${formatCurrency(sessionAmountDue(session), 'USD')} received`
+                          : "This session hasn't been marked as paid yet"}
+                      </p>
                     </div>
                     <Button
                       size="sm"
-                      onClick={() => markAsPaidMutation.mutate()}
-                      disabled={markAsPaidMutation.isPending}
+                      onClick={() => setShowPaymentModal(true)}
                       className="bg-green-600 hover:bg-green-700 text-white"
                       data-testid="button-mark-as-paid"
                     >
                       <CheckCircle className="w-4 h-4 mr-2" />
-                      {markAsPaidMutation.isPending ? "Saving..." : "Mark as Paid"}
+                      Mark as Paid
                     </Button>
                   </div>
                 </div>
               )}
 
+              {/* Payments recorded against this session */}
+              {sessionPayments.length > 0 && (
+                <div className="border rounded-md p-3">
+                  <h4 className="text-sm font-medium mb-2">Payments</h4>
+                  <div className="space-y-2">
+                    {sessionPayments.map(payment => (
+                      <div key={payment.id} className="flex items-center justify-between text-sm" data-testid={`payment-${payment.id}`}>
+                        <div>
+                          <span className="font-medium">{formatCurrency(payment.allocated, 'USD')}</span>
+                          <span className="text-muted-foreground">
+                            {' '}· {paymentMethodLabel(payment.method)} · {dayjs(payment.payment_date).format('MMM D, YYYY')}
+                            {Number(payment.amount) !== payment.allocated && ` · part of ${formatCurrency(Number(payment.amount), 'USD')}`}
+                          </span>
+                          {payment.note && <p className="text-xs text-muted-foreground">{sanitizeText(payment.note)}</p>}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deletePaymentMutation.mutate(payment.id)}
+                          disabled={deletePaymentMutation.isPending}
+                          title="Delete payment"
+                          aria-label="Delete payment"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Invoices that include this session */}
+              {sessionInvoices.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <FileText className="h-4 w-4 text-muted-foreground" />
+                  {sessionInvoices.map(invoice => (
+                    <Button
+                      key={invoice.id}
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => handleOpenInvoice(invoice.id)}
+                      data-testid={`link-invoice-${invoice.id}`}
+                    >
+                      {formatInvoiceNumber(invoice.number)} ({invoiceStatusLabel(invoice.status)})
+                    </Button>
+                  ))}
+                </div>
+              )}
+
               {/* This Session Section */}
               <div className="border rounded-md p-3 bg-gray-50/50 dark:bg-gray-800/50">
                 <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">This Session</h4>
@@ -554,7 +592,7 @@ export function SessionDetailsModal({ isOpen, onClose, session }: SessionDetails
                   <Button 
                     variant="destructive" 
                     size="sm" 
-                    onClick={openCancelModal}
+                    onClick={() => openCancelModal("this")}
                     className="flex items-center justify-center gap-2 h-10"
                     data-testid="button-cancel-session"
                   >
@@ -588,7 +626,7 @@ export function SessionDetailsModal({ isOpen, onClose, session }: SessionDetails
                     <Button 
                       variant="destructive"
                       className="w-full"
-                      onClick={openBulkCancelModal}
+                      onClick={() => openCancelModal("following")}
                       data-testid="button-cancel-future-sessions"
                     >
                       <Trash2 className="w-4 h-4 mr-2" />
@@ -614,7 +652,7 @@ export function SessionDetailsModal({ isOpen, onClose, session }: SessionDetails
         </div>
       </DialogContent>
 
-      {/* Cancel Session Modal - Single Session */}
+      {/* Cancel Session Modal - this / following / all for recurring sessions */}
       <CancelSessionModal
         isOpen={showCancelModal}
         onClose={() => setShowCancelModal(false)}
@@ -622,24 +660,17 @@ export function SessionDetailsModal({ isOpen, onClose, session }: SessionDetails
         studentId={session?.student_id}
         studentName={session?.student_name || ""}
         googleCalendarEventId={session?.google_calendar_event_id}
+        recurrenceId={session?.recurrence_id}
+        defaultScope={cancelScope}
         onSuccess={handleCancelSuccess}
       />
 
-      {/* Cancel Session Modal - Bulk (Future Sessions) */}
-      <CancelSessionModal
-        isOpen={showBulkCancelModal}
-        onClose={() => {
-          setShowBulkCancelModal(false);
-          setBulkSessionIds([]);
-          setBulkGoogleEventIds([]);
-        }}
-        sessionId={session?.id || ""}
-        studentId={session?.student_id}
-        studentName={session?.student_name || ""}
-        isBulk={true}
-        bulkSessionIds={bulkSessionIds}
-        bulkGoogleEventIds={bulkGoogleEventIds}
-        onSuccess={handleCancelSuccess}
+      <RecordPaymentModal
+        isOpen={showPaymentModal}
+        onClose={() => setShowPaymentModal(false)}
+        sessionIds={session ? [session.id] : []}
+        studentName={session?.student_name}
+        onSuccess={handleClose}
       />
     </Dialog>
   );
@@ -26,6 +26,7 @@ import { useState, useEffect } from "react";
 import { SessionDetailsModal } from "./session-details-modal";
 import { ScheduleSessionModal } from "./schedule-session-modal";
 import { useCancellationStats, formatCancellationRate } from "@/hooks/useCancellationStats";
+import { StudentPackages } from "@/components/students/StudentPackages";
 
 interface Session {
   id: string;
@@ -289,6 +290,8 @@ export function StudentSessionHistoryModal({ isOpen, onClose, student }: Student
           )}
 
           <div className="flex-1 overflow-y-auto space-y-4">
+            {student && <StudentPackages studentId={student.id} studentName={student.name} />}
+
             {isLoading ? (
               <div className="flex items-center justify-center py-8">
                 <div className="text-center">
@@ -1,6 +1,9 @@
-import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabaseClient';
+import { createTelegramLinkCode } from '@/services/telegram';
+import { TELEGRAM_LINK_CODE_TTL_MINUTES, type TelegramLinkCode } from '@shared/telegram';
+import dayjs from 'dayjs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -11,18 +14,127 @@ import {
   ExternalLink,
   Bell,
   Calendar,
-  DollarSign
+  DollarSign,
+  KeyRound,
+  Loader2
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 
+// How often the connection status is re-checked while a code is waiting to be sent to the bot
+const LINK_STATUS_POLL_MS = 3000;
+
+/**
+ * Hands out a one-time code for the bot, with a t.me link that sends it in one tap. Shows
+ * connected as soon as the bot has used the code.
+ */
+export function TelegramLinkCodePanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [linkCode, setLinkCode] = useState<TelegramLinkCode | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const isExpired = !!linkCode && dayjs(linkCode.expiresAt).valueOf() <= now;
+
+  // Pick up the link as soon as the bot makes it
+  useEffect(() => {
+    if (!linkCode || isExpired) return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      queryClient.invalidateQueries({ queryKey: ['telegram-status'] });
+      queryClient.invalidateQueries({ queryKey: ['tutor-telegram-status'] });
+    }, LINK_STATUS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [linkCode, isExpired, queryClient]);
+
+  const createCodeMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await createTelegramLinkCode();
+      if (error) throw error;
+      return data!;
+    },
+    onSuccess: (code) => {
+      setNow(Date.now());
+      setLinkCode(code);
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Couldn't create a code",
+        description: error.message || "Please try again.",
+      });
+    },
+  });
+
+  const handleCopyCode = async () => {
+    if (!linkCode) return;
+    await navigator.clipboard.writeText(linkCode.code);
+    setCopied(true);
+    toast({
+      title: "Code copied!",
+      description: "Send it to the Classterly bot to connect your account.",
+    });
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (!linkCode || isExpired) {
+    return (
+      <div className="space-y-2">
+        {isExpired && (
+          <p className="text-sm text-muted-foreground">That code has expired. Get a new one to connect.</p>
+        )}
+        <Button
+          onClick={() => createCodeMutation.mutate()}
+          disabled={createCodeMutation.isPending}
+          className="gap-2"
+          data-testid="button-telegram-link-code"
+        >
+          {createCodeMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+          Connect Telegram
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {linkCode.deepLink && (
+        <Button
+          className="w-full justify-center gap-2"
+          onClick={() => window.open(linkCode.deepLink!, '_blank')}
+          data-testid="button-open-telegram-link"
+        >
+          <MessageCircle className="h-4 w-4" />
+          Open Telegram and connect
+          <ExternalLink className="h-3 w-3 ml-1" />
+        </Button>
+      )}
+      <p className="text-sm text-muted-foreground">
+        {linkCode.deepLink ? 'Or send this code to the bot:' : 'Send this code to the Classterly bot:'}
+      </p>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 px-3 py-2 bg-muted rounded-md text-lg font-mono tracking-widest text-center" data-testid="text-telegram-link-code">
+          {linkCode.code}
+        </code>
+        <Button variant="outline" size="icon" onClick={handleCopyCode} data-testid="button-copy-link-code">
+          {copied ? <CheckCircle2 className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Works once, for {TELEGRAM_LINK_CODE_TTL_MINUTES} minutes. Keep it to yourself: whoever sends it gets your notifications.
+      </p>
+    </div>
+  );
+}
+
 interface TelegramSetupCardProps {
   compact?: boolean;
 }
 
 export function TelegramSetupCard({ compact = false }: TelegramSetupCardProps) {
-  const { toast } = useToast();
-  const [copiedEmail, setCopiedEmail] = useState(false);
+  const [showLinkCode, setShowLinkCode] = useState(false);
 
   const { data: tutorData } = useQuery({
     queryKey: ['tutor-telegram-status'],
@@ -32,7 +144,7 @@ export function TelegramSetupCard({ compact = false }: TelegramSetupCardProps) {
 
       const { data, error } = await supabase
         .from('tutors')
-        .select('email, telegram_chat_id')
+        .select('telegram_chat_id')
         .eq('user_id', user.id)
         .single();
 
@@ -46,23 +158,6 @@ export function TelegramSetupCard({ compact = false }: TelegramSetupCardProps) {
   });
 
   const isConnected = !!tutorData?.telegram_chat_id;
-  const tutorEmail = tutorData?.email;
-
-  const handleCopyEmail = async () => {
-    if (tutorEmail) {
-      await navigator.clipboard.writeText(tutorEmail);
-      setCopiedEmail(true);
-      toast({
-        title: "Email copied!",
-        description: "Send this to the Telegram bot to connect your account.",
-      });
-      setTimeout(() => setCopiedEmail(false), 2000);
-    }
-  };
-
-  const handleOpenTelegram = () => {
-    window.open('https://t.me/ClassterHQBot', '_blank');
-  };
 
   if (isConnected) {
     return (
@@ -96,11 +191,17 @@ export function TelegramSetupCard({ compact = false }: TelegramSetupCardProps) {
               <p className="font-medium text-sm">Connect Telegram</p>
               <p className="text-xs text-muted-foreground">Get booking alerts on your phone</p>
             </div>
-            <Button size="sm" onClick={handleOpenTelegram} data-testid="button-setup-telegram-compact">
-              Connect
-              <ExternalLink className="ml-1 h-3 w-3" />
-            </Button>
+            {!showLinkCode && (
+              <Button size="sm" onClick={() => setShowLinkCode(true)} data-testid="button-setup-telegram-compact">
+                Connect
+              </Button>
+            )}
           </div>
+          {showLinkCode && (
+            <div className="pt-3">
+              <TelegramLinkCodePanel />
+            </div>
+          )}
         </CardContent>
       </Card>
     );
@@ -140,45 +241,16 @@ export function TelegramSetupCard({ compact = false }: TelegramSetupCardProps) {
         <div className="space-y-3 pt-2">
           <div className="flex items-center gap-2">
             <Badge variant="outline" className="rounded-full px-3">1</Badge>
-            <span className="text-sm">Open the Classterly Telegram Bot</span>
+            <span className="text-sm">Get a one-time code for your account</span>
           </div>
-          <Button 
-            variant="outline" 
-            className="w-full justify-center gap-2" 
-            onClick={handleOpenTelegram}
-            data-testid="button-open-telegram-bot"
-          >
-            <MessageCircle className="h-4 w-4" />
-            Open @ClassterHQBot
-            <ExternalLink className="h-3 w-3 ml-1" />
-          </Button>
-
-          <div className="flex items-center gap-2 pt-2">
+          <div className="flex items-center gap-2">
             <Badge variant="outline" className="rounded-full px-3">2</Badge>
-            <span className="text-sm">Send your email to the bot</span>
+            <span className="text-sm">Open the bot from the link, or send it the code</span>
           </div>
-          {tutorEmail && (
-            <div className="flex items-center gap-2">
-              <code className="flex-1 px-3 py-2 bg-muted rounded-md text-sm font-mono truncate">
-                {tutorEmail}
-              </code>
-              <Button 
-                variant="outline" 
-                size="icon" 
-                onClick={handleCopyEmail}
-                data-testid="button-copy-email"
-              >
-                {copiedEmail ? (
-                  <CheckCircle2 className="h-4 w-4 text-green-500" />
-                ) : (
-                  <Copy className="h-4 w-4" />
-                )}
-              </Button>
-            </div>
-          )}
+          <TelegramLinkCodePanel />
 
           <p className="text-xs text-muted-foreground pt-2">
-            The bot will verify your email and start sending you notifications. You'll receive daily summaries at 9 PM in your timezone.
+            Once connected you'll receive daily summaries at 9 PM in your timezone (change the time and content on your profile page). Send /stop to the bot to disconnect.
           </p>
         </div>
       </CardContent>
@@ -0,0 +1,204 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import { cn } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+import {
+  DEFAULT_NOTIFICATION_DAYS,
+  DEFAULT_NOTIFICATION_SECTIONS,
+  DEFAULT_NOTIFICATION_TIME,
+  NOTIFICATION_SECTIONS,
+  WEEKDAY_LABELS,
+  type NotificationSection,
+} from "@shared/notificationSchedule";
+
+interface ScheduleSettings {
+  time_format: string | null;
+  notification_time: string | null;
+  notification_days: number[] | null;
+  notification_sections: NotificationSection[] | null;
+}
+
+// Every half hour; later than 23:00 would leave less than the hour the summary is sent within
+const TIME_OPTIONS = Array.from({ length: 47 }, (_, index) => {
+  const hours = Math.floor(index / 2);
+  return `${String(hours).padStart(2, '0')}:${index % 2 === 0 ? '00' : '30'}`;
+});
+
+// Monday first on screen; the values stay Sunday = 0
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function formatTimeOption(time: string, timeFormat: string | null): string {
+  if (timeFormat !== '12h') return time;
+  const [hours, minutes] = time.split(':').map(Number);
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+}
+
+// When the Telegram daily summary goes out and what it includes
+export function NotificationScheduleSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['notification-schedule'],
+    queryFn: async (): Promise<ScheduleSettings | null> => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) return null;
+
+      const { data, error } = await supabase
+        .from('tutors')
+        .select('time_format, notification_time, notification_days, notification_sections')
+        .eq('id', tutorId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching notification schedule:', error);
+        throw error;
+      }
+
+      return data;
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (update: Partial<Omit<ScheduleSettings, 'time_format'>>) => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) {
+        throw new Error('User not authenticated or tutor record not found');
+      }
+
+      const { error } = await supabase
+        .from('tutors')
+        .update(update)
+        .eq('id', tutorId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notification-schedule'] });
+    },
+    onError: (error: any) => {
+      console.error('Error saving notification schedule:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to save your notification schedule.",
+      });
+    },
+  });
+
+  // Postgres returns TIME as HH:MM:SS
+  const time = (settings?.notification_time || DEFAULT_NOTIFICATION_TIME).slice(0, 5);
+  const days = settings?.notification_days ?? DEFAULT_NOTIFICATION_DAYS;
+  const sections = settings?.notification_sections ?? DEFAULT_NOTIFICATION_SECTIONS;
+
+  const toggleDay = (day: number) => {
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b);
+    if (next.length === 0) {
+      toast({
+        title: "Keep at least one day",
+        description: "Disconnect Telegram instead to stop the summaries.",
+      });
+      return;
+    }
+    updateMutation.mutate({ notification_days: next });
+  };
+
+  const toggleSection = (section: NotificationSection, checked: boolean) => {
+    const next = checked ? [...sections, section] : sections.filter(s => s !== section);
+    // The recap only shows on Sundays, so on its own most summaries would be empty
+    if (!next.some(s => s !== 'weekly_recap')) {
+      toast({
+        title: "Keep at least one daily section",
+        description: "The summary needs something to show on every day it's sent.",
+      });
+      return;
+    }
+    updateMutation.mutate({ notification_sections: next });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Daily Summary Schedule</CardTitle>
+        <CardDescription>
+          Choose when your Telegram summary arrives (in your timezone) and what it includes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="notification-time">Delivery time</Label>
+              <Select
+                value={time}
+                onValueChange={(value) => updateMutation.mutate({ notification_time: value })}
+                disabled={updateMutation.isPending}
+              >
+                <SelectTrigger id="notification-time" className="w-[140px]" data-testid="select-notification-time">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIME_OPTIONS.map(option => (
+                    <SelectItem key={option} value={option}>
+                      {formatTimeOption(option, settings?.time_format ?? null)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Days</Label>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAY_ORDER.map(day => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    disabled={updateMutation.isPending}
+                    className={cn(
+                      "rounded-full border px-3 py-1 text-sm transition-colors disabled:opacity-50",
+                      days.includes(day)
+                        ? "border-primary bg-primary text-primary-foreground"
+                        : "border-input hover:bg-accent"
+                    )}
+                    data-testid={`button-notification-day-${day}`}
+                  >
+                    {WEEKDAY_LABELS[day]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sections</Label>
+              {NOTIFICATION_SECTIONS.map(section => (
+                <div key={section.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`notification-section-${section.value}`}
+                    checked={sections.includes(section.value)}
+                    onCheckedChange={(checked) => toggleSection(section.value, checked === true)}
+                    disabled={updateMutation.isPending}
+                  />
+                  <Label htmlFor={`notification-section-${section.value}`} className="font-normal">
+                    {section.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
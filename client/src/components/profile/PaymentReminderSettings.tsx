@@ -0,0 +1,201 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import { cn, formatCurrency } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+import {
+  DEFAULT_PAYMENT_REMINDER_DAYS,
+  PAYMENT_REMINDER_DAY_OPTIONS,
+  describeReminderDays,
+  type PaymentReminder,
+} from "@shared/paymentReminders";
+import dayjs from "dayjs";
+
+interface ReminderSettings {
+  payment_reminders_enabled: boolean;
+  payment_reminder_days: number[];
+}
+
+type ReminderLogEntry = PaymentReminder & { students: { name: string } | null };
+
+const LOG_LIMIT = 20;
+
+// When students get emailed about unpaid sessions, and what has been sent so far
+export function PaymentReminderSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['payment-reminder-settings'],
+    queryFn: async (): Promise<ReminderSettings | null> => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) return null;
+
+      const { data, error } = await supabase
+        .from('tutors')
+        .select('payment_reminders_enabled, payment_reminder_days')
+        .eq('id', tutorId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching payment reminder settings:', error);
+        throw error;
+      }
+
+      return data;
+    },
+  });
+
+  const { data: log = [] } = useQuery({
+    queryKey: ['payment-reminders'],
+    queryFn: async (): Promise<ReminderLogEntry[]> => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) return [];
+
+      const { data, error } = await supabase
+        .from('payment_reminders')
+        .select('*, students (name)')
+        .eq('tutor_id', tutorId)
+        .order('created_at', { ascending: false })
+        .limit(LOG_LIMIT);
+
+      if (error) {
+        console.error('Error fetching payment reminders:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (update: Partial<ReminderSettings>) => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) {
+        throw new Error('User not authenticated or tutor record not found');
+      }
+
+      const { error } = await supabase
+        .from('tutors')
+        .update(update)
+        .eq('id', tutorId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payment-reminder-settings'] });
+    },
+    onError: (error: any) => {
+      console.error('Error saving payment reminder settings:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to save payment reminder settings.",
+      });
+    },
+  });
+
+  const enabled = settings?.payment_reminders_enabled ?? false;
+  const days = settings?.payment_reminder_days ?? DEFAULT_PAYMENT_REMINDER_DAYS;
+
+  const toggleDay = (day: number) => {
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b);
+    if (next.length === 0) {
+      toast({
+        title: "Keep at least one reminder",
+        description: "Turn reminders off instead to stop them.",
+      });
+      return;
+    }
+    updateMutation.mutate({ payment_reminder_days: next });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Payment Reminders</CardTitle>
+        <CardDescription>
+          Email students a summary of what they owe when a session stays unpaid. Students without an email address, or who opted out, are skipped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="payment-reminders-enabled">Send payment reminders</Label>
+                <p className="text-sm text-muted-foreground">{describeReminderDays(days)}</p>
+              </div>
+              <Switch
+                id="payment-reminders-enabled"
+                checked={enabled}
+                onCheckedChange={(checked) => updateMutation.mutate({ payment_reminders_enabled: checked })}
+                disabled={updateMutation.isPending}
+                data-testid="switch-payment-reminders"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Days after the session</Label>
+              <div className="flex flex-wrap gap-2">
+                {PAYMENT_REMINDER_DAY_OPTIONS.map(day => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    disabled={!enabled || updateMutation.isPending}
+                    className={cn(
+                      "rounded-full border px-3 py-1 text-sm transition-colors disabled:opacity-50",
+                      days.includes(day)
+                        ? "border-primary bg-primary text-primary-foreground"
+                        : "border-input hover:bg-accent"
+                    )}
+                    data-testid={`button-reminder-day-${day}`}
+                  >
+                    {day} day{day !== 1 ? 's' : ''}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Recently sent</Label>
+              {log.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No reminders sent yet.</p>
+              ) : (
+                <div className="space-y-1">
+                  {log.map(entry => (
+                    <div key={entry.id} className="flex items-center justify-between gap-2 text-sm" data-testid={`reminder-${entry.id}`}>
+                      <div className="min-w-0">
+                        <span className="font-medium">{entry.students?.name || entry.sent_to}</span>
+                        <span className="text-muted-foreground">
+                          {' '}· {formatCurrency(Number(entry.amount), entry.currency)} for {entry.session_count} session{entry.session_count !== 1 ? 's' : ''} · {entry.days_after}-day reminder
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <span className="text-xs text-muted-foreground">{dayjs(entry.created_at).format('MMM D, HH:mm')}</span>
+                        {entry.status === 'failed' && (
+                          <Badge variant="destructive" className="text-xs" title={entry.error || undefined}>Failed</Badge>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
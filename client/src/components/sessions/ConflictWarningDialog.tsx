@@ -0,0 +1,112 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import type { SessionConflict } from "@shared/conflicts";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const MAX_LISTED_CONFLICTS = 5;
+
+interface ConflictWarningDialogProps {
+  open: boolean;
+  conflicts: SessionConflict[];
+  timezone: string;
+  timeFormat?: string; // '12h' | '24h'
+  allowOverride?: boolean; // false = block, only "Go back" is offered
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function ConflictWarningDialog({
+  open,
+  conflicts,
+  timezone,
+  timeFormat = "24h",
+  allowOverride = true,
+  onConfirm,
+  onCancel,
+}: ConflictWarningDialogProps) {
+  const timePattern = timeFormat === "12h" ? "h:mm A" : "HH:mm";
+  const affectedCount = new Set(conflicts.map(conflict => conflict.proposed.start)).size;
+  const listed = conflicts.slice(0, MAX_LISTED_CONFLICTS);
+
+  const formatRange = (start: string, end: string) => {
+    const localStart = dayjs.utc(start).tz(timezone);
+    const localEnd = dayjs.utc(end).tz(timezone);
+    return `${localStart.format(`ddd, MMM D · ${timePattern}`)} – ${localEnd.format(timePattern)}`;
+  };
+
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent className="w-[95vw] max-w-md sm:max-w-lg" onEscapeKeyDown={onCancel}>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            Scheduling conflict
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {affectedCount > 1
+              ? `${affectedCount} of the sessions overlap or are too close to sessions you already have.`
+              : "This time overlaps or is too close to a session you already have."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {listed.map((conflict, index) => (
+            <li
+              key={`${conflict.session.id}-${conflict.proposed.start}-${index}`}
+              className="rounded-md border p-2 text-sm"
+              data-testid={`conflict-item-${index}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">
+                  {conflict.session.student_name || conflict.session.unassigned_name || "Session"}
+                </span>
+                <div className="flex gap-1">
+                  {conflict.isPending && <Badge variant="outline">Pending request</Badge>}
+                  {conflict.kind === "buffer" && <Badge variant="secondary">Within buffer time</Badge>}
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {formatRange(conflict.session.session_start, conflict.session.session_end)}
+              </p>
+            </li>
+          ))}
+        </ul>
+        {conflicts.length > MAX_LISTED_CONFLICTS && (
+          <p className="text-xs text-muted-foreground">
+            and {conflicts.length - MAX_LISTED_CONFLICTS} more
+          </p>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel} data-testid="button-conflict-go-back">
+            Go back
+          </AlertDialogCancel>
+          {allowOverride && (
+            <AlertDialogAction
+              onClick={onConfirm}
+              className="bg-orange-600 hover:bg-orange-700"
+              data-testid="button-schedule-anyway"
+            >
+              Schedule anyway
+            </AlertDialogAction>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
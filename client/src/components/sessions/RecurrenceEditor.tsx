@@ -0,0 +1,242 @@
+import { useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  isLastWeekdayOfMonth,
+  weekOfMonth,
+  type RecurrenceRule,
+} from "@shared/recurrence";
+import type { RecurrenceFrequency } from "@shared/schema";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export type RecurrenceEndType = "never" | "until" | "count";
+
+export interface RecurrenceFormValue {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: number[];
+  monthlyWeek: number | null;
+  endType: RecurrenceEndType;
+  until: string; // YYYY-MM-DD
+  count: number;
+}
+
+export const defaultRecurrenceValue: RecurrenceFormValue = {
+  frequency: "weekly",
+  interval: 1,
+  weekdays: [],
+  monthlyWeek: null,
+  endType: "count",
+  until: "",
+  count: 12,
+};
+
+export function toRecurrenceRule(value: RecurrenceFormValue): RecurrenceRule {
+  return {
+    frequency: value.frequency,
+    interval: value.interval,
+    weekdays: value.frequency === "weekly" ? value.weekdays : [],
+    monthlyWeek: value.frequency === "monthly" ? value.monthlyWeek : null,
+    until: value.endType === "until" && value.until ? value.until : null,
+    count: value.endType === "count" ? value.count : null,
+  };
+}
+
+const ORDINALS = ["first", "second", "third", "fourth"];
+
+interface RecurrenceEditorProps {
+  value: RecurrenceFormValue;
+  onChange: (value: RecurrenceFormValue) => void;
+  firstSessionStart?: string; // UTC ISO string
+  timezone: string;
+}
+
+export function RecurrenceEditor({ value, onChange, firstSessionStart, timezone }: RecurrenceEditorProps) {
+  const firstLocal = firstSessionStart ? dayjs.utc(firstSessionStart).tz(timezone) : null;
+  const firstWeekday = firstLocal ? firstLocal.day() : null;
+
+  const update = (patch: Partial<RecurrenceFormValue>) => onChange({ ...value, ...patch });
+
+  const monthlyOptions: Array<{ value: number; label: string }> = [];
+  if (firstLocal) {
+    const nth = weekOfMonth(firstLocal);
+    const weekdayName = firstLocal.format("dddd");
+    if (nth <= 4) {
+      monthlyOptions.push({ value: nth, label: `On the ${ORDINALS[nth - 1]} ${weekdayName}` });
+    }
+    if (isLastWeekdayOfMonth(firstLocal)) {
+      monthlyOptions.push({ value: -1, label: `On the last ${weekdayName}` });
+    }
+  }
+  const monthlyOptionsKey = monthlyOptions.map(o => o.value).join(",");
+
+  // Keep the rule consistent with the first session when its date changes:
+  // its weekday stays selected (weekly) and the nth-weekday choice stays valid (monthly)
+  useEffect(() => {
+    if (value.frequency === "weekly" && firstWeekday !== null && !value.weekdays.includes(firstWeekday)) {
+      onChange({ ...value, weekdays: [...value.weekdays, firstWeekday].sort((a, b) => a - b) });
+    } else if (value.frequency === "monthly" && !monthlyOptions.some(o => o.value === value.monthlyWeek)) {
+      onChange({ ...value, monthlyWeek: monthlyOptions[0]?.value ?? null });
+    }
+  }, [firstWeekday, monthlyOptionsKey, value.frequency]);
+
+  const toggleWeekday = (day: number) => {
+    if (day === firstWeekday) return; // the first session's day can't be removed
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter(d => d !== day)
+      : [...value.weekdays, day].sort((a, b) => a - b);
+    update({ weekdays });
+  };
+
+  const unit = value.frequency === "monthly" ? "month" : "week";
+
+  return (
+    <div className="space-y-3 border rounded-lg p-3 bg-muted/30">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Repeats</Label>
+          <Select
+            value={value.frequency}
+            onValueChange={(frequency) => update({
+              frequency: frequency as RecurrenceFrequency,
+              monthlyWeek: frequency === "monthly" ? (monthlyOptions[0]?.value ?? null) : null,
+            })}
+          >
+            <SelectTrigger data-testid="select-recurrence-frequency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Every</Label>
+          <Select
+            value={value.interval.toString()}
+            onValueChange={(interval) => update({ interval: parseInt(interval, 10) })}
+          >
+            <SelectTrigger data-testid="select-recurrence-interval">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[1, 2, 3, 4].map((n) => (
+                <SelectItem key={n} value={n.toString()}>
+                  {n === 1 ? `Every ${unit}` : `Every ${n} ${unit}s`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {value.frequency === "weekly" ? (
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">On</Label>
+          <div className="flex gap-1 flex-wrap">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                className={cn(
+                  "h-8 w-10 rounded-md border text-xs font-medium transition-colors",
+                  value.weekdays.includes(day)
+                    ? "bg-primary text-primary-foreground border-primary"
+                    : "bg-background hover:bg-accent",
+                  day === firstWeekday && "cursor-default"
+                )}
+                aria-pressed={value.weekdays.includes(day)}
+                data-testid={`button-weekday-${day}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">On</Label>
+          <Select
+            value={value.monthlyWeek?.toString() ?? ""}
+            onValueChange={(monthlyWeek) => update({ monthlyWeek: parseInt(monthlyWeek, 10) })}
+          >
+            <SelectTrigger data-testid="select-recurrence-monthly-week">
+              <SelectValue placeholder="Pick a date first" />
+            </SelectTrigger>
+            <SelectContent>
+              {monthlyOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value.toString()}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Ends</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <Select
+            value={value.endType}
+            onValueChange={(endType) => update({ endType: endType as RecurrenceEndType })}
+          >
+            <SelectTrigger data-testid="select-recurrence-end">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="count">After</SelectItem>
+              <SelectItem value="until">On date</SelectItem>
+              <SelectItem value="never">Never</SelectItem>
+            </SelectContent>
+          </Select>
+          {value.endType === "count" && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={2}
+                max={200}
+                value={value.count || ""}
+                onChange={(e) => update({ count: parseInt(e.target.value, 10) || 0 })}
+                data-testid="input-recurrence-count"
+              />
+              <span className="text-xs text-muted-foreground whitespace-nowrap">sessions</span>
+            </div>
+          )}
+          {value.endType === "until" && (
+            <Input
+              type="date"
+              value={value.until}
+              min={firstLocal?.format("YYYY-MM-DD")}
+              onChange={(e) => update({ until: e.target.value })}
+              data-testid="input-recurrence-until"
+            />
+          )}
+        </div>
+      </div>
+
+      {firstSessionStart && (
+        <p className="text-xs text-muted-foreground">
+          {describeRecurrence(toRecurrenceRule(value), firstSessionStart, timezone)}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { cn } from "@/lib/utils";
+import type { SeriesEditScope } from "@shared/schema";
+
+const SCOPE_OPTIONS: Array<{ value: SeriesEditScope; label: string; description: string }> = [
+  {
+    value: "this",
+    label: "This session",
+    description: "Other sessions in the series stay as they are",
+  },
+  {
+    value: "following",
+    label: "This and following sessions",
+    description: "Earlier sessions keep their current details",
+  },
+  {
+    value: "all",
+    label: "All upcoming sessions",
+    description: "Every session in the series from now on; past sessions are not changed",
+  },
+];
+
+interface SeriesScopePickerProps {
+  value: SeriesEditScope;
+  onChange: (scope: SeriesEditScope) => void;
+  label?: string;
+}
+
+export function SeriesScopePicker({ value, onChange, label = "Apply to" }: SeriesScopePickerProps) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">{label}</Label>
+      <RadioGroup
+        value={value}
+        onValueChange={(scope) => onChange(scope as SeriesEditScope)}
+        className="space-y-2"
+      >
+        {SCOPE_OPTIONS.map((option) => (
+          <div
+            key={option.value}
+            className={cn(
+              "flex items-start space-x-3 p-3 rounded-lg border transition-all cursor-pointer",
+              value === option.value
+                ? "border-blue-500 bg-blue-50 dark:bg-blue-950/30"
+                : "border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600"
+            )}
+            onClick={() => onChange(option.value)}
+            data-testid={`radio-scope-${option.value}`}
+          >
+            <RadioGroupItem value={option.value} id={`scope-${option.value}`} className="mt-0.5" />
+            <div>
+              <Label htmlFor={`scope-${option.value}`} className="font-medium cursor-pointer">
+                {option.label}
+              </Label>
+              <p className="text-xs text-muted-foreground">{option.description}</p>
+            </div>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { invalidatePaymentQueries } from "@/components/modals/record-payment-modal";
+import { useToast } from "@/hooks/use-toast";
+import { useStudentPackages } from "@/hooks/useStudentPackages";
+import { useTimezone } from "@/contexts/TimezoneContext";
+import { supabase } from "@/lib/supabaseClient";
+import { cn, formatCurrency } from "@/lib/utils";
+import { createStudentPackage, deleteStudentPackage } from "@/services/studentPackages";
+import { todayPaymentDate } from "@/services/payments";
+import { Package, Plus, Trash2 } from "lucide-react";
+import { PAYMENT_METHODS, type PaymentMethod } from "@shared/payments";
+import {
+  isPackageExpired,
+  packageAlert,
+  packageRemaining,
+  studentPackageBalance,
+  type PackageKind,
+  type StudentPackage,
+} from "@shared/studentPackages";
+import type { CreateStudentPackageInput } from "@shared/schema";
+
+// "3 of 10 lessons left" / "$40.00 of $200.00 left"
+export function formatPackageRemaining(pkg: StudentPackage, currency: string): string {
+  const remaining = packageRemaining(pkg);
+  if (pkg.kind === 'sessions') {
+    return `${remaining} of ${pkg.session_count} lesson${pkg.session_count !== 1 ? 's' : ''} left`;
+  }
+  return `${formatCurrency(remaining, currency)} of ${formatCurrency(Number(pkg.credit_amount), currency)} left`;
+}
+
+interface StudentPackagesProps {
+  studentId: string;
+  studentName: string;
+}
+
+// A student's prepaid packages: what is left on them, and selling a new one
+export function StudentPackages({ studentId, studentName }: StudentPackagesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { tutorTimezone } = useTimezone();
+  const packages = useStudentPackages();
+  const today = todayPaymentDate(tutorTimezone || undefined);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<PackageKind>("sessions");
+  const [amount, setAmount] = useState("");
+  const [price, setPrice] = useState("");
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [purchasedOn, setPurchasedOn] = useState(today);
+  const [expiresOn, setExpiresOn] = useState("");
+  const [packageToDelete, setPackageToDelete] = useState<StudentPackage | null>(null);
+
+  const { data: tutorCurrency = 'USD' } = useQuery({
+    queryKey: ['tutor-currency'],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('tutors')
+        .select('currency')
+        .eq('user_id', user.id)
+        .single();
+
+      if (error) {
+        console.error('Error fetching tutor currency:', error);
+        return 'USD';
+      }
+      return data?.currency || 'USD';
+    },
+  });
+
+  const studentPackages = packages.filter(pkg => pkg.student_id === studentId);
+  const balance = studentPackageBalance(packages, studentId, today);
+
+  const invalidate = async () => {
+    queryClient.invalidateQueries({ queryKey: ['student-packages'] });
+    await invalidatePaymentQueries(queryClient);
+  };
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setName("");
+    setKind("sessions");
+    setAmount("");
+    setPrice("");
+    setMethod("cash");
+    setPurchasedOn(todayPaymentDate(tutorTimezone || undefined));
+    setExpiresOn("");
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (input: CreateStudentPackageInput) => {
+      const { data, error } = await createStudentPackage(input);
+      if (error) throw error;
+      return data!;
+    },
+    onSuccess: async ({ consumedCount }) => {
+      await invalidate();
+      toast({
+        title: "Package added",
+        description: consumedCount > 0
+          ? `${consumedCount} unpaid session${consumedCount !== 1 ? 's were' : ' was'} paid from the new package.`
+          : `Sessions with ${studentName} will be paid from it as they end.`,
+      });
+      resetForm();
+    },
+    onError: (error: any) => {
+      console.error('Error adding package:', error);
+      toast({
+        variant: "destructive",
+        title: "Failed to add package",
+        description: error.message || "An error occurred while adding the package.",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (packageId: string) => {
+      const { data, error } = await deleteStudentPackage(packageId);
+      if (error) throw error;
+      return data!;
+    },
+    onSuccess: async ({ sessionIds }) => {
+      await invalidate();
+      toast({
+        title: "Package deleted",
+        description: sessionIds.length > 0
+          ? `${sessionIds.length} session${sessionIds.length !== 1 ? 's are' : ' is'} unpaid again.`
+          : "The package was removed.",
+      });
+      setPackageToDelete(null);
+    },
+    onError: (error: any) => {
+      console.error('Error deleting package:', error);
+      toast({
+        variant: "destructive",
+        title: "Failed to delete package",
+        description: error.message || "An error occurred while deleting the package.",
+      });
+    },
+  });
+
+  const handleAdd = () => {
+    const amountValue = Number(amount);
+    const priceValue = Number(price);
+    if (!name.trim() || !(amountValue > 0) || !(priceValue >= 0) || price === "") {
+      toast({
+        variant: "destructive",
+        title: "Missing details",
+        description: kind === 'sessions'
+          ? "Enter a name, the number of lessons and the price."
+          : "Enter a name, the credit amount and the price.",
+      });
+      return;
+    }
+
+    addMutation.mutate({
+      studentId,
+      name: name.trim(),
+      kind,
+      sessionCount: kind === 'sessions' ? Math.round(amountValue) : null,
+      creditAmount: kind === 'credit' ? amountValue : null,
+      price: priceValue,
+      paymentMethod: method,
+      purchasedOn,
+      expiresOn: expiresOn || null,
+    });
+  };
+
+  const balanceParts = [
+    balance.sessions > 0 ? `${balance.sessions} lesson${balance.sessions !== 1 ? 's' : ''}` : null,
+    balance.credit > 0 ? `${formatCurrency(balance.credit, tutorCurrency)} credit` : null,
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3" data-testid="student-packages">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Package className="h-4 w-4 text-purple-600" />
+          <span className="text-sm font-medium">Prepaid Packages</span>
+          {balanceParts.length > 0 && (
+            <Badge variant="secondary" className="bg-purple-100 text-purple-700">
+              {balanceParts.join(' + ')} left
+            </Badge>
+          )}
+        </div>
+        {!isAdding && (
+          <Button variant="ghost" size="sm" onClick={() => setIsAdding(true)} data-testid="button-add-package">
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {studentPackages.length === 0 && !isAdding && (
+        <p className="text-xs text-muted-foreground">No packages. Sessions are paid one by one.</p>
+      )}
+
+      {studentPackages.map(pkg => {
+        const expired = isPackageExpired(pkg, today);
+        const alert = packageAlert(pkg, today);
+        return (
+          <div
+            key={pkg.id}
+            className={cn(
+              "flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm",
+              (expired || packageRemaining(pkg) === 0) && "opacity-60"
+            )}
+          >
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium truncate">{pkg.name}</span>
+                {expired ? (
+                  <Badge variant="outline" className="text-xs">Expired</Badge>
+                ) : packageRemaining(pkg) === 0 ? (
+                  <Badge variant="outline" className="text-xs">Used up</Badge>
+                ) : alert === 'low_balance' ? (
+                  <Badge variant="outline" className="text-xs border-amber-300 text-amber-700">Running low</Badge>
+                ) : alert === 'expiring' ? (
+                  <Badge variant="outline" className="text-xs border-amber-300 text-amber-700">Expires soon</Badge>
+                ) : null}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {formatPackageRemaining(pkg, tutorCurrency)} · {formatCurrency(Number(pkg.price), tutorCurrency)} paid {pkg.purchased_on}
+                {pkg.expires_on ? ` · until ${pkg.expires_on}` : ''}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground hover:text-red-600"
+              onClick={() => setPackageToDelete(pkg)}
+              data-testid={`button-delete-package-${pkg.id}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      {isAdding && (
+        <div className="space-y-3 rounded-md border bg-muted/30 p-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="package-name">Name</Label>
+              <Input
+                id="package-name"
+                value={name}
+                placeholder="10 lessons"
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as PackageKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sessions">Number of lessons</SelectItem>
+                  <SelectItem value="credit">Credit amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="package-amount">{kind === 'sessions' ? 'Lessons' : `Credit (${tutorCurrency})`}</Label>
+              <Input
+                id="package-amount"
+                type="number"
+                min="0"
+                step={kind === 'sessions' ? "1" : "0.01"}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="package-price">Price ({tutorCurrency})</Label>
+              <Input
+                id="package-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="package-purchased">Bought on</Label>
+              <Input
+                id="package-purchased"
+                type="date"
+                value={purchasedOn}
+                onChange={(e) => setPurchasedOn(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="package-expires">Expires (optional)</Label>
+              <Input
+                id="package-expires"
+                type="date"
+                value={expiresOn}
+                min={purchasedOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Paid by</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAYMENT_METHODS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Unpaid sessions from the purchase date on are paid from the package as they end.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={resetForm} disabled={addMutation.isPending}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleAdd} disabled={addMutation.isPending} data-testid="button-save-package">
+              {addMutation.isPending ? "Saving..." : "Add Package"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={!!packageToDelete}
+        onOpenChange={(open) => !open && setPackageToDelete(null)}
+        title="Delete package?"
+        description="Sessions paid from this package will be unpaid again."
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={() => {
+          if (packageToDelete) deleteMutation.mutate(packageToDelete.id);
+        }}
+        loading={deleteMutation.isPending}
+      />
+    </div>
+  );
+}
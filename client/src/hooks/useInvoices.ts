@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import type { Invoice } from "@shared/invoices";
+
+const NO_INVOICES: Invoice[] = [];
+
+// The signed-in tutor's invoices, newest number first (empty until loaded)
+export function useInvoices(): Invoice[] {
+  const { data } = useQuery({
+    queryKey: ['invoices'],
+    queryFn: async (): Promise<Invoice[]> => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) return [];
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('tutor_id', tutorId)
+        .order('number', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching invoices:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return data ?? NO_INVOICES;
+}
@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import type { LessonType } from "@shared/lessonTypes";
+
+const NO_LESSON_TYPES: LessonType[] = [];
+
+// The signed-in tutor's lesson types, oldest first (empty until loaded)
+export function useLessonTypes(): LessonType[] {
+  const { data } = useQuery({
+    queryKey: ['lesson-types'],
+    queryFn: async (): Promise<LessonType[]> => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) return [];
+
+      const { data, error } = await supabase
+        .from('lesson_types')
+        .select('*')
+        .eq('tutor_id', tutorId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching lesson types:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return data ?? NO_LESSON_TYPES;
+}
@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import { DEFAULT_SLOT_GRANULARITY } from "@shared/bookingRules";
+
+// Minutes per step of the signed-in tutor's time grid (the default until loaded)
+export function useSlotGranularity(): number {
+  const { data } = useQuery({
+    queryKey: ['slot-granularity'],
+    queryFn: async () => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) return DEFAULT_SLOT_GRANULARITY;
+
+      const { data, error } = await supabase
+        .from('tutors')
+        .select('slot_granularity_minutes')
+        .eq('id', tutorId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching slot granularity:', error);
+        return DEFAULT_SLOT_GRANULARITY;
+      }
+
+      return data?.slot_granularity_minutes ?? DEFAULT_SLOT_GRANULARITY;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return data ?? DEFAULT_SLOT_GRANULARITY;
+}
@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import type { StudentPackage } from "@shared/studentPackages";
+
+const NO_PACKAGES: StudentPackage[] = [];
+
+// The signed-in tutor's prepaid packages for all students, newest first (empty until loaded)
+export function useStudentPackages(): StudentPackage[] {
+  const { data } = useQuery({
+    queryKey: ['student-packages'],
+    queryFn: async (): Promise<StudentPackage[]> => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) return [];
+
+      const { data, error } = await supabase
+        .from('student_packages')
+        .select('*')
+        .eq('tutor_id', tutorId)
+        .order('purchased_on', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching student packages:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return data ?? NO_PACKAGES;
+}
@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import { rateChanges, type RateChange, type StudentRate } from "@shared/studentRates";
+
+export interface StudentRateChange extends RateChange {
+  studentName: string;
+}
+
+const NO_RATE_CHANGES: StudentRateChange[] = [];
+
+// Every student's rate entries with the rate each replaced, newest first (empty until loaded)
+export function useStudentRateChanges(): StudentRateChange[] {
+  const { data } = useQuery({
+    queryKey: ['student-rate-changes'],
+    queryFn: async (): Promise<StudentRateChange[]> => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) return [];
+
+      const { data, error } = await supabase
+        .from('student_rates')
+        .select('*, students (name)')
+        .eq('tutor_id', tutorId);
+
+      if (error) {
+        console.error('Error fetching student rates:', error);
+        throw error;
+      }
+
+      const byStudent = new Map<string, Array<StudentRate & { students: { name: string } | null }>>();
+      for (const entry of data || []) {
+        byStudent.set(entry.student_id, [...(byStudent.get(entry.student_id) || []), entry]);
+      }
+
+      return Array.from(byStudent.values())
+        .flatMap(history => rateChanges(history).map(change => ({
+          ...change,
+          studentName: history[0].students?.name || 'Unknown Student',
+        })))
+        .sort((a, b) => b.entry.effective_from.localeCompare(a.entry.effective_from));
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return data ?? NO_RATE_CHANGES;
+}
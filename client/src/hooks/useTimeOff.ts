@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabaseClient";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import type { TimeOff } from "@shared/timeOff";
+
+const NO_TIME_OFF: TimeOff[] = [];
+
+// The signed-in tutor's time-off blocks, oldest first (empty until loaded)
+export function useTimeOff(): TimeOff[] {
+  const { data } = useQuery({
+    queryKey: ['time-off'],
+    queryFn: async (): Promise<TimeOff[]> => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) return [];
+
+      const { data, error } = await supabase
+        .from('time_off')
+        .select('*')
+        .eq('tutor_id', tutorId)
+        .order('starts_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching time off:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return data ?? NO_TIME_OFF;
+}
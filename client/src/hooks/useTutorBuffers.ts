@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { getCurrentTutorId } from "@/lib/tutorHelpers";
+import { fetchTutorBuffers } from "@/services/sessionConflicts";
+import { NO_BUFFERS, type BufferSettings } from "@shared/conflicts";
+
+// The signed-in tutor's before/after buffer minutes (0/0 until loaded)
+export function useTutorBuffers(): BufferSettings {
+  const { data } = useQuery({
+    queryKey: ['tutor-buffers'],
+    queryFn: async () => {
+      const tutorId = await getCurrentTutorId();
+      if (!tutorId) return NO_BUFFERS;
+      return fetchTutorBuffers(tutorId);
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return data ?? NO_BUFFERS;
+}
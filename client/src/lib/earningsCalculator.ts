@@ -8,6 +8,16 @@ dayjs.extend(timezone);
 // Import the new Monday-Sunday date range helpers
 import { weekRange, monthRange, APP_TIMEZONE } from './dateRange';
 
+// What has been received for a session (partial payments count in part). Rows selected
+// without amount_paid fall back to the paid flag.
+export function sessionAmountReceived(session: any): number {
+  if (session.amount_paid !== undefined && session.amount_paid !== null) {
+    return Number(session.amount_paid) || 0;
+  }
+  const isPaid = session.paid === true || session.paid === 'true';
+  return isPaid ? (session.duration / 60) * session.rate : 0;
+}
+
 // Shared earnings calculation logic for Dashboard and Earnings page
 export function calculateEarnings(sessions: any[], tutorTimezone?: string) {
   console.log('📦 EarningsCalculator: Starting with', sessions.length, 'sessions', tutorTimezone ? `in timezone ${tutorTimezone}` : '');
@@ -100,15 +110,15 @@ export function calculateEarnings(sessions: any[], tutorTimezone?: string) {
     }
     
     const sessionDate = new Date(session.session_start);
-    const earnings = (session.duration / 60) * session.rate;
+    const earnings = sessionAmountReceived(session);
     
-    // Resilient paid session check - handle both boolean and string values from different query paths
-    const isPaid = session.paid === true || session.paid === 'true';
+    // Sessions with any payment received count toward earnings
+    const isPaid = earnings > 0;
     
     // const inMonth = sessionDate >= boundaries.firstDayOfMonth && sessionDate <= boundaries.lastDayOfMonth;
     // console.log('[Debug] session_start:', session.session_start, 'sessionDate:', sessionDate.toISOString(), 'included:', inMonth, 'paid:', isPaid, 'student:', session.student_name, 'earnings:', earnings);
     
-    // Total earnings (only from paid sessions)
+    // Total earnings (only from payments received)
     if (isPaid) {
       totalEarnings += earnings;
     }
@@ -164,7 +174,7 @@ export function calculateEarnings(sessions: any[], tutorTimezone?: string) {
     }
   });
 
-  console.log('📦 EarningsCalculator: Final month earnings:', thisMonthEarnings, 'from', sessions.filter(s => s.paid === true || s.paid === 'true').length, 'paid sessions');
+  console.log('📦 EarningsCalculator: Final month earnings:', thisMonthEarnings, 'from', sessions.filter(s => sessionAmountReceived(s) > 0).length, 'paid sessions');
 
   const studentEarnings = Array.from(studentEarningsMap.entries())
     .map(([name, data]) => ({
@@ -228,12 +238,11 @@ export function calculateMonthlyEarnings(sessions: any[]): MonthlyEarnings[] {
       return;
     }
     
-    const isPaid = session.paid === true || session.paid === 'true';
-    if (isPaid) {
+    const earnings = sessionAmountReceived(session);
+    if (earnings > 0) {
       const sessionDate = new Date(session.session_start);
       const sessionYear = sessionDate.getFullYear();
       const sessionMonth = sessionDate.getMonth() + 1;
-      const earnings = (session.duration / 60) * session.rate;
       
       const monthData = months.find(m => m.year === sessionYear && m.monthNum === sessionMonth);
       if (monthData) {
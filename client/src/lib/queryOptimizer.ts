@@ -107,7 +107,7 @@ export async function getOptimizedSessions(tutorId: string) {
       
       const { data: batchData, error } = await supabase
         .from('sessions')
-        .select('id, student_id, session_start, session_end, duration, rate, paid, notes, color, recurrence_id, created_at, status, unassigned_name')
+        .select('id, student_id, session_start, session_end, duration, rate, paid, amount_paid, notes, color, recurrence_id, created_at, status, unassigned_name')
         .eq('tutor_id', tutorId)
         .order('created_at', { ascending: false })
         .range(rangeStart, rangeEnd);
@@ -308,6 +308,7 @@ export async function getStandardSessions(tutorId: string) {
         duration,
         rate,
         paid,
+        amount_paid,
         notes,
         color,
         recurrence_id,
@@ -21,6 +21,11 @@ import { Calendar, Clock, Plus, Trash2, ToggleLeft, ToggleRight, Share2 } from "
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useTimezone } from "@/contexts/TimezoneContext";
 import AddSlotCalendarModal from "@/components/modals/add-slot-calendar-modal";
+import { BookingSettings } from "@/components/availability/BookingSettings";
+import { BookingRulesSettings } from "@/components/availability/BookingRulesSettings";
+import { WeeklyHoursSettings } from "@/components/availability/WeeklyHoursSettings";
+import { TimeOffSettings } from "@/components/availability/TimeOffSettings";
+import { LessonTypesSettings } from "@/components/availability/LessonTypesSettings";
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
@@ -327,7 +332,18 @@ export default function AvailabilityPage() {
       </header>
 
       {/* Content */}
-      <div className="p-4 sm:p-6">
+      <div className="p-4 sm:p-6 space-y-6">
+        <div className="grid gap-6 lg:grid-cols-2">
+          <BookingSettings />
+          <BookingRulesSettings />
+        </div>
+
+        <WeeklyHoursSettings />
+
+        <TimeOffSettings />
+
+        <LessonTypesSettings />
+
         {!bookingSlots || bookingSlots.length === 0 ? (
           <Card>
             <CardContent className="text-center py-12">
@@ -45,8 +45,14 @@ import { usePendingSessions } from "@/hooks/use-pending-sessions";
 import { PendingRequestsModal } from "@/components/modals/pending-requests-modal";
 import { formatUtcToTutorTimezone } from "@/lib/dateUtils";
 import { useTimezone } from "@/contexts/TimezoneContext";
+import { useTimeOff } from "@/hooks/useTimeOff";
+import { useSlotGranularity } from "@/hooks/useSlotGranularity";
 import { getSessionDisplayInfo } from "@/lib/sessionDisplay"; // Utility to format session display information
 import { DateTime } from "luxon";
+import { ensureSeriesMaterialized } from "@/services/sessionSeries";
+import { checkSessionConflicts } from "@/services/sessionConflicts";
+import { ConflictWarningDialog } from "@/components/sessions/ConflictWarningDialog";
+import type { SessionConflict } from "@shared/conflicts";
 
 interface SessionWithStudent {
   id: string;
@@ -91,6 +97,16 @@ interface FullCalendarEvent {
   extendedProps: SessionWithStudent;
 }
 
+// Shaded behind the sessions; not clickable or editable
+interface TimeOffCalendarEvent {
+  id: string;
+  title: string;
+  start: Date;
+  end: Date;
+  display: 'background';
+  backgroundColor: string;
+}
+
 export default function Calendar() {
   const [view, setView] = useState<string>('timeGridWeek');
   const [isFullScreen, setIsFullScreen] = useState(false);
@@ -110,7 +126,16 @@ export default function Calendar() {
       setShowPendingRequestsModal(true);
     }
   }, [highlightedSessionId]);
-  
+
+  // Telegram booking notifications link here as /calendar?request=<sessionId>
+  useEffect(() => {
+    const requestId = new URLSearchParams(window.location.search).get('request');
+    if (requestId) {
+      setHighlightedSessionId(requestId);
+      window.history.replaceState({}, '', '/calendar');
+    }
+  }, []);
+
   const [calendarView, setCalendarView] = useState<'week' | 'month' | 'agenda'>('week');
   const [currentDate, setCurrentDate] = useState(new Date());
   
@@ -156,6 +181,12 @@ export default function Calendar() {
   const [showEditModal, setShowEditModal] = useState(false);
   const [isEditingRecurring, setIsEditingRecurring] = useState(false);
   const [loadingSlot, setLoadingSlot] = useState<{x: number, y: number} | null>(null);
+  // Drag/resize that would overlap another session, waiting for the tutor to confirm
+  const [pendingMove, setPendingMove] = useState<{
+    conflicts: SessionConflict[];
+    apply: () => Promise<void>;
+    revert: () => void;
+  } | null>(null);
   const calendarRef = useRef<FullCalendar>(null);
   
   const isMobile = useIsMobile();
@@ -244,15 +275,14 @@ export default function Calendar() {
       const tz = tutorTimezone || 'UTC';
       console.log('🔍 Fetching calendar sessions for tutor:', tutorId, 'timezone:', tz);
       
-      // If we have a visible range, use it for filtering
-      if (visibleRange) {
-        return await fetchCalendarSessions(tutorId, tz, visibleRange.start, visibleRange.end);
-      }
-      
-      // Otherwise, fetch a default range (current month + 1 month before and after)
-      const defaultStart = dayjs().subtract(1, 'month').startOf('month').toISOString();
-      const defaultEnd = dayjs().add(1, 'month').endOf('month').toISOString();
-      return await fetchCalendarSessions(tutorId, tz, defaultStart, defaultEnd);
+      // Use the visible range, otherwise a default range (current month + 1 month before and after)
+      const rangeStart = visibleRange?.start ?? dayjs().subtract(1, 'month').startOf('month').toISOString();
+      const rangeEnd = visibleRange?.end ?? dayjs().add(1, 'month').endOf('month').toISOString();
+
+      // Recurring series are materialized lazily, so make sure the range being viewed has its rows
+      await ensureSeriesMaterialized(tutorId, rangeEnd);
+
+      return await fetchCalendarSessions(tutorId, tz, rangeStart, rangeEnd);
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
     refetchOnWindowFocus: false,
@@ -459,6 +489,21 @@ export default function Calendar() {
     return validEvents;
   }, [filteredSessions, tutorTimezone, timeFormat, tutorCurrency]);
 
+  const timeOff = useTimeOff();
+  const slotGranularity = useSlotGranularity();
+  const timeOffEvents: TimeOffCalendarEvent[] = useMemo(() => {
+    return timeOff.map(block => ({
+      id: `time-off-${block.id}`,
+      title: block.reason ? `Time off: ${block.reason}` : 'Time off',
+      start: new Date(block.starts_at),
+      end: new Date(block.ends_at),
+      display: 'background',
+      backgroundColor: '#f87171',
+    }));
+  }, [timeOff]);
+
+  const calendarEvents = useMemo(() => [...timeOffEvents, ...events], [timeOffEvents, events]);
+
   // Handle schedule session
   const handleScheduleSession = () => {
     console.log('✅ Opening single schedule modal from calendar');
@@ -475,6 +520,10 @@ export default function Calendar() {
 
   // Custom event content renderer with hover animations
   const renderEventContent = (eventInfo: any) => {
+    if (eventInfo.event.display === 'background') {
+      return <div className="p-1 text-xs font-medium text-red-700 dark:text-red-300">{eventInfo.event.title}</div>;
+    }
+
     const session = eventInfo.event.extendedProps;
     const durationMinutes = session.duration || 60;
     const earning = (durationMinutes / 60) * session.rate;
@@ -599,6 +648,7 @@ export default function Calendar() {
 
   // Handle event click to show session details modal
   const handleEventClick = (clickInfo: any) => {
+    if (clickInfo.event.display === 'background') return;
     const session = clickInfo.event.extendedProps as SessionWithStudent;
     
     if (session.status === 'pending' && session.student_id === null) {
@@ -804,6 +854,25 @@ export default function Calendar() {
       legacy_time: 'DEPRECATED'
     });
 
+    const conflicts = await checkSessionConflicts({
+      ranges: [{ start: newStartUTC, end: newEndUTC }],
+      excludeIds: [session.id]
+    });
+    if (conflicts.length > 0) {
+      setPendingMove({
+        conflicts,
+        apply: () => saveEventDrop(dropInfo, newStartUTC, newEndUTC),
+        revert: () => dropInfo.revert()
+      });
+      return;
+    }
+
+    await saveEventDrop(dropInfo, newStartUTC, newEndUTC);
+  };
+
+  const saveEventDrop = async (dropInfo: any, newStartUTC: string, newEndUTC: string) => {
+    const session = dropInfo.event.extendedProps as SessionWithStudent;
+
     try {
       const { error } = await supabase
         .from('sessions')
@@ -877,6 +946,25 @@ export default function Calendar() {
       new_end_utc: newEndUTC
     });
 
+    const conflicts = await checkSessionConflicts({
+      ranges: [{ start: dayjs(resizeInfo.event.start).utc().toISOString(), end: newEndUTC }],
+      excludeIds: [session.id]
+    });
+    if (conflicts.length > 0) {
+      setPendingMove({
+        conflicts,
+        apply: () => saveEventResize(resizeInfo, newEndUTC, newDuration),
+        revert: () => resizeInfo.revert()
+      });
+      return;
+    }
+
+    await saveEventResize(resizeInfo, newEndUTC, newDuration);
+  };
+
+  const saveEventResize = async (resizeInfo: any, newEndUTC: string, newDuration: number) => {
+    const session = resizeInfo.event.extendedProps as SessionWithStudent;
+
     try {
       const { error } = await supabase
         .from('sessions')
@@ -972,6 +1060,23 @@ export default function Calendar() {
     setIsFullScreen(!isFullScreen);
   };
 
+  const moveConflictDialog = (
+    <ConflictWarningDialog
+      open={!!pendingMove}
+      conflicts={pendingMove?.conflicts ?? []}
+      timezone={tutorTimezone || 'UTC'}
+      timeFormat={timeFormat}
+      onConfirm={() => {
+        pendingMove?.apply();
+        setPendingMove(null);
+      }}
+      onCancel={() => {
+        pendingMove?.revert();
+        setPendingMove(null);
+      }}
+    />
+  );
+
   if (isLoading) {
     return (
       <div className="flex-1 overflow-auto">
@@ -1106,8 +1211,9 @@ export default function Calendar() {
                 start: '2020-01-01',
                 end: '2030-12-31'
               }}
-              events={events}
+              events={calendarEvents}
               eventDidMount={(info) => {
+                if (info.event.display === 'background') return;
                 const session = info.event.extendedProps;
                 
                 // Apply faded styling to past sessions
@@ -1184,6 +1290,8 @@ export default function Calendar() {
           }}
           highlightSessionId={highlightedSessionId}
         />
+
+        {moveConflictDialog}
       </div>
     );
   }
@@ -1346,8 +1454,9 @@ export default function Calendar() {
               start: '2020-01-01',
               end: '2030-12-31'
             }}
-            events={events}
+            events={calendarEvents}
             eventDidMount={(info) => {
+              if (info.event.display === 'background') return;
               const session = info.event.extendedProps;
               
               // Apply faded styling to past sessions
@@ -1391,8 +1500,8 @@ export default function Calendar() {
             headerToolbar={false}
             slotMinTime="06:00:00"
             slotMaxTime="23:00:00"
-            slotDuration="00:15:00"
-            snapDuration="00:15:00"
+            slotDuration={{ minutes: slotGranularity }}
+            snapDuration={{ minutes: slotGranularity }}
             allDaySlot={false}
             nowIndicator={true}
             eventDisplay="block"
@@ -1494,6 +1603,8 @@ export default function Calendar() {
         highlightSessionId={highlightedSessionId}
       />
 
+      {moveConflictDialog}
+
       {/* Animated Loading Indicator for Time Slot Selection */}
       {loadingSlot && (
         <div 
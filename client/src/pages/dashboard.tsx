@@ -8,6 +8,7 @@ import { PaymentOverview } from "@/components/dashboard/unpaid-past-sessions";
 import { ExpectedEarnings } from "@/components/dashboard/expected-earnings";
 import { RecentActivity } from "@/components/dashboard/recent-activity";
 import { CancellationRateCard } from "@/components/dashboard/cancellation-rate-card";
+import { PackageAlerts } from "@/components/dashboard/package-alerts";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -556,6 +557,11 @@ export default function Dashboard() {
           <PaymentOverview currency={tutorInfo?.currency || 'USD'} limit={5} />
         </div>
 
+        {/* Prepaid packages running low or expiring - only when there are any */}
+        <div className="w-full mb-6 sm:mb-8 empty:hidden">
+          <PackageAlerts currency={tutorInfo?.currency || 'USD'} />
+        </div>
+
         {/* Recent Activity - Hidden on small screens */}
         <div className="hidden sm:block w-full">
           <RecentActivity currency={tutorInfo?.currency || 'USD'} />
@@ -32,6 +32,7 @@ import { supabase } from "@/lib/supabaseClient";
 import { getCurrentTutorId } from "@/lib/tutorHelpers";
 import { shouldUseOptimizedQuery, getOptimizedSessions, getStandardSessions, invalidateSessionCountCache } from "@/lib/queryOptimizer";
 import { formatCurrency } from "@/lib/utils";
+import { sessionAmountReceived } from "@/lib/earningsCalculator";
 import { formatUtcToTutorTimezone, calculateDurationMinutes } from "@/lib/dateUtils";
 import { useTimezone } from "@/contexts/TimezoneContext";
 import { weekRange, monthRange, APP_TIMEZONE } from "@/lib/dateRange";
@@ -49,6 +50,8 @@ import {
 import { useUsdToggle } from "@/hooks/useUsdToggle";
 import { UsdButton } from "@/components/ui/usd-button";
 import { SessionStatCompact } from "@/components/stats/SessionStatCompact";
+import { RateChangesCard } from "@/components/earnings/rate-changes-card";
+import { useStudentRateChanges } from "@/hooks/useStudentRateChanges";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Area, ComposedChart } from 'recharts';
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { format } from "date-fns";
@@ -73,6 +76,7 @@ interface SessionWithStudent {
   duration: number;
   rate: number;
   paid: boolean;
+  amount_paid: number; // received so far, including partial payments
   created_at: string;
 }
 
@@ -251,6 +255,7 @@ export default function Earnings() {
         duration: session.duration,
         rate: parseFloat(session.rate) || 0,
         paid: session.paid === true || session.paid === 'true',
+        amount_paid: sessionAmountReceived(session),
         created_at: session.created_at
       })) || [];
 
@@ -330,13 +335,13 @@ export default function Earnings() {
       });
     }
 
-    // Aggregate earnings by month for paid sessions only
+    // Aggregate earnings by month from payments received
     sessions.forEach(session => {
-      if (session.paid === true) {
+      if (session.amount_paid > 0) {
         const sessionDate = new Date(session.session_start);
         const sessionYear = sessionDate.getFullYear();
         const sessionMonth = sessionDate.getMonth() + 1;
-        const earnings = (session.duration / 60) * session.rate;
+        const earnings = session.amount_paid;
         
         const monthData = months.find(m => m.year === sessionYear && m.monthNum === sessionMonth);
         if (monthData) {
@@ -361,6 +366,7 @@ export default function Earnings() {
     const [tempGoal, setTempGoal] = useState(monthlyGoal.toString());
     const [selectedMonthData, setSelectedMonthData] = useState<MonthlyEarnings | null>(null);
     const [showBreakdownDialog, setShowBreakdownDialog] = useState(false);
+    const rateChanges = useStudentRateChanges();
 
     // Query upcoming sessions for projection
     const { data: upcomingSessions } = useQuery({
@@ -411,10 +417,10 @@ export default function Earnings() {
       
       const filteredSessions = allSessions.filter(s => {
         const sessionDate = new Date(s.session_start);
-        return sessionDate >= customDateRange.from! && sessionDate <= endOfDay && s.paid;
+        return sessionDate >= customDateRange.from! && sessionDate <= endOfDay && s.amount_paid > 0;
       });
       
-      const totalEarnings = filteredSessions.reduce((sum, s) => sum + (s.duration / 60) * s.rate, 0);
+      const totalEarnings = filteredSessions.reduce((sum, s) => sum + s.amount_paid, 0);
       const sessionCount = filteredSessions.length;
       
       return {
@@ -532,7 +538,7 @@ export default function Earnings() {
           const sessionDate = new Date(s.session_start);
           return sessionDate.getFullYear() === m.year && 
                  sessionDate.getMonth() + 1 === m.monthNum &&
-                 s.paid === true;
+                 s.amount_paid > 0;
         }) || [];
         
         return [m.month, m.year, m.earnings.toFixed(2), monthSessions.length];
@@ -584,7 +590,7 @@ ${filteredData.map(m => `${m.month} ${m.year}: ${formatCurrency(m.earnings, curr
           const sessionDate = new Date(s.session_start);
           return sessionDate.getFullYear() === data.year && 
                  sessionDate.getMonth() + 1 === data.monthNum &&
-                 s.paid === true;
+                 s.amount_paid > 0;
         }) || [];
 
         const avgRate = monthSessions.length > 0
@@ -926,6 +932,21 @@ ${filteredData.map(m => `${m.month} ${m.year}: ${formatCurrency(m.earnings, curr
                     />
                   )}
                   
+                  {/* Months in which a student's rate changed */}
+                  {chartData
+                    .filter(m => rateChanges.some(change =>
+                      change.previousRate !== null && change.entry.effective_from.startsWith(`${m.year}-${String(m.monthNum).padStart(2, '0')}`)
+                    ))
+                    .map(m => (
+                      <ReferenceLine
+                        key={`rate-change-${m.year}-${m.monthNum}`}
+                        x={m.month}
+                        stroke="#a855f7"
+                        strokeDasharray="3 3"
+                        label={{ value: 'Rate change', position: 'top', fill: '#a855f7', fontSize: 10 }}
+                      />
+                    ))}
+
                   {/* Main earnings line */}
                   <Line 
                     type="monotone" 
@@ -1014,7 +1035,7 @@ ${filteredData.map(m => `${m.month} ${m.year}: ${formatCurrency(m.earnings, curr
                         const sessionDate = new Date(s.session_start);
                         return sessionDate.getFullYear() === selectedMonthData.year && 
                                sessionDate.getMonth() + 1 === selectedMonthData.monthNum &&
-                               s.paid === true;
+                               s.amount_paid > 0;
                       }).length}
                     </p>
                   </div>
@@ -1097,12 +1118,12 @@ ${filteredData.map(m => `${m.month} ${m.year}: ${formatCurrency(m.earnings, curr
 
     sessions.forEach(session => {
       const sessionDate = new Date(session.session_start);
-      const earnings = (session.duration / 60) * session.rate;
-      // Resilient paid session check - handle both boolean and string values from different query paths
-      // This matches earningsCalculator.ts for consistency across Dashboard and Earnings pages
-      const isPaid = session.paid === true || (session as any).paid === 'true';
+      // Payments received, partial ones included - matches earningsCalculator.ts for
+      // consistency across Dashboard and Earnings pages
+      const earnings = sessionAmountReceived(session);
+      const isPaid = earnings > 0;
       
-      // Total earnings (only from paid sessions)
+      // Total earnings (only from payments received)
       if (isPaid) {
         totalEarnings += earnings;
       }
@@ -1453,6 +1474,8 @@ ${filteredData.map(m => `${m.month} ${m.year}: ${formatCurrency(m.earnings, curr
             />
           </CardContent>
         </Card>
+
+        <RateChangesCard currency={tutorCurrency} className="mt-6" />
       </div>
     </div>
   );
@@ -24,11 +24,16 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/lib/supabaseClient";
-import { Loader2, Save, User, Send, CheckCircle2, ExternalLink, Calendar, RefreshCw, Mail } from "lucide-react";
+import { Loader2, Save, User, Send, CheckCircle2, Calendar, RefreshCw, Mail } from "lucide-react";
 import { ALL_TIMEZONES, TIMEZONE_GROUPS, getBrowserTimezone } from "@/lib/timezones";
 import { useOnboarding } from "@/contexts/OnboardingContext";
+import { BUFFER_MINUTE_OPTIONS } from "@shared/conflicts";
 import { Switch } from "@/components/ui/switch";
 import { Progress } from "@/components/ui/progress";
+import { PaymentReminderSettings } from "@/components/profile/PaymentReminderSettings";
+import { NotificationScheduleSettings } from "@/components/profile/NotificationScheduleSettings";
+import { TelegramLinkCodePanel } from "@/components/onboarding/TelegramSetupCard";
+import { unlinkTelegram } from "@/services/telegram";
 import {
   Dialog,
   DialogContent,
@@ -45,6 +50,8 @@ const profileSchema = z.object({
     required_error: "Time format is required",
   }),
   timezone: z.string().min(1, "Timezone is required"),
+  buffer_before_minutes: z.number().int().min(0).max(120),
+  buffer_after_minutes: z.number().int().min(0).max(120),
 });
 
 const emailChangeSchema = z.object({
@@ -89,6 +96,28 @@ export default function Profile() {
     },
   });
 
+  const unlinkTelegramMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await unlinkTelegram();
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['telegram-status'] });
+      queryClient.invalidateQueries({ queryKey: ['tutor-telegram-status'] });
+      toast({
+        title: "Telegram disconnected",
+        description: "You won't get notifications on Telegram anymore.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to disconnect Telegram.",
+      });
+    },
+  });
+
   // Fetch current tutor profile
   const { data: tutorProfile, isLoading: isProfileLoading, error } = useQuery({
     queryKey: ['tutor-profile'],
@@ -98,7 +127,7 @@ export default function Profile() {
 
       const { data, error } = await supabase
         .from('tutors')
-        .select('id, full_name, email, currency, time_format, timezone, avatar_url, sync_google_calendar, google_calendar_connected')
+        .select('id, full_name, email, currency, time_format, timezone, avatar_url, sync_google_calendar, google_calendar_connected, buffer_before_minutes, buffer_after_minutes')
         .eq('user_id', user.id)
         .single();
 
@@ -285,6 +314,8 @@ export default function Profile() {
       currency: "USD",
       time_format: "24h",
       timezone: getBrowserTimezone(),
+      buffer_before_minutes: 0,
+      buffer_after_minutes: 0,
     },
   });
 
@@ -303,6 +334,8 @@ export default function Profile() {
         currency: tutorProfile.currency || "USD",
         time_format: tutorProfile.time_format || "24h",
         timezone: tutorProfile.timezone || getBrowserTimezone(),
+        buffer_before_minutes: tutorProfile.buffer_before_minutes ?? 0,
+        buffer_after_minutes: tutorProfile.buffer_after_minutes ?? 0,
       });
     }
   }, [tutorProfile, form]);
@@ -378,6 +411,8 @@ export default function Profile() {
         currency: data.currency,
         time_format: data.time_format,
         timezone: data.timezone, // ✅ Include timezone in update
+        buffer_before_minutes: data.buffer_before_minutes,
+        buffer_after_minutes: data.buffer_after_minutes,
       };
 
       console.log("✅ Tutor profile update payload:", updatePayload);
@@ -405,6 +440,7 @@ export default function Profile() {
       queryClient.invalidateQueries({ queryKey: ['tutor-profile'] });
       queryClient.invalidateQueries({ queryKey: ['tutor-info'] });
       queryClient.invalidateQueries({ queryKey: ['tutor-timezone'] });
+      queryClient.invalidateQueries({ queryKey: ['tutor-buffers'] });
       refreshProgress();
     },
     onError: (error) => {
@@ -777,6 +813,49 @@ export default function Profile() {
                     )}
                   />
 
+                  {/* Buffer Time */}
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      {([
+                        { name: "buffer_before_minutes", label: "Buffer Before Sessions" },
+                        { name: "buffer_after_minutes", label: "Buffer After Sessions" },
+                      ] as const).map(({ name, label }) => (
+                        <FormField
+                          key={name}
+                          control={form.control}
+                          name={name}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{label}</FormLabel>
+                              <FormControl>
+                                <Select
+                                  value={field.value.toString()}
+                                  onValueChange={(value) => field.onChange(parseInt(value))}
+                                  disabled={isLoading}
+                                >
+                                  <SelectTrigger data-testid={`select-${name.replace(/_/g, "-")}`}>
+                                    <SelectValue placeholder="Select buffer" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {BUFFER_MINUTE_OPTIONS.map((minutes) => (
+                                      <SelectItem key={minutes} value={minutes.toString()}>
+                                        {minutes === 0 ? "No buffer" : `${minutes} minutes`}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Time kept free around each session. Students can't book into it, and you'll be warned when scheduling into it.
+                    </p>
+                  </div>
+
                   {/* Submit Button */}
                   <div className="flex justify-end pt-4">
                     <Button
@@ -822,14 +901,20 @@ export default function Profile() {
                         You're subscribed to daily updates!
                       </p>
                       <p className="text-sm text-green-700 dark:text-green-300 mt-1">
-                        You'll receive a notification every day at 9 PM (your local time) with:
+                        You'll receive a summary on the schedule below, plus booking alerts as they come in.
                       </p>
-                      <ul className="text-sm text-green-700 dark:text-green-300 mt-2 space-y-1 list-disc list-inside">
-                        <li>Today's earnings summary</li>
-                        <li>Tomorrow's scheduled sessions</li>
-                      </ul>
                     </div>
                   </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => unlinkTelegramMutation.mutate()}
+                    disabled={unlinkTelegramMutation.isPending}
+                    data-testid="button-telegram-disconnect"
+                  >
+                    {unlinkTelegramMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Disconnect Telegram
+                  </Button>
                 </div>
               ) : (
                 <div className="space-y-4">
@@ -840,39 +925,26 @@ export default function Profile() {
                         Subscribe to daily updates
                       </p>
                       <p className="text-sm text-blue-700 dark:text-blue-300 mt-1">
-                        Get notified at 9 PM every day with your earnings summary and tomorrow's schedule.
+                        Get a daily summary of your earnings and tomorrow's schedule (9 PM by default), plus booking alerts.
                       </p>
                     </div>
                   </div>
                   
                   <div className="space-y-2">
                     <p className="text-sm font-medium text-foreground">
-                      To subscribe:
+                      To subscribe, get a one-time code and send it to our bot:
                     </p>
-                    <ol className="text-sm text-muted-foreground space-y-2 list-decimal list-inside">
-                      <li>Open Telegram and search for our bot</li>
-                      <li>Start a chat with the bot</li>
-                      <li>Send your email address ({tutorProfile?.email})</li>
-                      <li>You'll receive a confirmation message</li>
-                    </ol>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="mt-3"
-                      data-testid="button-telegram-bot"
-                      onClick={() => {
-                        window.open('https://t.me/classter_daily_bot', '_blank');
-                      }}
-                    >
-                      <ExternalLink className="w-4 h-4 mr-2" />
-                      Open Telegram Bot
-                    </Button>
+                    <TelegramLinkCodePanel />
                   </div>
                 </div>
               )}
             </CardContent>
           </Card>
 
+          <NotificationScheduleSettings />
+
+          <PaymentReminderSettings />
+
           <Card className="mt-6">
             <CardHeader>
               <CardTitle>Google Calendar Integration</CardTitle>
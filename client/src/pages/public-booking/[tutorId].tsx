@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useParams } from "wouter";
+import { useParams, Link } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -20,6 +20,13 @@ import { TIMEZONE_GROUPS, getBrowserTimezone, getTimezoneDisplayName } from "@/l
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
+import { buffersFromTutor, findConflicts } from "@shared/conflicts";
+import { TEMPLATE_HORIZON_DAYS, expandAvailabilityTemplates } from "@shared/availabilityTemplates";
+import { bookingRulesFromTutor, formatBookingDuration, isDailyCapReached, isWindowBookable, startTimesInWindow } from "@shared/bookingRules";
+import { isCoveredByTimeOff, overlapsTimeOff, type TimeOffRange } from "@shared/timeOff";
+import { isLessonTypeAvailable, type LessonType } from "@shared/lessonTypes";
+import { formatCurrency } from "@/lib/utils";
+import type { BookingRequiredField } from "@shared/schema";
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
@@ -37,9 +44,11 @@ const getInitials = (name: string): string => {
 // Form validation schema
 const bookingFormSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters").max(100, "Name too long"),
+  email: z.string().trim().email("Please enter a valid email address").or(z.literal("")),
+  phone: z.string().trim().regex(/^[+\d][\d\s().-]{5,24}$/, "Please enter a valid phone number").or(z.literal("")),
   selectedSlotId: z.string().min(1, "Please select a time slot"),
   selectedStartTime: z.string().min(1, "Please select a start time"),
-  selectedDuration: z.number().min(30, "Duration must be at least 30 minutes"),
+  selectedDuration: z.number().int().positive("Please select a duration"),
 });
 
 type BookingFormData = z.infer<typeof bookingFormSchema>;
@@ -57,10 +66,22 @@ interface Tutor {
   full_name: string;
   email: string;
   avatar_url?: string;
+  buffer_before_minutes?: number;
+  buffer_after_minutes?: number;
+  booking_required_fields?: BookingRequiredField[];
+  timezone?: string;
+  currency?: string;
+  booking_min_notice_hours?: number;
+  booking_max_days_ahead?: number | null;
+  booking_allowed_durations?: number[];
+  slot_granularity_minutes?: number;
+  booking_daily_cap?: number | null;
 }
 
 interface ExistingSession {
+  id: string;
   start_time: string;
+  end_time: string;
   status: string;
 }
 
@@ -72,6 +93,9 @@ export default function PublicBookingPage() {
   const [tutor, setTutor] = useState<Tutor | null>(null);
   const [bookingSlots, setBookingSlots] = useState<BookingSlot[]>([]);
   const [existingSessions, setExistingSessions] = useState<ExistingSession[]>([]);
+  const [timeOff, setTimeOff] = useState<TimeOffRange[]>([]);
+  const [lessonTypes, setLessonTypes] = useState<LessonType[]>([]);
+  const [selectedLessonTypeId, setSelectedLessonTypeId] = useState<string>("");
   const [selectedSlot, setSelectedSlot] = useState<string>("");
   const [selectedStartTime, setSelectedStartTime] = useState<string>("");
   const [selectedDuration, setSelectedDuration] = useState<number>(60);
@@ -80,6 +104,8 @@ export default function PublicBookingPage() {
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [bookingSuccess, setBookingSuccess] = useState(false);
+  const [managementToken, setManagementToken] = useState<string | null>(null);
+  const [bookingConfirmed, setBookingConfirmed] = useState(false); // auto-accepted by the tutor's settings
   
   // Student timezone handling
   const [studentTimezone, setStudentTimezone] = useState<string>(() => {
@@ -109,12 +135,15 @@ export default function PublicBookingPage() {
     register,
     handleSubmit,
     setValue,
+    setError,
     watch,
     formState: { errors },
   } = useForm<BookingFormData>({
     resolver: zodResolver(bookingFormSchema),
     defaultValues: {
       name: "",
+      email: "",
+      phone: "",
       selectedSlotId: "",
       selectedStartTime: "",
       selectedDuration: 60,
@@ -163,7 +192,10 @@ export default function PublicBookingPage() {
           
           const fetchPromise = supabase
             .from('tutors')
-            .select('id, full_name, email, avatar_url')
+            .select(`
+              id, full_name, email, avatar_url, timezone, currency, buffer_before_minutes, buffer_after_minutes, booking_required_fields,
+              booking_min_notice_hours, booking_max_days_ahead, booking_allowed_durations, slot_granularity_minutes, booking_daily_cap
+            `)
             .eq('id', tutorId)
             .single();
           
@@ -220,12 +252,68 @@ export default function PublicBookingPage() {
         throw slotsError;
       }
 
+      // Weekly hours are expanded into windows next to the one-off slots
+      const [{ data: templatesData, error: templatesError }, { data: exceptionsData, error: exceptionsError }] = await Promise.all([
+        supabase.from('availability_templates').select('*').eq('tutor_id', tutorId),
+        supabase
+          .from('public_availability_exceptions')
+          .select('id, tutor_id, exception_date')
+          .eq('tutor_id', tutorId)
+          .gte('exception_date', dayjs().subtract(1, 'day').format('YYYY-MM-DD')),
+      ]);
+
+      if (templatesError || exceptionsError) {
+        console.error('Error fetching weekly availability:', templatesError || exceptionsError);
+        throw templatesError || exceptionsError;
+      }
+
+      const horizonDays = bookingRulesFromTutor(tutorData).maxDaysAhead ?? TEMPLATE_HORIZON_DAYS;
+      const templateSlots: BookingSlot[] = expandAvailabilityTemplates(
+        templatesData || [],
+        exceptionsData || [],
+        tutorData.timezone || 'UTC',
+        dayjs.utc().toISOString(),
+        dayjs.utc().add(horizonDays, 'day').toISOString()
+      ).map(window => ({
+        id: window.id,
+        start_time: window.start_time,
+        end_time: window.end_time,
+        is_active: true,
+        tutor_id: tutorData.id
+      }));
+
+      // Time off overrides both kinds of window
+      const { data: timeOffData, error: timeOffError } = await supabase
+        .from('public_time_off')
+        .select('starts_at, ends_at')
+        .eq('tutor_id', tutorId)
+        .gt('ends_at', new Date().toISOString());
+
+      if (timeOffError) {
+        console.error('Error fetching time off:', timeOffError);
+        throw timeOffError;
+      }
+
+      // Lessons the tutor offers publicly; with none, the student picks a duration instead
+      const { data: lessonTypesData, error: lessonTypesError } = await supabase
+        .from('lesson_types')
+        .select('*')
+        .eq('tutor_id', tutorId)
+        .eq('is_public', true)
+        .order('created_at', { ascending: true });
+
+      if (lessonTypesError) {
+        console.error('Error fetching lesson types:', lessonTypesError);
+        throw lessonTypesError;
+      }
+
       // Fetch existing sessions to check availability
       const { data: sessionsData, error: sessionsError } = await supabase
-        .from('sessions')
-        .select('session_start, status')
+        .from('public_sessions')
+        .select('id, session_start, session_end, status')
         .eq('tutor_id', tutorId)
-        .gte('session_start', new Date().toISOString());
+        .gte('session_end', new Date().toISOString())
+        .or('status.is.null,status.neq.cancelled');
 
       if (sessionsError) {
         console.error('Error fetching existing sessions:', sessionsError);
@@ -234,13 +322,23 @@ export default function PublicBookingPage() {
 
       // Transform session data to match expected format
       const transformedSessions = sessionsData.map(session => ({
+        id: session.id,
         start_time: session.session_start,
+        end_time: session.session_end,
         status: session.status
       }));
 
       setTutor(tutorData);
-      setBookingSlots(slotsData || []);
+      setBookingSlots(
+        [...(slotsData || []), ...templateSlots].sort((a, b) => dayjs.utc(a.start_time).diff(dayjs.utc(b.start_time)))
+      );
       setExistingSessions(transformedSessions || []);
+      setTimeOff(timeOffData || []);
+      setLessonTypes(lessonTypesData || []);
+      if (lessonTypesData?.length) {
+        setSelectedLessonTypeId(lessonTypesData[0].id);
+        setSelectedDuration(lessonTypesData[0].duration);
+      }
 
       console.log('Mobile booking - Data fetched successfully:', {
         tutor: tutorData?.full_name,
@@ -277,6 +375,24 @@ export default function PublicBookingPage() {
     }
   };
 
+  const rules = bookingRulesFromTutor(tutor);
+  const tutorTimezone = tutor?.timezone || 'UTC';
+  const busySessions = existingSessions.map(session => ({
+    id: session.id,
+    session_start: session.start_time,
+    session_end: session.end_time,
+    status: session.status
+  }));
+
+  const selectedLessonType = lessonTypes.find(type => type.id === selectedLessonTypeId) ?? null;
+
+  // Offer only durations the tutor allows (a lesson type brings its own)
+  useEffect(() => {
+    if (tutor && lessonTypes.length === 0 && !rules.allowedDurations.includes(selectedDuration)) {
+      setSelectedDuration(rules.allowedDurations.includes(60) ? 60 : rules.allowedDurations[0]);
+    }
+  }, [tutor]);
+
   const isSlotBooked = (slotStartTime: string) => {
     return existingSessions.some(session => 
       session.start_time === slotStartTime
@@ -284,7 +400,13 @@ export default function PublicBookingPage() {
   };
 
   const getAvailableSlots = () => {
-    const filtered = bookingSlots.filter(slot => !isSlotBooked(slot.start_time));
+    // Windows entirely inside the tutor's minimum notice, past the booking horizon or within
+    // time off are hidden
+    const filtered = bookingSlots.filter(slot =>
+      !isSlotBooked(slot.start_time) &&
+      isWindowBookable({ start: slot.start_time, end: slot.end_time }, rules) &&
+      !isCoveredByTimeOff({ start: slot.start_time, end: slot.end_time }, timeOff)
+    );
     console.log('Available slots filtered:', {
       totalSlots: bookingSlots.length,
       availableSlots: filtered.length,
@@ -297,18 +419,10 @@ export default function PublicBookingPage() {
     return filtered;
   };
 
-  const generateTimeSlots = (startTime: string, endTime: string) => {
-    const slots = [];
-    const start = dayjs.utc(startTime).tz(studentTimezone);
-    const end = dayjs.utc(endTime).tz(studentTimezone);
-    
-    let current = start;
-    while (current.isBefore(end)) {
-      slots.push(current.format('HH:mm'));
-      current = current.add(15, 'minute');
-    }
-    
-    return slots;
+  // Start times on the tutor's slot grid that fit the lesson and respect notice / horizon
+  const generateTimeSlots = (slot: BookingSlot, duration: number) => {
+    return startTimesInWindow({ start: slot.start_time, end: slot.end_time }, duration, rules)
+      .map(start => dayjs.utc(start).tz(studentTimezone).format('HH:mm'));
   };
 
   const isTimeSlotAvailable = (startTime: string, duration: number) => {
@@ -317,17 +431,30 @@ export default function PublicBookingPage() {
     const slot = bookingSlots.find(s => s.id === selectedSlot);
     if (!slot) return false;
     
-    const slotDate = dayjs.utc(slot.start_time).format('YYYY-MM-DD');
-    const localDateTime = dayjs.tz(`${slotDate}T${startTime}:00`, studentTimezone);
-    const utcDateTime = localDateTime.utc();
-    const requestedStartUTC = utcDateTime.toDate();
-    const requestedEndUTC = new Date(requestedStartUTC.getTime() + duration * 60 * 1000);
-    
-    return !existingSessions.some(session => {
-      if (!session.start_time) return false;
-      const sessionStart = new Date(session.start_time);
-      return Math.abs(sessionStart.getTime() - requestedStartUTC.getTime()) < 30 * 60 * 1000;
-    });
+    // Same date resolution as the preview and summary (the slot's day in the student's timezone)
+    const slotDate = dayjs.utc(slot.start_time).tz(studentTimezone).format('YYYY-MM-DD');
+    const requestedStart = dayjs.tz(`${slotDate}T${startTime}:00`, studentTimezone).utc();
+    const requested = {
+      start: requestedStart.toISOString(),
+      end: requestedStart.add(duration, 'minute').toISOString()
+    };
+
+    if (isDailyCapReached(rules, busySessions, requested.start, tutorTimezone)) {
+      return false;
+    }
+
+    if (overlapsTimeOff(requested, timeOff)) {
+      return false;
+    }
+
+    if (selectedLessonType && !isLessonTypeAvailable(selectedLessonType, requested, tutorTimezone)) {
+      return false;
+    }
+
+    // The tutor's buffer time around existing sessions is not bookable either
+    const conflicts = findConflicts([requested], busySessions, { buffers: buffersFromTutor(tutor) });
+
+    return conflicts.length === 0;
   };
 
   const handleTimePickerSubmit = () => {
@@ -351,63 +478,18 @@ export default function PublicBookingPage() {
     });
   };
 
-  // Sanitize payload to ensure only valid session fields are included
-  const sanitizePayloadForSessionInsert = (payload: any) => {
-    const allowedFields = [
-      'tutor_id',
-      'student_id', 
-      'unassigned_name',
-      'session_start',
-      'session_end', 
-      'duration',
-      'rate',
-      'status',
-      'notes',
-      'color',
-      'paid',
-      'recurrence_id',
-      'recurrence_group_id'
-    ];
-
-    const sanitized = {};
-    allowedFields.forEach(field => {
-      if (payload[field] !== undefined) {
-        sanitized[field] = payload[field];
-      }
-    });
+  const requiredFields = tutor?.booking_required_fields || [];
 
-    // Ensure required fields match the working deployed version
-    sanitized.status = payload.status || 'pending';
-    sanitized.student_id = null; // Always null for public bookings
-    sanitized.paid = payload.paid !== undefined ? payload.paid : false;
-    
-    // Rate must be string for decimal field compatibility
-    if (payload.rate !== undefined) {
-      sanitized.rate = typeof payload.rate === 'string' ? payload.rate : String(payload.rate);
-    }
-    
-    // Ensure unassigned_name is present
-    if (payload.unassigned_name && payload.unassigned_name.trim() !== '') {
-      sanitized.unassigned_name = payload.unassigned_name.trim();
+  const onSubmit = async (data: BookingFormData) => {
+    // Which contact fields are required is up to the tutor, so it can't live in the static schema
+    const missingFields = requiredFields.filter(field => !data[field]?.trim());
+    if (missingFields.length > 0) {
+      missingFields.forEach(field => {
+        setError(field, { message: field === 'email' ? "Email is required" : "Phone number is required" });
+      });
+      return;
     }
 
-    console.log('Payload sanitization:', {
-      original: payload,
-      sanitized: sanitized,
-      removedFields: Object.keys(payload).filter(key => !allowedFields.includes(key)),
-      requiredFieldsSet: {
-        status: sanitized.status,
-        student_id: sanitized.student_id,
-        unassigned_name: sanitized.unassigned_name
-      }
-    });
-
-    console.log("🧪 Final Booking Payload", sanitized);
-
-    return sanitized;
-  };
-
-  const onSubmit = async (data: BookingFormData) => {
     try {
       setSubmitting(true);
       console.log('Form submission started:', data);
@@ -421,6 +503,10 @@ export default function PublicBookingPage() {
         throw new Error('Please select a start time and duration');
       }
 
+      if (!selectedLessonType && !rules.allowedDurations.includes(data.selectedDuration)) {
+        throw new Error('Please select one of the offered durations');
+      }
+
       if (!isTimeSlotAvailable(data.selectedStartTime, data.selectedDuration)) {
         toast({
           variant: "destructive",
@@ -430,7 +516,7 @@ export default function PublicBookingPage() {
         return;
       }
 
-      const slotDate = dayjs.utc(slot.start_time).format('YYYY-MM-DD');
+      const slotDate = dayjs.utc(slot.start_time).tz(studentTimezone).format('YYYY-MM-DD');
       const localDateTime = dayjs.tz(`${slotDate}T${data.selectedStartTime}:00`, studentTimezone);
       const utcDateTime = localDateTime.utc();
       
@@ -443,42 +529,48 @@ export default function PublicBookingPage() {
         duration: data.selectedDuration
       });
 
-      const sessionStartUTC = utcDateTime.toISOString();
-      const sessionEndUTC = utcDateTime.add(data.selectedDuration, 'minute').toISOString();
-
-      // Create payload matching the working deployed version
-      const bookingData = {
-        tutor_id: tutorId,
-        student_id: null,
-        session_start: sessionStartUTC,
-        session_end: sessionEndUTC,
+      const bookingRequest = {
+        name: data.name.trim(),
+        email: data.email.trim(),
+        phone: data.phone.trim(),
+        timezone: studentTimezone,
+        sessionStart: utcDateTime.toISOString(),
         duration: data.selectedDuration,
-        rate: "0", // Must be string for decimal field - this was the missing piece!
-        paid: false,
-        unassigned_name: data.name.trim(),
-        notes: `Booking request from ${data.name.trim()}`,
-        status: 'pending'
+        lessonTypeId: selectedLessonType?.id
       };
 
-      console.log("Submitting session:", bookingData);
-      
-      // Add debug toast
-      toast({
-        title: "Submitting Booking...",
-        description: `Booking ${data.name} for ${data.selectedStartTime} (${data.selectedDuration} min)`,
-      });
-
-      // Create session record using exact same approach as working version
-      const { error } = await supabase
-        .from('sessions')
-        .insert(bookingData);
+      console.log("Submitting booking request:", bookingRequest);
 
-      if (error) {
-        throw error;
+      // The server re-checks availability and overlaps atomically before creating the request
+      const response = await fetch(`/api/public/bookings/${tutorId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(bookingRequest)
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        if (response.status === 409) {
+          toast({
+            variant: "destructive",
+            title: "Time Slot Unavailable",
+            description: result.error || "This time slot is no longer available. Please select a different time.",
+          });
+          setValue("selectedStartTime", "");
+          setSelectedStartTime("");
+          await fetchTutorAndSlots();
+          return;
+        }
+        throw new Error(result.error || 'Please try again.');
       }
 
+      setManagementToken(result.managementToken || null);
+      setBookingConfirmed(result.status === 'confirmed');
       setBookingSuccess(true);
-      toast({
+      toast(result.status === 'confirmed' ? {
+        title: "Booking Confirmed!",
+        description: "Your session is booked.",
+      } : {
         title: "Booking Request Submitted!",
         description: "Your booking request has been sent to the tutor. They will contact you soon.",
       });
@@ -487,10 +579,7 @@ export default function PublicBookingPage() {
       await fetchTutorAndSlots();
 
     } catch (error) {
-      console.error('Booking submission failed:', {
-        error,
-        bookingData
-      });
+      console.error('Booking submission failed:', error);
       toast({
         variant: "destructive",
         title: "Booking Failed",
@@ -510,11 +599,23 @@ export default function PublicBookingPage() {
             <CardContent className="text-center py-12">
               <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
               <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-4">
-                Booking Request Submitted!
+                {bookingConfirmed ? "Booking Confirmed!" : "Booking Request Submitted!"}
               </h1>
               <p className="text-lg text-gray-600 dark:text-gray-400 mb-6">
-                Thank you for your booking request. {tutor?.full_name} will review your request and contact you soon.
+                {bookingConfirmed
+                  ? `Your session with ${tutor?.full_name} is booked. See you there!`
+                  : `Thank you for your booking request. ${tutor?.full_name} will review your request and contact you soon.`}
               </p>
+              {managementToken && (
+                <div className="mb-6">
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                    Keep this link to cancel or reschedule your booking later:
+                  </p>
+                  <Link href={`/booking/manage/${managementToken}`}>
+                    <Button variant="link" data-testid="link-manage-booking">Manage your booking</Button>
+                  </Link>
+                </div>
+              )}
               <Button 
                 onClick={() => setBookingSuccess(false)}
                 variant="outline"
@@ -679,6 +780,39 @@ export default function PublicBookingPage() {
                   )}
                 </div>
 
+                {/* Contact Details */}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="email">Email{requiredFields.includes('email') ? ' *' : ''}</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      {...register("email")}
+                      placeholder="you@example.com"
+                      className="mt-1"
+                    />
+                    {errors.email && (
+                      <p className="text-red-500 text-sm mt-1">{errors.email.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor="phone">Phone{requiredFields.includes('phone') ? ' *' : ''}</Label>
+                    <Input
+                      id="phone"
+                      type="tel"
+                      {...register("phone")}
+                      placeholder="+1 555 123 4567"
+                      className="mt-1"
+                    />
+                    {errors.phone && (
+                      <p className="text-red-500 text-sm mt-1">{errors.phone.message}</p>
+                    )}
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 -mt-3">
+                  Leave your email to get a confirmation of your request and the tutor's answer.
+                </p>
+
                 {/* Available Time Slots */}
                 <div>
                   <Label>Available Time Slots *</Label>
@@ -748,6 +882,7 @@ export default function PublicBookingPage() {
                               <div className="mt-2 text-sm text-green-700 dark:text-green-300">
                                 <p>📅 {localStartDateTime.format('dddd, MMMM D, YYYY')}</p>
                                 <p>🕒 {localStartDateTime.format('h:mm A')} - {localEndDateTime.format('h:mm A')} ({getTimezoneDisplayName(studentTimezone)})</p>
+                                {selectedLessonType && <p>📘 {selectedLessonType.name}</p>}
                                 <p>⏱️ Duration: {selectedDuration} minutes</p>
                               </div>
                             );
@@ -815,7 +950,9 @@ export default function PublicBookingPage() {
                       const slot = bookingSlots.find(s => s.id === selectedSlot);
                       if (!slot) return [];
                       
-                      const timeSlots = generateTimeSlots(slot.start_time, slot.end_time);
+                      // Hide start times that would run into a session or its buffer time
+                      const timeSlots = generateTimeSlots(slot, selectedDuration)
+                        .filter(time => isTimeSlotAvailable(time, selectedDuration));
                       
                       return timeSlots.map((time) => (
                         <SelectItem key={time} value={time}>
@@ -827,25 +964,61 @@ export default function PublicBookingPage() {
                 </Select>
               </div>
 
-              {/* Duration Selection */}
-              <div>
-                <Label htmlFor="duration">Session Duration *</Label>
-                <Select
-                  value={selectedDuration.toString()}
-                  onValueChange={(value) => setSelectedDuration(parseInt(value))}
-                >
-                  <SelectTrigger className="w-full mt-1">
-                    <SelectValue placeholder="Select duration" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="30">30 minutes</SelectItem>
-                    <SelectItem value="45">45 minutes</SelectItem>
-                    <SelectItem value="60">1 hour</SelectItem>
-                    <SelectItem value="90">1.5 hours</SelectItem>
-                    <SelectItem value="120">2 hours</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              {/* Lesson Type Selection (sets the duration) */}
+              {lessonTypes.length > 0 ? (
+                <div>
+                  <Label htmlFor="lessonType">Lesson *</Label>
+                  <Select
+                    value={selectedLessonTypeId}
+                    onValueChange={(value) => {
+                      const lessonType = lessonTypes.find(type => type.id === value);
+                      if (!lessonType) return;
+                      setSelectedLessonTypeId(value);
+                      setSelectedDuration(lessonType.duration);
+                      // The chosen start may not fit the new lesson's length or hours
+                      setSelectedStartTime("");
+                    }}
+                  >
+                    <SelectTrigger className="w-full mt-1">
+                      <SelectValue placeholder="Select lesson" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {lessonTypes.map(lessonType => (
+                        <SelectItem key={lessonType.id} value={lessonType.id}>
+                          {lessonType.name} · {formatBookingDuration(lessonType.duration)} · {Number(lessonType.price) > 0 ? formatCurrency(Number(lessonType.price), tutor?.currency) : 'Free'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="duration">Session Duration *</Label>
+                  <Select
+                    value={selectedDuration.toString()}
+                    onValueChange={(value) => {
+                      const duration = parseInt(value);
+                      setSelectedDuration(duration);
+                      // A longer lesson may no longer fit at the chosen start
+                      const slot = bookingSlots.find(s => s.id === selectedSlot);
+                      if (slot && selectedStartTime && !generateTimeSlots(slot, duration).includes(selectedStartTime)) {
+                        setSelectedStartTime("");
+                      }
+                    }}
+                  >
+                    <SelectTrigger className="w-full mt-1">
+                      <SelectValue placeholder="Select duration" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rules.allowedDurations.map(duration => (
+                        <SelectItem key={duration} value={duration.toString()}>
+                          {formatBookingDuration(duration)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
 
               {/* Preview */}
               {selectedStartTime && selectedDuration && selectedSlot && (() => {
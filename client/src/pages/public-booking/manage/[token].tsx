@@ -0,0 +1,338 @@
+import { useState, useEffect, useMemo } from "react";
+import { useParams, Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ConfirmActionModal } from "@/components/ui/confirm-action-modal";
+import { useToast } from "@/hooks/use-toast";
+import { getBrowserTimezone, getTimezoneDisplayName } from "@/lib/timezones";
+import { Calendar, Clock, AlertCircle, CheckCircle, XCircle, RefreshCw } from "lucide-react";
+import { findConflicts } from "@shared/conflicts";
+import { isDailyCapReached, isWindowBookable, startTimesInWindow } from "@shared/bookingRules";
+import { isCoveredByTimeOff, overlapsTimeOff } from "@shared/timeOff";
+import { isLessonTypeAvailable } from "@shared/lessonTypes";
+import type { ManagedBooking } from "@shared/schema";
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+type PageState = 'loading' | 'ready' | 'not_found' | 'cancelled';
+
+export default function ManageBookingPage() {
+  const params = useParams();
+  const token = params.token;
+  const { toast } = useToast();
+
+  const [state, setState] = useState<PageState>('loading');
+  const [managed, setManaged] = useState<ManagedBooking | null>(null);
+  const [rescheduling, setRescheduling] = useState(false);
+  const [selectedSlotId, setSelectedSlotId] = useState("");
+  const [selectedStart, setSelectedStart] = useState(""); // UTC ISO
+  const [submitting, setSubmitting] = useState(false);
+
+  // Same timezone the student picked on the booking page
+  const studentTimezone = useMemo(() => localStorage.getItem('studentTimezone') || getBrowserTimezone(), []);
+
+  const loadBooking = async () => {
+    try {
+      const response = await fetch(`/api/public/bookings/manage/${token}`);
+      if (response.status === 404) {
+        setState('not_found');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to load booking');
+      }
+      setManaged(await response.json());
+      setState('ready');
+    } catch (error) {
+      console.error('Error loading managed booking:', error);
+      toast({
+        variant: "destructive",
+        title: "Connection Error",
+        description: "Could not load your booking. Please check your connection and try again.",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (token) loadBooking();
+  }, [token]);
+
+  const formatLocal = (utcString: string, pattern: string) =>
+    dayjs.utc(utcString).tz(studentTimezone).format(pattern);
+
+  // Windows with at least one start the tutor's notice / horizon still allow, outside time off
+  const bookableSlots = useMemo(() => {
+    if (!managed) return [];
+    return managed.slots.filter(slot => {
+      const window = { start: slot.start_time, end: slot.end_time };
+      return isWindowBookable(window, managed.rules) && !isCoveredByTimeOff(window, managed.timeOff);
+    });
+  }, [managed]);
+
+  // Start times inside the selected window that follow the tutor's booking rules (and the lesson type's
+  // hours) and don't run into other sessions
+  const availableStarts = useMemo(() => {
+    if (!managed || !selectedSlotId) return [];
+    const slot = managed.slots.find(s => s.id === selectedSlotId);
+    if (!slot) return [];
+
+    const duration = managed.booking.duration;
+    return startTimesInWindow({ start: slot.start_time, end: slot.end_time }, duration, managed.rules)
+      .filter(start => {
+        if (start === managed.booking.session_start) return false;
+        if (isDailyCapReached(managed.rules, managed.busy, start, managed.tutorTimezone)) return false;
+        const range = { start, end: dayjs.utc(start).add(duration, 'minute').toISOString() };
+        if (overlapsTimeOff(range, managed.timeOff)) return false;
+        if (managed.lessonType && !isLessonTypeAvailable(managed.lessonType, range, managed.tutorTimezone)) return false;
+        return findConflicts([range], managed.busy, { buffers: managed.buffers }).length === 0;
+      });
+  }, [managed, selectedSlotId]);
+
+  const handleCancel = async () => {
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/public/bookings/manage/${token}/cancel`, { method: 'POST' });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Please try again.');
+      }
+      setState('cancelled');
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Could Not Cancel",
+        description: error.message,
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReschedule = async () => {
+    if (!selectedStart) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/public/bookings/manage/${token}/reschedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionStart: selectedStart }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Please try again.');
+      }
+
+      toast({
+        title: "Booking Rescheduled",
+        description: `Your session now starts ${formatLocal(result.session_start, 'dddd, MMMM D [at] h:mm A')}.`,
+      });
+      setRescheduling(false);
+      setSelectedSlotId("");
+      setSelectedStart("");
+      await loadBooking();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Could Not Reschedule",
+        description: error.message,
+      });
+      // Someone else may have taken the time; refresh what's free
+      await loadBooking();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderMessage = (icon: React.ReactNode, title: string, description: string) => (
+    <div className="text-center py-12">
+      {icon}
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">{title}</h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-6">{description}</p>
+      {managed && (
+        <Link href={`/booking/${managed.tutor.id}`}>
+          <Button variant="outline">Book Another Session</Button>
+        </Link>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
+      <div className="max-w-2xl mx-auto px-4">
+        <Card>
+          {state === 'loading' && (
+            <CardContent className="space-y-4 p-6">
+              <Skeleton className="h-24 w-full" />
+              <Skeleton className="h-16 w-full" />
+            </CardContent>
+          )}
+
+          {state === 'not_found' && (
+            <CardContent>
+              {renderMessage(
+                <AlertCircle className="h-12 w-12 text-red-400 mx-auto mb-4" />,
+                "Booking Not Found",
+                "This booking link is no longer valid. The booking may have been cancelled or declined."
+              )}
+            </CardContent>
+          )}
+
+          {state === 'cancelled' && (
+            <CardContent>
+              {renderMessage(
+                <XCircle className="h-16 w-16 text-gray-400 mx-auto mb-4" />,
+                "Booking Cancelled",
+                `Your session with ${managed?.tutor.full_name} has been cancelled.`
+              )}
+            </CardContent>
+          )}
+
+          {state === 'ready' && managed && (
+            <>
+              <CardHeader>
+                <div className="flex items-center gap-4">
+                  <Avatar className="h-14 w-14">
+                    <AvatarImage src={managed.tutor.avatar_url || undefined} alt={managed.tutor.full_name} />
+                    <AvatarFallback>{managed.tutor.full_name.charAt(0).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <CardTitle className="text-2xl">Your Booking</CardTitle>
+                    <p className="text-gray-600 dark:text-gray-400">with {managed.tutor.full_name}</p>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="p-4 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium flex items-center gap-2">
+                      <Calendar className="h-4 w-4" />
+                      {formatLocal(managed.booking.session_start, 'dddd, MMMM D, YYYY')}
+                    </p>
+                    <Badge variant={managed.booking.status === 'pending' ? 'outline' : 'default'}>
+                      {managed.booking.status === 'pending' ? 'Awaiting confirmation' : 'Confirmed'}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-2">
+                    <Clock className="h-4 w-4" />
+                    {formatLocal(managed.booking.session_start, 'h:mm A')} - {formatLocal(managed.booking.session_end, 'h:mm A')}
+                    {' '}({managed.booking.duration} min, {getTimezoneDisplayName(studentTimezone)})
+                  </p>
+                </div>
+
+                {!managed.canChange ? (
+                  <div className="p-4 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-200">
+                    Changes are possible until {managed.cutoffHours} hours before the session.
+                    Please contact {managed.tutor.full_name} directly.
+                  </div>
+                ) : (
+                  <>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      You can cancel or reschedule until {formatLocal(managed.changeDeadline, 'dddd, MMMM D [at] h:mm A')}.
+                    </p>
+
+                    {rescheduling && (
+                      <div className="space-y-4 p-4 border rounded-lg">
+                        <div>
+                          <Label>New Day</Label>
+                          <Select
+                            value={selectedSlotId}
+                            onValueChange={(value) => {
+                              setSelectedSlotId(value);
+                              setSelectedStart("");
+                            }}
+                          >
+                            <SelectTrigger className="w-full mt-1">
+                              <SelectValue placeholder="Select an available window" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {bookableSlots.map(slot => (
+                                <SelectItem key={slot.id} value={slot.id}>
+                                  {formatLocal(slot.start_time, 'ddd, MMM D · h:mm A')} - {formatLocal(slot.end_time, 'h:mm A')}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        {selectedSlotId && (
+                          <div>
+                            <Label>New Start Time</Label>
+                            {availableStarts.length === 0 ? (
+                              <p className="text-sm text-gray-500 mt-1">No free times in this window. Please pick another one.</p>
+                            ) : (
+                              <Select value={selectedStart} onValueChange={setSelectedStart}>
+                                <SelectTrigger className="w-full mt-1">
+                                  <SelectValue placeholder="Select start time" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {availableStarts.map(start => (
+                                    <SelectItem key={start} value={start}>
+                                      {formatLocal(start, 'h:mm A')}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </div>
+                        )}
+
+                        <div className="flex gap-2">
+                          <Button variant="outline" className="flex-1" onClick={() => setRescheduling(false)} disabled={submitting}>
+                            Back
+                          </Button>
+                          <Button className="flex-1" onClick={handleReschedule} disabled={!selectedStart || submitting}>
+                            <CheckCircle className="h-4 w-4 mr-2" />
+                            {submitting ? "Saving..." : "Confirm New Time"}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {!rescheduling && (
+                      <div className="flex flex-col sm:flex-row gap-2">
+                        <Button
+                          variant="outline"
+                          className="flex-1"
+                          onClick={() => setRescheduling(true)}
+                          disabled={submitting}
+                          data-testid="button-reschedule-booking"
+                        >
+                          <RefreshCw className="h-4 w-4 mr-2" />
+                          Reschedule
+                        </Button>
+                        <ConfirmActionModal
+                          trigger={
+                            <Button variant="destructive" className="flex-1" disabled={submitting} data-testid="button-cancel-booking">
+                              <XCircle className="h-4 w-4 mr-2" />
+                              Cancel Booking
+                            </Button>
+                          }
+                          title="Cancel this booking?"
+                          description={`Your session with ${managed.tutor.full_name} will be cancelled. This can't be undone.`}
+                          confirmText="Cancel Booking"
+                          cancelText="Keep Booking"
+                          onConfirm={handleCancel}
+                          isDestructive
+                        />
+                      </div>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -50,6 +50,10 @@ import { useTimezone } from "@/contexts/TimezoneContext";
 import { useToast } from "@/hooks/use-toast";
 import CreatableSelect from "react-select/creatable";
 import { shouldUseOptimizedQuery, getOptimizedSessions, getStandardSessions } from "@/lib/queryOptimizer";
+import { sessionAmountReceived } from "@/lib/earningsCalculator";
+import { useStudentPackages } from "@/hooks/useStudentPackages";
+import { todayPaymentDate } from "@/services/payments";
+import { packageAlert, studentPackageBalance } from "@shared/studentPackages";
 import { 
   User, 
   Calendar,
@@ -60,7 +64,8 @@ import {
   Star,
   Tag,
   X,
-  MoreHorizontal
+  MoreHorizontal,
+  Package
 } from "lucide-react";
 import { EditStudentModal } from "@/components/modals/edit-student-modal";
 import { AvatarEditorModal } from "@/components/modals/avatar-editor-modal";
@@ -100,6 +105,8 @@ interface StudentSummary {
 export default function Students() {
   const queryClient = useQueryClient();
   const { tutorTimezone } = useTimezone();
+  const packages = useStudentPackages();
+  const packagesToday = todayPaymentDate(tutorTimezone || undefined);
   const { toast } = useToast();
   const { refreshProgress } = useOnboarding();
 
@@ -720,13 +727,8 @@ export default function Students() {
 
       studentSessions.forEach(session => {
         const sessionDate = new Date(session.session_start);
-        const earnings = (session.duration / 60) * session.rate;
-        const isPaid = session.paid === true;
-
-        // Only count earnings from paid sessions
-        if (isPaid) {
-          totalEarnings += earnings;
-        }
+        // Only count payments received (partial ones in part)
+        totalEarnings += sessionAmountReceived(session);
 
         totalDuration += session.duration;
 
@@ -1179,6 +1181,25 @@ export default function Students() {
                                   <span className="text-xs text-muted-foreground">✉️ {sanitizeText(student.email)}</span>
                                 )}
                               </div>
+                              {(() => {
+                                const balance = studentPackageBalance(packages, student.id, packagesToday);
+                                if (balance.packages.length === 0) return null;
+                                const parts = [
+                                  balance.sessions > 0 ? `${balance.sessions} lesson${balance.sessions !== 1 ? 's' : ''}` : null,
+                                  balance.credit > 0 ? formatCurrency(balance.credit, tutorCurrency) : null,
+                                ].filter(Boolean);
+                                const runningLow = balance.packages.some(pkg => packageAlert(pkg, packagesToday) === 'low_balance');
+                                return (
+                                  <Badge
+                                    variant="outline"
+                                    className={runningLow ? "text-xs mt-1 border-amber-300 text-amber-700" : "text-xs mt-1 border-purple-200 text-purple-700"}
+                                    data-testid={`badge-package-balance-${student.id}`}
+                                  >
+                                    <Package className="h-3 w-3 mr-1" />
+                                    {parts.join(' + ')} prepaid
+                                  </Badge>
+                                );
+                              })()}
                               {student.tags && student.tags.length > 0 && (
                                 <div className="flex gap-1 mt-1">
                                   {student.tags.slice(0, 2).map((tag) => (
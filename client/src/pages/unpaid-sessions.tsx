@@ -12,10 +12,11 @@ import {
   X,
   ChevronDown,
   ChevronRight,
-  Download
+  Download,
+  FileText
 } from "lucide-react";
 import { Link } from "wouter";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
 import { getCurrentTutorId } from "@/lib/tutorHelpers";
 import { formatCurrency } from "@/lib/utils";
@@ -24,7 +25,9 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import { triggerEarningsConfetti } from "@/lib/confetti";
 import { formatUtcToTutorTimezone, calculateDurationMinutes } from "@/lib/dateUtils";
 import { useTimezone } from "@/contexts/TimezoneContext";
-import { ConfirmActionModal } from "@/components/ui/confirm-action-modal";
+import { RecordPaymentModal } from "@/components/modals/record-payment-modal";
+import { InvoicesModal } from "@/components/modals/invoices-modal";
+import { isPartiallyPaid, sessionBalance } from "@shared/payments";
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
@@ -42,14 +45,22 @@ interface UnpaidSession {
   duration: number;
   rate: number;
   paid: boolean;
+  amount_paid: number;
   created_at: string;
 }
 
+// Sessions a payment is being recorded for, from one row, one student or everything overdue
+interface PaymentTarget {
+  sessionIds: string[];
+  studentName?: string;
+}
+
 export default function UnpaidSessions() {
   const [openWeeks, setOpenWeeks] = useState<Set<string>>(new Set());
   const { toast } = useToast();
-  const queryClient = useQueryClient();
   const { tutorTimezone } = useTimezone();
+  const [paymentTarget, setPaymentTarget] = useState<PaymentTarget | null>(null);
+  const [showInvoices, setShowInvoices] = useState(false);
 
   // Fetch tutor's currency preference
   const { data: tutorCurrency = 'USD' } = useQuery({
@@ -93,6 +104,7 @@ export default function UnpaidSessions() {
           duration,
           rate,
           paid,
+          amount_paid,
           created_at,
           students (
             name
@@ -118,110 +130,14 @@ export default function UnpaidSessions() {
     },
   });
 
-  // Mark as paid mutation
-  const markAsPaidMutation = useMutation({
-    mutationFn: async (sessionId: string) => {
-      const { error } = await supabase
-        .from('sessions')
-        .update({ paid: true })
-        .eq('id', sessionId);
-
-      if (error) {
-        console.error('Error marking session as paid:', error);
-        throw error;
-      }
-    },
-    onSuccess: () => {
-      // Trigger confetti for payment success
-      triggerEarningsConfetti();
-      
-      toast({
-        title: "💰 Payment recorded!",
-        description: "The session has been marked as paid.",
-      });
-      queryClient.invalidateQueries({ queryKey: ['all-unpaid-sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['unpaid-past-sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
-    },
-    onError: (error) => {
-      console.error('Error marking session as paid:', error);
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Failed to update payment status. Please try again.",
-      });
-    },
-  });
-
-  // Mark all as paid mutation
-  const markAllAsPaidMutation = useMutation({
-    mutationFn: async () => {
-      // Filter sessions to only include unpaid past sessions
-      const now = dayjs.utc();
-      const pastUnpaidSessions = sessions.filter(session => {
-        const isUnpaid = !session.paid;
-        const isPast = now.isAfter(session.session_end);
-        return isUnpaid && isPast;
-      });
-
-      if (pastUnpaidSessions.length === 0) {
-        throw new Error('No past unpaid sessions to mark as paid');
-      }
-
-      const sessionIds = pastUnpaidSessions.map(session => session.id);
-      
-      console.log('🔧 Marking sessions as paid:', {
-        totalSessions: sessions.length,
-        pastUnpaidSessions: pastUnpaidSessions.length,
-        sessionIds: sessionIds
-      });
-
-      // Update sessions directly using Supabase query (no RPC needed)
-      const { data, error } = await supabase
-        .from('sessions')
-        .update({ paid: true })
-        .in('id', sessionIds)
-        .eq('paid', false); // Only update unpaid sessions for safety
-
-      console.log('Bulk update sessions response:', { data, error, sessionIds });
-
-      if (error) {
-        console.error('Error marking all sessions as paid:', error);
-        throw error;
-      }
-
-      return pastUnpaidSessions.length;
-    },
-    onSuccess: (sessionCount) => {
-      // Trigger confetti for bulk payment success
-      triggerEarningsConfetti();
-      
-      toast({
-        title: "🎉 All payments recorded!",
-        description: `Marked ${sessionCount} sessions as paid.`,
-      });
-      queryClient.invalidateQueries({ queryKey: ['all-unpaid-sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['unpaid-past-sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
-      queryClient.invalidateQueries({ queryKey: ['earnings-sessions'] });
-    },
-    onError: (error) => {
-      console.error('Mark all as paid mutation failed:', error);
-      console.error('Error details:', {
-        message: error.message,
-        stack: error.stack,
-        name: error.name
-      });
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: `Failed to update payment status: ${error.message}`,
-      });
-    },
-  });
+  const handleMarkAsPaid = (session: UnpaidSession) => {
+    setPaymentTarget({ sessionIds: [session.id], studentName: session.student_name });
+  };
 
-  const handleMarkAsPaid = (sessionId: string) => {
-    markAsPaidMutation.mutate(sessionId);
+  // One payment covering every overdue session of a student, oldest first
+  const handleMarkStudentAsPaid = (session: UnpaidSession) => {
+    const studentSessions = sessions.filter(s => s.student_id === session.student_id);
+    setPaymentTarget({ sessionIds: studentSessions.map(s => s.id), studentName: session.student_name });
   };
 
   const handleMarkAllAsPaid = () => {
@@ -241,9 +157,11 @@ export default function UnpaidSessions() {
       return;
     }
 
-    const sessionIds = pastUnpaidSessions.map(session => session.id);
-    console.log("Marking sessions as paid:", sessionIds);
-    markAllAsPaidMutation.mutate();
+    const studentNames = new Set(pastUnpaidSessions.map(session => session.student_name));
+    setPaymentTarget({
+      sessionIds: pastUnpaidSessions.map(session => session.id),
+      studentName: studentNames.size === 1 ? pastUnpaidSessions[0].student_name : undefined,
+    });
   };
 
   const handleDownloadReport = () => {
@@ -260,7 +178,7 @@ export default function UnpaidSessions() {
     );
 
     const totalAmount = sessions.reduce((sum, session) => {
-      return sum + (session.duration / 60) * session.rate;
+      return sum + sessionBalance(session);
     }, 0);
 
     const csvRows = [
@@ -273,7 +191,7 @@ export default function UnpaidSessions() {
               month: 'long',
               day: 'numeric'
             });
-        const amount = ((session.duration / 60) * session.rate).toFixed(2);
+        const amount = sessionBalance(session).toFixed(2);
         return [
           `"${date}"`,
           `"${session.student_name}"`,
@@ -423,7 +341,7 @@ export default function UnpaidSessions() {
   // Calculate summary statistics
   const totalSessions = sessions.length;
   const totalOverdue = sessions.reduce((sum, session) => {
-    return sum + (session.duration / 60) * session.rate;
+    return sum + sessionBalance(session);
   }, 0);
 
   const uniqueStudents = new Set(sessions.map(session => session.student_name)).size;
@@ -559,39 +477,36 @@ export default function UnpaidSessions() {
                   Overdue sessions grouped by week and date
                 </p>
               </div>
-              {totalSessions > 0 && (
-                <div className="flex items-center gap-2">
-                  <Button
-                    variant="outline"
-                    onClick={handleDownloadReport}
-                    data-testid="button-download-report"
-                  >
-                    <Download className="h-4 w-4 mr-2" />
-                    Download Report
-                  </Button>
-                  <ConfirmActionModal
-                    trigger={
-                      <Button
-                        disabled={markAllAsPaidMutation.isPending}
-                        className="bg-green-600 hover:bg-green-700 text-white"
-                        data-testid="button-mark-all-paid"
-                      >
-                        <Coins className="h-4 w-4 mr-2" />
-                        {markAllAsPaidMutation.isPending ? 'Processing...' : 'Mark All as Paid'}
-                      </Button>
-                    }
-                    title={`Mark all ${sessions.filter(s => {
-                      const now = dayjs.utc();
-                      return !s.paid && now.isAfter(s.session_end);
-                    }).length} past unpaid sessions as paid?`}
-                    description="This will mark all overdue sessions as paid and update your earnings dashboard."
-                    confirmText="Yes, mark as paid"
-                    cancelText="Cancel"
-                    onConfirm={handleMarkAllAsPaid}
-                    disabled={markAllAsPaidMutation.isPending}
-                  />
-                </div>
-              )}
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setShowInvoices(true)}
+                  data-testid="button-invoices"
+                >
+                  <FileText className="h-4 w-4 mr-2" />
+                  Invoices
+                </Button>
+                {totalSessions > 0 && (
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={handleDownloadReport}
+                      data-testid="button-download-report"
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Download Report
+                    </Button>
+                    <Button
+                      onClick={handleMarkAllAsPaid}
+                      className="bg-green-600 hover:bg-green-700 text-white"
+                      data-testid="button-mark-all-paid"
+                    >
+                      <Coins className="h-4 w-4 mr-2" />
+                      Mark All as Paid
+                    </Button>
+                  </>
+                )}
+              </div>
             </div>
           </CardHeader>
 
@@ -656,7 +571,8 @@ export default function UnpaidSessions() {
                               </div>
                               <div className="space-y-2">
                                 {dateSessions.map((session) => {
-                                  const calculatedPrice = (session.duration / 60) * session.rate;
+                                  const balance = sessionBalance(session);
+                                  const studentSessionCount = sessions.filter(s => s.student_id === session.student_id).length;
                                   const daysOverdue = getDaysOverdue(session.session_start);
                                   
                                   return (
@@ -673,6 +589,11 @@ export default function UnpaidSessions() {
                                             <Badge variant="destructive" className="text-xs">
                                               {daysOverdue} day{daysOverdue !== 1 ? 's' : ''} overdue
                                             </Badge>
+                                            {isPartiallyPaid(session) && (
+                                              <Badge variant="outline" className="text-xs text-amber-600 border-amber-300">
+                                                Partly paid
+                                              </Badge>
+                                            )}
                                           </div>
                                           <div className="flex items-center gap-4 text-sm text-gray-600">
                                             <span className="flex items-center gap-1">
@@ -686,32 +607,34 @@ export default function UnpaidSessions() {
                                                 : 'Loading timezone...'}
                                             </span>
                                             <span className="font-medium text-orange-600">
-                                              {formatCurrency(calculatedPrice, tutorCurrency)}
+                                              {formatCurrency(balance, tutorCurrency)}
                                             </span>
                                           </div>
                                         </div>
 
                                         <div className="flex items-center gap-2">
-                                          <ConfirmActionModal
-                                            trigger={
-                                              <Button
-                                                variant="outline"
-                                                size="sm"
-                                                className="text-green-600 border-green-200 hover:bg-green-50"
-                                                disabled={markAsPaidMutation.isPending}
-                                                data-testid={`button-mark-paid-${session.id}`}
-                                              >
-                                                <Coins className="h-3 w-3 mr-1" />
-                                                Mark Paid
-                                              </Button>
-                                            }
-                                            title={`Mark overdue session with ${session.student_name} as paid?`}
-                                            description="This will mark the session as paid and update your earnings dashboard."
-                                            confirmText="Yes, mark as paid"
-                                            cancelText="Cancel"
-                                            onConfirm={() => handleMarkAsPaid(session.id)}
-                                            disabled={markAsPaidMutation.isPending}
-                                          />
+                                          {studentSessionCount > 1 && session.student_id && (
+                                            <Button
+                                              variant="ghost"
+                                              size="sm"
+                                              className="text-green-700 hover:bg-green-50"
+                                              onClick={() => handleMarkStudentAsPaid(session)}
+                                              title={`Record one payment for all ${studentSessionCount} overdue sessions of ${session.student_name}`}
+                                              data-testid={`button-mark-student-paid-${session.id}`}
+                                            >
+                                              All {studentSessionCount}
+                                            </Button>
+                                          )}
+                                          <Button
+                                            variant="outline"
+                                            size="sm"
+                                            className="text-green-600 border-green-200 hover:bg-green-50"
+                                            onClick={() => handleMarkAsPaid(session)}
+                                            data-testid={`button-mark-paid-${session.id}`}
+                                          >
+                                            <Coins className="h-3 w-3 mr-1" />
+                                            Mark Paid
+                                          </Button>
                                         </div>
                                       </div>
                                     </div>
@@ -730,6 +653,16 @@ export default function UnpaidSessions() {
           </CardContent>
         </Card>
       </div>
+
+      <RecordPaymentModal
+        isOpen={!!paymentTarget}
+        onClose={() => setPaymentTarget(null)}
+        sessionIds={paymentTarget?.sessionIds || []}
+        studentName={paymentTarget?.studentName}
+        onSuccess={triggerEarningsConfetti}
+      />
+
+      <InvoicesModal isOpen={showInvoices} onClose={() => setShowInvoices(false)} />
     </div>
   );
 }
@@ -13,15 +13,15 @@ import {
   ChevronRight
 } from "lucide-react";
 import { Link } from "wouter";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
 import { getCurrentTutorId } from "@/lib/tutorHelpers";
 import { formatUtcToTutorTimezone, calculateDurationMinutes } from "@/lib/dateUtils";
 import { useTimezone } from "@/contexts/TimezoneContext";
 import { formatCurrency } from "@/lib/utils";
-import { useToast } from "@/hooks/use-toast";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { CancelSessionModal } from "@/components/modals/cancel-session-modal";
+import { RecordPaymentModal } from "@/components/modals/record-payment-modal";
 
 interface Session {
   id: string;
@@ -40,8 +40,7 @@ export default function UpcomingSessions() {
   const [openDates, setOpenDates] = useState<Set<string>>(new Set());
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [cancelSessionData, setCancelSessionData] = useState<{ id: string; studentId: string; studentName: string } | null>(null);
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const [paymentSession, setPaymentSession] = useState<Session | null>(null);
   const { tutorTimezone } = useTimezone();
 
   // Fetch tutor's currency preference
@@ -109,38 +108,6 @@ export default function UpcomingSessions() {
     },
   });
 
-  // Mark as paid mutation
-  const markAsPaidMutation = useMutation({
-    mutationFn: async (sessionId: string) => {
-      const { error } = await supabase
-        .from('sessions')
-        .update({ paid: true })
-        .eq('id', sessionId);
-
-      if (error) {
-        console.error('Error marking session as paid:', error);
-        throw error;
-      }
-    },
-    onSuccess: () => {
-      toast({
-        title: "Payment recorded",
-        description: "The session has been marked as paid.",
-      });
-      queryClient.invalidateQueries({ queryKey: ['all-upcoming-sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['upcoming-sessions'] });
-      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
-    },
-    onError: (error) => {
-      console.error('Error marking session as paid:', error);
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Failed to update payment status. Please try again.",
-      });
-    },
-  });
-
   const handleCancelSession = (sessionId: string, studentId: string, studentName: string) => {
     setCancelSessionData({ id: sessionId, studentId, studentName });
     setShowCancelModal(true);
@@ -151,10 +118,9 @@ export default function UpcomingSessions() {
     setCancelSessionData(null);
   };
 
-  const handleMarkAsPaid = (sessionId: string, studentName: string) => {
-    if (window.confirm(`Mark session with ${studentName} as paid?`)) {
-      markAsPaidMutation.mutate(sessionId);
-    }
+  // Upcoming lessons can be paid in advance
+  const handleMarkAsPaid = (session: Session) => {
+    setPaymentSession(session);
   };
 
   const toggleDateGroup = (date: string) => {
@@ -456,8 +422,7 @@ export default function UpcomingSessions() {
                                     variant="outline"
                                     size="sm"
                                     className="text-green-600 border-green-200 hover:bg-green-50"
-                                    onClick={() => handleMarkAsPaid(session.id, session.student_name)}
-                                    disabled={markAsPaidMutation.isPending}
+                                    onClick={() => handleMarkAsPaid(session)}
                                     data-testid={`button-mark-paid-${session.id}`}
                                   >
                                     <Coins className="h-3 w-3 mr-1" />
@@ -498,6 +463,13 @@ export default function UpcomingSessions() {
           onSuccess={handleCancelModalClose}
         />
       )}
+
+      <RecordPaymentModal
+        isOpen={!!paymentSession}
+        onClose={() => setPaymentSession(null)}
+        sessionIds={paymentSession ? [paymentSession.id] : []}
+        studentName={paymentSession?.student_name}
+      />
     </div>
   );
 }
\ No newline at end of file
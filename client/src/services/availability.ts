@@ -3,6 +3,8 @@ import { getCurrentTutorId } from '@/lib/tutorHelpers';
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
+import { NO_BUFFERS, type BufferSettings } from '@shared/conflicts';
+import { DEFAULT_SLOT_GRANULARITY } from '@shared/bookingRules';
 
 // Enable dayjs plugins
 dayjs.extend(utc);
@@ -84,15 +86,17 @@ export async function createAvailabilitySlots(ranges: Array<{startLocal: Date, e
   }
 }
 
-// Validate that ranges don't overlap with existing data
+// Validate that ranges don't overlap with existing data.
+// Buffers widen the existing ranges, so pass them only for session ranges.
 export function validateRangesNoOverlap(
   newRanges: Array<{startLocal: Date, endLocal: Date}>,
-  existingRanges: Array<{startLocal: Date, endLocal: Date}>
+  existingRanges: Array<{startLocal: Date, endLocal: Date}>,
+  buffers: BufferSettings = NO_BUFFERS
 ): { valid: boolean; conflictingRange?: {startLocal: Date, endLocal: Date} } {
   for (const newRange of newRanges) {
     // Check against existing ranges
     for (const existing of existingRanges) {
-      if (rangesOverlap(newRange, existing)) {
+      if (rangesOverlap(newRange, withBufferMinutes(existing, buffers))) {
         return { valid: false, conflictingRange: existing };
       }
     }
@@ -108,6 +112,16 @@ export function validateRangesNoOverlap(
   return { valid: true };
 }
 
+function withBufferMinutes(
+  range: {startLocal: Date, endLocal: Date},
+  buffers: BufferSettings
+): {startLocal: Date, endLocal: Date} {
+  return {
+    startLocal: dayjs(range.startLocal).subtract(buffers.before, 'minute').toDate(),
+    endLocal: dayjs(range.endLocal).add(buffers.after, 'minute').toDate()
+  };
+}
+
 // Check if two ranges overlap
 function rangesOverlap(
   rangeA: {startLocal: Date, endLocal: Date},
@@ -116,10 +130,11 @@ function rangesOverlap(
   return rangeA.startLocal < rangeB.endLocal && rangeB.startLocal < rangeA.endLocal;
 }
 
-// Normalize range to slot granularity (30 minutes)
-export function normalizeToSlotGranularity(range: {startLocal: Date, endLocal: Date}): {startLocal: Date, endLocal: Date} {
-  const stepMin = 30;
-  
+// Normalize range to the tutor's slot granularity (tutors.slot_granularity_minutes)
+export function normalizeToSlotGranularity(
+  range: {startLocal: Date, endLocal: Date},
+  stepMin: number = DEFAULT_SLOT_GRANULARITY
+): {startLocal: Date, endLocal: Date} {
   const floorToStep = (date: Date): Date => {
     const newDate = new Date(date);
     newDate.setSeconds(0, 0);
@@ -141,4 +156,68 @@ export function normalizeToSlotGranularity(range: {startLocal: Date, endLocal: D
     startLocal: floorToStep(range.startLocal),
     endLocal: ceilToStep(range.endLocal)
   };
-}
\ No newline at end of file
+}
+// Move a range by whole weeks, keeping its wall-clock time in the tutor's timezone across DST changes
+export function shiftRangeByWeeks(
+  range: {startLocal: Date, endLocal: Date},
+  weeks: number,
+  tutorTimezone: string
+): {startLocal: Date, endLocal: Date} {
+  const shift = (date: Date): Date => {
+    const wallClock = dayjs.utc(dayjs(date).tz(tutorTimezone).format('YYYY-MM-DDTHH:mm:ss'));
+    return dayjs.tz(wallClock.add(weeks, 'week').format('YYYY-MM-DDTHH:mm:ss'), tutorTimezone).toDate();
+  };
+
+  return {
+    startLocal: shift(range.startLocal),
+    endLocal: shift(range.endLocal)
+  };
+}
+
+export type WeekCopyConflictReason = 'past' | 'time_off' | 'session' | 'availability';
+
+export interface WeekCopyPreview {
+  ranges: Array<{startLocal: Date, endLocal: Date}>; // free, ready for createAvailabilitySlots
+  conflicts: Array<{ range: {startLocal: Date, endLocal: Date}; reason: WeekCopyConflictReason }>;
+}
+
+// Copies of the source ranges at each week offset, normalized to the slot grid and sorted into
+// ones that can be inserted and ones that clash with what's already on the calendar
+export function previewWeekCopy(
+  sourceRanges: Array<{startLocal: Date, endLocal: Date}>,
+  weekOffsets: number[],
+  tutorTimezone: string,
+  existing: {
+    availability: Array<{startLocal: Date, endLocal: Date}>;
+    sessions: Array<{startLocal: Date, endLocal: Date}>;
+    timeOff: Array<{startLocal: Date, endLocal: Date}>;
+  },
+  buffers: BufferSettings = NO_BUFFERS,
+  slotGranularity: number = DEFAULT_SLOT_GRANULARITY
+): WeekCopyPreview {
+  const now = new Date();
+  const preview: WeekCopyPreview = { ranges: [], conflicts: [] };
+
+  for (const weeks of weekOffsets) {
+    for (const source of sourceRanges) {
+      const range = normalizeToSlotGranularity(shiftRangeByWeeks(source, weeks, tutorTimezone), slotGranularity);
+
+      // Copies are checked against each other too, so overlapping sources only go in once
+      const reason: WeekCopyConflictReason | null =
+        range.startLocal <= now ? 'past'
+        : !validateRangesNoOverlap([range], existing.timeOff).valid ? 'time_off'
+        : !validateRangesNoOverlap([range], existing.sessions, buffers).valid ? 'session'
+        : !validateRangesNoOverlap([range], [...existing.availability, ...preview.ranges]).valid ? 'availability'
+        : null;
+
+      if (reason) {
+        preview.conflicts.push({ range, reason });
+      } else {
+        preview.ranges.push(range);
+      }
+    }
+  }
+
+  preview.ranges.sort((a, b) => +a.startLocal - +b.startLocal);
+  return preview;
+}
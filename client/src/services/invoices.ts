@@ -0,0 +1,57 @@
+import { apiRequest } from '@/lib/queryClient';
+import type { Invoice, InvoiceStatus } from '@shared/invoices';
+import type { CreateInvoiceInput } from '@shared/schema';
+
+// apiRequest errors look like `409: {"error":"..."}` - surface just the message
+function toInvoiceError(error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d{3}:\s*/, '');
+  try {
+    return new Error(JSON.parse(body).error || body);
+  } catch {
+    return new Error(body);
+  }
+}
+
+async function callInvoicesApi<T>(method: string, url: string, body?: unknown): Promise<{ data: T | null; error: Error | null }> {
+  try {
+    const response = await apiRequest(method, url, body);
+    return { data: await response.json(), error: null };
+  } catch (error) {
+    return { data: null, error: toInvoiceError(error) };
+  }
+}
+
+export function createInvoice(input: CreateInvoiceInput) {
+  return callInvoicesApi<Invoice>('POST', '/api/invoices', input);
+}
+
+export function setInvoiceStatus(invoiceId: string, status: InvoiceStatus) {
+  return callInvoicesApi<Invoice>('PATCH', `/api/invoices/${invoiceId}`, { status });
+}
+
+export function deleteInvoice(invoiceId: string) {
+  return callInvoicesApi<{ success: boolean }>('DELETE', `/api/invoices/${invoiceId}`);
+}
+
+/**
+ * Show the printable invoice in a new tab. The tab is opened before the request so popup
+ * blockers treat it as part of the click; it is closed again if loading fails.
+ */
+export async function openInvoice(invoiceId: string): Promise<{ error: Error | null }> {
+  const printWindow = window.open('', '_blank');
+  try {
+    const response = await apiRequest('GET', `/api/invoices/${invoiceId}/html`);
+    const html = await response.text();
+    if (!printWindow) {
+      throw new Error('Allow pop-ups for this site to view invoices.');
+    }
+    printWindow.document.open();
+    printWindow.document.write(html);
+    printWindow.document.close();
+    return { error: null };
+  } catch (error) {
+    printWindow?.close();
+    return { error: toInvoiceError(error) };
+  }
+}
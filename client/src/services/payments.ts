@@ -0,0 +1,73 @@
+import { apiRequest } from '@/lib/queryClient';
+import { sessionBalance, type PayableSession, type PaymentMethod, type RecordPaymentResult } from '@shared/payments';
+import type { RecordPaymentInput } from '@shared/schema';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// apiRequest errors look like `409: {"error":"..."}` - surface just the message
+function toPaymentError(error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d{3}:\s*/, '');
+  try {
+    return new Error(JSON.parse(body).error || body);
+  } catch {
+    return new Error(body);
+  }
+}
+
+async function callPaymentsApi<T>(method: string, url: string, body?: unknown): Promise<{ data: T | null; error: Error | null }> {
+  try {
+    const response = await apiRequest(method, url, body);
+    return { data: await response.json(), error: null };
+  } catch (error) {
+    return { data: null, error: toPaymentError(error) };
+  }
+}
+
+// Today in the tutor's timezone, as payments are dated
+export function todayPaymentDate(tutorTimezone?: string): string {
+  return (tutorTimezone ? dayjs().tz(tutorTimezone) : dayjs()).format('YYYY-MM-DD');
+}
+
+// Record one payment split over sessions of one student, oldest first
+export function recordPayment(input: RecordPaymentInput) {
+  return callPaymentsApi<RecordPaymentResult>('POST', '/api/payments', input);
+}
+
+export function deletePayment(paymentId: string) {
+  return callPaymentsApi<{ success: boolean; sessionIds: string[] }>('DELETE', `/api/payments/${paymentId}`);
+}
+
+/**
+ * Settle whatever the sessions still owe, with one payment per student. Used by the
+ * "mark all as paid" actions. Returns how many payments were recorded.
+ */
+export async function settleSessions(
+  sessions: Array<PayableSession & { student_id: string | null }>,
+  payment: { paymentDate: string; method: PaymentMethod }
+): Promise<number> {
+  const byStudent = new Map<string, typeof sessions>();
+  for (const session of sessions) {
+    if (sessionBalance(session) <= 0) continue;
+    const key = session.student_id ?? '';
+    byStudent.set(key, [...(byStudent.get(key) || []), session]);
+  }
+
+  let recorded = 0;
+  for (const studentSessions of Array.from(byStudent.values())) {
+    const amount = studentSessions.reduce((total, session) => total + sessionBalance(session), 0);
+    const { error } = await recordPayment({
+      amount: Math.round(amount * 100) / 100,
+      paymentDate: payment.paymentDate,
+      method: payment.method,
+      sessionIds: studentSessions.map(session => session.id),
+    });
+    if (error) throw error;
+    recorded++;
+  }
+  return recorded;
+}
@@ -0,0 +1,83 @@
+import { supabase } from '@/lib/supabaseClient';
+import { getCurrentTutorId } from '@/lib/tutorHelpers';
+import { ensureSeriesMaterialized } from '@/services/sessionSeries';
+import {
+  buffersFromTutor,
+  conflictSearchWindow,
+  findConflicts,
+  NO_BUFFERS,
+  type BufferSettings,
+  type ConflictCandidate,
+  type SessionConflict,
+  type TimeRange,
+} from '@shared/conflicts';
+
+interface CheckConflictsParams {
+  ranges: TimeRange[];
+  excludeIds?: string[]; // e.g. the session being moved
+  buffers?: BufferSettings; // defaults to the tutor's own buffer settings
+}
+
+export async function fetchTutorBuffers(tutorId: string): Promise<BufferSettings> {
+  const { data, error } = await supabase
+    .from('tutors')
+    .select('buffer_before_minutes, buffer_after_minutes')
+    .eq('id', tutorId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching tutor buffer settings:', error);
+    return NO_BUFFERS;
+  }
+
+  return buffersFromTutor(data);
+}
+
+/**
+ * Find the tutor's sessions (scheduled or pending, never cancelled) that the proposed
+ * ranges would overlap or come too close to. A failed lookup is logged and treated as
+ * "no conflicts" so it never blocks scheduling.
+ */
+export async function checkSessionConflicts({ ranges, excludeIds = [], buffers }: CheckConflictsParams): Promise<SessionConflict[]> {
+  if (ranges.length === 0) return [];
+
+  try {
+    const tutorId = await getCurrentTutorId();
+    if (!tutorId) return [];
+
+    const effectiveBuffers = buffers ?? await fetchTutorBuffers(tutorId);
+    const window = conflictSearchWindow(ranges, effectiveBuffers);
+    if (!window) return [];
+
+    // Recurring series only have rows up to their horizon; make sure the window is covered
+    await ensureSeriesMaterialized(tutorId, window.end);
+
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('id, session_start, session_end, status, recurrence_id, unassigned_name, students(name)')
+      .eq('tutor_id', tutorId)
+      .lt('session_start', window.end)
+      .gt('session_end', window.start)
+      .or('status.is.null,status.neq.cancelled');
+
+    if (error) {
+      console.error('Error checking session conflicts:', error);
+      return [];
+    }
+
+    const existing: ConflictCandidate[] = (data || []).map((session: any) => ({
+      id: session.id,
+      session_start: session.session_start,
+      session_end: session.session_end,
+      status: session.status,
+      recurrence_id: session.recurrence_id,
+      student_name: session.students?.name ?? null,
+      unassigned_name: session.unassigned_name,
+    }));
+
+    return findConflicts(ranges, existing, { buffers: effectiveBuffers, excludeIds });
+  } catch (error) {
+    console.error('Unexpected error checking session conflicts:', error);
+    return [];
+  }
+}
@@ -0,0 +1,169 @@
+import { supabase } from '@/lib/supabaseClient';
+import { apiRequest } from '@/lib/queryClient';
+import { expandRecurrence, seriesToRule, type RecurrenceRule } from '@shared/recurrence';
+import { rateDateOf, seriesOccurrenceRate, type StudentRate } from '@shared/studentRates';
+import type {
+  CancelSessionSeriesInput,
+  CreateSessionSeriesInput,
+  SessionSeries,
+  SessionSeriesWriteResult,
+  UpdateSessionSeriesInput,
+} from '@shared/schema';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+
+dayjs.extend(utc);
+
+// How far ahead occurrences are kept as real session rows
+export const SERIES_HORIZON_WEEKS = 12;
+
+function defaultHorizon(): string {
+  return dayjs.utc().add(SERIES_HORIZON_WEEKS, 'week').toISOString();
+}
+
+// Occurrences after a rate change that starts later than the series get the new rate
+function buildSessionRows(series: SessionSeries, occurrences: Array<{ start: string; end: string }>, rateHistory: StudentRate[]) {
+  const firstDate = rateDateOf(series.first_session_start, series.timezone);
+  return occurrences.map(occurrence => ({
+    tutor_id: series.tutor_id,
+    student_id: series.student_id,
+    session_start: occurrence.start,
+    session_end: occurrence.end,
+    duration: series.duration,
+    rate: seriesOccurrenceRate(series.rate, rateHistory, firstDate, rateDateOf(occurrence.start, series.timezone)),
+    color: series.color,
+    notes: series.notes,
+    paid: false,
+    recurrence_id: series.id,
+    created_at: new Date().toISOString(),
+  }));
+}
+
+// Occurrences a new series gets as real rows right away, e.g. to check them for conflicts
+export function previewSeriesOccurrences(rule: RecurrenceRule, firstSessionStart: string, duration: number, timezone: string) {
+  const horizon = dayjs.utc(firstSessionStart).isAfter(defaultHorizon()) ? firstSessionStart : defaultHorizon();
+  return expandRecurrence({ rule, firstSessionStart, duration, timezone, toUtc: horizon })
+    .map(occurrence => ({ start: occurrence.start, end: occurrence.end }));
+}
+
+// apiRequest errors look like `400: {"error":"..."}` - surface just the message
+function toSeriesError(error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d{3}:\s*/, '');
+  try {
+    return new Error(JSON.parse(body).error || body);
+  } catch {
+    return new Error(body);
+  }
+}
+
+async function callSeriesApi<T>(method: string, url: string, body?: unknown): Promise<{ data: T | null; error: Error | null }> {
+  try {
+    const response = await apiRequest(method, url, body);
+    return { data: await response.json(), error: null };
+  } catch (error) {
+    return { data: null, error: toSeriesError(error) };
+  }
+}
+
+// Create a series and its first occurrences in one server-side transaction
+export function createSessionSeries(input: CreateSessionSeriesInput) {
+  return callSeriesApi<SessionSeriesWriteResult>('POST', '/api/sessions/series', input);
+}
+
+// Edit "this and following" (splits the series) or the whole series from now on
+export function updateSessionSeries(seriesId: string, input: UpdateSessionSeriesInput) {
+  return callSeriesApi<SessionSeriesWriteResult>('PATCH', `/api/sessions/series/${seriesId}`, input);
+}
+
+// Cancel a series from the given session onwards ("following") or every upcoming occurrence ("all")
+export function cancelSessionSeries(seriesId: string, input: CancelSessionSeriesInput) {
+  return callSeriesApi<{ cancelledCount: number; cancelledEventIds: string[] }>('POST', `/api/sessions/series/${seriesId}/cancel`, input);
+}
+
+// Delete a series from the given session onwards, or every upcoming occurrence when omitted
+export function deleteSessionSeries(seriesId: string, fromSessionId?: string) {
+  const query = fromSessionId ? `?fromSessionId=${encodeURIComponent(fromSessionId)}` : '';
+  return callSeriesApi<{ deletedCount: number; removedEventIds: string[] }>('DELETE', `/api/sessions/series/${seriesId}${query}`);
+}
+
+/**
+ * Make sure every open series of the tutor has session rows up to `untilUtc`.
+ * The materialized_until watermark is claimed with a conditional update first, so two
+ * tabs materializing at the same time can't insert the same occurrences twice.
+ */
+export async function ensureSeriesMaterialized(tutorId: string, untilUtc?: string): Promise<number> {
+  const target = untilUtc && dayjs.utc(untilUtc).isAfter(defaultHorizon()) ? untilUtc : defaultHorizon();
+
+  const { data: pendingSeries, error } = await supabase
+    .from('session_series')
+    .select('*')
+    .eq('tutor_id', tutorId)
+    .lt('materialized_until', target);
+
+  if (error) {
+    console.error('Error fetching session series:', error);
+    return 0;
+  }
+
+  if (!pendingSeries || pendingSeries.length === 0) return 0;
+
+  const { data: rateHistory, error: ratesError } = await supabase
+    .from('student_rates')
+    .select('*')
+    .eq('tutor_id', tutorId);
+
+  if (ratesError) {
+    console.error('Error fetching student rates:', ratesError);
+    return 0;
+  }
+
+  let created = 0;
+
+  for (const series of (pendingSeries || []) as SessionSeries[]) {
+    const occurrences = expandRecurrence({
+      rule: seriesToRule(series),
+      firstSessionStart: series.first_session_start,
+      duration: series.duration,
+      timezone: series.timezone,
+      fromUtc: series.materialized_until,
+      toUtc: target,
+    });
+
+    const { data: claimed, error: claimError } = await supabase
+      .from('session_series')
+      .update({ materialized_until: target })
+      .eq('id', series.id)
+      .eq('materialized_until', series.materialized_until)
+      .select('id');
+
+    if (claimError || !claimed || claimed.length === 0) {
+      // Another client already extended this series
+      continue;
+    }
+
+    if (occurrences.length === 0) continue;
+
+    const { error: insertError } = await supabase
+      .from('sessions')
+      .insert(buildSessionRows(series, occurrences, (rateHistory || []).filter(entry => entry.student_id === series.student_id)));
+
+    if (insertError) {
+      console.error(`Error materializing series ${series.id}:`, insertError);
+      // Release the watermark so the next attempt retries these occurrences
+      await supabase
+        .from('session_series')
+        .update({ materialized_until: series.materialized_until })
+        .eq('id', series.id);
+      continue;
+    }
+
+    created += occurrences.length;
+  }
+
+  if (created > 0) {
+    console.log(`🔁 Materialized ${created} recurring session(s) up to ${target}`);
+  }
+
+  return created;
+}
@@ -0,0 +1,32 @@
+import { apiRequest } from '@/lib/queryClient';
+import type { StudentPackage } from '@shared/studentPackages';
+import type { CreateStudentPackageInput } from '@shared/schema';
+
+// apiRequest errors look like `400: {"error":"..."}` - surface just the message
+function toPackageError(error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d{3}:\s*/, '');
+  try {
+    return new Error(JSON.parse(body).error || body);
+  } catch {
+    return new Error(body);
+  }
+}
+
+async function callPackagesApi<T>(method: string, url: string, body?: unknown): Promise<{ data: T | null; error: Error | null }> {
+  try {
+    const response = await apiRequest(method, url, body);
+    return { data: await response.json(), error: null };
+  } catch (error) {
+    return { data: null, error: toPackageError(error) };
+  }
+}
+
+// Sell a package; lessons since its purchase date that are still unpaid are paid from it right away
+export function createStudentPackage(input: CreateStudentPackageInput) {
+  return callPackagesApi<{ package: StudentPackage; consumedCount: number }>('POST', '/api/packages', input);
+}
+
+export function deleteStudentPackage(packageId: string) {
+  return callPackagesApi<{ success: boolean; sessionIds: string[] }>('DELETE', `/api/packages/${packageId}`);
+}
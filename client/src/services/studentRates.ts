@@ -0,0 +1,87 @@
+import { supabase } from '@/lib/supabaseClient';
+import { nextRateChange, type StudentRate } from '@shared/studentRates';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export interface StudentDefaults {
+  defaultDuration: number | null;
+  rateHistory: StudentRate[]; // oldest first
+}
+
+export async function fetchStudentDefaults(studentId: string): Promise<StudentDefaults> {
+  const [studentResult, ratesResult] = await Promise.all([
+    supabase
+      .from('students')
+      .select('default_duration')
+      .eq('id', studentId)
+      .single(),
+    supabase
+      .from('student_rates')
+      .select('*')
+      .eq('student_id', studentId)
+      .order('effective_from', { ascending: true }),
+  ]);
+
+  if (studentResult.error || ratesResult.error) {
+    throw studentResult.error || ratesResult.error;
+  }
+
+  return {
+    defaultDuration: studentResult.data?.default_duration ?? null,
+    rateHistory: ratesResult.data || [],
+  };
+}
+
+/**
+ * Record a rate from `effectiveFrom` (replacing one set for the same day) and reprice the
+ * student's upcoming unpaid recurring sessions up to the next rate change. One-off sessions
+ * keep the rate they were scheduled with. Returns how many sessions were repriced.
+ */
+export async function saveStudentRate(params: {
+  tutorId: string;
+  studentId: string;
+  rate: number;
+  effectiveFrom: string; // 'YYYY-MM-DD' in the tutor's timezone
+  tutorTimezone: string;
+  history: StudentRate[];
+}): Promise<number> {
+  const { tutorId, studentId, rate, effectiveFrom, tutorTimezone, history } = params;
+
+  const { error } = await supabase
+    .from('student_rates')
+    .upsert({
+      tutor_id: tutorId,
+      student_id: studentId,
+      rate,
+      effective_from: effectiveFrom,
+    }, { onConflict: 'student_id,effective_from' });
+
+  if (error) throw error;
+
+  const effectiveStart = dayjs.tz(`${effectiveFrom}T00:00:00`, tutorTimezone).utc();
+  const from = effectiveStart.isAfter(dayjs.utc()) ? effectiveStart : dayjs.utc();
+  const next = nextRateChange(history, effectiveFrom);
+
+  let query = supabase
+    .from('sessions')
+    .update({ rate })
+    .eq('tutor_id', tutorId)
+    .eq('student_id', studentId)
+    .eq('paid', false)
+    .not('recurrence_id', 'is', null)
+    .or('status.is.null,status.neq.cancelled')
+    .gte('session_start', from.toISOString());
+
+  if (next) {
+    query = query.lt('session_start', dayjs.tz(`${next.effective_from}T00:00:00`, tutorTimezone).utc().toISOString());
+  }
+
+  const { data: repriced, error: repriceError } = await query.select('id');
+  if (repriceError) throw repriceError;
+
+  return repriced?.length ?? 0;
+}
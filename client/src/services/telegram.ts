@@ -0,0 +1,31 @@
+import { apiRequest } from '@/lib/queryClient';
+import type { TelegramLinkCode } from '@shared/telegram';
+
+// apiRequest errors look like `500: {"error":"..."}` - surface just the message
+function toTelegramError(error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d{3}:\s*/, '');
+  try {
+    return new Error(JSON.parse(body).error || body);
+  } catch {
+    return new Error(body);
+  }
+}
+
+async function callTelegramApi<T>(method: string, url: string): Promise<{ data: T | null; error: Error | null }> {
+  try {
+    const response = await apiRequest(method, url);
+    return { data: await response.json(), error: null };
+  } catch (error) {
+    return { data: null, error: toTelegramError(error) };
+  }
+}
+
+// A one-time code that links the chat it is sent from; replaces any earlier code
+export function createTelegramLinkCode() {
+  return callTelegramApi<TelegramLinkCode>('POST', '/api/telegram/link-code');
+}
+
+export function unlinkTelegram() {
+  return callTelegramApi<{ success: boolean }>('DELETE', '/api/telegram/link');
+}
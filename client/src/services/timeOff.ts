@@ -0,0 +1,23 @@
+import { apiRequest } from '@/lib/queryClient';
+import type { MoveSessionsPastTimeOffResult } from '@shared/timeOff';
+
+// apiRequest errors look like `404: {"error":"..."}` - surface just the message
+function toTimeOffError(error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d{3}:\s*/, '');
+  try {
+    return new Error(JSON.parse(body).error || body);
+  } catch {
+    return new Error(body);
+  }
+}
+
+// Move sessions booked inside time off to the first free week after it, all or none
+export async function moveSessionsPastTimeOff(sessionIds: string[]): Promise<{ data: MoveSessionsPastTimeOffResult | null; error: Error | null }> {
+  try {
+    const response = await apiRequest('POST', '/api/time-off/move-sessions', { sessionIds });
+    return { data: await response.json(), error: null };
+  } catch (error) {
+    return { data: null, error: toTimeOffError(error) };
+  }
+}
@@ -0,0 +1,106 @@
+-- Migration: Auto-accept public booking requests
+-- Date: 2026-10-19
+-- Purpose: Tutors can have requests that pass every availability check confirmed straight
+--          away, either for everyone or only for requests matching one of their active
+--          students. The server picks the student and passes student_id / status in
+--          p_booking; create_public_booking is replaced to store them.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+-- 'off' = every request waits in Pending Requests
+ALTER TABLE tutors
+  ADD COLUMN IF NOT EXISTS booking_auto_accept TEXT NOT NULL DEFAULT 'off';
+
+ALTER TABLE tutors DROP CONSTRAINT IF EXISTS tutors_booking_auto_accept_check;
+ALTER TABLE tutors ADD CONSTRAINT tutors_booking_auto_accept_check CHECK (
+  booking_auto_accept IN ('off', 'known_students', 'everyone')
+);
+
+-- p_booking: { unassigned_name, notes, duration, rate, booking_email, booking_phone, booking_timezone,
+--              management_token, student_id?, status? ('pending' | 'confirmed', default 'pending') }
+-- Returns { status: 'created', session } or { status: 'rejected', reason, conflict_start? }
+CREATE OR REPLACE FUNCTION create_public_booking(
+  p_tutor_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_booking jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tutor tutors%ROWTYPE;
+  v_rejection jsonb;
+  v_status text;
+  v_student_id uuid;
+  v_session sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tutor
+  FROM tutors
+  WHERE id = p_tutor_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'tutor_not_found');
+  END IF;
+
+  v_rejection := public_booking_rejection(v_tutor, p_start, p_end, NULL);
+  IF v_rejection IS NOT NULL THEN
+    RETURN v_rejection;
+  END IF;
+
+  v_status := COALESCE(p_booking->>'status', 'pending');
+  IF v_status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Invalid booking status: %', v_status;
+  END IF;
+
+  -- A linked student has to belong to this tutor
+  v_student_id := NULLIF(p_booking->>'student_id', '')::uuid;
+  IF v_student_id IS NOT NULL THEN
+    PERFORM 1 FROM students WHERE id = v_student_id AND tutor_id = p_tutor_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Student % does not belong to tutor %', v_student_id, p_tutor_id;
+    END IF;
+  END IF;
+
+  INSERT INTO sessions (
+    tutor_id, student_id, unassigned_name, session_start, session_end,
+    duration, rate, paid, status, notes,
+    booking_email, booking_phone, booking_timezone
+  )
+  VALUES (
+    p_tutor_id,
+    v_student_id,
+    CASE WHEN v_student_id IS NULL THEN p_booking->>'unassigned_name' END,
+    p_start,
+    p_end,
+    (p_booking->>'duration')::integer,
+    COALESCE((p_booking->>'rate')::numeric, 0),
+    false,
+    v_status,
+    p_booking->>'notes',
+    p_booking->>'booking_email',
+    p_booking->>'booking_phone',
+    p_booking->>'booking_timezone'
+  )
+  RETURNING * INTO v_session;
+
+  IF p_booking->>'management_token' IS NOT NULL THEN
+    INSERT INTO booking_management_tokens (session_id, token)
+    VALUES (v_session.id, p_booking->>'management_token');
+  END IF;
+
+  RETURN jsonb_build_object('status', 'created', 'session', to_jsonb(v_session));
+END;
+$$;
+
+-- Trusts the values it is given, so only the server may call it
+REVOKE EXECUTE ON FUNCTION create_public_booking(uuid, timestamptz, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_public_booking(uuid, timestamptz, timestamptz, jsonb) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
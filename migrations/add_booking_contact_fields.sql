@@ -0,0 +1,136 @@
+-- Migration: Contact details on public booking requests
+-- Date: 2026-10-19
+-- Purpose: Students booking through the public page can leave an email and phone number,
+--          and the tutor chooses which of them are required. The email is used for the
+--          request confirmation and the accept / decline notice, shown in the student's
+--          own timezone (booking_timezone). create_public_booking is replaced to store them.
+--          Anonymous visitors lose direct read access to sessions, so those details stay
+--          private; the booking page reads busy times from the public_sessions view instead.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS booking_email TEXT,
+  ADD COLUMN IF NOT EXISTS booking_phone TEXT,
+  ADD COLUMN IF NOT EXISTS booking_timezone TEXT;
+
+-- Subset of {'email', 'phone'}; the name is always required
+ALTER TABLE tutors
+  ADD COLUMN IF NOT EXISTS booking_required_fields TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE tutors DROP CONSTRAINT IF EXISTS tutors_booking_required_fields_check;
+ALTER TABLE tutors ADD CONSTRAINT tutors_booking_required_fields_check CHECK (
+  booking_required_fields <@ ARRAY['email', 'phone']::TEXT[]
+);
+
+-- p_booking: { unassigned_name, notes, duration, rate, booking_email, booking_phone, booking_timezone }
+-- Returns { status: 'created', session } or { status: 'rejected', reason, conflict_start? }
+CREATE OR REPLACE FUNCTION create_public_booking(
+  p_tutor_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_booking jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tutor tutors%ROWTYPE;
+  v_before interval;
+  v_after interval;
+  v_conflict_start timestamptz;
+  v_session sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tutor
+  FROM tutors
+  WHERE id = p_tutor_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'tutor_not_found');
+  END IF;
+
+  IF p_start <= NOW() THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'in_past');
+  END IF;
+
+  -- The whole lesson has to fit inside one active availability window
+  PERFORM 1
+  FROM booking_slots b
+  WHERE b.tutor_id = p_tutor_id
+    AND b.is_active = true
+    AND b.start_time <= p_start
+    AND b.end_time >= p_end;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'outside_availability');
+  END IF;
+
+  -- Same rule as shared/conflicts.ts: too close when either side's buffers reach the other
+  v_before := make_interval(mins => COALESCE(v_tutor.buffer_before_minutes, 0));
+  v_after := make_interval(mins => COALESCE(v_tutor.buffer_after_minutes, 0));
+
+  SELECT s.session_start INTO v_conflict_start
+  FROM sessions s
+  WHERE s.tutor_id = p_tutor_id
+    AND COALESCE(s.status, 'scheduled') <> 'cancelled'
+    AND (
+      (s.session_start < p_end + v_after AND s.session_end > p_start - v_before)
+      OR (s.session_start - v_before < p_end AND s.session_end + v_after > p_start)
+    )
+  ORDER BY s.session_start
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'status', 'rejected',
+      'reason', 'conflict',
+      'conflict_start', v_conflict_start
+    );
+  END IF;
+
+  INSERT INTO sessions (
+    tutor_id, student_id, unassigned_name, session_start, session_end,
+    duration, rate, paid, status, notes,
+    booking_email, booking_phone, booking_timezone
+  )
+  VALUES (
+    p_tutor_id,
+    NULL,
+    p_booking->>'unassigned_name',
+    p_start,
+    p_end,
+    (p_booking->>'duration')::integer,
+    COALESCE((p_booking->>'rate')::numeric, 0),
+    false,
+    'pending',
+    p_booking->>'notes',
+    p_booking->>'booking_email',
+    p_booking->>'booking_phone',
+    p_booking->>'booking_timezone'
+  )
+  RETURNING * INTO v_session;
+
+  RETURN jsonb_build_object('status', 'created', 'session', to_jsonb(v_session));
+END;
+$$;
+
+-- Trusts the values it is given, so only the server may call it
+REVOKE EXECUTE ON FUNCTION create_public_booking(uuid, timestamptz, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_public_booking(uuid, timestamptz, timestamptz, jsonb) TO service_role;
+
+-- The public booking page only needs to know when the tutor is busy; who booked and how to
+-- reach them stays private
+CREATE OR REPLACE VIEW public_sessions AS
+SELECT id, tutor_id, session_start, session_end, status
+FROM sessions;
+
+GRANT SELECT ON public_sessions TO anon, authenticated;
+REVOKE SELECT ON sessions FROM anon;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
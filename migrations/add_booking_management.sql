@@ -0,0 +1,209 @@
+-- Migration: Self-service management of public bookings
+-- Date: 2026-10-19
+-- Purpose: Every public booking gets an unguessable management token. The student can use
+--          /booking/manage/:token to cancel or move the booking to another free time, up to
+--          the tutor's booking_change_cutoff_hours before the session. Tokens live in their
+--          own table that only the server can read, since they grant access to the booking. The availability and
+--          overlap checks used for new bookings move into public_booking_rejection() so a
+--          reschedule is validated the same way, under the same tutor row lock.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS booking_management_tokens (
+  session_id UUID PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- No policies: only the server (service role) reads or writes tokens
+ALTER TABLE booking_management_tokens ENABLE ROW LEVEL SECURITY;
+
+-- 0 = students can change their booking until it starts
+ALTER TABLE tutors
+  ADD COLUMN IF NOT EXISTS booking_change_cutoff_hours INTEGER NOT NULL DEFAULT 24;
+
+ALTER TABLE tutors DROP CONSTRAINT IF EXISTS tutors_booking_change_cutoff_hours_check;
+ALTER TABLE tutors ADD CONSTRAINT tutors_booking_change_cutoff_hours_check CHECK (
+  booking_change_cutoff_hours BETWEEN 0 AND 168
+);
+
+-- Why [p_start, p_end) can't be booked with this tutor, or NULL when it can.
+-- Callers must hold the tutor row lock. p_exclude_session_id skips the booking being moved.
+CREATE OR REPLACE FUNCTION public_booking_rejection(
+  p_tutor tutors,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_exclude_session_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_before interval;
+  v_after interval;
+  v_conflict_start timestamptz;
+BEGIN
+  IF p_start <= NOW() THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'in_past');
+  END IF;
+
+  -- The whole lesson has to fit inside one active availability window
+  PERFORM 1
+  FROM booking_slots b
+  WHERE b.tutor_id = p_tutor.id
+    AND b.is_active = true
+    AND b.start_time <= p_start
+    AND b.end_time >= p_end;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'outside_availability');
+  END IF;
+
+  -- Same rule as shared/conflicts.ts: too close when either side's buffers reach the other
+  v_before := make_interval(mins => COALESCE(p_tutor.buffer_before_minutes, 0));
+  v_after := make_interval(mins => COALESCE(p_tutor.buffer_after_minutes, 0));
+
+  SELECT s.session_start INTO v_conflict_start
+  FROM sessions s
+  WHERE s.tutor_id = p_tutor.id
+    AND s.id IS DISTINCT FROM p_exclude_session_id
+    AND COALESCE(s.status, 'scheduled') <> 'cancelled'
+    AND (
+      (s.session_start < p_end + v_after AND s.session_end > p_start - v_before)
+      OR (s.session_start - v_before < p_end AND s.session_end + v_after > p_start)
+    )
+  ORDER BY s.session_start
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'status', 'rejected',
+      'reason', 'conflict',
+      'conflict_start', v_conflict_start
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- p_booking: { unassigned_name, notes, duration, rate, booking_email, booking_phone, booking_timezone, management_token }
+-- Returns { status: 'created', session } or { status: 'rejected', reason, conflict_start? }
+CREATE OR REPLACE FUNCTION create_public_booking(
+  p_tutor_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_booking jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tutor tutors%ROWTYPE;
+  v_rejection jsonb;
+  v_session sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tutor
+  FROM tutors
+  WHERE id = p_tutor_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'tutor_not_found');
+  END IF;
+
+  v_rejection := public_booking_rejection(v_tutor, p_start, p_end, NULL);
+  IF v_rejection IS NOT NULL THEN
+    RETURN v_rejection;
+  END IF;
+
+  INSERT INTO sessions (
+    tutor_id, student_id, unassigned_name, session_start, session_end,
+    duration, rate, paid, status, notes,
+    booking_email, booking_phone, booking_timezone
+  )
+  VALUES (
+    p_tutor_id,
+    NULL,
+    p_booking->>'unassigned_name',
+    p_start,
+    p_end,
+    (p_booking->>'duration')::integer,
+    COALESCE((p_booking->>'rate')::numeric, 0),
+    false,
+    'pending',
+    p_booking->>'notes',
+    p_booking->>'booking_email',
+    p_booking->>'booking_phone',
+    p_booking->>'booking_timezone'
+  )
+  RETURNING * INTO v_session;
+
+  IF p_booking->>'management_token' IS NOT NULL THEN
+    INSERT INTO booking_management_tokens (session_id, token)
+    VALUES (v_session.id, p_booking->>'management_token');
+  END IF;
+
+  RETURN jsonb_build_object('status', 'created', 'session', to_jsonb(v_session));
+END;
+$$;
+
+-- Move a booking to a new time. The cutoff is checked by the server before calling this.
+-- Returns { status: 'rescheduled', session } or { status: 'rejected', reason, conflict_start? }
+CREATE OR REPLACE FUNCTION reschedule_public_booking(
+  p_session_id uuid,
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tutor tutors%ROWTYPE;
+  v_rejection jsonb;
+  v_session sessions%ROWTYPE;
+BEGIN
+  SELECT t.* INTO v_tutor
+  FROM tutors t
+  JOIN sessions s ON s.tutor_id = t.id
+  WHERE s.id = p_session_id
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'not_found');
+  END IF;
+
+  v_rejection := public_booking_rejection(v_tutor, p_start, p_end, p_session_id);
+  IF v_rejection IS NOT NULL THEN
+    RETURN v_rejection;
+  END IF;
+
+  UPDATE sessions
+  SET session_start = p_start,
+      session_end = p_end
+  WHERE id = p_session_id
+    AND COALESCE(status, 'scheduled') <> 'cancelled'
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'not_found');
+  END IF;
+
+  RETURN jsonb_build_object('status', 'rescheduled', 'session', to_jsonb(v_session));
+END;
+$$;
+
+-- Trust the values they are given, so only the server may call them
+REVOKE EXECUTE ON FUNCTION public_booking_rejection(tutors, timestamptz, timestamptz, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_public_booking(uuid, timestamptz, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reschedule_public_booking(uuid, timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public_booking_rejection(tutors, timestamptz, timestamptz, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION create_public_booking(uuid, timestamptz, timestamptz, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION reschedule_public_booking(uuid, timestamptz, timestamptz) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
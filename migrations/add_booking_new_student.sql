@@ -0,0 +1,150 @@
+-- Migration: Create auto-accepted students inside create_public_booking
+-- Date: 2026-10-19
+-- Purpose: In 'everyone' auto-accept mode the server used to add a student for an unmatched
+--          request before create_public_booking had checked it, so every rejected or
+--          conflicting request left a student behind. The server now passes the contact
+--          details as new_student and the function adds the student itself, after every
+--          check has passed and in the same transaction as the booking.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+-- p_booking: { unassigned_name, notes, duration, rate, booking_email, booking_phone, booking_timezone,
+--              management_token, student_id?, status? ('pending' | 'confirmed', default 'pending'),
+--              new_student? ({ name, email, phone } to create and link when there's no student_id),
+--              lesson_type_id? (duration, rate and color then come from the lesson type) }
+-- Returns { status: 'created', session } or { status: 'rejected', reason, conflict_start? }
+CREATE OR REPLACE FUNCTION create_public_booking(
+  p_tutor_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_booking jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tutor tutors%ROWTYPE;
+  v_lesson lesson_types%ROWTYPE;
+  v_lesson_id uuid;
+  v_rejection jsonb;
+  v_status text;
+  v_student_id uuid;
+  v_duration integer;
+  v_rate numeric;
+  v_color text;
+  v_session sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tutor
+  FROM tutors
+  WHERE id = p_tutor_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'tutor_not_found');
+  END IF;
+
+  v_duration := (p_booking->>'duration')::integer;
+  v_rate := COALESCE((p_booking->>'rate')::numeric, 0);
+
+  v_lesson_id := NULLIF(p_booking->>'lesson_type_id', '')::uuid;
+  IF v_lesson_id IS NOT NULL THEN
+    SELECT * INTO v_lesson
+    FROM lesson_types
+    WHERE id = v_lesson_id
+      AND tutor_id = p_tutor_id
+      AND is_public = true;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('status', 'rejected', 'reason', 'lesson_type_unavailable');
+    END IF;
+
+    -- The type decides how long the lesson is, whatever the client sent
+    p_end := p_start + make_interval(mins => v_lesson.duration);
+
+    v_rejection := lesson_type_rejection(v_lesson, v_tutor, p_start, p_end);
+    IF v_rejection IS NOT NULL THEN
+      RETURN v_rejection;
+    END IF;
+
+    -- The type's own length replaces the tutor's list of bookable durations
+    v_tutor.booking_allowed_durations := ARRAY[v_lesson.duration];
+    v_duration := v_lesson.duration;
+    v_rate := ROUND(v_lesson.price * 60 / v_lesson.duration, 2); -- sessions store an hourly rate
+    v_color := v_lesson.color;
+  END IF;
+
+  v_rejection := public_booking_rejection(v_tutor, p_start, p_end, NULL);
+  IF v_rejection IS NOT NULL THEN
+    RETURN v_rejection;
+  END IF;
+
+  v_status := COALESCE(p_booking->>'status', 'pending');
+  IF v_status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Invalid booking status: %', v_status;
+  END IF;
+
+  -- A linked student has to belong to this tutor
+  v_student_id := NULLIF(p_booking->>'student_id', '')::uuid;
+  IF v_student_id IS NOT NULL THEN
+    PERFORM 1 FROM students WHERE id = v_student_id AND tutor_id = p_tutor_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Student % does not belong to tutor %', v_student_id, p_tutor_id;
+    END IF;
+  END IF;
+
+  -- The student for an auto-accepted request nobody matched; added only now that the request
+  -- passed every check, so rejected requests don't leave students behind
+  IF v_student_id IS NULL AND jsonb_typeof(p_booking->'new_student') = 'object' THEN
+    INSERT INTO students (tutor_id, name, email, phone)
+    VALUES (
+      p_tutor_id,
+      p_booking->'new_student'->>'name',
+      p_booking->'new_student'->>'email',
+      p_booking->'new_student'->>'phone'
+    )
+    RETURNING id INTO v_student_id;
+  END IF;
+
+  INSERT INTO sessions (
+    tutor_id, student_id, unassigned_name, session_start, session_end,
+    duration, rate, color, paid, status, notes, lesson_type_id,
+    booking_email, booking_phone, booking_timezone
+  )
+  VALUES (
+    p_tutor_id,
+    v_student_id,
+    CASE WHEN v_student_id IS NULL THEN p_booking->>'unassigned_name' END,
+    p_start,
+    p_end,
+    v_duration,
+    v_rate,
+    v_color,
+    false,
+    v_status,
+    p_booking->>'notes',
+    v_lesson_id,
+    p_booking->>'booking_email',
+    p_booking->>'booking_phone',
+    p_booking->>'booking_timezone'
+  )
+  RETURNING * INTO v_session;
+
+  IF p_booking->>'management_token' IS NOT NULL THEN
+    INSERT INTO booking_management_tokens (session_id, token)
+    VALUES (v_session.id, p_booking->>'management_token');
+  END IF;
+
+  RETURN jsonb_build_object('status', 'created', 'session', to_jsonb(v_session));
+END;
+$$;
+
+-- Trusts the values it is given, so only the server may call it
+REVOKE EXECUTE ON FUNCTION create_public_booking(uuid, timestamptz, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_public_booking(uuid, timestamptz, timestamptz, jsonb) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,143 @@
+-- Migration: Tutor-defined booking rules
+-- Date: 2026-10-19
+-- Purpose: Tutors limit what students can book from the public page: minimum notice,
+--          how many days ahead, which durations, the start-time increment inside an
+--          availability window and a daily cap. public_booking_rejection() enforces them
+--          so new bookings and reschedules both respect them under the tutor row lock.
+--          The public page applies the same rules through shared/bookingRules.ts.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+ALTER TABLE tutors
+  ADD COLUMN IF NOT EXISTS booking_min_notice_hours INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS booking_max_days_ahead INTEGER,
+  ADD COLUMN IF NOT EXISTS booking_allowed_durations INTEGER[] NOT NULL DEFAULT '{30,45,60,90,120}',
+  ADD COLUMN IF NOT EXISTS booking_start_increment_minutes INTEGER NOT NULL DEFAULT 15,
+  ADD COLUMN IF NOT EXISTS booking_daily_cap INTEGER;
+
+ALTER TABLE tutors DROP CONSTRAINT IF EXISTS tutors_booking_rules_check;
+ALTER TABLE tutors ADD CONSTRAINT tutors_booking_rules_check CHECK (
+  booking_min_notice_hours BETWEEN 0 AND 720
+  AND (booking_max_days_ahead IS NULL OR booking_max_days_ahead BETWEEN 1 AND 365)
+  AND cardinality(booking_allowed_durations) > 0
+  AND booking_allowed_durations <@ ARRAY[15, 20, 30, 45, 60, 75, 90, 120, 150, 180, 240]
+  AND booking_start_increment_minutes IN (5, 10, 15, 20, 30, 60)
+  AND (booking_daily_cap IS NULL OR booking_daily_cap BETWEEN 1 AND 24)
+);
+
+-- Why [p_start, p_end) can't be booked with this tutor, or NULL when it can.
+-- Callers must hold the tutor row lock. p_exclude_session_id skips the booking being moved;
+-- a moved booking keeps its duration, so the allowed durations are only checked for new ones.
+CREATE OR REPLACE FUNCTION public_booking_rejection(
+  p_tutor tutors,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_exclude_session_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_before interval;
+  v_after interval;
+  v_conflict_start timestamptz;
+  v_timezone text;
+  v_day_count integer;
+BEGIN
+  IF p_start <= NOW() THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'in_past');
+  END IF;
+
+  IF p_start < NOW() + make_interval(hours => p_tutor.booking_min_notice_hours) THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'too_soon');
+  END IF;
+
+  IF p_tutor.booking_max_days_ahead IS NOT NULL
+     AND p_start > NOW() + make_interval(days => p_tutor.booking_max_days_ahead) THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'too_far_ahead');
+  END IF;
+
+  IF p_exclude_session_id IS NULL
+     AND NOT ((EXTRACT(EPOCH FROM p_end - p_start) / 60)::integer = ANY(p_tutor.booking_allowed_durations)) THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'duration_not_allowed');
+  END IF;
+
+  -- The whole lesson has to fit inside one active availability window
+  PERFORM 1
+  FROM booking_slots b
+  WHERE b.tutor_id = p_tutor.id
+    AND b.is_active = true
+    AND b.start_time <= p_start
+    AND b.end_time >= p_end;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'outside_availability');
+  END IF;
+
+  -- ...and start on the tutor's increment, counted from that window's start
+  PERFORM 1
+  FROM booking_slots b
+  WHERE b.tutor_id = p_tutor.id
+    AND b.is_active = true
+    AND b.start_time <= p_start
+    AND b.end_time >= p_end
+    AND (EXTRACT(EPOCH FROM p_start - b.start_time)::bigint % (p_tutor.booking_start_increment_minutes * 60)) = 0;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'invalid_start_time');
+  END IF;
+
+  -- Days are counted in the tutor's own timezone
+  IF p_tutor.booking_daily_cap IS NOT NULL THEN
+    v_timezone := COALESCE(NULLIF(p_tutor.timezone, ''), 'UTC');
+
+    SELECT COUNT(*) INTO v_day_count
+    FROM sessions s
+    WHERE s.tutor_id = p_tutor.id
+      AND s.id IS DISTINCT FROM p_exclude_session_id
+      AND COALESCE(s.status, 'scheduled') <> 'cancelled'
+      AND (s.session_start AT TIME ZONE v_timezone)::date = (p_start AT TIME ZONE v_timezone)::date;
+
+    IF v_day_count >= p_tutor.booking_daily_cap THEN
+      RETURN jsonb_build_object('status', 'rejected', 'reason', 'daily_cap_reached');
+    END IF;
+  END IF;
+
+  -- Same rule as shared/conflicts.ts: too close when either side's buffers reach the other
+  v_before := make_interval(mins => COALESCE(p_tutor.buffer_before_minutes, 0));
+  v_after := make_interval(mins => COALESCE(p_tutor.buffer_after_minutes, 0));
+
+  SELECT s.session_start INTO v_conflict_start
+  FROM sessions s
+  WHERE s.tutor_id = p_tutor.id
+    AND s.id IS DISTINCT FROM p_exclude_session_id
+    AND COALESCE(s.status, 'scheduled') <> 'cancelled'
+    AND (
+      (s.session_start < p_end + v_after AND s.session_end > p_start - v_before)
+      OR (s.session_start - v_before < p_end AND s.session_end + v_after > p_start)
+    )
+  ORDER BY s.session_start
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'status', 'rejected',
+      'reason', 'conflict',
+      'conflict_start', v_conflict_start
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Trusts the values it is given, so only the server may call it
+REVOKE EXECUTE ON FUNCTION public_booking_rejection(tutors, timestamptz, timestamptz, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public_booking_rejection(tutors, timestamptz, timestamptz, uuid) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,79 @@
+-- Migration: Move sessions past time off in one transaction
+-- Date: 2026-10-19
+-- Purpose: "Move" on a time off block used to update the affected sessions one request at a
+--          time, so a failure halfway left some moved and some not. Moved series occurrences
+--          also kept their recurrence_id, and the next edit of the series deleted them or put
+--          them back on the old date. move_sessions_past_time_off() moves them all at once
+--          and takes each moved occurrence out of its series. A recurring lesson whose new
+--          time is already taken by its own series (a weekly lesson pushed a whole week) is
+--          left where it is. The server works out the new times and calls it with the
+--          service role key.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+-- p_moves: [{ id, session_start, session_end }]
+-- Returns { moved: [session rows], skipped_ids: [uuid] }
+CREATE OR REPLACE FUNCTION move_sessions_past_time_off(
+  p_tutor_id uuid,
+  p_moves jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_move record;
+  v_session sessions;
+  v_moved jsonb := '[]'::jsonb;
+  v_skipped jsonb := '[]'::jsonb;
+BEGIN
+  FOR v_move IN
+    SELECT * FROM jsonb_to_recordset(p_moves)
+      AS m(id uuid, session_start timestamptz, session_end timestamptz)
+  LOOP
+    SELECT * INTO v_session
+    FROM sessions
+    WHERE id = v_move.id
+      AND tutor_id = p_tutor_id
+      AND COALESCE(status, 'scheduled') <> 'cancelled'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Session % not found', v_move.id;
+    END IF;
+
+    IF v_session.recurrence_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM sessions k
+      WHERE k.recurrence_id = v_session.recurrence_id
+        AND k.id <> v_session.id
+        AND COALESCE(k.status, 'scheduled') <> 'cancelled'
+        AND k.session_start < v_move.session_end
+        AND k.session_end > v_move.session_start
+    ) THEN
+      v_skipped := v_skipped || to_jsonb(v_session.id);
+      CONTINUE;
+    END IF;
+
+    UPDATE sessions
+    SET session_start = v_move.session_start,
+        session_end = v_move.session_end,
+        recurrence_id = NULL
+    WHERE id = v_session.id
+    RETURNING * INTO v_session;
+
+    v_moved := v_moved || jsonb_build_array(to_jsonb(v_session));
+  END LOOP;
+
+  RETURN jsonb_build_object('moved', v_moved, 'skipped_ids', v_skipped);
+END;
+$$;
+
+-- Trusts the times it is given, so only the server may call it
+REVOKE EXECUTE ON FUNCTION move_sessions_past_time_off(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION move_sessions_past_time_off(uuid, jsonb) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,30 @@
+-- Migration: Per-tutor Telegram summary schedule
+-- Date: 2026-10-19
+-- Purpose: The daily Telegram summary went out at 9 PM every day with the same content for
+--          everyone. Tutors now pick the time (in their timezone), the days of the week
+--          (0 = Sunday ... 6 = Saturday) and the sections it includes. The defaults keep the
+--          old behaviour; the weekly recap is opt-in and only added on Sundays.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+ALTER TABLE tutors
+  ADD COLUMN IF NOT EXISTS notification_time TIME NOT NULL DEFAULT '21:00',
+  ADD COLUMN IF NOT EXISTS notification_days INTEGER[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+  ADD COLUMN IF NOT EXISTS notification_sections TEXT[] NOT NULL DEFAULT '{today_earnings,today_unpaid,past_unpaid,tomorrow}';
+
+ALTER TABLE tutors DROP CONSTRAINT IF EXISTS tutors_notification_days_check;
+ALTER TABLE tutors ADD CONSTRAINT tutors_notification_days_check CHECK (
+  notification_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]
+);
+
+ALTER TABLE tutors DROP CONSTRAINT IF EXISTS tutors_notification_sections_check;
+ALTER TABLE tutors ADD CONSTRAINT tutors_notification_sections_check CHECK (
+  notification_sections <@ ARRAY['today_earnings', 'today_unpaid', 'past_unpaid', 'tomorrow', 'weekly_recap']
+);
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,29 @@
+-- Migration: Keep partly paid lessons when a series changes
+-- Date: 2026-10-19
+-- Purpose: Since payments can cover part of a lesson (migrations/create_payments.sql), a lesson
+--          can carry money while paid is still false. Editing, regenerating, deleting or
+--          cancelling a series used to treat those rows like any other occurrence: a delete
+--          cascaded away their payment_allocations, and an in-place rate or duration change
+--          could leave amount_paid above what the lesson now costs. Any lesson with money on
+--          it is now kept as an exception, like a fully paid one.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+-- Rows that are kept as exceptions when a series is regenerated, deleted or cancelled:
+-- lessons with any payment on them and lessons that were already cancelled.
+CREATE OR REPLACE FUNCTION session_is_series_exception(s sessions)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(s.paid, false)
+    OR COALESCE(s.amount_paid, 0) > 0
+    OR COALESCE(s.status, 'scheduled') = 'cancelled';
+$$;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,23 @@
+-- Migration: Keep availability exception notes private
+-- Date: 2026-10-19
+-- Purpose: The public booking page read availability_exceptions directly, so anyone could read
+--          the note a tutor left on a day off. Like public_time_off (create_time_off.sql), the
+--          page now reads a view with only the dates, and the public policy is dropped.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+DROP POLICY IF EXISTS "Public can view availability exceptions" ON availability_exceptions;
+
+-- The public booking page only needs the dates; the note stays private
+CREATE OR REPLACE VIEW public_availability_exceptions AS
+SELECT id, tutor_id, exception_date
+FROM availability_exceptions;
+
+GRANT SELECT ON public_availability_exceptions TO anon, authenticated;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,147 @@
+-- Migration: Per-tutor slot granularity
+-- Date: 2026-10-19
+-- Purpose: One setting for the time grid everywhere: the availability grid snaps to it,
+--          new slots are rounded to it, the calendar draws its rows with it and the public
+--          page offers start times on it. It replaces booking_start_increment_minutes
+--          (renamed, with 5 minutes rounded up to 10), so public_booking_rejection() is
+--          recreated to read the new column.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tutors' AND column_name = 'booking_start_increment_minutes'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tutors' AND column_name = 'slot_granularity_minutes'
+  ) THEN
+    ALTER TABLE tutors RENAME COLUMN booking_start_increment_minutes TO slot_granularity_minutes;
+  END IF;
+END;
+$$;
+
+ALTER TABLE tutors
+  ADD COLUMN IF NOT EXISTS slot_granularity_minutes INTEGER NOT NULL DEFAULT 15;
+
+ALTER TABLE tutors DROP CONSTRAINT IF EXISTS tutors_booking_rules_check;
+
+UPDATE tutors SET slot_granularity_minutes = 10 WHERE slot_granularity_minutes < 10;
+
+ALTER TABLE tutors ADD CONSTRAINT tutors_booking_rules_check CHECK (
+  booking_min_notice_hours BETWEEN 0 AND 720
+  AND (booking_max_days_ahead IS NULL OR booking_max_days_ahead BETWEEN 1 AND 365)
+  AND cardinality(booking_allowed_durations) > 0
+  AND booking_allowed_durations <@ ARRAY[15, 20, 30, 45, 60, 75, 90, 120, 150, 180, 240]
+  AND slot_granularity_minutes IN (10, 15, 20, 30, 60)
+  AND (booking_daily_cap IS NULL OR booking_daily_cap BETWEEN 1 AND 24)
+);
+
+-- Why [p_start, p_end) can't be booked with this tutor, or NULL when it can.
+-- Callers must hold the tutor row lock. p_exclude_session_id skips the booking being moved;
+-- a moved booking keeps its duration, so the allowed durations are only checked for new ones.
+CREATE OR REPLACE FUNCTION public_booking_rejection(
+  p_tutor tutors,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_exclude_session_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_before interval;
+  v_after interval;
+  v_conflict_start timestamptz;
+  v_timezone text;
+  v_day_count integer;
+BEGIN
+  IF p_start <= NOW() THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'in_past');
+  END IF;
+
+  IF p_start < NOW() + make_interval(hours => p_tutor.booking_min_notice_hours) THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'too_soon');
+  END IF;
+
+  IF p_tutor.booking_max_days_ahead IS NOT NULL
+     AND p_start > NOW() + make_interval(days => p_tutor.booking_max_days_ahead) THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'too_far_ahead');
+  END IF;
+
+  IF p_exclude_session_id IS NULL
+     AND NOT ((EXTRACT(EPOCH FROM p_end - p_start) / 60)::integer = ANY(p_tutor.booking_allowed_durations)) THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'duration_not_allowed');
+  END IF;
+
+  -- The whole lesson has to fit inside one availability window...
+  PERFORM 1 FROM availability_window_starts(p_tutor, p_start, p_end);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'outside_availability');
+  END IF;
+
+  -- ...and start on the tutor's slot grid, counted from that window's start
+  PERFORM 1
+  FROM availability_window_starts(p_tutor, p_start, p_end) AS w(window_start)
+  WHERE (EXTRACT(EPOCH FROM p_start - w.window_start)::bigint % (p_tutor.slot_granularity_minutes * 60)) = 0;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'invalid_start_time');
+  END IF;
+
+  -- Days are counted in the tutor's own timezone
+  IF p_tutor.booking_daily_cap IS NOT NULL THEN
+    v_timezone := COALESCE(NULLIF(p_tutor.timezone, ''), 'UTC');
+
+    SELECT COUNT(*) INTO v_day_count
+    FROM sessions s
+    WHERE s.tutor_id = p_tutor.id
+      AND s.id IS DISTINCT FROM p_exclude_session_id
+      AND COALESCE(s.status, 'scheduled') <> 'cancelled'
+      AND (s.session_start AT TIME ZONE v_timezone)::date = (p_start AT TIME ZONE v_timezone)::date;
+
+    IF v_day_count >= p_tutor.booking_daily_cap THEN
+      RETURN jsonb_build_object('status', 'rejected', 'reason', 'daily_cap_reached');
+    END IF;
+  END IF;
+
+  -- Same rule as shared/conflicts.ts: too close when either side's buffers reach the other
+  v_before := make_interval(mins => COALESCE(p_tutor.buffer_before_minutes, 0));
+  v_after := make_interval(mins => COALESCE(p_tutor.buffer_after_minutes, 0));
+
+  SELECT s.session_start INTO v_conflict_start
+  FROM sessions s
+  WHERE s.tutor_id = p_tutor.id
+    AND s.id IS DISTINCT FROM p_exclude_session_id
+    AND COALESCE(s.status, 'scheduled') <> 'cancelled'
+    AND (
+      (s.session_start < p_end + v_after AND s.session_end > p_start - v_before)
+      OR (s.session_start - v_before < p_end AND s.session_end + v_after > p_start)
+    )
+  ORDER BY s.session_start
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'status', 'rejected',
+      'reason', 'conflict',
+      'conflict_start', v_conflict_start
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Trusts the values it is given, so only the server may call it
+REVOKE EXECUTE ON FUNCTION public_booking_rejection(tutors, timestamptz, timestamptz, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public_booking_rejection(tutors, timestamptz, timestamptz, uuid) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,29 @@
+-- Migration: One-time codes for linking Telegram
+-- Date: 2026-10-19
+-- Purpose: Tutors used to link the bot by sending it their email, so anyone who knew a tutor's
+--          email could have that tutor's notifications sent to their own chat. The profile
+--          page now hands out a short-lived code (also used as the t.me/<bot>?start=<code> deep
+--          link) and the bot only links a chat to the tutor whose unexpired code it receives.
+--          A code works once; asking for a new one replaces the old one. Codes are kept in
+--          their own table that only the server can read, since anyone holding a live code
+--          can link a chat.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+-- One live code per tutor
+CREATE TABLE IF NOT EXISTS telegram_link_codes (
+  tutor_id UUID PRIMARY KEY REFERENCES tutors(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- No policies: only the server (service role) reads or writes codes
+ALTER TABLE telegram_link_codes ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
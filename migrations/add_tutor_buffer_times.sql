@@ -0,0 +1,24 @@
+-- Migration: Buffer time between sessions
+-- Date: 2026-10-19
+-- Purpose: Let each tutor keep a few minutes free before and after every session.
+--          The public booking page, the availability grid and the internal conflict
+--          checks treat a session as blocking [start - before, end + after].
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+ALTER TABLE tutors
+  ADD COLUMN IF NOT EXISTS buffer_before_minutes INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS buffer_after_minutes INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE tutors DROP CONSTRAINT IF EXISTS tutors_buffer_minutes_check;
+ALTER TABLE tutors ADD CONSTRAINT tutors_buffer_minutes_check CHECK (
+  buffer_before_minutes BETWEEN 0 AND 120
+  AND buffer_after_minutes BETWEEN 0 AND 120
+);
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,208 @@
+-- Migration: Weekly availability templates
+-- Date: 2026-10-19
+-- Purpose: Tutors describe their regular hours once ("Mon-Fri 16:00-20:00") instead of adding
+--          booking_slots date by date. Times are wall-clock times in the tutor's timezone;
+--          availability_exceptions turns the template off for specific dates. The public
+--          page expands the template with shared/availabilityTemplates.ts and
+--          public_booking_rejection() accepts a booking inside either kind of window.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS availability_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tutor_id UUID NOT NULL REFERENCES tutors(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 (Sun) - 6 (Sat)
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_time > start_time)
+);
+
+-- Days the template doesn't apply (holidays, trips). One-off booking_slots still do.
+CREATE TABLE IF NOT EXISTS availability_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tutor_id UUID NOT NULL REFERENCES tutors(id) ON DELETE CASCADE,
+  exception_date DATE NOT NULL, -- in the tutor's timezone
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tutor_id, exception_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_availability_templates_tutor ON availability_templates(tutor_id);
+CREATE INDEX IF NOT EXISTS idx_availability_exceptions_tutor_date ON availability_exceptions(tutor_id, exception_date);
+
+ALTER TABLE availability_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE availability_exceptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tutors can manage own availability templates" ON availability_templates;
+CREATE POLICY "Tutors can manage own availability templates" ON availability_templates
+FOR ALL USING (
+  tutor_id IN (
+    SELECT id FROM tutors WHERE user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Tutors can manage own availability exceptions" ON availability_exceptions;
+CREATE POLICY "Tutors can manage own availability exceptions" ON availability_exceptions
+FOR ALL USING (
+  tutor_id IN (
+    SELECT id FROM tutors WHERE user_id = auth.uid()
+  )
+);
+
+-- The public booking page reads them like booking_slots
+DROP POLICY IF EXISTS "Public can view availability templates" ON availability_templates;
+CREATE POLICY "Public can view availability templates" ON availability_templates
+FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Public can view availability exceptions" ON availability_exceptions;
+CREATE POLICY "Public can view availability exceptions" ON availability_exceptions
+FOR SELECT USING (true);
+
+-- Start of every availability window (one-off slot or weekly template) that holds [p_start, p_end)
+CREATE OR REPLACE FUNCTION availability_window_starts(
+  p_tutor tutors,
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS SETOF timestamptz
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_timezone text := COALESCE(NULLIF(p_tutor.timezone, ''), 'UTC');
+  v_local_date date := (p_start AT TIME ZONE v_timezone)::date;
+BEGIN
+  RETURN QUERY
+  SELECT b.start_time
+  FROM booking_slots b
+  WHERE b.tutor_id = p_tutor.id
+    AND b.is_active = true
+    AND b.start_time <= p_start
+    AND b.end_time >= p_end;
+
+  RETURN QUERY
+  SELECT (v_local_date + a.start_time) AT TIME ZONE v_timezone
+  FROM availability_templates a
+  WHERE a.tutor_id = p_tutor.id
+    AND a.weekday = EXTRACT(DOW FROM v_local_date)
+    AND (v_local_date + a.start_time) AT TIME ZONE v_timezone <= p_start
+    AND (v_local_date + a.end_time) AT TIME ZONE v_timezone >= p_end
+    AND NOT EXISTS (
+      SELECT 1
+      FROM availability_exceptions e
+      WHERE e.tutor_id = p_tutor.id
+        AND e.exception_date = v_local_date
+    );
+END;
+$$;
+
+-- Why [p_start, p_end) can't be booked with this tutor, or NULL when it can.
+-- Callers must hold the tutor row lock. p_exclude_session_id skips the booking being moved;
+-- a moved booking keeps its duration, so the allowed durations are only checked for new ones.
+CREATE OR REPLACE FUNCTION public_booking_rejection(
+  p_tutor tutors,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_exclude_session_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_before interval;
+  v_after interval;
+  v_conflict_start timestamptz;
+  v_timezone text;
+  v_day_count integer;
+BEGIN
+  IF p_start <= NOW() THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'in_past');
+  END IF;
+
+  IF p_start < NOW() + make_interval(hours => p_tutor.booking_min_notice_hours) THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'too_soon');
+  END IF;
+
+  IF p_tutor.booking_max_days_ahead IS NOT NULL
+     AND p_start > NOW() + make_interval(days => p_tutor.booking_max_days_ahead) THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'too_far_ahead');
+  END IF;
+
+  IF p_exclude_session_id IS NULL
+     AND NOT ((EXTRACT(EPOCH FROM p_end - p_start) / 60)::integer = ANY(p_tutor.booking_allowed_durations)) THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'duration_not_allowed');
+  END IF;
+
+  -- The whole lesson has to fit inside one availability window...
+  PERFORM 1 FROM availability_window_starts(p_tutor, p_start, p_end);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'outside_availability');
+  END IF;
+
+  -- ...and start on the tutor's increment, counted from that window's start
+  PERFORM 1
+  FROM availability_window_starts(p_tutor, p_start, p_end) AS w(window_start)
+  WHERE (EXTRACT(EPOCH FROM p_start - w.window_start)::bigint % (p_tutor.booking_start_increment_minutes * 60)) = 0;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'invalid_start_time');
+  END IF;
+
+  -- Days are counted in the tutor's own timezone
+  IF p_tutor.booking_daily_cap IS NOT NULL THEN
+    v_timezone := COALESCE(NULLIF(p_tutor.timezone, ''), 'UTC');
+
+    SELECT COUNT(*) INTO v_day_count
+    FROM sessions s
+    WHERE s.tutor_id = p_tutor.id
+      AND s.id IS DISTINCT FROM p_exclude_session_id
+      AND COALESCE(s.status, 'scheduled') <> 'cancelled'
+      AND (s.session_start AT TIME ZONE v_timezone)::date = (p_start AT TIME ZONE v_timezone)::date;
+
+    IF v_day_count >= p_tutor.booking_daily_cap THEN
+      RETURN jsonb_build_object('status', 'rejected', 'reason', 'daily_cap_reached');
+    END IF;
+  END IF;
+
+  -- Same rule as shared/conflicts.ts: too close when either side's buffers reach the other
+  v_before := make_interval(mins => COALESCE(p_tutor.buffer_before_minutes, 0));
+  v_after := make_interval(mins => COALESCE(p_tutor.buffer_after_minutes, 0));
+
+  SELECT s.session_start INTO v_conflict_start
+  FROM sessions s
+  WHERE s.tutor_id = p_tutor.id
+    AND s.id IS DISTINCT FROM p_exclude_session_id
+    AND COALESCE(s.status, 'scheduled') <> 'cancelled'
+    AND (
+      (s.session_start < p_end + v_after AND s.session_end > p_start - v_before)
+      OR (s.session_start - v_before < p_end AND s.session_end + v_after > p_start)
+    )
+  ORDER BY s.session_start
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'status', 'rejected',
+      'reason', 'conflict',
+      'conflict_start', v_conflict_start
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Trust the values they are given, so only the server may call them
+REVOKE EXECUTE ON FUNCTION availability_window_starts(tutors, timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public_booking_rejection(tutors, timestamptz, timestamptz, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION availability_window_starts(tutors, timestamptz, timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION public_booking_rejection(tutors, timestamptz, timestamptz, uuid) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
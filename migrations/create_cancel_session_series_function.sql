@@ -0,0 +1,77 @@
+-- Migration: Cancel recurring sessions by scope
+-- Date: 2026-10-19
+-- Purpose: Cancelling "this and following" or "all upcoming" occurrences of a series has to
+--          mark the existing rows as cancelled AND end the series, otherwise the next
+--          on-demand materialization would bring the lessons back. Both happen here in
+--          one transaction. Past occurrences are never touched (the server passes p_from), and
+--          paid ones are kept as exceptions, as updating or deleting the series does.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+-- p_cancellation: { cancellation_reason, cancellation_note, bulk_excluded }
+-- p_series_patch: { until_date, materialized_until } ending the series before p_from
+CREATE OR REPLACE FUNCTION cancel_session_series(
+  p_tutor_id uuid,
+  p_series_id uuid,
+  p_from timestamptz,
+  p_cancellation jsonb,
+  p_series_patch jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count integer;
+  v_event_ids jsonb;
+BEGIN
+  PERFORM 1
+  FROM session_series
+  WHERE id = p_series_id AND tutor_id = p_tutor_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Series % not found', p_series_id USING ERRCODE = 'P0002';
+  END IF;
+
+  WITH cancelled AS (
+    UPDATE sessions s
+    SET status = 'cancelled',
+        cancellation_reason = p_cancellation->>'cancellation_reason',
+        cancelled_at = NOW(),
+        cancellation_note = p_cancellation->>'cancellation_note',
+        cancellation_source = 'bulk',
+        bulk_excluded = COALESCE((p_cancellation->>'bulk_excluded')::boolean, false)
+    WHERE s.recurrence_id = p_series_id
+      AND s.session_start >= p_from
+      AND NOT session_is_series_exception(s)
+    RETURNING s.google_calendar_event_id
+  )
+  SELECT
+    COUNT(*),
+    COALESCE(jsonb_agg(google_calendar_event_id) FILTER (WHERE google_calendar_event_id IS NOT NULL), '[]'::jsonb)
+  INTO v_count, v_event_ids
+  FROM cancelled;
+
+  UPDATE session_series AS ss
+  SET (until_date, materialized_until) =
+      (SELECT r.until_date, r.materialized_until
+       FROM jsonb_populate_record(ss, p_series_patch) r)
+  WHERE ss.id = p_series_id;
+
+  RETURN jsonb_build_object(
+    'cancelled_count', v_count,
+    'cancelled_event_ids', v_event_ids
+  );
+END;
+$$;
+
+-- Trusts the tutor id it is given, so only the server may call it
+REVOKE EXECUTE ON FUNCTION cancel_session_series(uuid, uuid, timestamptz, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_session_series(uuid, uuid, timestamptz, jsonb, jsonb) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,134 @@
+-- Migration: Invoices
+-- Date: 2026-10-19
+-- Purpose: Numbered invoices for one student and a billing period. The line items are a copy
+--          of the sessions at the time the invoice was made, so editing or deleting a session
+--          later doesn't change an invoice that was already sent. Numbers count up per tutor;
+--          create_invoice() hands them out while holding the tutor row, so two invoices made
+--          at the same moment can't get the same number. Only drafts can be deleted.
+--          status is draft -> sent -> paid and is set by the tutor; it doesn't record payments.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tutor_id UUID NOT NULL REFERENCES tutors(id) ON DELETE CASCADE,
+  student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+  student_name TEXT NOT NULL, -- as it was when the invoice was made
+  number INTEGER NOT NULL CHECK (number > 0),
+  period_start DATE NOT NULL, -- in the tutor's timezone
+  period_end DATE NOT NULL, -- last day included
+  issued_on DATE NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  total NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  amount_paid NUMERIC(10, 2) NOT NULL DEFAULT 0, -- already paid on the sessions when it was made
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'paid')),
+  notes TEXT,
+  sent_at TIMESTAMPTZ,
+  paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tutor_id, number),
+  CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_tutor_status ON invoices(tutor_id, status);
+CREATE INDEX IF NOT EXISTS idx_invoices_student ON invoices(student_id);
+
+CREATE TABLE IF NOT EXISTS invoice_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+  session_start TIMESTAMPTZ NOT NULL,
+  description TEXT NOT NULL,
+  duration INTEGER NOT NULL, -- minutes
+  rate NUMERIC(10, 2) NOT NULL, -- per hour
+  amount NUMERIC(10, 2) NOT NULL,
+  amount_paid NUMERIC(10, 2) NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_items_invoice ON invoice_items(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_session ON invoice_items(session_id);
+
+-- Tutors read their own invoices; writes go through the server
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tutors can view own invoices" ON invoices;
+CREATE POLICY "Tutors can view own invoices" ON invoices
+FOR SELECT USING (
+  tutor_id IN (
+    SELECT id FROM tutors WHERE user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Tutors can view own invoice items" ON invoice_items;
+CREATE POLICY "Tutors can view own invoice items" ON invoice_items
+FOR SELECT USING (
+  invoice_id IN (
+    SELECT i.id FROM invoices i
+    JOIN tutors t ON t.id = i.tutor_id
+    WHERE t.user_id = auth.uid()
+  )
+);
+
+-- Create an invoice with the tutor's next number.
+-- p_invoice: { student_id, student_name, period_start, period_end, issued_on, currency, notes? }
+-- p_items:   [{ session_id, session_start, description, duration, rate, amount, amount_paid }]
+-- Returns the invoice row
+CREATE OR REPLACE FUNCTION create_invoice(
+  p_tutor_id uuid,
+  p_invoice jsonb,
+  p_items jsonb
+)
+RETURNS invoices
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices;
+  v_number integer;
+BEGIN
+  PERFORM 1 FROM tutors WHERE id = p_tutor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tutor % not found', p_tutor_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(MAX(number), 0) + 1 INTO v_number
+  FROM invoices
+  WHERE tutor_id = p_tutor_id;
+
+  INSERT INTO invoices (
+    tutor_id, student_id, student_name, number, period_start, period_end,
+    issued_on, currency, notes
+  )
+  SELECT p_tutor_id, r.student_id, r.student_name, v_number, r.period_start, r.period_end,
+    r.issued_on, COALESCE(r.currency, 'USD'), r.notes
+  FROM jsonb_populate_record(NULL::invoices, p_invoice) r
+  RETURNING * INTO v_invoice;
+
+  INSERT INTO invoice_items (invoice_id, session_id, session_start, description, duration, rate, amount, amount_paid)
+  SELECT v_invoice.id, i.session_id, i.session_start, i.description, i.duration, i.rate,
+    ROUND(i.amount, 2), ROUND(COALESCE(i.amount_paid, 0), 2)
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(
+    session_id uuid, session_start timestamptz, description text, duration integer,
+    rate numeric, amount numeric, amount_paid numeric
+  );
+
+  UPDATE invoices
+  SET total = COALESCE((SELECT SUM(amount) FROM invoice_items WHERE invoice_id = v_invoice.id), 0),
+      amount_paid = COALESCE((SELECT SUM(amount_paid) FROM invoice_items WHERE invoice_id = v_invoice.id), 0)
+  WHERE id = v_invoice.id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+-- Trusts the values it is given, so only the server may call it
+REVOKE EXECUTE ON FUNCTION create_invoice(uuid, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_invoice(uuid, jsonb, jsonb) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
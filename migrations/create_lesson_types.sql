@@ -0,0 +1,271 @@
+-- Migration: Lesson types
+-- Date: 2026-10-19
+-- Purpose: Tutors define the lessons they offer ("Trial 30 min, free", "IELTS 90 min, 40").
+--          A lesson type fixes the duration and prefills the session's rate and color; it can
+--          be limited to certain weekdays and hours. Public lesson types are offered on the
+--          booking page, where create_public_booking() takes the duration, rate and color
+--          from the type and enforces its hours. reschedule_public_booking() keeps a booking
+--          inside its type's hours as well.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS lesson_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tutor_id UUID NOT NULL REFERENCES tutors(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  duration INTEGER NOT NULL CHECK (duration BETWEEN 15 AND 480), -- minutes
+  price NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (price >= 0), -- per lesson, in the tutor's currency
+  color TEXT NOT NULL DEFAULT '#3B82F6',
+  is_public BOOLEAN NOT NULL DEFAULT true, -- offered on the public booking page
+  -- Optional limits in the tutor's timezone; NULL = no limit
+  available_weekdays SMALLINT[], -- 0 (Sun) - 6 (Sat)
+  available_from TIME,
+  available_until TIME,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (available_weekdays IS NULL OR (cardinality(available_weekdays) > 0 AND available_weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[])),
+  CHECK (available_from IS NULL OR available_until IS NULL OR available_until > available_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_types_tutor ON lesson_types(tutor_id);
+
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS lesson_type_id UUID REFERENCES lesson_types(id) ON DELETE SET NULL;
+
+ALTER TABLE lesson_types ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tutors can manage own lesson types" ON lesson_types;
+CREATE POLICY "Tutors can manage own lesson types" ON lesson_types
+FOR ALL USING (
+  tutor_id IN (
+    SELECT id FROM tutors WHERE user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Public can view public lesson types" ON lesson_types;
+CREATE POLICY "Public can view public lesson types" ON lesson_types
+FOR SELECT USING (is_public = true);
+
+-- Why [p_start, p_end) can't be booked as this lesson type, or NULL when it can
+CREATE OR REPLACE FUNCTION lesson_type_rejection(
+  p_lesson lesson_types,
+  p_tutor tutors,
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_timezone text := COALESCE(NULLIF(p_tutor.timezone, ''), 'UTC');
+  v_local_start timestamp := p_start AT TIME ZONE v_timezone;
+  v_local_end timestamp := p_end AT TIME ZONE v_timezone;
+BEGIN
+  IF p_lesson.available_weekdays IS NOT NULL
+     AND NOT (EXTRACT(DOW FROM v_local_start)::smallint = ANY(p_lesson.available_weekdays)) THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'lesson_type_unavailable');
+  END IF;
+
+  IF p_lesson.available_from IS NOT NULL AND v_local_start::time < p_lesson.available_from THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'lesson_type_unavailable');
+  END IF;
+
+  -- The lesson has to end on the same day, by the end of the type's hours
+  IF p_lesson.available_until IS NOT NULL
+     AND (v_local_end::date > v_local_start::date OR v_local_end::time > p_lesson.available_until) THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'lesson_type_unavailable');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- p_booking: { unassigned_name, notes, duration, rate, booking_email, booking_phone, booking_timezone,
+--              management_token, student_id?, status? ('pending' | 'confirmed', default 'pending'),
+--              lesson_type_id? (duration, rate and color then come from the lesson type) }
+-- Returns { status: 'created', session } or { status: 'rejected', reason, conflict_start? }
+CREATE OR REPLACE FUNCTION create_public_booking(
+  p_tutor_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_booking jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tutor tutors%ROWTYPE;
+  v_lesson lesson_types%ROWTYPE;
+  v_lesson_id uuid;
+  v_rejection jsonb;
+  v_status text;
+  v_student_id uuid;
+  v_duration integer;
+  v_rate numeric;
+  v_color text;
+  v_session sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tutor
+  FROM tutors
+  WHERE id = p_tutor_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'tutor_not_found');
+  END IF;
+
+  v_duration := (p_booking->>'duration')::integer;
+  v_rate := COALESCE((p_booking->>'rate')::numeric, 0);
+
+  v_lesson_id := NULLIF(p_booking->>'lesson_type_id', '')::uuid;
+  IF v_lesson_id IS NOT NULL THEN
+    SELECT * INTO v_lesson
+    FROM lesson_types
+    WHERE id = v_lesson_id
+      AND tutor_id = p_tutor_id
+      AND is_public = true;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('status', 'rejected', 'reason', 'lesson_type_unavailable');
+    END IF;
+
+    -- The type decides how long the lesson is, whatever the client sent
+    p_end := p_start + make_interval(mins => v_lesson.duration);
+
+    v_rejection := lesson_type_rejection(v_lesson, v_tutor, p_start, p_end);
+    IF v_rejection IS NOT NULL THEN
+      RETURN v_rejection;
+    END IF;
+
+    -- The type's own length replaces the tutor's list of bookable durations
+    v_tutor.booking_allowed_durations := ARRAY[v_lesson.duration];
+    v_duration := v_lesson.duration;
+    v_rate := ROUND(v_lesson.price * 60 / v_lesson.duration, 2); -- sessions store an hourly rate
+    v_color := v_lesson.color;
+  END IF;
+
+  v_rejection := public_booking_rejection(v_tutor, p_start, p_end, NULL);
+  IF v_rejection IS NOT NULL THEN
+    RETURN v_rejection;
+  END IF;
+
+  v_status := COALESCE(p_booking->>'status', 'pending');
+  IF v_status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Invalid booking status: %', v_status;
+  END IF;
+
+  -- A linked student has to belong to this tutor
+  v_student_id := NULLIF(p_booking->>'student_id', '')::uuid;
+  IF v_student_id IS NOT NULL THEN
+    PERFORM 1 FROM students WHERE id = v_student_id AND tutor_id = p_tutor_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Student % does not belong to tutor %', v_student_id, p_tutor_id;
+    END IF;
+  END IF;
+
+  INSERT INTO sessions (
+    tutor_id, student_id, unassigned_name, session_start, session_end,
+    duration, rate, color, paid, status, notes, lesson_type_id,
+    booking_email, booking_phone, booking_timezone
+  )
+  VALUES (
+    p_tutor_id,
+    v_student_id,
+    CASE WHEN v_student_id IS NULL THEN p_booking->>'unassigned_name' END,
+    p_start,
+    p_end,
+    v_duration,
+    v_rate,
+    v_color,
+    false,
+    v_status,
+    p_booking->>'notes',
+    v_lesson_id,
+    p_booking->>'booking_email',
+    p_booking->>'booking_phone',
+    p_booking->>'booking_timezone'
+  )
+  RETURNING * INTO v_session;
+
+  IF p_booking->>'management_token' IS NOT NULL THEN
+    INSERT INTO booking_management_tokens (session_id, token)
+    VALUES (v_session.id, p_booking->>'management_token');
+  END IF;
+
+  RETURN jsonb_build_object('status', 'created', 'session', to_jsonb(v_session));
+END;
+$$;
+
+-- Move a booking to a new time. The cutoff is checked by the server before calling this.
+-- Returns { status: 'rescheduled', session } or { status: 'rejected', reason, conflict_start? }
+CREATE OR REPLACE FUNCTION reschedule_public_booking(
+  p_session_id uuid,
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tutor tutors%ROWTYPE;
+  v_lesson lesson_types%ROWTYPE;
+  v_rejection jsonb;
+  v_session sessions%ROWTYPE;
+BEGIN
+  SELECT t.* INTO v_tutor
+  FROM tutors t
+  JOIN sessions s ON s.tutor_id = t.id
+  WHERE s.id = p_session_id
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'not_found');
+  END IF;
+
+  -- A booking made as a lesson type stays within that type's hours
+  SELECT l.* INTO v_lesson
+  FROM lesson_types l
+  JOIN sessions s ON s.lesson_type_id = l.id
+  WHERE s.id = p_session_id;
+
+  IF FOUND THEN
+    v_rejection := lesson_type_rejection(v_lesson, v_tutor, p_start, p_end);
+    IF v_rejection IS NOT NULL THEN
+      RETURN v_rejection;
+    END IF;
+  END IF;
+
+  v_rejection := public_booking_rejection(v_tutor, p_start, p_end, p_session_id);
+  IF v_rejection IS NOT NULL THEN
+    RETURN v_rejection;
+  END IF;
+
+  UPDATE sessions
+  SET session_start = p_start,
+      session_end = p_end
+  WHERE id = p_session_id
+    AND COALESCE(status, 'scheduled') <> 'cancelled'
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'not_found');
+  END IF;
+
+  RETURN jsonb_build_object('status', 'rescheduled', 'session', to_jsonb(v_session));
+END;
+$$;
+
+-- Trust the values they are given, so only the server may call them
+REVOKE EXECUTE ON FUNCTION lesson_type_rejection(lesson_types, tutors, timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_public_booking(uuid, timestamptz, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reschedule_public_booking(uuid, timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION lesson_type_rejection(lesson_types, tutors, timestamptz, timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION create_public_booking(uuid, timestamptz, timestamptz, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION reschedule_public_booking(uuid, timestamptz, timestamptz) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
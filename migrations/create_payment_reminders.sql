@@ -0,0 +1,74 @@
+-- Migration: Payment reminder emails
+-- Date: 2026-10-19
+-- Purpose: Email students what they owe a set number of days after an unpaid session
+--          (tutors.payment_reminder_days, e.g. {3,7}). Students can be opted out by the tutor
+--          or through the unsubscribe link in the email (students.reminder_unsubscribe_token).
+--          Every email sent or attempted is logged in payment_reminders;
+--          payment_reminder_sessions records which step each session was reminded at, so a
+--          session is never reminded twice for the same step.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+ALTER TABLE tutors
+  ADD COLUMN IF NOT EXISTS payment_reminders_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS payment_reminder_days INTEGER[] NOT NULL DEFAULT '{3,7}';
+
+ALTER TABLE students
+  ADD COLUMN IF NOT EXISTS payment_reminders_opt_out BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS reminder_unsubscribe_token UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_students_reminder_unsubscribe_token ON students(reminder_unsubscribe_token);
+
+CREATE TABLE IF NOT EXISTS payment_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tutor_id UUID NOT NULL REFERENCES tutors(id) ON DELETE CASCADE,
+  student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+  sent_to TEXT NOT NULL,
+  days_after INTEGER NOT NULL, -- the schedule step that triggered it
+  session_count INTEGER NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL, -- everything owed at the time
+  currency TEXT NOT NULL DEFAULT 'USD',
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reminders_tutor_created ON payment_reminders(tutor_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS payment_reminder_sessions (
+  reminder_id UUID NOT NULL REFERENCES payment_reminders(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  days_after INTEGER NOT NULL,
+  PRIMARY KEY (reminder_id, session_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reminder_sessions_session ON payment_reminder_sessions(session_id, days_after);
+
+-- Tutors read their own log; the server writes it
+ALTER TABLE payment_reminders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_reminder_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tutors can view own payment reminders" ON payment_reminders;
+CREATE POLICY "Tutors can view own payment reminders" ON payment_reminders
+FOR SELECT USING (
+  tutor_id IN (
+    SELECT id FROM tutors WHERE user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Tutors can view own payment reminder sessions" ON payment_reminder_sessions;
+CREATE POLICY "Tutors can view own payment reminder sessions" ON payment_reminder_sessions
+FOR SELECT USING (
+  reminder_id IN (
+    SELECT r.id FROM payment_reminders r
+    JOIN tutors t ON t.id = r.tutor_id
+    WHERE t.user_id = auth.uid()
+  )
+);
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,226 @@
+-- Migration: Payment records
+-- Date: 2026-10-19
+-- Purpose: "Mark as paid" used to flip sessions.paid and nothing else. Payments are now real
+--          rows with an amount, a date and a method. One payment can cover several sessions
+--          and a session can be paid in parts: payment_allocations says how much of each
+--          payment went to which session. sessions.amount_paid is the sum of a session's
+--          allocations and sessions.paid stays as "fully paid" for the views that only need a
+--          yes/no. Both are only written by record_payment() and delete_payment(), which
+--          the server calls with the service role key.
+--          Sessions already marked as paid get one payment each (method 'other').
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tutor_id UUID NOT NULL REFERENCES tutors(id) ON DELETE CASCADE,
+  student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0), -- in the tutor's currency
+  payment_date DATE NOT NULL, -- in the tutor's timezone
+  method TEXT NOT NULL DEFAULT 'cash' CHECK (method IN ('cash', 'bank_transfer', 'card', 'paypal', 'other')),
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_tutor_date ON payments(tutor_id, payment_date);
+CREATE INDEX IF NOT EXISTS idx_payments_student ON payments(student_id);
+
+CREATE TABLE IF NOT EXISTS payment_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  UNIQUE (payment_id, session_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_session ON payment_allocations(session_id);
+
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS amount_paid NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+-- Tutors read their own payments; writes go through the functions below
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_allocations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tutors can view own payments" ON payments;
+CREATE POLICY "Tutors can view own payments" ON payments
+FOR SELECT USING (
+  tutor_id IN (
+    SELECT id FROM tutors WHERE user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Tutors can view own payment allocations" ON payment_allocations;
+CREATE POLICY "Tutors can view own payment allocations" ON payment_allocations
+FOR SELECT USING (
+  payment_id IN (
+    SELECT p.id FROM payments p
+    JOIN tutors t ON t.id = p.tutor_id
+    WHERE t.user_id = auth.uid()
+  )
+);
+
+-- What a session costs (sessions.rate is per hour)
+CREATE OR REPLACE FUNCTION session_amount_due(s sessions)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ROUND(COALESCE(s.duration, 0) * COALESCE(s.rate, 0) / 60.0, 2);
+$$;
+
+-- Record a payment and split it over sessions.
+-- p_payment:     { student_id?, amount, payment_date, method, note? }
+-- p_allocations: [{ session_id, amount }], adding up to the payment amount
+-- Returns { payment, sessions } with the updated session rows
+CREATE OR REPLACE FUNCTION record_payment(
+  p_tutor_id uuid,
+  p_payment jsonb,
+  p_allocations jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_payment payments;
+  v_allocation record;
+  v_session sessions%ROWTYPE;
+  v_total numeric := 0;
+BEGIN
+  INSERT INTO payments (tutor_id, student_id, amount, payment_date, method, note)
+  SELECT p_tutor_id, r.student_id, r.amount, r.payment_date, COALESCE(r.method, 'cash'), r.note
+  FROM jsonb_populate_record(NULL::payments, p_payment) r
+  RETURNING * INTO v_payment;
+
+  FOR v_allocation IN
+    SELECT a.session_id, ROUND(a.amount, 2) AS amount
+    FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb)) AS a(session_id uuid, amount numeric)
+  LOOP
+    SELECT * INTO v_session
+    FROM sessions
+    WHERE id = v_allocation.session_id
+      AND tutor_id = p_tutor_id
+      AND COALESCE(status, 'scheduled') <> 'cancelled'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Session % not found', v_allocation.session_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_allocation.amount > session_amount_due(v_session) - v_session.amount_paid THEN
+      RAISE EXCEPTION 'Payment exceeds the balance of session %', v_allocation.session_id USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO payment_allocations (payment_id, session_id, amount)
+    VALUES (v_payment.id, v_allocation.session_id, v_allocation.amount);
+
+    UPDATE sessions
+    SET amount_paid = amount_paid + v_allocation.amount,
+        paid = amount_paid + v_allocation.amount >= session_amount_due(v_session)
+    WHERE id = v_allocation.session_id;
+
+    v_total := v_total + v_allocation.amount;
+  END LOOP;
+
+  IF v_total <> v_payment.amount THEN
+    RAISE EXCEPTION 'Allocations (%) do not add up to the payment amount (%)', v_total, v_payment.amount USING ERRCODE = '22023';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment', to_jsonb(v_payment),
+    'sessions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(s) ORDER BY s.session_start)
+      FROM sessions s
+      JOIN payment_allocations a ON a.session_id = s.id
+      WHERE a.payment_id = v_payment.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Remove a payment and take its amounts off the sessions it covered
+CREATE OR REPLACE FUNCTION delete_payment(
+  p_tutor_id uuid,
+  p_payment_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_session_ids uuid[];
+BEGIN
+  PERFORM 1
+  FROM payments
+  WHERE id = p_payment_id AND tutor_id = p_tutor_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(array_agg(session_id), '{}') INTO v_session_ids
+  FROM payment_allocations
+  WHERE payment_id = p_payment_id;
+
+  UPDATE sessions s
+  SET amount_paid = GREATEST(s.amount_paid - a.amount, 0)
+  FROM payment_allocations a
+  WHERE a.payment_id = p_payment_id
+    AND a.session_id = s.id;
+
+  UPDATE sessions s
+  SET paid = s.amount_paid > 0 AND s.amount_paid >= session_amount_due(s)
+  WHERE s.id = ANY(v_session_ids);
+
+  DELETE FROM payments WHERE id = p_payment_id;
+
+  RETURN jsonb_build_object('session_ids', to_jsonb(v_session_ids));
+END;
+$$;
+
+-- Sessions marked as paid before payments were recorded: one payment each, dated on the
+-- session day, so balances and earnings add up from day one
+WITH legacy AS (
+  SELECT s.id, s.tutor_id, s.student_id, session_amount_due(s) AS due,
+         (s.session_start AT TIME ZONE COALESCE(NULLIF(t.timezone, ''), 'UTC'))::date AS day
+  FROM sessions s
+  JOIN tutors t ON t.id = s.tutor_id
+  WHERE s.paid = true
+    AND s.amount_paid = 0
+    AND session_amount_due(s) > 0
+    AND NOT EXISTS (SELECT 1 FROM payment_allocations a WHERE a.session_id = s.id)
+),
+inserted AS (
+  INSERT INTO payments (tutor_id, student_id, amount, payment_date, method, note)
+  SELECT tutor_id, student_id, due, day, 'other', 'legacy:' || id
+  FROM legacy
+  RETURNING id, note
+),
+allocated AS (
+  INSERT INTO payment_allocations (payment_id, session_id, amount)
+  SELECT i.id, l.id, l.due
+  FROM inserted i
+  JOIN legacy l ON i.note = 'legacy:' || l.id
+  RETURNING session_id, amount
+)
+UPDATE sessions s
+SET amount_paid = a.amount
+FROM allocated a
+WHERE s.id = a.session_id;
+
+UPDATE payments
+SET note = 'Marked as paid before payments were recorded'
+WHERE note LIKE 'legacy:%';
+
+-- Trust the values they are given, so only the server may call them
+REVOKE EXECUTE ON FUNCTION record_payment(uuid, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION delete_payment(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_payment(uuid, jsonb, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION delete_payment(uuid, uuid) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,111 @@
+-- Migration: Server-validated public bookings
+-- Date: 2026-10-19
+-- Purpose: Public booking requests used to be inserted straight into sessions by the
+--          browser, so two students picking the same time could both get in. The
+--          availability check and the insert now happen in one function that locks the
+--          tutor row first; a second request for the same tutor waits for the first
+--          one to commit and then sees its pending session.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+-- p_booking: { unassigned_name, notes, duration, rate }
+-- Returns { status: 'created', session } or { status: 'rejected', reason, conflict_start? }
+CREATE OR REPLACE FUNCTION create_public_booking(
+  p_tutor_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_booking jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tutor tutors%ROWTYPE;
+  v_before interval;
+  v_after interval;
+  v_conflict_start timestamptz;
+  v_session sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tutor
+  FROM tutors
+  WHERE id = p_tutor_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'tutor_not_found');
+  END IF;
+
+  IF p_start <= NOW() THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'in_past');
+  END IF;
+
+  -- The whole lesson has to fit inside one active availability window
+  PERFORM 1
+  FROM booking_slots b
+  WHERE b.tutor_id = p_tutor_id
+    AND b.is_active = true
+    AND b.start_time <= p_start
+    AND b.end_time >= p_end;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'rejected', 'reason', 'outside_availability');
+  END IF;
+
+  -- Same rule as shared/conflicts.ts: too close when either side's buffers reach the other
+  v_before := make_interval(mins => COALESCE(v_tutor.buffer_before_minutes, 0));
+  v_after := make_interval(mins => COALESCE(v_tutor.buffer_after_minutes, 0));
+
+  SELECT s.session_start INTO v_conflict_start
+  FROM sessions s
+  WHERE s.tutor_id = p_tutor_id
+    AND COALESCE(s.status, 'scheduled') <> 'cancelled'
+    AND (
+      (s.session_start < p_end + v_after AND s.session_end > p_start - v_before)
+      OR (s.session_start - v_before < p_end AND s.session_end + v_after > p_start)
+    )
+  ORDER BY s.session_start
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'status', 'rejected',
+      'reason', 'conflict',
+      'conflict_start', v_conflict_start
+    );
+  END IF;
+
+  INSERT INTO sessions (
+    tutor_id, student_id, unassigned_name, session_start, session_end,
+    duration, rate, paid, status, notes
+  )
+  VALUES (
+    p_tutor_id,
+    NULL,
+    p_booking->>'unassigned_name',
+    p_start,
+    p_end,
+    (p_booking->>'duration')::integer,
+    COALESCE((p_booking->>'rate')::numeric, 0),
+    false,
+    'pending',
+    p_booking->>'notes'
+  )
+  RETURNING * INTO v_session;
+
+  RETURN jsonb_build_object('status', 'created', 'session', to_jsonb(v_session));
+END;
+$$;
+
+-- Trusts the values it is given, so only the server may call it
+REVOKE EXECUTE ON FUNCTION create_public_booking(uuid, timestamptz, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_public_booking(uuid, timestamptz, timestamptz, jsonb) TO service_role;
+
+-- Booking requests now only come in through POST /api/public/bookings/:tutorId
+DROP POLICY IF EXISTS "Public can create booking requests" ON sessions;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
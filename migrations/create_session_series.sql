@@ -0,0 +1,49 @@
+-- Migration: Recurring session series
+-- Date: 2026-10-19
+-- Purpose: Store recurrence rules (every N weeks on given weekdays, monthly by weekday,
+--          until a date / N times / open-ended) on a series record instead of only
+--          pre-expanding a fixed batch of rows. Sessions keep grouping by recurrence_id,
+--          which now points at session_series.id. Future occurrences are materialized
+--          on demand up to materialized_until.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS session_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tutor_id UUID NOT NULL REFERENCES tutors(id) ON DELETE CASCADE,
+  student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+  frequency TEXT NOT NULL DEFAULT 'weekly' CHECK (frequency IN ('weekly', 'monthly')),
+  interval INTEGER NOT NULL DEFAULT 1 CHECK (interval BETWEEN 1 AND 12),
+  weekdays SMALLINT[],                                  -- 0 (Sun) - 6 (Sat), weekly only
+  monthly_week SMALLINT CHECK (monthly_week IN (-1, 1, 2, 3, 4)), -- monthly only
+  until_date DATE,                                      -- inclusive, in the series timezone
+  occurrence_count INTEGER CHECK (occurrence_count > 0),
+  first_session_start TIMESTAMPTZ NOT NULL,
+  timezone TEXT NOT NULL,
+  duration INTEGER NOT NULL,
+  rate NUMERIC(10, 2) NOT NULL,
+  color TEXT,
+  notes TEXT,
+  materialized_until TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_series_tutor ON session_series(tutor_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_recurrence_id ON sessions(recurrence_id);
+
+ALTER TABLE session_series ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tutors can manage own session series" ON session_series;
+CREATE POLICY "Tutors can manage own session series" ON session_series
+FOR ALL USING (
+  tutor_id IN (
+    SELECT id FROM tutors WHERE user_id = auth.uid()
+  )
+);
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,331 @@
+-- Migration: Prepaid lesson packages
+-- Date: 2026-10-19
+-- Purpose: Students can buy a bundle up front - a number of lessons or an amount of credit -
+--          with a price and an optional expiry date. Once a lesson has ended,
+--          consume_student_packages() takes it out of the student's package that expires first:
+--          a lesson package pays one lesson (worth price / lessons) and marks it paid, a credit
+--          package pays what the lesson still owes as far as the credit goes. package_usages
+--          records each of these so deleting a package can give the lessons back.
+--          record_payment() and delete_payment() are recreated so a lesson covered by a
+--          package counts as paid even though the package's per-lesson value may be lower
+--          than the session rate.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS student_packages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tutor_id UUID NOT NULL REFERENCES tutors(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('sessions', 'credit')),
+  session_count INTEGER CHECK (session_count > 0), -- lessons included, for 'sessions'
+  credit_amount NUMERIC(10, 2) CHECK (credit_amount > 0), -- credit included, for 'credit'
+  price NUMERIC(10, 2) NOT NULL CHECK (price >= 0), -- what the student paid
+  payment_method TEXT NOT NULL DEFAULT 'cash' CHECK (payment_method IN ('cash', 'bank_transfer', 'card', 'paypal', 'other')),
+  purchased_on DATE NOT NULL, -- lessons from this day on can use it (tutor's timezone)
+  expires_on DATE, -- last day it can be used; null = never expires
+  sessions_used INTEGER NOT NULL DEFAULT 0,
+  credit_used NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (
+    (kind = 'sessions' AND session_count IS NOT NULL AND credit_amount IS NULL)
+    OR (kind = 'credit' AND credit_amount IS NOT NULL AND session_count IS NULL)
+  ),
+  CHECK (expires_on IS NULL OR expires_on >= purchased_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_packages_student ON student_packages(student_id, purchased_on);
+CREATE INDEX IF NOT EXISTS idx_student_packages_tutor ON student_packages(tutor_id);
+
+CREATE TABLE IF NOT EXISTS package_usages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES student_packages(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL UNIQUE REFERENCES sessions(id) ON DELETE CASCADE, -- a lesson uses one package at most
+  credit_used NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  value NUMERIC(10, 2) NOT NULL CHECK (value >= 0), -- added to sessions.amount_paid
+  covers_session BOOLEAN NOT NULL, -- lesson packages settle the lesson whatever it costs
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_usages_package ON package_usages(package_id);
+
+-- Tutors read their own packages; writes go through the server
+ALTER TABLE student_packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE package_usages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tutors can view own student packages" ON student_packages;
+CREATE POLICY "Tutors can view own student packages" ON student_packages
+FOR SELECT USING (
+  tutor_id IN (
+    SELECT id FROM tutors WHERE user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Tutors can view own package usages" ON package_usages;
+CREATE POLICY "Tutors can view own package usages" ON package_usages
+FOR SELECT USING (
+  package_id IN (
+    SELECT p.id FROM student_packages p
+    JOIN tutors t ON t.id = p.tutor_id
+    WHERE t.user_id = auth.uid()
+  )
+);
+
+-- Whether a lesson package has settled the session
+CREATE OR REPLACE FUNCTION session_covered_by_package(p_session_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM package_usages WHERE session_id = p_session_id AND covers_session
+  );
+$$;
+
+-- Take ended, unpaid lessons out of their students' packages, oldest lesson first and from the
+-- package that expires first. p_tutor_id limits the run to one tutor; null runs for everyone.
+-- Returns how many lessons were paid from a package.
+CREATE OR REPLACE FUNCTION consume_student_packages(p_tutor_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_session record;
+  v_package student_packages%ROWTYPE;
+  v_balance numeric;
+  v_credit numeric;
+  v_value numeric;
+  v_covers boolean;
+  v_count integer := 0;
+BEGIN
+  FOR v_session IN
+    SELECT s.id, s.tutor_id, s.student_id, s.amount_paid,
+           session_amount_due(s) AS due,
+           (s.session_start AT TIME ZONE COALESCE(NULLIF(t.timezone, ''), 'UTC'))::date AS local_day
+    FROM sessions s
+    JOIN tutors t ON t.id = s.tutor_id
+    WHERE s.session_end <= NOW()
+      AND s.student_id IS NOT NULL
+      AND s.paid = false
+      AND COALESCE(s.status, 'scheduled') NOT IN ('cancelled', 'pending')
+      AND session_amount_due(s) > s.amount_paid
+      AND (p_tutor_id IS NULL OR s.tutor_id = p_tutor_id)
+      AND NOT EXISTS (SELECT 1 FROM package_usages u WHERE u.session_id = s.id)
+      AND EXISTS (SELECT 1 FROM student_packages p WHERE p.student_id = s.student_id AND p.tutor_id = s.tutor_id)
+    ORDER BY s.session_start
+    FOR UPDATE OF s SKIP LOCKED
+  LOOP
+    SELECT * INTO v_package
+    FROM student_packages p
+    WHERE p.student_id = v_session.student_id
+      AND p.tutor_id = v_session.tutor_id
+      AND p.purchased_on <= v_session.local_day
+      AND (p.expires_on IS NULL OR p.expires_on >= v_session.local_day)
+      AND (
+        (p.kind = 'sessions' AND p.sessions_used < p.session_count)
+        OR (p.kind = 'credit' AND p.credit_used < p.credit_amount)
+      )
+    ORDER BY p.expires_on NULLS LAST, p.purchased_on, p.created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    CONTINUE WHEN NOT FOUND;
+
+    v_balance := v_session.due - v_session.amount_paid;
+
+    IF v_package.kind = 'sessions' THEN
+      v_credit := 0;
+      v_value := LEAST(ROUND(v_package.price / v_package.session_count, 2), v_balance);
+      v_covers := true;
+
+      UPDATE student_packages SET sessions_used = sessions_used + 1 WHERE id = v_package.id;
+    ELSE
+      v_credit := LEAST(v_balance, v_package.credit_amount - v_package.credit_used);
+      v_value := v_credit;
+      v_covers := false;
+
+      UPDATE student_packages SET credit_used = credit_used + v_credit WHERE id = v_package.id;
+    END IF;
+
+    INSERT INTO package_usages (package_id, session_id, credit_used, value, covers_session)
+    VALUES (v_package.id, v_session.id, v_credit, v_value, v_covers);
+
+    UPDATE sessions
+    SET amount_paid = amount_paid + v_value,
+        paid = v_covers OR amount_paid + v_value >= v_session.due
+    WHERE id = v_session.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Delete a package and take what it paid off its lessons again.
+-- Returns { session_ids } of those lessons.
+CREATE OR REPLACE FUNCTION delete_student_package(
+  p_tutor_id uuid,
+  p_package_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_session_ids uuid[];
+BEGIN
+  PERFORM 1
+  FROM student_packages
+  WHERE id = p_package_id AND tutor_id = p_tutor_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Package % not found', p_package_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(array_agg(session_id), '{}') INTO v_session_ids
+  FROM package_usages
+  WHERE package_id = p_package_id;
+
+  UPDATE sessions s
+  SET amount_paid = GREATEST(s.amount_paid - u.value, 0)
+  FROM package_usages u
+  WHERE u.package_id = p_package_id
+    AND u.session_id = s.id;
+
+  DELETE FROM package_usages WHERE package_id = p_package_id;
+
+  UPDATE sessions s
+  SET paid = s.amount_paid > 0 AND s.amount_paid >= session_amount_due(s)
+  WHERE s.id = ANY(v_session_ids);
+
+  DELETE FROM student_packages WHERE id = p_package_id;
+
+  RETURN jsonb_build_object('session_ids', to_jsonb(v_session_ids));
+END;
+$$;
+
+-- Same as in create_payments.sql, except that a lesson settled by a package can't be paid again
+CREATE OR REPLACE FUNCTION record_payment(
+  p_tutor_id uuid,
+  p_payment jsonb,
+  p_allocations jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_payment payments;
+  v_allocation record;
+  v_session sessions%ROWTYPE;
+  v_total numeric := 0;
+BEGIN
+  INSERT INTO payments (tutor_id, student_id, amount, payment_date, method, note)
+  SELECT p_tutor_id, r.student_id, r.amount, r.payment_date, COALESCE(r.method, 'cash'), r.note
+  FROM jsonb_populate_record(NULL::payments, p_payment) r
+  RETURNING * INTO v_payment;
+
+  FOR v_allocation IN
+    SELECT a.session_id, ROUND(a.amount, 2) AS amount
+    FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb)) AS a(session_id uuid, amount numeric)
+  LOOP
+    SELECT * INTO v_session
+    FROM sessions
+    WHERE id = v_allocation.session_id
+      AND tutor_id = p_tutor_id
+      AND COALESCE(status, 'scheduled') <> 'cancelled'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Session % not found', v_allocation.session_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF session_covered_by_package(v_session.id)
+       OR v_allocation.amount > session_amount_due(v_session) - v_session.amount_paid THEN
+      RAISE EXCEPTION 'Payment exceeds the balance of session %', v_allocation.session_id USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO payment_allocations (payment_id, session_id, amount)
+    VALUES (v_payment.id, v_allocation.session_id, v_allocation.amount);
+
+    UPDATE sessions
+    SET amount_paid = amount_paid + v_allocation.amount,
+        paid = amount_paid + v_allocation.amount >= session_amount_due(v_session)
+    WHERE id = v_allocation.session_id;
+
+    v_total := v_total + v_allocation.amount;
+  END LOOP;
+
+  IF v_total <> v_payment.amount THEN
+    RAISE EXCEPTION 'Allocations (%) do not add up to the payment amount (%)', v_total, v_payment.amount USING ERRCODE = '22023';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment', to_jsonb(v_payment),
+    'sessions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(s) ORDER BY s.session_start)
+      FROM sessions s
+      JOIN payment_allocations a ON a.session_id = s.id
+      WHERE a.payment_id = v_payment.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Same as in create_payments.sql, except that lessons settled by a package stay paid
+CREATE OR REPLACE FUNCTION delete_payment(
+  p_tutor_id uuid,
+  p_payment_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_session_ids uuid[];
+BEGIN
+  PERFORM 1
+  FROM payments
+  WHERE id = p_payment_id AND tutor_id = p_tutor_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(array_agg(session_id), '{}') INTO v_session_ids
+  FROM payment_allocations
+  WHERE payment_id = p_payment_id;
+
+  UPDATE sessions s
+  SET amount_paid = GREATEST(s.amount_paid - a.amount, 0)
+  FROM payment_allocations a
+  WHERE a.payment_id = p_payment_id
+    AND a.session_id = s.id;
+
+  UPDATE sessions s
+  SET paid = session_covered_by_package(s.id)
+          OR (s.amount_paid > 0 AND s.amount_paid >= session_amount_due(s))
+  WHERE s.id = ANY(v_session_ids);
+
+  DELETE FROM payments WHERE id = p_payment_id;
+
+  RETURN jsonb_build_object('session_ids', to_jsonb(v_session_ids));
+END;
+$$;
+
+-- Trust the values they are given, so only the server may call them
+REVOKE EXECUTE ON FUNCTION consume_student_packages(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION delete_student_package(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_payment(uuid, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION delete_payment(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_student_packages(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION delete_student_package(uuid, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION record_payment(uuid, jsonb, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION delete_payment(uuid, uuid) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,250 @@
+-- Migration: Student default rate, default duration and rate history
+-- Date: 2026-10-19
+-- Purpose: Each student gets an explicit default duration and a history of hourly rates with
+--          the date each one takes effect, instead of the schedule modal guessing both from
+--          the student's last session. The rate in effect on a session's date prefills new
+--          sessions; recurring occurrences on or after a rate change that starts later than
+--          the series pick up the new rate, so create_session_series() and
+--          update_session_series() now accept a rate per occurrence.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+ALTER TABLE students
+  ADD COLUMN IF NOT EXISTS default_duration INTEGER CHECK (default_duration BETWEEN 15 AND 480); -- minutes
+
+CREATE TABLE IF NOT EXISTS student_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tutor_id UUID NOT NULL REFERENCES tutors(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  rate NUMERIC(10, 2) NOT NULL CHECK (rate >= 0), -- per hour, like sessions.rate
+  effective_from DATE NOT NULL, -- in the tutor's timezone
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (student_id, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_rates_tutor ON student_rates(tutor_id, effective_from);
+
+ALTER TABLE student_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tutors can manage own student rates" ON student_rates;
+CREATE POLICY "Tutors can manage own student rates" ON student_rates
+FOR ALL USING (
+  tutor_id IN (
+    SELECT id FROM tutors WHERE user_id = auth.uid()
+  )
+);
+
+-- Students who already have lessons start with the rate of their latest one, in effect
+-- since their first lesson
+INSERT INTO student_rates (tutor_id, student_id, rate, effective_from)
+SELECT DISTINCT ON (s.student_id)
+  s.tutor_id,
+  s.student_id,
+  s.rate,
+  (MIN(s.session_start) OVER (PARTITION BY s.student_id) AT TIME ZONE COALESCE(NULLIF(t.timezone, ''), 'UTC'))::date
+FROM sessions s
+JOIN tutors t ON t.id = s.tutor_id
+WHERE s.student_id IS NOT NULL
+  AND s.rate IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM student_rates r WHERE r.student_id = s.student_id)
+ORDER BY s.student_id, s.session_start DESC;
+
+-- Create a series and its occurrences.
+-- p_series:   session_series columns (without id)
+-- p_sessions: [{ session_start, session_end, notes, rate? }] (rate defaults to the series rate)
+-- p_existing_session_id: optional one-off session that becomes the first occurrence
+CREATE OR REPLACE FUNCTION create_session_series(
+  p_series jsonb,
+  p_sessions jsonb,
+  p_existing_session_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_series session_series;
+BEGIN
+  INSERT INTO session_series (
+    tutor_id, student_id, frequency, interval, weekdays, monthly_week, until_date,
+    occurrence_count, first_session_start, timezone, duration, rate, color, notes,
+    materialized_until
+  )
+  SELECT
+    r.tutor_id, r.student_id, r.frequency, r.interval, r.weekdays, r.monthly_week, r.until_date,
+    r.occurrence_count, r.first_session_start, r.timezone, r.duration, r.rate, r.color, r.notes,
+    r.materialized_until
+  FROM jsonb_populate_record(NULL::session_series, p_series) r
+  RETURNING * INTO v_series;
+
+  IF p_existing_session_id IS NOT NULL THEN
+    UPDATE sessions
+    SET recurrence_id = v_series.id,
+        color = COALESCE(v_series.color, color),
+        notes = COALESCE(v_series.notes, notes)
+    WHERE id = p_existing_session_id
+      AND tutor_id = v_series.tutor_id
+      AND recurrence_id IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Session % not found or already part of a series', p_existing_session_id
+        USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  INSERT INTO sessions (
+    tutor_id, student_id, session_start, session_end, duration, rate, color, notes,
+    paid, recurrence_id, created_at
+  )
+  SELECT
+    v_series.tutor_id, v_series.student_id, s.session_start, s.session_end, v_series.duration,
+    COALESCE(s.rate, v_series.rate), v_series.color, s.notes, false, v_series.id, NOW()
+  FROM jsonb_to_recordset(COALESCE(p_sessions, '[]'::jsonb))
+    AS s(session_start timestamptz, session_end timestamptz, notes text, rate numeric);
+
+  RETURN jsonb_build_object(
+    'series', to_jsonb(v_series),
+    'sessions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(x) ORDER BY x.session_start)
+      FROM sessions x
+      WHERE x.recurrence_id = v_series.id
+    ), '[]'::jsonb),
+    'removed_event_ids', '[]'::jsonb
+  );
+END;
+$$;
+
+-- Edit a series from p_from onwards.
+-- p_series_patch:  columns to change on the edited series (e.g. a new end when splitting)
+-- p_new_series:    when set, occurrences from p_from move to this new series ("this and following")
+-- p_session_patch: attribute changes (student_id, duration, rate, color, notes) applied in
+--                  place to existing non-exception rows, used when start times stay the same
+-- p_sessions:      when set, replaceable rows from p_from are deleted and these
+--                  regenerated occurrences ({ session_start, session_end, notes, rate? })
+--                  are inserted instead; exceptions are kept
+CREATE OR REPLACE FUNCTION update_session_series(
+  p_tutor_id uuid,
+  p_series_id uuid,
+  p_from timestamptz,
+  p_series_patch jsonb DEFAULT NULL,
+  p_new_series jsonb DEFAULT NULL,
+  p_session_patch jsonb DEFAULT NULL,
+  p_sessions jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_series session_series;
+  v_target session_series;
+  v_removed jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_series
+  FROM session_series
+  WHERE id = p_series_id AND tutor_id = p_tutor_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Series % not found', p_series_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_series_patch IS NOT NULL THEN
+    UPDATE session_series AS ss
+    SET (student_id, frequency, interval, weekdays, monthly_week, until_date, occurrence_count,
+         first_session_start, timezone, duration, rate, color, notes, materialized_until) =
+        (SELECT r.student_id, r.frequency, r.interval, r.weekdays, r.monthly_week, r.until_date,
+                r.occurrence_count, r.first_session_start, r.timezone, r.duration, r.rate, r.color,
+                r.notes, r.materialized_until
+         FROM jsonb_populate_record(ss, p_series_patch) r)
+    WHERE ss.id = p_series_id
+    RETURNING * INTO v_series;
+  END IF;
+
+  v_target := v_series;
+
+  IF p_new_series IS NOT NULL THEN
+    INSERT INTO session_series (
+      tutor_id, student_id, frequency, interval, weekdays, monthly_week, until_date,
+      occurrence_count, first_session_start, timezone, duration, rate, color, notes,
+      materialized_until
+    )
+    SELECT
+      p_tutor_id, r.student_id, r.frequency, r.interval, r.weekdays, r.monthly_week, r.until_date,
+      r.occurrence_count, r.first_session_start, r.timezone, r.duration, r.rate, r.color, r.notes,
+      r.materialized_until
+    FROM jsonb_populate_record(NULL::session_series, p_new_series) r
+    RETURNING * INTO v_target;
+
+    UPDATE sessions
+    SET recurrence_id = v_target.id
+    WHERE recurrence_id = p_series_id
+      AND session_start >= p_from;
+  END IF;
+
+  IF p_sessions IS NULL THEN
+    IF p_session_patch IS NOT NULL THEN
+      UPDATE sessions AS s
+      SET (student_id, duration, rate, color, notes) =
+          (SELECT r.student_id, r.duration, r.rate, r.color, r.notes
+           FROM jsonb_populate_record(s, p_session_patch) r)
+      WHERE s.recurrence_id = v_target.id
+        AND s.session_start >= p_from
+        AND NOT session_is_series_exception(s);
+
+      UPDATE sessions AS s
+      SET session_end = s.session_start + make_interval(mins => s.duration)
+      WHERE s.recurrence_id = v_target.id
+        AND s.session_start >= p_from
+        AND NOT session_is_series_exception(s);
+    END IF;
+  ELSE
+    WITH removed AS (
+      DELETE FROM sessions s
+      WHERE s.recurrence_id = v_target.id
+        AND s.session_start >= p_from
+        AND NOT session_is_series_exception(s)
+      RETURNING s.google_calendar_event_id
+    )
+    SELECT COALESCE(jsonb_agg(google_calendar_event_id), '[]'::jsonb) INTO v_removed
+    FROM removed
+    WHERE google_calendar_event_id IS NOT NULL;
+
+    INSERT INTO sessions (
+      tutor_id, student_id, session_start, session_end, duration, rate, color, notes,
+      paid, recurrence_id, created_at
+    )
+    SELECT
+      p_tutor_id, v_target.student_id, s.session_start, s.session_end, v_target.duration,
+      COALESCE(s.rate, v_target.rate), v_target.color, s.notes, false, v_target.id, NOW()
+    FROM jsonb_to_recordset(p_sessions)
+      AS s(session_start timestamptz, session_end timestamptz, notes text, rate numeric)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM sessions k
+      WHERE k.recurrence_id = v_target.id
+        AND k.session_start = s.session_start
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'series', to_jsonb(v_target),
+    'sessions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(x) ORDER BY x.session_start)
+      FROM sessions x
+      WHERE x.recurrence_id = v_target.id
+        AND x.session_start >= p_from
+    ), '[]'::jsonb),
+    'removed_event_ids', v_removed
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_session_series(jsonb, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_session_series(uuid, uuid, timestamptz, jsonb, jsonb, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_session_series(jsonb, jsonb, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION update_session_series(uuid, uuid, timestamptz, jsonb, jsonb, jsonb, jsonb) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
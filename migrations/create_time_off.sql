@@ -0,0 +1,98 @@
+-- Migration: Time off
+-- Date: 2026-10-19
+-- Purpose: Tutors block out whole days (holidays, trips, sick leave). A block overrides every
+--          availability window, so the public page hides those times and
+--          availability_window_starts() returns nothing for a range that touches one, which
+--          makes public_booking_rejection() answer 'outside_availability'. Sessions already
+--          booked inside a block are listed in the app for the tutor to cancel or move.
+
+-- This migration is safe to run multiple times (idempotent)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS time_off (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tutor_id UUID NOT NULL REFERENCES tutors(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL, -- midnight of the first day in the tutor's timezone
+  ends_at TIMESTAMPTZ NOT NULL, -- exclusive: midnight after the last day
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_off_tutor_range ON time_off(tutor_id, starts_at, ends_at);
+
+ALTER TABLE time_off ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tutors can manage own time off" ON time_off;
+CREATE POLICY "Tutors can manage own time off" ON time_off
+FOR ALL USING (
+  tutor_id IN (
+    SELECT id FROM tutors WHERE user_id = auth.uid()
+  )
+);
+
+-- The public booking page only needs the dates; the reason stays private
+CREATE OR REPLACE VIEW public_time_off AS
+SELECT id, tutor_id, starts_at, ends_at
+FROM time_off;
+
+GRANT SELECT ON public_time_off TO anon, authenticated;
+
+-- Start of every availability window (one-off slot or weekly template) that holds [p_start, p_end),
+-- or nothing while the range touches the tutor's time off
+CREATE OR REPLACE FUNCTION availability_window_starts(
+  p_tutor tutors,
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS SETOF timestamptz
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_timezone text := COALESCE(NULLIF(p_tutor.timezone, ''), 'UTC');
+  v_local_date date := (p_start AT TIME ZONE v_timezone)::date;
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM time_off t
+    WHERE t.tutor_id = p_tutor.id
+      AND t.starts_at < p_end
+      AND t.ends_at > p_start
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT b.start_time
+  FROM booking_slots b
+  WHERE b.tutor_id = p_tutor.id
+    AND b.is_active = true
+    AND b.start_time <= p_start
+    AND b.end_time >= p_end;
+
+  RETURN QUERY
+  SELECT (v_local_date + a.start_time) AT TIME ZONE v_timezone
+  FROM availability_templates a
+  WHERE a.tutor_id = p_tutor.id
+    AND a.weekday = EXTRACT(DOW FROM v_local_date)
+    AND (v_local_date + a.start_time) AT TIME ZONE v_timezone <= p_start
+    AND (v_local_date + a.end_time) AT TIME ZONE v_timezone >= p_end
+    AND NOT EXISTS (
+      SELECT 1
+      FROM availability_exceptions e
+      WHERE e.tutor_id = p_tutor.id
+        AND e.exception_date = v_local_date
+    );
+END;
+$$;
+
+-- Trusts the values it is given, so only the server may call it
+REVOKE EXECUTE ON FUNCTION availability_window_starts(tutors, timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION availability_window_starts(tutors, timestamptz, timestamptz) TO service_role;
+
+COMMIT;
+
+-- Refresh the PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
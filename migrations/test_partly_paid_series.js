@@ -0,0 +1,176 @@
+/**
+ * Test script for add_partly_paid_series_exceptions.sql
+ * Creates a weekly series for a throwaway student, pays part of its second lesson, edits the
+ * series twice (a rate change in place, then a time change that regenerates it) and checks that
+ * the partly paid lesson and its payment allocation survive both. Cleans up after itself.
+ *
+ * Run against a development database:
+ *   TEST_TUTOR_ID=<tutor uuid> node migrations/test_partly_paid_series.js
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const tutorId = process.env.TEST_TUTOR_ID;
+
+if (!supabaseUrl || !supabaseServiceKey || !tutorId) {
+  console.error('❌ Missing SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY or TEST_TUTOR_ID');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Far enough ahead that nothing else of the tutor's is in the way
+function occurrenceStart(index, hour = 10) {
+  const base = new Date(Date.now() + 400 * DAY_MS);
+  base.setUTCHours(hour, 0, 0, 0);
+  return new Date(base.getTime() + index * WEEK_MS);
+}
+
+function occurrence(index, hour) {
+  const start = occurrenceStart(index, hour);
+  return {
+    session_start: start.toISOString(),
+    session_end: new Date(start.getTime() + 60 * 60 * 1000).toISOString(),
+    notes: null,
+  };
+}
+
+async function rpc(name, params) {
+  const { data, error } = await supabase.rpc(name, params);
+  if (error) throw new Error(`${name}: ${error.message}`);
+  return data;
+}
+
+async function loadPartlyPaid(sessionId) {
+  const { data: session, error } = await supabase
+    .from('sessions')
+    .select('id, session_start, rate, amount_paid, paid, recurrence_id')
+    .eq('id', sessionId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+
+  const { data: allocations, error: allocationError } = await supabase
+    .from('payment_allocations')
+    .select('id, amount')
+    .eq('session_id', sessionId);
+  if (allocationError) throw new Error(allocationError.message);
+
+  return { session, allocations: allocations || [] };
+}
+
+function check(label, ok) {
+  console.log(`   ${ok ? '✅' : '❌'} ${label}`);
+  return ok;
+}
+
+async function testPartlyPaidSeries() {
+  console.log('🧪 Testing that series edits keep partly paid lessons\n');
+
+  let studentId = null;
+  let seriesId = null;
+  let paymentId = null;
+  let passed = true;
+
+  try {
+    // Step 1: A student with a three-lesson weekly series at 40/h
+    console.log('1️⃣ Creating a test series...');
+    const { data: student, error: studentError } = await supabase
+      .from('students')
+      .insert([{ tutor_id: tutorId, name: 'Series exception test' }])
+      .select('id')
+      .single();
+    if (studentError) throw new Error(studentError.message);
+    studentId = student.id;
+
+    const first = occurrenceStart(0);
+    const created = await rpc('create_session_series', {
+      p_series: {
+        tutor_id: tutorId,
+        student_id: studentId,
+        frequency: 'weekly',
+        interval: 1,
+        weekdays: [first.getUTCDay()],
+        monthly_week: null,
+        until_date: null,
+        occurrence_count: 3,
+        first_session_start: first.toISOString(),
+        timezone: 'UTC',
+        duration: 60,
+        rate: 40,
+        color: '#3B82F6',
+        notes: null,
+        materialized_until: occurrenceStart(3).toISOString(),
+      },
+      p_sessions: [occurrence(0), occurrence(1), occurrence(2)],
+    });
+    seriesId = created.series.id;
+    const partlyPaidId = created.sessions[1].id;
+    console.log(`   Series ${seriesId} with ${created.sessions.length} lessons\n`);
+
+    // Step 2: Pay 15 of the second lesson's 40
+    console.log('2️⃣ Paying part of the second lesson...');
+    const payment = await rpc('record_payment', {
+      p_tutor_id: tutorId,
+      p_payment: { student_id: studentId, amount: 15, payment_date: new Date().toISOString().slice(0, 10), method: 'cash' },
+      p_allocations: [{ session_id: partlyPaidId, amount: 15 }],
+    });
+    paymentId = payment.payment.id;
+    console.log(`   Payment ${paymentId} recorded\n`);
+
+    // Step 3: Raise the rate in place
+    console.log('3️⃣ Changing the series rate in place...');
+    await rpc('update_session_series', {
+      p_tutor_id: tutorId,
+      p_series_id: seriesId,
+      p_from: first.toISOString(),
+      p_series_patch: { rate: 60 },
+      p_session_patch: { student_id: studentId, duration: 60, rate: 60, color: '#3B82F6', notes: null },
+    });
+    let state = await loadPartlyPaid(partlyPaidId);
+    passed = check('partly paid lesson keeps its rate', Number(state.session?.rate) === 40) && passed;
+
+    // Step 4: Move the series an hour later, which regenerates its occurrences
+    console.log('\n4️⃣ Moving the series to a new time...');
+    await rpc('update_session_series', {
+      p_tutor_id: tutorId,
+      p_series_id: seriesId,
+      p_from: first.toISOString(),
+      p_series_patch: { first_session_start: occurrenceStart(0, 11).toISOString() },
+      p_sessions: [occurrence(0, 11), occurrence(1, 11), occurrence(2, 11)],
+    });
+    state = await loadPartlyPaid(partlyPaidId);
+    passed = check('partly paid lesson still exists', !!state.session) && passed;
+    passed = check('it stays at its original time', new Date(state.session?.session_start).getTime() === occurrenceStart(1).getTime()) && passed;
+    passed = check('its payment allocation is still there', state.allocations.length === 1 && Number(state.allocations[0].amount) === 15) && passed;
+    passed = check('amount_paid is unchanged', Number(state.session?.amount_paid) === 15) && passed;
+
+    console.log(`\n${passed ? '✅ Series edits keep partly paid lessons' : '❌ A partly paid lesson was changed or removed'}\n`);
+  } catch (error) {
+    passed = false;
+    console.error('❌ Unexpected error:', error);
+  } finally {
+    // Step 5: Clean up
+    console.log('5️⃣ Cleaning up...');
+    if (paymentId) {
+      await supabase.rpc('delete_payment', { p_tutor_id: tutorId, p_payment_id: paymentId });
+    }
+    if (seriesId) {
+      await supabase.from('sessions').delete().eq('recurrence_id', seriesId);
+      await supabase.from('session_series').delete().eq('id', seriesId);
+    }
+    if (studentId) {
+      await supabase.from('students').delete().eq('id', studentId);
+    }
+    console.log('   Done\n');
+  }
+
+  process.exit(passed ? 0 : 1);
+}
+
+// Run the test
+testPartlyPaidSeries();
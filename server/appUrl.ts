@@ -0,0 +1,6 @@
+// Links in messages sent outside a request (emails, Telegram), so there's no Host header to go by
+export function appOrigin(): string {
+  if (process.env.APP_URL) return process.env.APP_URL.replace(/\/$/, '');
+  const domain = process.env.REPLIT_DOMAINS?.split(',')[0].trim() || process.env.REPLIT_DEV_DOMAIN;
+  return domain ? `https://${domain}` : 'http://localhost:5000';
+}
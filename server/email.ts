@@ -1,11 +1,17 @@
 import { Resend } from 'resend';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
 const FROM_EMAIL = process.env.RESEND_FROM_EMAIL || 'Classterly Support <onboarding@resend.dev>';
 const REPLY_TO_EMAIL = process.env.RESEND_REPLY_TO_EMAIL || '77maxsim@gmail.com';
 
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   const htmlEscapes: Record<string, string> = {
     '&': '&amp;',
     '<': '&lt;',
@@ -123,3 +129,240 @@ The Classterly Team`;
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
+
+interface BookingEmailParams {
+  to: string;
+  studentName: string;
+  tutorName: string;
+  sessionStart: string; // UTC ISO timestamp
+  duration: number;
+  timezone?: string | null; // the student's timezone; falls back to UTC
+  manageUrl?: string; // /booking/manage/:token link for cancelling or rescheduling
+}
+
+type EmailResult = { success: boolean; error?: string };
+
+async function sendEmail(to: string, subject: string, html: string, text: string): Promise<EmailResult> {
+  if (!process.env.RESEND_API_KEY) {
+    console.error('RESEND_API_KEY is not configured');
+    return { success: false, error: 'Email service not configured' };
+  }
+
+  try {
+    const { error } = await resend.emails.send({
+      from: FROM_EMAIL,
+      replyTo: REPLY_TO_EMAIL,
+      to: [to],
+      subject,
+      html,
+      text,
+    });
+
+    if (error) {
+      console.error('Resend email error:', error);
+      return { success: false, error: error.message };
+    }
+
+    console.log(`📧 Email sent successfully to ${to}`);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to send email:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+function formatBookingTime(sessionStart: string, duration: number, tz?: string | null): string {
+  let zone = tz || 'UTC';
+  let start = dayjs.utc(sessionStart);
+  try {
+    start = start.tz(zone);
+  } catch {
+    // Unknown timezone name from the browser; keep UTC
+    zone = 'UTC';
+  }
+  const end = start.add(duration, 'minute');
+  return `${start.format('dddd, MMMM D, YYYY')}, ${start.format('h:mm A')} – ${end.format('h:mm A')} (${zone})`;
+}
+
+function renderBookingEmail(title: string, greeting: string, paragraphs: string[], when: string, manageUrl?: string): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${title}</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+        <h1 style="color: white; margin: 0; font-size: 24px;">Classterly</h1>
+        <p style="color: rgba(255,255,255,0.9); margin: 5px 0 0 0; font-size: 14px;">${title}</p>
+      </div>
+
+      <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 12px 12px;">
+        <p style="margin-top: 0;">${greeting}</p>
+        ${paragraphs.map(paragraph => `<p>${paragraph}</p>`).join('\n        ')}
+
+        <div style="background: #f8fafc; border-left: 4px solid #6366f1; padding: 15px 20px; margin: 20px 0; border-radius: 0 8px 8px 0;">
+          <p style="margin: 0 0 5px 0; font-weight: 600; color: #6366f1; font-size: 12px; text-transform: uppercase;">Session</p>
+          <p style="margin: 0; color: #333;">${when}</p>
+        </div>
+        ${manageUrl ? `
+        <p style="text-align: center; margin: 25px 0;">
+          <a href="${escapeHtml(manageUrl)}" style="background: #6366f1; color: white; padding: 10px 20px; border-radius: 8px; text-decoration: none; display: inline-block;">Cancel or reschedule</a>
+        </p>` : ''}
+
+        <p style="margin-bottom: 0;">Best regards,<br><strong>The Classterly Team</strong></p>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+// Sent to the student right after a booking request is submitted on the public page
+export async function sendBookingRequestEmail(params: BookingEmailParams): Promise<EmailResult> {
+  const when = formatBookingTime(params.sessionStart, params.duration, params.timezone);
+  const safeTutorName = escapeHtml(params.tutorName);
+
+  const html = renderBookingEmail(
+    'Booking Request Received',
+    `Hi ${escapeHtml(params.studentName)},`,
+    [
+      `Your booking request with <strong>${safeTutorName}</strong> has been sent.`,
+      `${safeTutorName} will review it and you'll get another email once it's accepted or declined.`,
+    ],
+    escapeHtml(when),
+    params.manageUrl
+  );
+
+  const text = `Hi ${params.studentName},
+
+Your booking request with ${params.tutorName} has been sent.
+${params.tutorName} will review it and you'll get another email once it's accepted or declined.
+
+Session: ${when}
+${params.manageUrl ? `\nNeed to cancel or reschedule? ${params.manageUrl}\n` : ''}
+Best regards,
+The Classterly Team`;
+
+  return sendEmail(params.to, `Booking request sent to ${params.tutorName}`, html, text);
+}
+
+// Sent to the student when the tutor accepts or declines their request
+export async function sendBookingDecisionEmail(
+  params: BookingEmailParams & { decision: 'accepted' | 'declined' }
+): Promise<EmailResult> {
+  const when = formatBookingTime(params.sessionStart, params.duration, params.timezone);
+  const safeTutorName = escapeHtml(params.tutorName);
+  const accepted = params.decision === 'accepted';
+
+  const message = accepted
+    ? `Good news! <strong>${safeTutorName}</strong> has accepted your booking request. See you there!`
+    : `Unfortunately <strong>${safeTutorName}</strong> can't make this time and has declined your booking request. Feel free to pick another time on their booking page.`;
+  const plainMessage = accepted
+    ? `Good news! ${params.tutorName} has accepted your booking request. See you there!`
+    : `Unfortunately ${params.tutorName} can't make this time and has declined your booking request. Feel free to pick another time on their booking page.`;
+
+  const html = renderBookingEmail(
+    accepted ? 'Booking Confirmed' : 'Booking Declined',
+    `Hi ${escapeHtml(params.studentName)},`,
+    [message],
+    escapeHtml(when),
+    params.manageUrl
+  );
+
+  const text = `Hi ${params.studentName},
+
+${plainMessage}
+
+Session: ${when}
+${params.manageUrl ? `\nNeed to cancel or reschedule? ${params.manageUrl}\n` : ''}
+Best regards,
+The Classterly Team`;
+
+  const subject = accepted
+    ? `Your session with ${params.tutorName} is confirmed`
+    : `Your booking request with ${params.tutorName} was declined`;
+
+  return sendEmail(params.to, subject, html, text);
+}
+
+interface PaymentReminderEmailParams {
+  to: string;
+  studentName: string;
+  tutorName: string;
+  timezone?: string | null; // the tutor's; session times are shown in it
+  sessions: Array<{ sessionStart: string; duration: number; amount: string }>; // amount formatted
+  total: string; // formatted
+  unsubscribeUrl: string;
+}
+
+// Sent to a student who owes for past sessions, on the tutor's reminder schedule
+export async function sendPaymentReminderEmail(params: PaymentReminderEmailParams): Promise<EmailResult> {
+  const safeTutorName = escapeHtml(params.tutorName);
+  const zone = params.timezone || 'UTC';
+  const lines = params.sessions.map(session => ({
+    when: dayjs.utc(session.sessionStart).tz(zone).format('ddd, MMM D, YYYY h:mm A'),
+    duration: session.duration,
+    amount: session.amount,
+  }));
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Payment Reminder</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+        <h1 style="color: white; margin: 0; font-size: 24px;">Classterly</h1>
+        <p style="color: rgba(255,255,255,0.9); margin: 5px 0 0 0; font-size: 14px;">Payment Reminder</p>
+      </div>
+
+      <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 12px 12px;">
+        <p style="margin-top: 0;">Hi ${escapeHtml(params.studentName)},</p>
+        <p>This is a friendly reminder from <strong>${safeTutorName}</strong> that the following sessions haven't been paid yet:</p>
+
+        <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+          ${lines.map(line => `
+          <tr>
+            <td style="padding: 8px 0; border-bottom: 1px solid #f3f4f6;">${escapeHtml(line.when)} <span style="color: #6b7280;">(${line.duration} min)</span></td>
+            <td style="padding: 8px 0; border-bottom: 1px solid #f3f4f6; text-align: right; white-space: nowrap;">${escapeHtml(line.amount)}</td>
+          </tr>`).join('')}
+          <tr>
+            <td style="padding: 12px 0 0 0; font-weight: 600;">Total due</td>
+            <td style="padding: 12px 0 0 0; font-weight: 600; text-align: right; white-space: nowrap;">${escapeHtml(params.total)}</td>
+          </tr>
+        </table>
+
+        <p>If you've already paid, please ignore this email. Questions about the amount are best sent to ${safeTutorName} directly.</p>
+
+        <p style="margin-bottom: 0;">Best regards,<br><strong>The Classterly Team</strong></p>
+      </div>
+
+      <p style="text-align: center; color: #9ca3af; font-size: 12px; margin-top: 20px;">
+        <a href="${escapeHtml(params.unsubscribeUrl)}" style="color: #9ca3af;">Stop payment reminders from ${safeTutorName}</a>
+      </p>
+    </body>
+    </html>
+  `;
+
+  const text = `Hi ${params.studentName},
+
+This is a friendly reminder from ${params.tutorName} that the following sessions haven't been paid yet:
+
+${lines.map(line => `- ${line.when} (${line.duration} min): ${line.amount}`).join('\n')}
+
+Total due: ${params.total}
+
+If you've already paid, please ignore this email. Questions about the amount are best sent to ${params.tutorName} directly.
+
+Best regards,
+The Classterly Team
+
+Stop payment reminders from ${params.tutorName}: ${params.unsubscribeUrl}`;
+
+  return sendEmail(params.to, `Payment reminder from ${params.tutorName}`, html, text);
+}
@@ -5,6 +5,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeTelegram } from "./telegram";
+import { startPackageConsumption } from "./services/studentPackages";
+import { startPaymentReminders } from "./services/paymentReminders";
 import { setupSentryErrorHandler } from "./sentry";
 import helmet from "helmet";
 import cors from "cors";
@@ -75,6 +77,7 @@ app.use("/api/sessions", sessionsLimiter);
 app.use("/api/students", publicLimiter);
 app.use("/api/payments", publicLimiter);
 app.use("/api/dashboard", publicLimiter);
+app.use("/api/public", publicLimiter);
 
 // Note: Admin routes (/api/admin/*) are rate-limited per-route in routes.ts 
 // AFTER authentication middleware to enable per-user tracking
@@ -126,5 +129,11 @@ app.use("/api", globalLimiter);
     initializeTelegram().catch(err => {
       console.error("Failed to initialize Telegram bot:", err);
     });
+
+    // Pay ended lessons from prepaid packages
+    startPackageConsumption();
+
+    // Email students about overdue sessions on their tutors' schedules
+    startPaymentReminders();
   });
 })();
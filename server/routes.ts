@@ -7,8 +7,27 @@ import { adminLimiter } from "./rateLimiters";
 import { setSentryUser, clearSentryUser } from "./sentry";
 import { createCalendarEvent, updateCalendarEvent, deleteCalendarEvent, bulkSyncSessions, isSyncEnabled, getAuthorizationUrl, handleOAuthCallback, disconnectGoogleCalendar } from "./googleCalendarSync";
 import { Sentry } from "./instrument";
-import { sendFeedbackNotification } from "./telegram";
-import { insertFeedbackSchema } from "@shared/schema";
+import { sendFeedbackNotification, sendAutoAcceptedBookingNotification, telegramDeepLink } from "./telegram";
+import { createTelegramLinkCode, unlinkTelegramForTutor } from "./services/telegramLinks";
+import { insertFeedbackSchema, createSessionSeriesSchema, updateSessionSeriesSchema, cancelSessionSeriesSchema, moveSessionsPastTimeOffSchema, publicBookingSchema, acceptBookingRequestSchema, reschedulePublicBookingSchema, recordPaymentSchema, createStudentPackageSchema, createInvoiceSchema, updateInvoiceStatusSchema } from "@shared/schema";
+import type { TelegramLinkCode } from "@shared/telegram";
+import { createSeries, loadSeries, getSeriesSession, updateSeries, deleteSeries, cancelSeries } from "./services/sessionSeries";
+import {
+  createPublicBooking,
+  acceptBookingRequest,
+  declineBookingRequest,
+  getManagedBooking,
+  cancelManagedBooking,
+  rescheduleManagedBooking,
+  PUBLIC_BOOKING_REJECTION_MESSAGES,
+  type ManageBookingResult,
+} from "./services/publicBookings";
+import { recordPayment, deletePayment, PAYMENT_REJECTION_MESSAGES } from "./services/payments";
+import { createPackage, deletePackage } from "./services/studentPackages";
+import { moveSessionsPastTimeOff } from "./services/timeOff";
+import { createInvoice, setInvoiceStatus, deleteInvoice, renderInvoiceHtml, INVOICE_REJECTION_MESSAGES } from "./services/invoices";
+import { getReminderSubscription, unsubscribeFromReminders } from "./services/paymentReminders";
+import { escapeHtml } from "./email";
 import fs from "fs";
 import path from "path";
 
@@ -290,6 +309,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Linking the bot: a one-time code the tutor sends to it (or opens as a t.me deep link)
+  app.post("/api/telegram/link-code", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const { code, expiresAt } = await createTelegramLinkCode(tutor.id);
+      const linkCode: TelegramLinkCode = { code, expiresAt, deepLink: telegramDeepLink(code) };
+      res.json(linkCode);
+    } catch (error) {
+      console.error('Telegram link code error:', error);
+      res.status(500).json({ error: "Failed to create a link code" });
+    }
+  });
+
+  app.delete("/api/telegram/link", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const unlinked = await unlinkTelegramForTutor(tutor.id);
+      if (unlinked) {
+        console.log(`🔕 Telegram unlinked by tutor ${tutor.id}`);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Telegram unlink error:', error);
+      res.status(500).json({ error: "Failed to disconnect Telegram" });
+    }
+  });
+
   // Tutor USD exchange rate endpoint with 12-hour caching
   // Returns cached rate if available and fresh, otherwise fetches new rate
   app.get("/api/tutor/usd-rate", authenticateUser, async (req, res) => {
@@ -380,6 +438,727 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Recurring session series endpoints
+  // All writes for a series happen in one database function call, so a failure can't leave half a series behind
+  const getTutorForUser = async (userId: string) => {
+    const { data: tutor } = await supabase
+      .from('tutors')
+      .select('id, timezone')
+      .eq('user_id', userId)
+      .single();
+    return tutor;
+  };
+
+  // Google Calendar events of removed sessions are deleted here since the rows no longer exist (non-blocking)
+  const removeSeriesCalendarEvents = (tutorId: any, eventIds: string[]) => {
+    for (const eventId of eventIds) {
+      deleteCalendarEvent(tutorId, eventId).catch(error => {
+        console.error(`⚠️ Failed to delete calendar event ${eventId}:`, error);
+      });
+    }
+  };
+
+  app.post("/api/sessions/series", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+
+      const parseResult = createSessionSeriesSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid series data", details: parseResult.error.errors });
+      }
+      const input = parseResult.data;
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const { data: student } = await supabase
+        .from('students')
+        .select('id')
+        .eq('id', input.studentId)
+        .eq('tutor_id', tutor.id)
+        .maybeSingle();
+
+      if (!student) {
+        return res.status(404).json({ error: "Student not found" });
+      }
+
+      if (input.existingSessionId) {
+        const { data: existing } = await supabase
+          .from('sessions')
+          .select('session_start, recurrence_id')
+          .eq('id', input.existingSessionId)
+          .eq('tutor_id', tutor.id)
+          .maybeSingle();
+
+        if (!existing) {
+          return res.status(404).json({ error: "Session not found" });
+        }
+        if (existing.recurrence_id) {
+          return res.status(409).json({ error: "Session is already part of a recurring series" });
+        }
+        input.firstSessionStart = existing.session_start;
+      }
+
+      const result = await createSeries(tutor.id, input);
+
+      console.log(`🔁 Created series ${result.series?.id} with ${result.sessions.length} session(s) for tutor ${tutor.id}`);
+      res.json(result);
+    } catch (error) {
+      console.error('Create series error:', error);
+      res.status(500).json({ error: "Failed to create recurring sessions" });
+    }
+  });
+
+  app.patch("/api/sessions/series/:seriesId", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const { seriesId } = req.params;
+
+      const parseResult = updateSessionSeriesSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid series changes", details: parseResult.error.errors });
+      }
+      const input = parseResult.data;
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const series = await loadSeries(tutor.id, seriesId, tutor.timezone || 'UTC');
+      if (!series) {
+        return res.status(404).json({ error: "Series not found" });
+      }
+
+      const fromSession = input.fromSessionId
+        ? await getSeriesSession(tutor.id, series.id, input.fromSessionId)
+        : null;
+      if (input.fromSessionId && !fromSession) {
+        return res.status(404).json({ error: "Session not found in this series" });
+      }
+
+      if (input.changes.studentId) {
+        const { data: student } = await supabase
+          .from('students')
+          .select('id')
+          .eq('id', input.changes.studentId)
+          .eq('tutor_id', tutor.id)
+          .maybeSingle();
+
+        if (!student) {
+          return res.status(404).json({ error: "Student not found" });
+        }
+      }
+
+      const result = await updateSeries(tutor.id, series, input, fromSession);
+      removeSeriesCalendarEvents(tutor.id, result.removedEventIds);
+
+      console.log(`🔁 Updated series ${seriesId} (${input.scope}), ${result.sessions.length} session(s) affected`);
+      res.json(result);
+    } catch (error) {
+      console.error('Update series error:', error);
+      res.status(500).json({ error: "Failed to update recurring sessions" });
+    }
+  });
+
+  app.delete("/api/sessions/series/:seriesId", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const { seriesId } = req.params;
+      const fromSessionId = typeof req.query.fromSessionId === 'string' ? req.query.fromSessionId : undefined;
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const series = await loadSeries(tutor.id, seriesId, tutor.timezone || 'UTC');
+      if (!series) {
+        return res.status(404).json({ error: "Series not found" });
+      }
+
+      const fromSession = fromSessionId
+        ? await getSeriesSession(tutor.id, series.id, fromSessionId)
+        : null;
+      if (fromSessionId && !fromSession) {
+        return res.status(404).json({ error: "Session not found in this series" });
+      }
+
+      const result = await deleteSeries(tutor.id, series, fromSession);
+      removeSeriesCalendarEvents(tutor.id, result.removedEventIds);
+
+      console.log(`🗑️ Deleted ${result.deletedCount} session(s) from series ${seriesId}`);
+      res.json(result);
+    } catch (error) {
+      console.error('Delete series error:', error);
+      res.status(500).json({ error: "Failed to delete recurring sessions" });
+    }
+  });
+
+  app.post("/api/sessions/series/:seriesId/cancel", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const { seriesId } = req.params;
+
+      const parseResult = cancelSessionSeriesSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid cancellation data", details: parseResult.error.errors });
+      }
+      const input = parseResult.data;
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const series = await loadSeries(tutor.id, seriesId, tutor.timezone || 'UTC');
+      if (!series) {
+        return res.status(404).json({ error: "Series not found" });
+      }
+
+      const fromSession = input.scope === 'following' && input.fromSessionId
+        ? await getSeriesSession(tutor.id, series.id, input.fromSessionId)
+        : null;
+      if (input.scope === 'following' && !fromSession) {
+        return res.status(404).json({ error: "Session not found in this series" });
+      }
+
+      const result = await cancelSeries(tutor.id, series, input, fromSession);
+      removeSeriesCalendarEvents(tutor.id, result.cancelledEventIds);
+
+      console.log(`🚫 Cancelled ${result.cancelledCount} session(s) from series ${seriesId} (${input.scope})`);
+      res.json(result);
+    } catch (error) {
+      console.error('Cancel series error:', error);
+      res.status(500).json({ error: "Failed to cancel recurring sessions" });
+    }
+  });
+
+  // Sessions booked inside the tutor's time off, moved past it in one database function call
+  app.post("/api/time-off/move-sessions", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+
+      const parseResult = moveSessionsPastTimeOffSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid sessions", details: parseResult.error.errors });
+      }
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const result = await moveSessionsPastTimeOff(tutor.id, tutor.timezone || 'UTC', parseResult.data);
+      if (result.status === 'rejected') {
+        return res.status(404).json({ error: "One or more sessions could not be found or were cancelled." });
+      }
+
+      console.log(`🏖️ Moved ${result.sessions.length} session(s) past time off for tutor ${tutor.id} (${result.skippedIds.length} skipped)`);
+      res.json({ sessions: result.sessions, skippedIds: result.skippedIds });
+    } catch (error) {
+      console.error('Move sessions past time off error:', error);
+      res.status(500).json({ error: "Failed to move sessions" });
+    }
+  });
+
+  // Create or update the Google Calendar event of a session. Returns null if the session doesn't exist.
+  const syncSessionCalendarEvent = async (sessionId: string) => {
+    // Fetch session with student name
+    const { data: session, error } = await supabase
+      .from('sessions')
+      .select(`
+        id,
+        session_start,
+        session_end,
+        tutor_id,
+        student_id,
+        notes,
+        status,
+        google_calendar_event_id,
+        unassigned_name,
+        students (name)
+      `)
+      .eq('id', sessionId)
+      .single();
+
+    if (error || !session) {
+      return null;
+    }
+
+    const sessionData = {
+      ...session,
+      student_name: (session as any).students?.name
+    };
+
+    // If session already has a calendar event, update it; otherwise create new
+    if (session.google_calendar_event_id) {
+      const success = await updateCalendarEvent(sessionData);
+      return { action: 'updated' as const, success };
+    }
+    const eventId = await createCalendarEvent(sessionData);
+    return { action: 'created' as const, success: !!eventId, eventId };
+  };
+
+  // Public booking endpoints (no auth; rate-limited via publicLimiter in index.ts)
+  app.post("/api/public/bookings/:tutorId", async (req, res) => {
+    try {
+      const { tutorId } = req.params;
+
+      if (!/^[0-9a-f-]{36}$/i.test(tutorId)) {
+        return res.status(404).json({ error: PUBLIC_BOOKING_REJECTION_MESSAGES.tutor_not_found, reason: 'tutor_not_found' });
+      }
+
+      const parseResult = publicBookingSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid booking data", details: parseResult.error.errors });
+      }
+
+      const result = await createPublicBooking(tutorId, parseResult.data);
+
+      if (result.status === 'rejected') {
+        console.log(`🚫 Public booking for tutor ${tutorId} rejected: ${result.reason}`);
+        const status = result.reason === 'tutor_not_found' ? 404 : result.reason === 'missing_contact' ? 400 : 409;
+        return res.status(status).json({
+          error: PUBLIC_BOOKING_REJECTION_MESSAGES[result.reason],
+          reason: result.reason,
+          conflictStart: result.conflictStart,
+        });
+      }
+
+      if (result.studentName) {
+        console.log(`✅ Public booking ${result.session.id} auto-accepted for tutor ${tutorId} (${result.studentName})`);
+        // Same follow-ups as a booking the tutor confirms; neither blocks the response
+        sendAutoAcceptedBookingNotification(result.session, result.studentName).catch(error => {
+          console.error('Telegram notification for auto-accepted booking failed:', error);
+        });
+        syncSessionCalendarEvent(result.session.id).catch(error => {
+          console.error('Calendar sync for auto-accepted booking failed:', error);
+        });
+      } else {
+        console.log(`📥 Public booking request ${result.session.id} created for tutor ${tutorId}`);
+      }
+      res.status(201).json({
+        id: result.session.id,
+        session_start: result.session.session_start,
+        session_end: result.session.session_end,
+        duration: result.session.duration,
+        status: result.session.status,
+        managementToken: result.managementToken,
+      });
+    } catch (error) {
+      console.error('Public booking error:', error);
+      res.status(500).json({ error: "Failed to submit booking request" });
+    }
+  });
+
+  const sendManageRejection = (res: Response, result: Extract<ManageBookingResult, { status: 'rejected' }>) => {
+    const status = result.reason === 'not_found' ? 404 : 409;
+    return res.status(status).json({
+      error: PUBLIC_BOOKING_REJECTION_MESSAGES[result.reason],
+      reason: result.reason,
+      conflictStart: result.conflictStart,
+    });
+  };
+
+  // Students managing their own booking via the token from their confirmation email
+  app.get("/api/public/bookings/manage/:token", async (req, res) => {
+    try {
+      const booking = await getManagedBooking(req.params.token);
+      if (!booking) {
+        return res.status(404).json({ error: PUBLIC_BOOKING_REJECTION_MESSAGES.not_found, reason: 'not_found' });
+      }
+
+      res.json(booking);
+    } catch (error) {
+      console.error('Load managed booking error:', error);
+      res.status(500).json({ error: "Failed to load booking" });
+    }
+  });
+
+  app.post("/api/public/bookings/manage/:token/cancel", async (req, res) => {
+    try {
+      const result = await cancelManagedBooking(req.params.token);
+      if (result.status === 'rejected') {
+        return sendManageRejection(res, result);
+      }
+
+      if (result.session.google_calendar_event_id) {
+        deleteCalendarEvent(result.session.tutor_id, result.session.google_calendar_event_id).catch(error => {
+          console.error('⚠️ Failed to delete calendar event of cancelled booking:', error);
+        });
+      }
+
+      console.log(`🚫 Booking ${result.session.id} cancelled by the student`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Cancel managed booking error:', error);
+      res.status(500).json({ error: "Failed to cancel booking" });
+    }
+  });
+
+  app.post("/api/public/bookings/manage/:token/reschedule", async (req, res) => {
+    try {
+      const parseResult = reschedulePublicBookingSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid booking data", details: parseResult.error.errors });
+      }
+
+      const result = await rescheduleManagedBooking(req.params.token, parseResult.data);
+      if (result.status === 'rejected') {
+        return sendManageRejection(res, result);
+      }
+
+      if (result.session.google_calendar_event_id) {
+        syncSessionCalendarEvent(result.session.id).catch(error => {
+          console.error('⚠️ Failed to update calendar event of rescheduled booking:', error);
+        });
+      }
+
+      console.log(`🔄 Booking ${result.session.id} rescheduled by the student to ${result.session.session_start}`);
+      res.json({
+        session_start: result.session.session_start,
+        session_end: result.session.session_end,
+      });
+    } catch (error) {
+      console.error('Reschedule managed booking error:', error);
+      res.status(500).json({ error: "Failed to reschedule booking" });
+    }
+  });
+
+  // Unsubscribe link in payment reminder emails. Opening it only asks for confirmation, since
+  // mail scanners and link previews open links by themselves; the opt-out is the form's POST.
+  const reminderPage = (body: string) => `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>Payment reminders</title></head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 80px auto; padding: 0 20px; text-align: center; color: #333;">
+  <h1 style="font-size: 22px; color: #6366f1;">Classterly</h1>
+  ${body}
+</body>
+</html>`;
+  const invalidUnsubscribeLink = reminderPage('<p>This unsubscribe link is not valid.</p>');
+
+  app.get("/api/public/payment-reminders/unsubscribe/:token", async (req, res) => {
+    try {
+      const subscription = await getReminderSubscription(req.params.token);
+      if (!subscription) {
+        return res.status(404).type('html').send(invalidUnsubscribeLink);
+      }
+
+      const tutorName = escapeHtml(subscription.tutorName);
+      if (subscription.optedOut) {
+        return res.type('html').send(reminderPage(`<p>You don't get payment reminders from ${tutorName} anymore.</p>`));
+      }
+
+      res.type('html').send(reminderPage(`<p>Stop getting payment reminders from ${tutorName}?</p>
+  <form method="POST">
+    <button type="submit" style="background: #6366f1; color: #fff; border: 0; border-radius: 6px; padding: 10px 20px; font-size: 15px; cursor: pointer;">Unsubscribe</button>
+  </form>`));
+    } catch (error) {
+      console.error('Load reminder unsubscribe page error:', error);
+      res.status(500).json({ error: "Failed to load unsubscribe page" });
+    }
+  });
+
+  app.post("/api/public/payment-reminders/unsubscribe/:token", async (req, res) => {
+    try {
+      const result = await unsubscribeFromReminders(req.params.token);
+      if (!result) {
+        return res.status(404).type('html').send(invalidUnsubscribeLink);
+      }
+
+      console.log(`🔕 Student unsubscribed from payment reminders (token ${req.params.token.slice(0, 8)}…)`);
+      res.type('html').send(reminderPage(`<p>You won't get payment reminders from ${escapeHtml(result.tutorName)} anymore.</p>`));
+    } catch (error) {
+      console.error('Unsubscribe from reminders error:', error);
+      res.status(500).json({ error: "Failed to unsubscribe" });
+    }
+  });
+
+  // Tutor decisions on pending booking requests (emails the student when they left an address)
+  app.post("/api/sessions/:sessionId/accept-booking", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const { sessionId } = req.params;
+
+      const parseResult = acceptBookingRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid request data", details: parseResult.error.errors });
+      }
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const { data: student } = await supabase
+        .from('students')
+        .select('id')
+        .eq('id', parseResult.data.studentId)
+        .eq('tutor_id', tutor.id)
+        .maybeSingle();
+
+      if (!student) {
+        return res.status(404).json({ error: "Student not found" });
+      }
+
+      const session = await acceptBookingRequest(tutor.id, sessionId, student.id);
+      if (!session) {
+        return res.status(404).json({ error: "Booking request not found or already handled" });
+      }
+
+      console.log(`✅ Booking request ${sessionId} accepted by tutor ${tutor.id}`);
+      res.json(session);
+    } catch (error) {
+      console.error('Accept booking error:', error);
+      res.status(500).json({ error: "Failed to accept booking request" });
+    }
+  });
+
+  app.post("/api/sessions/:sessionId/decline-booking", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const { sessionId } = req.params;
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const declined = await declineBookingRequest(tutor.id, sessionId);
+      if (!declined) {
+        return res.status(404).json({ error: "Booking request not found or already handled" });
+      }
+
+      console.log(`🗑️ Booking request ${sessionId} declined by tutor ${tutor.id}`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Decline booking error:', error);
+      res.status(500).json({ error: "Failed to decline booking request" });
+    }
+  });
+
+  // Payments: one payment can cover several sessions of a student, the last one possibly in part
+  app.post("/api/payments", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+
+      const parseResult = recordPaymentSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid payment data", details: parseResult.error.errors });
+      }
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const result = await recordPayment(tutor.id, parseResult.data);
+      if (result.status === 'rejected') {
+        const status = result.reason === 'session_not_found' ? 404 : 409;
+        return res.status(status).json({ error: PAYMENT_REJECTION_MESSAGES[result.reason], reason: result.reason });
+      }
+
+      console.log(`💰 Payment ${result.payment.id} recorded for ${result.sessions.length} session(s) by tutor ${tutor.id}`);
+      res.json({ payment: result.payment, sessions: result.sessions });
+    } catch (error) {
+      console.error('Record payment error:', error);
+      res.status(500).json({ error: "Failed to record payment" });
+    }
+  });
+
+  app.delete("/api/payments/:paymentId", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const { paymentId } = req.params;
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const sessionIds = await deletePayment(tutor.id, paymentId);
+      if (!sessionIds) {
+        return res.status(404).json({ error: "Payment not found" });
+      }
+
+      console.log(`🗑️ Payment ${paymentId} deleted by tutor ${tutor.id}`);
+      res.json({ success: true, sessionIds });
+    } catch (error) {
+      console.error('Delete payment error:', error);
+      res.status(500).json({ error: "Failed to delete payment" });
+    }
+  });
+
+  // Prepaid packages: selling one pays the student's unpaid lessons since the purchase date right away
+  app.post("/api/packages", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+
+      const parseResult = createStudentPackageSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid package data", details: parseResult.error.errors });
+      }
+      const input = parseResult.data;
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const { data: student } = await supabase
+        .from('students')
+        .select('id')
+        .eq('id', input.studentId)
+        .eq('tutor_id', tutor.id)
+        .maybeSingle();
+
+      if (!student) {
+        return res.status(404).json({ error: "Student not found" });
+      }
+
+      const result = await createPackage(tutor.id, input);
+
+      console.log(`📦 Package ${result.package.id} sold to student ${student.id}, ${result.consumedCount} session(s) paid from it`);
+      res.json(result);
+    } catch (error) {
+      console.error('Create package error:', error);
+      res.status(500).json({ error: "Failed to create package" });
+    }
+  });
+
+  app.delete("/api/packages/:packageId", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const { packageId } = req.params;
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const sessionIds = await deletePackage(tutor.id, packageId);
+      if (!sessionIds) {
+        return res.status(404).json({ error: "Package not found" });
+      }
+
+      console.log(`🗑️ Package ${packageId} deleted by tutor ${tutor.id}, ${sessionIds.length} session(s) unpaid again`);
+      res.json({ success: true, sessionIds });
+    } catch (error) {
+      console.error('Delete package error:', error);
+      res.status(500).json({ error: "Failed to delete package" });
+    }
+  });
+
+  // Invoices: one student's sessions in a period, numbered per tutor
+  app.post("/api/invoices", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+
+      const parseResult = createInvoiceSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid invoice data", details: parseResult.error.errors });
+      }
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const result = await createInvoice(tutor.id, parseResult.data);
+      if (result.status === 'rejected') {
+        return res.status(result.reason === 'student_not_found' ? 404 : 409).json({
+          error: INVOICE_REJECTION_MESSAGES[result.reason],
+          reason: result.reason,
+        });
+      }
+
+      console.log(`🧾 Invoice #${result.invoice.number} created by tutor ${tutor.id} for student ${result.invoice.student_id}`);
+      res.json(result.invoice);
+    } catch (error) {
+      console.error('Create invoice error:', error);
+      res.status(500).json({ error: "Failed to create invoice" });
+    }
+  });
+
+  app.patch("/api/invoices/:invoiceId", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const { invoiceId } = req.params;
+
+      const parseResult = updateInvoiceStatusSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid invoice status", details: parseResult.error.errors });
+      }
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const invoice = await setInvoiceStatus(tutor.id, invoiceId, parseResult.data.status);
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      res.json(invoice);
+    } catch (error) {
+      console.error('Update invoice error:', error);
+      res.status(500).json({ error: "Failed to update invoice" });
+    }
+  });
+
+  app.delete("/api/invoices/:invoiceId", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const { invoiceId } = req.params;
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const outcome = await deleteInvoice(tutor.id, invoiceId);
+      if (outcome === 'not_found') {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      if (outcome === 'not_draft') {
+        return res.status(409).json({ error: "Only draft invoices can be deleted" });
+      }
+
+      console.log(`🗑️ Invoice ${invoiceId} deleted by tutor ${tutor.id}`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete invoice error:', error);
+      res.status(500).json({ error: "Failed to delete invoice" });
+    }
+  });
+
+  // Printable page; the client opens it in a new window
+  app.get("/api/invoices/:invoiceId/html", authenticateUser, async (req, res) => {
+    try {
+      const user = (req as any).user;
+      const { invoiceId } = req.params;
+
+      const tutor = await getTutorForUser(user.id);
+      if (!tutor) {
+        return res.status(404).json({ error: "Tutor not found" });
+      }
+
+      const html = await renderInvoiceHtml(tutor.id, invoiceId);
+      if (!html) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      res.type('html').send(html);
+    } catch (error) {
+      console.error('Render invoice error:', error);
+      res.status(500).json({ error: "Failed to render invoice" });
+    }
+  });
+
   // Admin endpoints - check if user is admin first, then apply rate limiting
   // Uses server-side SQL aggregation for scalability (handles millions of sessions)
   app.get("/api/admin/metrics", authenticateUser, authorizeAdmin, adminLimiter, async (req, res) => {
@@ -930,41 +1709,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Session ID is required" });
       }
 
-      // Fetch session with student name
-      const { data: session, error } = await supabase
-        .from('sessions')
-        .select(`
-          id,
-          session_start,
-          session_end,
-          tutor_id,
-          student_id,
-          notes,
-          status,
-          google_calendar_event_id,
-          unassigned_name,
-          students (name)
-        `)
-        .eq('id', sessionId)
-        .single();
-
-      if (error || !session) {
+      const result = await syncSessionCalendarEvent(sessionId);
+      if (!result) {
         return res.status(404).json({ error: "Session not found" });
       }
 
-      const sessionData = {
-        ...session,
-        student_name: (session as any).students?.name
-      };
-
-      // If session already has a calendar event, update it; otherwise create new
-      let result;
-      if (session.google_calendar_event_id) {
-        result = await updateCalendarEvent(sessionData);
-        res.json({ success: result, action: 'updated' });
+      if (result.action === 'updated') {
+        res.json({ success: result.success, action: 'updated' });
       } else {
-        result = await createCalendarEvent(sessionData);
-        res.json({ success: !!result, action: 'created', eventId: result });
+        res.json({ success: result.success, action: 'created', eventId: result.eventId });
       }
     } catch (error) {
       console.error('Session sync error:', error);
@@ -0,0 +1,339 @@
+/**
+ * Invoices Service
+ * Makes numbered invoices from one student's sessions in a billing period and renders them
+ * as a printable HTML page (the browser's print dialog saves it as a PDF). Numbers are handed
+ * out by create_invoice() in migrations/create_invoices.sql.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import { escapeHtml } from "../email";
+import { sessionAmountDue, sessionAmountPaid } from "@shared/payments";
+import { formatInvoiceNumber, invoiceAmountDue, invoiceStatusLabel, type Invoice, type InvoiceItem, type InvoiceStatus } from "@shared/invoices";
+import type { CreateInvoiceInput } from "@shared/schema";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export type InvoiceRejection =
+  | 'student_not_found'
+  | 'no_sessions'; // nothing to bill in the period
+
+export const INVOICE_REJECTION_MESSAGES: Record<InvoiceRejection, string> = {
+  student_not_found: "Student not found.",
+  no_sessions: "This student has no sessions in the selected period.",
+};
+
+export type CreateInvoiceOutcome =
+  | { status: 'created'; invoice: Invoice }
+  | { status: 'rejected'; reason: InvoiceRejection };
+
+interface InvoiceTutor {
+  id: string;
+  timezone: string | null;
+  currency: string | null;
+  full_name: string | null;
+  email: string | null;
+}
+
+async function getInvoiceTutor(tutorId: string): Promise<InvoiceTutor> {
+  const { data, error } = await supabase
+    .from('tutors')
+    .select('id, timezone, currency, full_name, email')
+    .eq('id', tutorId)
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+function describeSession(duration: number, lessonTypeName?: string | null): string {
+  return `${lessonTypeName || 'Lesson'} (${duration} min)`;
+}
+
+export async function createInvoice(tutorId: string, input: CreateInvoiceInput): Promise<CreateInvoiceOutcome> {
+  const tutor = await getInvoiceTutor(tutorId);
+  const zone = tutor.timezone || 'UTC';
+
+  const { data: student } = await supabase
+    .from('students')
+    .select('id, name')
+    .eq('id', input.studentId)
+    .eq('tutor_id', tutorId)
+    .maybeSingle();
+
+  if (!student) {
+    return { status: 'rejected', reason: 'student_not_found' };
+  }
+
+  // The period is in whole days of the tutor's timezone
+  const from = dayjs.tz(input.periodStart, zone).startOf('day').utc().toISOString();
+  const until = dayjs.tz(input.periodEnd, zone).add(1, 'day').startOf('day').utc().toISOString();
+
+  const { data: sessions, error } = await supabase
+    .from('sessions')
+    .select('id, session_start, duration, rate, paid, amount_paid, lesson_types (name)')
+    .eq('tutor_id', tutorId)
+    .eq('student_id', student.id)
+    .gte('session_start', from)
+    .lt('session_start', until)
+    .or('status.is.null,status.not.in.(cancelled,pending)')
+    .order('session_start', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!sessions || sessions.length === 0) {
+    return { status: 'rejected', reason: 'no_sessions' };
+  }
+
+  const items = sessions.map((session: any) => {
+    const amount = sessionAmountDue(session);
+    return {
+      session_id: session.id,
+      session_start: session.session_start,
+      description: describeSession(session.duration, session.lesson_types?.name),
+      duration: session.duration,
+      rate: session.rate,
+      amount,
+      // Sessions settled by a package count as paid in full
+      amount_paid: session.paid ? amount : Math.min(sessionAmountPaid(session), amount),
+    };
+  });
+
+  const { data, error: rpcError } = await supabase.rpc('create_invoice', {
+    p_tutor_id: tutorId,
+    p_invoice: {
+      student_id: student.id,
+      student_name: student.name,
+      period_start: input.periodStart,
+      period_end: input.periodEnd,
+      issued_on: dayjs().tz(zone).format('YYYY-MM-DD'),
+      currency: tutor.currency || 'USD',
+      notes: input.notes || null,
+    },
+    p_items: items,
+  });
+
+  if (rpcError) {
+    throw new Error(rpcError.message);
+  }
+
+  return { status: 'created', invoice: data as Invoice };
+}
+
+/**
+ * Move an invoice between draft, sent and paid. Returns the updated invoice, or null if it
+ * doesn't exist or belongs to another tutor.
+ */
+export async function setInvoiceStatus(tutorId: string, invoiceId: string, status: InvoiceStatus): Promise<Invoice | null> {
+  const { data: current, error } = await supabase
+    .from('invoices')
+    .select('id, sent_at, paid_at')
+    .eq('id', invoiceId)
+    .eq('tutor_id', tutorId)
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '22P02') return null;
+    throw new Error(error.message);
+  }
+  if (!current) return null;
+
+  // Keep the first time it went out or was paid; going back clears them
+  const now = new Date().toISOString();
+  const { data, error: updateError } = await supabase
+    .from('invoices')
+    .update({
+      status,
+      sent_at: status === 'draft' ? null : current.sent_at ?? now,
+      paid_at: status === 'paid' ? current.paid_at ?? now : null,
+    })
+    .eq('id', invoiceId)
+    .eq('tutor_id', tutorId)
+    .select('*')
+    .single();
+
+  if (updateError) {
+    throw new Error(updateError.message);
+  }
+  return data;
+}
+
+export type DeleteInvoiceOutcome = 'deleted' | 'not_found' | 'not_draft';
+
+// Only drafts can be deleted; a sent invoice keeps its number
+export async function deleteInvoice(tutorId: string, invoiceId: string): Promise<DeleteInvoiceOutcome> {
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('id, status')
+    .eq('id', invoiceId)
+    .eq('tutor_id', tutorId)
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '22P02') return 'not_found';
+    throw new Error(error.message);
+  }
+  if (!invoice) return 'not_found';
+  if (invoice.status !== 'draft') return 'not_draft';
+
+  const { error: deleteError } = await supabase
+    .from('invoices')
+    .delete()
+    .eq('id', invoiceId)
+    .eq('tutor_id', tutorId);
+
+  if (deleteError) {
+    throw new Error(deleteError.message);
+  }
+  return 'deleted';
+}
+
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(Number(amount));
+  } catch {
+    // Not an ISO currency code
+    return `${Number(amount).toFixed(2)} ${currency}`;
+  }
+}
+
+const formatDay = (day: string) => dayjs(day).format('MMMM D, YYYY');
+
+function renderInvoice(invoice: Invoice, items: InvoiceItem[], tutor: InvoiceTutor): string {
+  const zone = tutor.timezone || 'UTC';
+  const money = (amount: number) => escapeHtml(formatMoney(amount, invoice.currency));
+  const number = formatInvoiceNumber(invoice.number);
+  const amountDue = invoiceAmountDue(invoice);
+
+  const rows = items.map(item => {
+    const start = dayjs.utc(item.session_start).tz(zone);
+    return `
+          <tr>
+            <td>${escapeHtml(start.format('MMM D, YYYY'))}<br><span class="muted">${escapeHtml(start.format('h:mm A'))}</span></td>
+            <td>${escapeHtml(item.description)}</td>
+            <td class="num">${money(item.rate)}/h</td>
+            <td class="num">${money(item.amount)}</td>
+          </tr>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Invoice ${number}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; color: #333; max-width: 760px; margin: 0 auto; padding: 40px 24px; line-height: 1.5; }
+    h1 { margin: 0; font-size: 28px; color: #6366f1; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    th { text-align: left; font-size: 12px; text-transform: uppercase; color: #6b7280; border-bottom: 2px solid #e5e7eb; padding: 8px 4px; }
+    td { border-bottom: 1px solid #f3f4f6; padding: 10px 4px; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; }
+    .muted { color: #6b7280; font-size: 13px; }
+    .header { display: flex; justify-content: space-between; align-items: flex-start; gap: 24px; }
+    .parties { display: flex; justify-content: space-between; gap: 24px; margin-top: 32px; }
+    .label { font-size: 12px; text-transform: uppercase; color: #6b7280; margin: 0 0 4px 0; }
+    .totals { margin-left: auto; margin-top: 16px; width: 280px; }
+    .totals div { display: flex; justify-content: space-between; padding: 4px 0; }
+    .totals .due { border-top: 2px solid #e5e7eb; margin-top: 4px; padding-top: 8px; font-weight: 700; font-size: 18px; }
+    .status { display: inline-block; padding: 2px 10px; border-radius: 999px; font-size: 12px; font-weight: 600; background: #eef2ff; color: #4f46e5; }
+    .notes { margin-top: 32px; padding: 12px 16px; background: #f8fafc; border-left: 4px solid #6366f1; white-space: pre-wrap; }
+    .print { margin-top: 32px; text-align: center; }
+    .print button { background: #6366f1; color: white; border: none; padding: 10px 20px; border-radius: 8px; font-size: 14px; cursor: pointer; }
+    @media print { .print { display: none; } body { padding: 0; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Invoice</h1>
+      <p class="muted" style="margin: 4px 0 0 0;">${escapeHtml(number)} · <span class="status">${escapeHtml(invoiceStatusLabel(invoice.status))}</span></p>
+    </div>
+    <div style="text-align: right;">
+      <p class="label">Issued</p>
+      <p style="margin: 0;">${escapeHtml(formatDay(invoice.issued_on))}</p>
+      <p class="label" style="margin-top: 8px;">Period</p>
+      <p style="margin: 0;">${escapeHtml(formatDay(invoice.period_start))} – ${escapeHtml(formatDay(invoice.period_end))}</p>
+    </div>
+  </div>
+
+  <div class="parties">
+    <div>
+      <p class="label">From</p>
+      <p style="margin: 0;"><strong>${escapeHtml(tutor.full_name || 'Tutor')}</strong></p>
+      ${tutor.email ? `<p class="muted" style="margin: 0;">${escapeHtml(tutor.email)}</p>` : ''}
+    </div>
+    <div style="text-align: right;">
+      <p class="label">Bill to</p>
+      <p style="margin: 0;"><strong>${escapeHtml(invoice.student_name)}</strong></p>
+    </div>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Date</th>
+        <th>Description</th>
+        <th class="num">Rate</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+
+  <div class="totals">
+    <div><span>Total</span><span>${money(invoice.total)}</span></div>
+    ${Number(invoice.amount_paid) > 0 ? `<div><span>Already paid</span><span>−${money(invoice.amount_paid)}</span></div>` : ''}
+    <div class="due"><span>Amount due</span><span>${money(invoice.status === 'paid' ? 0 : amountDue)}</span></div>
+  </div>
+
+  ${invoice.notes ? `<div class="notes">${escapeHtml(invoice.notes)}</div>` : ''}
+
+  <div class="print"><button onclick="window.print()">Print or save as PDF</button></div>
+</body>
+</html>`;
+}
+
+/**
+ * The invoice as a standalone HTML page, or null if it doesn't exist or belongs to another
+ * tutor. The tutor's name and email are read at render time.
+ */
+export async function renderInvoiceHtml(tutorId: string, invoiceId: string): Promise<string | null> {
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('id', invoiceId)
+    .eq('tutor_id', tutorId)
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '22P02') return null;
+    throw new Error(error.message);
+  }
+  if (!invoice) return null;
+
+  const { data: items, error: itemsError } = await supabase
+    .from('invoice_items')
+    .select('*')
+    .eq('invoice_id', invoiceId)
+    .order('session_start', { ascending: true });
+
+  if (itemsError) {
+    throw new Error(itemsError.message);
+  }
+
+  const tutor = await getInvoiceTutor(tutorId);
+  return renderInvoice(invoice, items || [], tutor);
+}
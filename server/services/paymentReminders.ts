@@ -0,0 +1,283 @@
+/**
+ * Payment Reminders Service
+ * Emails students what they owe on the schedule their tutor picked (see
+ * shared/paymentReminders.ts). Runs every hour; each student gets at most one email per run,
+ * and payment_reminder_sessions keeps a session from being reminded twice for the same step.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { sendPaymentReminderEmail } from "../email";
+import { appOrigin } from "../appUrl";
+import { sessionBalance } from "@shared/payments";
+import { dueReminderStep } from "@shared/paymentReminders";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const REMINDER_INTERVAL_MS = 60 * 60 * 1000;
+const FAILED_RETRY_MS = 24 * 60 * 60 * 1000;
+
+let reminderTimer: NodeJS.Timeout | null = null;
+
+interface ReminderTutor {
+  id: string;
+  full_name: string | null;
+  timezone: string | null;
+  currency: string | null;
+  payment_reminder_days: number[];
+}
+
+interface ReminderStudent {
+  id: string;
+  name: string;
+  email: string | null;
+  archived_at: string | null;
+  payment_reminders_opt_out: boolean;
+  reminder_unsubscribe_token: string;
+}
+
+interface ReminderSession {
+  id: string;
+  session_start: string;
+  duration: number;
+  rate: number;
+  paid: boolean | null;
+  amount_paid: number | null;
+  students: ReminderStudent | null;
+}
+
+interface UnsubscribedStudent {
+  id: string;
+  tutors: { full_name: string | null } | null;
+}
+
+function unsubscribeUrl(token: string): string {
+  return `${appOrigin()}/api/public/payment-reminders/unsubscribe/${token}`;
+}
+
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    // Not an ISO currency code
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+// Send the reminders one tutor's students are due. Returns how many emails went out.
+async function remindStudentsOf(tutor: ReminderTutor, now: Date): Promise<number> {
+  const days = tutor.payment_reminder_days.filter(day => day > 0);
+  if (days.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('id, session_start, duration, rate, paid, amount_paid, students (id, name, email, archived_at, payment_reminders_opt_out, reminder_unsubscribe_token)')
+    .eq('tutor_id', tutor.id)
+    .eq('paid', false)
+    .lt('session_start', now.toISOString())
+    .or('status.is.null,status.not.in.(cancelled,pending)')
+    .order('session_start', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const owed = ((data || []) as unknown as ReminderSession[]).filter(session =>
+    session.students?.email &&
+    !session.students.archived_at &&
+    !session.students.payment_reminders_opt_out &&
+    sessionBalance(session) > 0
+  );
+  if (owed.length === 0) return 0;
+
+  // The latest step each session was already reminded at
+  const lastStep = new Map<string, number>();
+  const { data: reminded, error: remindedError } = await supabase
+    .from('payment_reminder_sessions')
+    .select('session_id, days_after')
+    .in('session_id', owed.map(session => session.id));
+
+  if (remindedError) {
+    throw new Error(remindedError.message);
+  }
+  for (const row of reminded || []) {
+    lastStep.set(row.session_id, Math.max(lastStep.get(row.session_id) ?? 0, row.days_after));
+  }
+
+  // A failed email is tried again a day later rather than on every run
+  const { data: failed, error: failedError } = await supabase
+    .from('payment_reminders')
+    .select('student_id')
+    .eq('tutor_id', tutor.id)
+    .eq('status', 'failed')
+    .gte('created_at', new Date(now.getTime() - FAILED_RETRY_MS).toISOString());
+
+  if (failedError) {
+    throw new Error(failedError.message);
+  }
+  const recentlyFailed = new Set((failed || []).map(row => row.student_id));
+
+  const byStudent = new Map<string, ReminderSession[]>();
+  for (const session of owed) {
+    const studentId = session.students!.id;
+    if (recentlyFailed.has(studentId)) continue;
+    byStudent.set(studentId, [...(byStudent.get(studentId) || []), session]);
+  }
+
+  const currency = tutor.currency || 'USD';
+  const tutorName = tutor.full_name || 'Your tutor';
+  let sent = 0;
+
+  for (const sessions of Array.from(byStudent.values())) {
+    const due = sessions
+      .map(session => ({ session, step: dueReminderStep(session.session_start, days, lastStep.get(session.id) ?? null, now) }))
+      .filter((entry): entry is { session: ReminderSession; step: number } => entry.step !== null);
+    if (due.length === 0) continue;
+
+    // One email about everything the student owes, not only the sessions that triggered it
+    const student = sessions[0].students!;
+    const total = Math.round(sessions.reduce((sum, session) => sum + sessionBalance(session), 0) * 100) / 100;
+    const step = Math.max(...due.map(entry => entry.step));
+
+    const result = await sendPaymentReminderEmail({
+      to: student.email!,
+      studentName: student.name,
+      tutorName,
+      timezone: tutor.timezone,
+      sessions: sessions.map(session => ({
+        sessionStart: session.session_start,
+        duration: session.duration,
+        amount: formatMoney(sessionBalance(session), currency),
+      })),
+      total: formatMoney(total, currency),
+      unsubscribeUrl: unsubscribeUrl(student.reminder_unsubscribe_token),
+    });
+
+    const { data: reminder, error: logError } = await supabase
+      .from('payment_reminders')
+      .insert({
+        tutor_id: tutor.id,
+        student_id: student.id,
+        sent_to: student.email,
+        days_after: step,
+        session_count: sessions.length,
+        amount: total,
+        currency,
+        status: result.success ? 'sent' : 'failed',
+        error: result.error ?? null,
+      })
+      .select('id')
+      .single();
+
+    if (logError) {
+      throw new Error(logError.message);
+    }
+
+    if (result.success) {
+      const { error: stepsError } = await supabase
+        .from('payment_reminder_sessions')
+        .insert(due.map(entry => ({ reminder_id: reminder.id, session_id: entry.session.id, days_after: entry.step })));
+
+      if (stepsError) {
+        throw new Error(stepsError.message);
+      }
+      sent++;
+    }
+  }
+
+  return sent;
+}
+
+// Send every reminder that is due. Returns how many emails went out.
+export async function sendDueReminders(now: Date = new Date()): Promise<number> {
+  const { data: tutors, error } = await supabase
+    .from('tutors')
+    .select('id, full_name, timezone, currency, payment_reminder_days')
+    .eq('payment_reminders_enabled', true);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  let sent = 0;
+  for (const tutor of (tutors || []) as ReminderTutor[]) {
+    try {
+      sent += await remindStudentsOf(tutor, now);
+    } catch (tutorError) {
+      // One tutor's bad data shouldn't hold up everyone else's reminders
+      console.error(`❌ Payment reminders failed for tutor ${tutor.id}:`, tutorError);
+    }
+  }
+  return sent;
+}
+
+/**
+ * Look up whose reminders an unsubscribe link is for, without changing anything (the link is
+ * opened with a GET, which mail scanners do on their own). Null if the token is unknown.
+ */
+export async function getReminderSubscription(token: string): Promise<{ tutorName: string; optedOut: boolean } | null> {
+  const { data, error } = await supabase
+    .from('students')
+    .select('id, payment_reminders_opt_out, tutors (full_name)')
+    .eq('reminder_unsubscribe_token', token)
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '22P02') return null;
+    throw new Error(error.message);
+  }
+  if (!data) return null;
+
+  const student = data as unknown as UnsubscribedStudent & { payment_reminders_opt_out: boolean };
+  return { tutorName: student.tutors?.full_name || 'your tutor', optedOut: student.payment_reminders_opt_out };
+}
+
+/**
+ * Opt a student out of reminders once they confirm on the unsubscribe page. Returns the tutor's name for the
+ * confirmation page, or null if the token is unknown.
+ */
+export async function unsubscribeFromReminders(token: string): Promise<{ tutorName: string } | null> {
+  const { data, error } = await supabase
+    .from('students')
+    .update({ payment_reminders_opt_out: true })
+    .eq('reminder_unsubscribe_token', token)
+    .select('id, tutors (full_name)')
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '22P02') return null;
+    throw new Error(error.message);
+  }
+  if (!data) return null;
+
+  const student = data as unknown as UnsubscribedStudent;
+  return { tutorName: student.tutors?.full_name || 'your tutor' };
+}
+
+export function startPaymentReminders() {
+  if (reminderTimer) return;
+
+  // Without an email provider every attempt would just be logged as failed
+  if (!process.env.RESEND_API_KEY) {
+    console.log('⚠️ RESEND_API_KEY not set, payment reminder emails are off');
+    return;
+  }
+
+  const run = () => {
+    sendDueReminders()
+      .then(count => {
+        if (count > 0) {
+          console.log(`📧 Sent ${count} payment reminder email(s)`);
+        }
+      })
+      .catch(error => {
+        console.error('❌ Payment reminders failed:', error);
+      });
+  };
+
+  run();
+  reminderTimer = setInterval(run, REMINDER_INTERVAL_MS);
+  console.log('📧 Payment reminders scheduled every hour');
+}
@@ -0,0 +1,173 @@
+/**
+ * Payments Service
+ * Records payments against sessions and removes them again. The split over sessions is
+ * worked out here with shared/payments.ts; the Postgres functions in
+ * migrations/create_payments.sql write the payment, its allocations and the sessions'
+ * amount_paid in one go and refuse anything that would overpay a session.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { allocatePayment, sessionBalance, type PayableSession, type RecordPaymentResult } from "@shared/payments";
+import type { RecordPaymentInput } from "@shared/schema";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export type PaymentRejection =
+  | 'session_not_found' // unknown, another tutor's, or cancelled
+  | 'mixed_students' // one payment comes from one student
+  | 'exceeds_balance'; // more than the sessions still owe
+
+export const PAYMENT_REJECTION_MESSAGES: Record<PaymentRejection, string> = {
+  session_not_found: "One or more sessions could not be found or were cancelled.",
+  mixed_students: "A payment can only cover sessions of one student.",
+  exceeds_balance: "The amount is more than these sessions still owe.",
+};
+
+export type RecordPaymentOutcome =
+  | ({ status: 'recorded' } & RecordPaymentResult)
+  | { status: 'rejected'; reason: PaymentRejection };
+
+interface PaymentSessionRow extends PayableSession {
+  student_id: string | null;
+}
+
+export async function recordPayment(tutorId: string, input: RecordPaymentInput): Promise<RecordPaymentOutcome> {
+  const sessionIds = Array.from(new Set(input.sessionIds));
+
+  const { data: sessions, error } = await supabase
+    .from('sessions')
+    .select('id, student_id, session_start, duration, rate, amount_paid, paid')
+    .eq('tutor_id', tutorId)
+    .in('id', sessionIds)
+    .or('status.is.null,status.neq.cancelled');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rows = (sessions || []) as PaymentSessionRow[];
+  if (rows.length !== sessionIds.length) {
+    return { status: 'rejected', reason: 'session_not_found' };
+  }
+
+  const studentIds = new Set(rows.map(row => row.student_id));
+  if (studentIds.size > 1) {
+    return { status: 'rejected', reason: 'mixed_students' };
+  }
+
+  const allocations = allocatePayment(input.amount, rows);
+  if (!allocations || allocations.length === 0) {
+    return { status: 'rejected', reason: 'exceeds_balance' };
+  }
+
+  const { data, error: rpcError } = await supabase.rpc('record_payment', {
+    p_tutor_id: tutorId,
+    p_payment: {
+      student_id: rows[0].student_id,
+      amount: input.amount,
+      payment_date: input.paymentDate,
+      method: input.method,
+      note: input.note || null,
+    },
+    p_allocations: allocations,
+  });
+
+  if (rpcError) {
+    // Another payment for the same sessions got in first
+    if (rpcError.code === '22023') {
+      return { status: 'rejected', reason: 'exceeds_balance' };
+    }
+    throw new Error(rpcError.message);
+  }
+
+  return { status: 'recorded', ...(data as RecordPaymentResult) };
+}
+
+/**
+ * Record whatever the sessions still owe as paid in full, one payment per student. For places
+ * without a payment form (the Telegram daily summary). Sessions of other tutors, cancelled or
+ * already paid ones are skipped; ones with nothing left to pay (a free lesson, a rate of 0) are
+ * just marked paid. Returns the ids of the sessions that were settled.
+ */
+export async function settleSessions(
+  tutorId: string,
+  sessionIds: string[],
+  payment: Pick<RecordPaymentInput, 'paymentDate' | 'method' | 'note'>
+): Promise<string[]> {
+  if (sessionIds.length === 0) return [];
+
+  const { data: sessions, error } = await supabase
+    .from('sessions')
+    .select('id, student_id, session_start, duration, rate, amount_paid, paid')
+    .eq('tutor_id', tutorId)
+    .in('id', sessionIds)
+    .or('status.is.null,status.neq.cancelled');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const byStudent = new Map<string, PaymentSessionRow[]>();
+  const nothingOwed: string[] = [];
+  for (const session of (sessions || []) as PaymentSessionRow[]) {
+    if (session.paid === true) continue;
+    if (sessionBalance(session) <= 0) {
+      nothingOwed.push(session.id);
+      continue;
+    }
+    const key = session.student_id ?? '';
+    byStudent.set(key, [...(byStudent.get(key) || []), session]);
+  }
+
+  const settled: string[] = [];
+  if (nothingOwed.length > 0) {
+    // No payment to record, so there's nothing for record_payment to allocate either
+    const { data: marked, error: markError } = await supabase
+      .from('sessions')
+      .update({ paid: true })
+      .eq('tutor_id', tutorId)
+      .in('id', nothingOwed)
+      .or('paid.is.null,paid.eq.false')
+      .select('id');
+
+    if (markError) {
+      throw new Error(markError.message);
+    }
+    settled.push(...(marked || []).map(session => session.id));
+  }
+
+  for (const studentSessions of Array.from(byStudent.values())) {
+    const amount = studentSessions.reduce((total, session) => total + sessionBalance(session), 0);
+    const outcome = await recordPayment(tutorId, {
+      ...payment,
+      amount: Math.round(amount * 100) / 100,
+      sessionIds: studentSessions.map(session => session.id),
+    });
+    // Rejected only when another payment got in first, which settles them just the same
+    if (outcome.status === 'recorded') {
+      settled.push(...studentSessions.map(session => session.id));
+    }
+  }
+  return settled;
+}
+
+/**
+ * Delete a payment and take it off the sessions it covered. Returns the ids of those
+ * sessions, or null if the payment doesn't exist or belongs to another tutor.
+ */
+export async function deletePayment(tutorId: string, paymentId: string): Promise<string[] | null> {
+  const { data, error } = await supabase.rpc('delete_payment', {
+    p_tutor_id: tutorId,
+    p_payment_id: paymentId,
+  });
+
+  if (error) {
+    if (error.code === 'P0002' || error.code === '22P02') return null;
+    throw new Error(error.message);
+  }
+
+  return (data as { session_ids: string[] }).session_ids;
+}
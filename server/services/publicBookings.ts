@@ -0,0 +1,573 @@
+/**
+ * Public Booking Service
+ * Booking requests from the public booking page. The availability window check, the
+ * overlap check and the insert run in one Postgres function that locks the tutor row
+ * (migrations/create_public_booking_function.sql), so two students racing for the same
+ * time can't both get a pending session. Accepting / declining a request also lives here
+ * so the student gets an email either way, as does the student's own cancel / reschedule
+ * through the booking's management token (/booking/manage/:token). Tutors with auto-accept
+ * on get matching requests confirmed straight away and linked to the student.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import crypto from "crypto";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import type {
+  BookingAutoAccept,
+  BookingRequiredField,
+  ManagedBooking,
+  PublicBookingInput,
+  PublicBookingRejection,
+  ReschedulePublicBookingInput,
+} from "@shared/schema";
+import { bookingRulesFromTutor } from "@shared/bookingRules";
+import { buffersFromTutor, findConflicts, type BufferSettings, type TimeRange } from "@shared/conflicts";
+import { TEMPLATE_HORIZON_DAYS, expandAvailabilityTemplates } from "@shared/availabilityTemplates";
+import type { LessonType } from "@shared/lessonTypes";
+import { rateDateOf, rateOn } from "@shared/studentRates";
+import { sendBookingDecisionEmail, sendBookingRequestEmail } from "../email";
+import { appOrigin } from "../appUrl";
+import { unmaterializedOccurrences } from "./sessionSeries";
+
+dayjs.extend(utc);
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export type PublicBookingResult =
+  | { status: 'created'; session: any; managementToken: string; studentName?: string } // studentName is set when auto-accepted
+  | { status: 'rejected'; reason: PublicBookingRejection; conflictStart?: string };
+
+// Shown to the student as-is
+export const PUBLIC_BOOKING_REJECTION_MESSAGES: Record<PublicBookingRejection, string> = {
+  tutor_not_found: "This tutor could not be found.",
+  missing_contact: "Please fill in all required contact details.",
+  in_past: "This time has already passed. Please choose a later time.",
+  outside_availability: "This time is outside the tutor's available hours. Please choose a different time.",
+  conflict: "This time was just booked by someone else or is too close to another session. Please choose a different time.",
+  too_soon: "This time is too soon. The tutor needs more notice before a session.",
+  too_far_ahead: "This time is too far ahead. Please choose an earlier date.",
+  duration_not_allowed: "The tutor doesn't offer sessions of this length. Please choose a different duration.",
+  invalid_start_time: "Please choose one of the offered start times.",
+  daily_cap_reached: "The tutor is fully booked on this day. Please choose a different day.",
+  lesson_type_unavailable: "This lesson type isn't available at this time. Please choose a different time or lesson.",
+  not_found: "This booking could not be found. It may have been cancelled or declined.",
+  too_late: "This booking can no longer be changed online. Please contact your tutor directly.",
+};
+
+export type ManageBookingResult =
+  | { status: 'cancelled' | 'rescheduled'; session: any }
+  | { status: 'rejected'; reason: PublicBookingRejection; conflictStart?: string };
+
+export type BookingDecision = 'accepted' | 'declined';
+
+interface BookingRequestRow {
+  id: string;
+  tutor_id: string;
+  unassigned_name: string | null;
+  session_start: string;
+  duration: number;
+  status: string | null;
+  booking_email: string | null;
+  booking_phone: string | null;
+  booking_timezone: string | null;
+  lesson_type_id: string | null;
+  booking_management_tokens: { token: string } | null;
+}
+
+const BOOKING_REQUEST_COLUMNS = 'id, tutor_id, unassigned_name, session_start, duration, status, booking_email, booking_phone, booking_timezone, lesson_type_id, booking_management_tokens (token)';
+
+function generateManagementToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+export function manageBookingUrl(token: string | null): string | undefined {
+  return token ? `${appOrigin()}/booking/manage/${token}` : undefined;
+}
+
+// An active student with the same email, or else the same name. Ambiguous matches don't count.
+async function findMatchingStudent(tutorId: string, name: string, email: string | null): Promise<{ id: string; name: string } | null> {
+  const { data: students } = await supabase
+    .from('students')
+    .select('id, name, email')
+    .eq('tutor_id', tutorId)
+    .is('archived_at', null);
+
+  if (!students) return null;
+
+  if (email) {
+    const byEmail = students.filter(student => student.email?.trim().toLowerCase() === email.toLowerCase());
+    if (byEmail.length === 1) return byEmail[0];
+  }
+
+  const byName = students.filter(student => student.name?.trim().toLowerCase() === name.toLowerCase());
+  return byName.length === 1 ? byName[0] : null;
+}
+
+/**
+ * The student an auto-accepted request is linked to, or null when the request should wait
+ * for the tutor. In 'everyone' mode a request nobody matches gets a new student record, which
+ * create_public_booking only adds once the request has passed its checks (id is null until then).
+ */
+async function autoAcceptStudent(
+  tutorId: string,
+  mode: BookingAutoAccept,
+  contact: { name: string; email: string | null }
+): Promise<{ id: string | null; name: string } | null> {
+  if (mode === 'off') return null;
+
+  const match = await findMatchingStudent(tutorId, contact.name, contact.email);
+  if (match || mode === 'known_students') return match;
+
+  return { id: null, name: contact.name };
+}
+
+async function createStudentFromBooking(
+  tutorId: string,
+  contact: { name: string; email: string | null; phone: string | null }
+): Promise<{ id: string; name: string }> {
+  const { data: created, error } = await supabase
+    .from('students')
+    .insert([{ tutor_id: tutorId, name: contact.name, email: contact.email, phone: contact.phone }])
+    .select('id, name')
+    .single();
+
+  if (error) throw error;
+  console.log(`👤 Created student ${created.id} for booking from ${contact.name}`);
+  return created;
+}
+
+// Without a lesson type, a booking linked to a student costs the student's rate on its date
+async function studentRateOn(tutorId: string, studentId: string, sessionStart: string): Promise<number | null> {
+  const [{ data: tutor }, { data: history, error }] = await Promise.all([
+    supabase.from('tutors').select('timezone').eq('id', tutorId).maybeSingle(),
+    supabase.from('student_rates').select('*').eq('student_id', studentId),
+  ]);
+
+  if (error) throw new Error(error.message);
+  return rateOn(history || [], rateDateOf(sessionStart, tutor?.timezone || 'UTC'));
+}
+
+/**
+ * public_booking_rejection only sees recurring lessons that exist as session rows, which is
+ * as far as the tutor's calendar has generated them. Occurrences past that are expanded in
+ * memory and checked here, without writing anything. Returns the start of the first one
+ * that's in the way.
+ */
+async function seriesConflictStart(tutorId: string, range: TimeRange, buffers: BufferSettings): Promise<string | null> {
+  const occurrences = await unmaterializedOccurrences(
+    tutorId,
+    dayjs.utc(range.start).subtract(1, 'day').toISOString(),
+    dayjs.utc(range.end).add(1, 'day').toISOString()
+  );
+  const conflicts = findConflicts(
+    [range],
+    occurrences.map(occurrence => ({
+      id: `${occurrence.seriesId}:${occurrence.start}`,
+      session_start: occurrence.start,
+      session_end: occurrence.end,
+      recurrence_id: occurrence.seriesId,
+    })),
+    { buffers }
+  );
+  return conflicts[0]?.session.session_start ?? null;
+}
+
+async function getTutorName(tutorId: string): Promise<string> {
+  const { data } = await supabase
+    .from('tutors')
+    .select('full_name')
+    .eq('id', tutorId)
+    .maybeSingle();
+
+  return data?.full_name || 'Your tutor';
+}
+
+// Emails are best-effort: a failed send is logged, never surfaced to the caller
+function notifyStudent(send: () => Promise<{ success: boolean; error?: string }>, what: string) {
+  send()
+    .then(result => {
+      if (!result.success) {
+        console.error(`⚠️ Failed to send ${what} email: ${result.error}`);
+      }
+    })
+    .catch(error => console.error(`⚠️ Failed to send ${what} email:`, error));
+}
+
+export async function createPublicBooking(tutorId: string, input: PublicBookingInput): Promise<PublicBookingResult> {
+  const start = dayjs.utc(input.sessionStart);
+  const name = input.name.trim();
+  const email = input.email?.trim() || null;
+  const phone = input.phone?.trim() || null;
+
+  const { data: tutor } = await supabase
+    .from('tutors')
+    .select('id, full_name, booking_required_fields, booking_auto_accept, buffer_before_minutes, buffer_after_minutes')
+    .eq('id', tutorId)
+    .maybeSingle();
+
+  if (!tutor) {
+    return { status: 'rejected', reason: 'tutor_not_found' };
+  }
+
+  const required: BookingRequiredField[] = tutor.booking_required_fields || [];
+  if ((required.includes('email') && !email) || (required.includes('phone') && !phone)) {
+    return { status: 'rejected', reason: 'missing_contact' };
+  }
+
+  const end = start.add(input.duration, 'minute');
+  const seriesConflict = await seriesConflictStart(tutorId, { start: start.toISOString(), end: end.toISOString() }, buffersFromTutor(tutor));
+  if (seriesConflict) {
+    return { status: 'rejected', reason: 'conflict', conflictStart: seriesConflict };
+  }
+
+  const managementToken = generateManagementToken();
+  const student = await autoAcceptStudent(tutorId, tutor.booking_auto_accept || 'off', { name, email });
+  const rate = student?.id ? await studentRateOn(tutorId, student.id, start.toISOString()) : null;
+
+  const { data, error } = await supabase.rpc('create_public_booking', {
+    p_tutor_id: tutorId,
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+    p_booking: {
+      unassigned_name: name,
+      notes: `Booking request from ${name}`,
+      duration: input.duration,
+      rate: rate ?? 0,
+      booking_email: email,
+      booking_phone: phone,
+      booking_timezone: input.timezone || null,
+      management_token: managementToken,
+      lesson_type_id: input.lessonTypeId ?? null,
+      student_id: student?.id ?? null,
+      new_student: student && !student.id ? { name, email, phone } : null,
+      status: student ? 'confirmed' : 'pending',
+    },
+  });
+
+  if (error) throw error;
+
+  if (data.status === 'created') {
+    if (student && !student.id) {
+      console.log(`👤 Created student ${data.session.student_id} for booking from ${name}`);
+    }
+    if (email) {
+      const emailParams = {
+        to: email,
+        studentName: name,
+        tutorName: tutor.full_name,
+        sessionStart: data.session.session_start,
+        duration: input.duration,
+        timezone: input.timezone,
+        manageUrl: manageBookingUrl(managementToken),
+      };
+      if (student) {
+        notifyStudent(() => sendBookingDecisionEmail({ ...emailParams, decision: 'accepted' }), 'booking accepted');
+      } else {
+        notifyStudent(() => sendBookingRequestEmail(emailParams), 'booking request');
+      }
+    }
+    return { status: 'created', session: data.session, managementToken, studentName: student?.name };
+  }
+
+  return {
+    status: 'rejected',
+    reason: data.reason,
+    conflictStart: data.conflict_start ?? undefined,
+  };
+}
+
+async function getPendingRequest(tutorId: string, sessionId: string): Promise<BookingRequestRow | null> {
+  const { data } = await supabase
+    .from('sessions')
+    .select(BOOKING_REQUEST_COLUMNS)
+    .eq('id', sessionId)
+    .eq('tutor_id', tutorId)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  return data as unknown as BookingRequestRow | null;
+}
+
+function notifyDecision(request: BookingRequestRow, decision: BookingDecision, tutorName: string) {
+  if (!request.booking_email) return;
+
+  const to = request.booking_email;
+  notifyStudent(() => sendBookingDecisionEmail({
+    to,
+    studentName: request.unassigned_name || 'there',
+    tutorName,
+    sessionStart: request.session_start,
+    duration: request.duration,
+    timezone: request.booking_timezone,
+    decision,
+    manageUrl: decision === 'accepted' ? manageBookingUrl(request.booking_management_tokens?.token ?? null) : undefined,
+  }), `booking ${decision}`);
+}
+
+/**
+ * Confirm a pending request and assign it to one of the tutor's students.
+ * Returns null when the request doesn't exist or was already handled.
+ */
+export async function acceptBookingRequest(tutorId: string, sessionId: string, studentId: string) {
+  const request = await getPendingRequest(tutorId, sessionId);
+  if (!request) return null;
+
+  // A lesson type already priced the session
+  const rate = request.lesson_type_id ? null : await studentRateOn(tutorId, studentId, request.session_start);
+
+  const { data, error } = await supabase
+    .from('sessions')
+    .update({
+      student_id: studentId,
+      unassigned_name: null,
+      status: 'confirmed',
+      ...(rate !== null && { rate }),
+    })
+    .eq('id', sessionId)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  notifyDecision(request, 'accepted', await getTutorName(tutorId));
+  return data;
+}
+
+/**
+ * Accept a pending request without the tutor picking a student (the Telegram buttons): it goes to
+ * the student with the same email or name, or to a new student made from the booking's contact
+ * details. Returns null when the request doesn't exist or was already handled.
+ */
+export async function acceptBookingRequestForBooker(tutorId: string, sessionId: string) {
+  const request = await getPendingRequest(tutorId, sessionId);
+  if (!request) return null;
+
+  const contact = {
+    name: request.unassigned_name?.trim() || 'New student',
+    email: request.booking_email,
+    phone: request.booking_phone,
+  };
+  const student = await findMatchingStudent(tutorId, contact.name, contact.email)
+    ?? await createStudentFromBooking(tutorId, contact);
+
+  const session = await acceptBookingRequest(tutorId, sessionId, student.id);
+  return session ? { session, studentName: student.name } : null;
+}
+
+// Decline (and remove) a pending request. Returns false when there was nothing to decline.
+export async function declineBookingRequest(tutorId: string, sessionId: string): Promise<boolean> {
+  const request = await getPendingRequest(tutorId, sessionId);
+  if (!request) return false;
+
+  const { data, error } = await supabase
+    .from('sessions')
+    .delete()
+    .eq('id', sessionId)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) return false;
+
+  notifyDecision(request, 'declined', await getTutorName(tutorId));
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Student self-service through the management token
+// ---------------------------------------------------------------------------
+
+interface ManagedSessionRow {
+  id: string;
+  tutor_id: string;
+  unassigned_name: string | null;
+  session_start: string;
+  session_end: string;
+  duration: number;
+  status: string | null;
+  google_calendar_event_id: string | null;
+  students: { name: string } | null;
+  lesson_types: LessonType | null;
+  tutors: {
+    id: string;
+    full_name: string;
+    avatar_url: string | null;
+    booking_change_cutoff_hours: number | null;
+    timezone: string | null;
+    buffer_before_minutes: number | null;
+    buffer_after_minutes: number | null;
+    booking_min_notice_hours: number | null;
+    booking_max_days_ahead: number | null;
+    booking_allowed_durations: number[] | null;
+    slot_granularity_minutes: number | null;
+    booking_daily_cap: number | null;
+  } | null;
+}
+
+async function getManagedSession(token: string): Promise<ManagedSessionRow | null> {
+  const { data } = await supabase
+    .from('sessions')
+    .select(`
+      id, tutor_id, unassigned_name, session_start, session_end, duration, status, google_calendar_event_id,
+      students (name),
+      lesson_types (*),
+      tutors (
+        id, full_name, avatar_url, timezone, booking_change_cutoff_hours, buffer_before_minutes, buffer_after_minutes,
+        booking_min_notice_hours, booking_max_days_ahead, booking_allowed_durations, slot_granularity_minutes, booking_daily_cap
+      ),
+      booking_management_tokens!inner (token)
+    `)
+    .eq('booking_management_tokens.token', token)
+    .or('status.is.null,status.neq.cancelled')
+    .maybeSingle();
+
+  return data as unknown as ManagedSessionRow | null;
+}
+
+function changeDeadline(session: ManagedSessionRow): dayjs.Dayjs {
+  const cutoffHours = session.tutors?.booking_change_cutoff_hours ?? 24;
+  return dayjs.utc(session.session_start).subtract(cutoffHours, 'hour');
+}
+
+function canStillChange(session: ManagedSessionRow): boolean {
+  return dayjs.utc().isBefore(changeDeadline(session));
+}
+
+export async function getManagedBooking(token: string): Promise<ManagedBooking | null> {
+  const session = await getManagedSession(token);
+  if (!session || !session.tutors) return null;
+
+  const now = dayjs.utc().toISOString();
+  const rules = bookingRulesFromTutor(session.tutors);
+  const tutorTimezone = session.tutors.timezone || 'UTC';
+
+  const [{ data: slots }, { data: busy }, { data: templates }, { data: exceptions }, { data: timeOff }] = await Promise.all([
+    supabase
+      .from('booking_slots')
+      .select('id, start_time, end_time')
+      .eq('tutor_id', session.tutor_id)
+      .eq('is_active', true)
+      .gte('end_time', now)
+      .order('start_time', { ascending: true }),
+    supabase
+      .from('sessions')
+      .select('id, session_start, session_end, status')
+      .eq('tutor_id', session.tutor_id)
+      .neq('id', session.id)
+      .gte('session_end', now)
+      .or('status.is.null,status.neq.cancelled'),
+    supabase
+      .from('availability_templates')
+      .select('*')
+      .eq('tutor_id', session.tutor_id),
+    supabase
+      .from('availability_exceptions')
+      .select('*')
+      .eq('tutor_id', session.tutor_id)
+      .gte('exception_date', dayjs.utc().subtract(1, 'day').format('YYYY-MM-DD')),
+    supabase
+      .from('time_off')
+      .select('starts_at, ends_at')
+      .eq('tutor_id', session.tutor_id)
+      .gt('ends_at', now),
+  ]);
+
+  const templateWindows = expandAvailabilityTemplates(
+    templates || [],
+    exceptions || [],
+    tutorTimezone,
+    now,
+    dayjs.utc().add(rules.maxDaysAhead ?? TEMPLATE_HORIZON_DAYS, 'day').toISOString()
+  ).map(({ id, start_time, end_time }) => ({ id, start_time, end_time }));
+
+  return {
+    booking: {
+      id: session.id,
+      name: session.unassigned_name || session.students?.name || '',
+      session_start: session.session_start,
+      session_end: session.session_end,
+      duration: session.duration,
+      status: session.status || 'scheduled',
+    },
+    tutor: {
+      id: session.tutors.id,
+      full_name: session.tutors.full_name,
+      avatar_url: session.tutors.avatar_url,
+    },
+    cutoffHours: session.tutors.booking_change_cutoff_hours ?? 24,
+    changeDeadline: changeDeadline(session).toISOString(),
+    canChange: canStillChange(session),
+    slots: [...(slots || []), ...templateWindows].sort((a, b) => dayjs.utc(a.start_time).diff(dayjs.utc(b.start_time))),
+    busy: busy || [],
+    buffers: {
+      before: session.tutors.buffer_before_minutes ?? 0,
+      after: session.tutors.buffer_after_minutes ?? 0,
+    },
+    timeOff: timeOff || [],
+    lessonType: session.lesson_types,
+    rules,
+    tutorTimezone,
+  };
+}
+
+export async function cancelManagedBooking(token: string): Promise<ManageBookingResult> {
+  const session = await getManagedSession(token);
+  if (!session) return { status: 'rejected', reason: 'not_found' };
+  if (!canStillChange(session)) return { status: 'rejected', reason: 'too_late' };
+
+  const { data, error } = await supabase
+    .from('sessions')
+    .update({
+      status: 'cancelled',
+      cancellation_reason: 'student',
+      cancelled_at: new Date().toISOString(),
+      cancellation_note: 'Cancelled by the student from their booking link',
+      cancellation_source: 'single',
+    })
+    .eq('id', session.id)
+    .or('status.is.null,status.neq.cancelled')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return { status: 'rejected', reason: 'not_found' };
+
+  return { status: 'cancelled', session: data };
+}
+
+export async function rescheduleManagedBooking(token: string, input: ReschedulePublicBookingInput): Promise<ManageBookingResult> {
+  const session = await getManagedSession(token);
+  if (!session) return { status: 'rejected', reason: 'not_found' };
+  if (!canStillChange(session)) return { status: 'rejected', reason: 'too_late' };
+
+  const start = dayjs.utc(input.sessionStart);
+  const end = start.add(session.duration, 'minute');
+  const seriesConflict = await seriesConflictStart(session.tutor_id, { start: start.toISOString(), end: end.toISOString() }, buffersFromTutor(session.tutors));
+  if (seriesConflict) {
+    return { status: 'rejected', reason: 'conflict', conflictStart: seriesConflict };
+  }
+
+  const { data, error } = await supabase.rpc('reschedule_public_booking', {
+    p_session_id: session.id,
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+  });
+
+  if (error) throw error;
+
+  if (data.status === 'rescheduled') {
+    return { status: 'rescheduled', session: data.session };
+  }
+
+  return {
+    status: 'rejected',
+    reason: data.reason,
+    conflictStart: data.conflict_start ?? undefined,
+  };
+}
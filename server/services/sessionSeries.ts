@@ -0,0 +1,504 @@
+/**
+ * Recurring Session Series Service
+ * Server-side create / edit / delete for session series. Occurrence dates are expanded
+ * here with shared/recurrence.ts and every write goes through one Postgres function
+ * (migrations/create_session_series_functions.sql), so a failure never leaves half a series.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import timezone from "dayjs/plugin/timezone.js";
+import {
+  expandRecurrence,
+  ruleToSeriesColumns,
+  seriesToRule,
+  type RecurrenceOccurrence,
+  type RecurrenceRule,
+} from "@shared/recurrence";
+import { rateDateOf, seriesOccurrenceRate, type StudentRate } from "@shared/studentRates";
+import type {
+  CancelSessionSeriesInput,
+  CreateSessionSeriesInput,
+  SessionSeries,
+  SessionSeriesWriteResult,
+  UpdateSessionSeriesInput,
+} from "@shared/schema";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// How far ahead occurrences are kept as real session rows (matches the client)
+const SERIES_HORIZON_WEEKS = 12;
+
+interface SeriesSession {
+  id: string;
+  session_start: string;
+  recurrence_id: string | null;
+}
+
+function defaultHorizon(): string {
+  return dayjs.utc().add(SERIES_HORIZON_WEEKS, 'week').toISOString();
+}
+
+function laterOf(a: string, b: string): string {
+  return dayjs.utc(a).isAfter(dayjs.utc(b)) ? a : b;
+}
+
+function toOccurrenceRows(occurrences: RecurrenceOccurrence[], notes: string | null) {
+  return occurrences.map(occurrence => ({
+    session_start: occurrence.start,
+    session_end: occurrence.end,
+    notes,
+  }));
+}
+
+async function loadRateHistory(studentId: string | null): Promise<StudentRate[]> {
+  if (!studentId) return [];
+
+  const { data, error } = await supabase
+    .from('student_rates')
+    .select('*')
+    .eq('student_id', studentId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data || [];
+}
+
+// Occurrences after a rate change that starts later than the series get the new rate
+function withOccurrenceRates<T extends { session_start: string }>(
+  rows: T[],
+  seriesRate: number,
+  history: StudentRate[],
+  firstSessionStart: string,
+  tz: string
+) {
+  const firstDate = rateDateOf(firstSessionStart, tz);
+  return rows.map(row => ({
+    ...row,
+    rate: seriesOccurrenceRate(seriesRate, history, firstDate, rateDateOf(row.session_start, tz)),
+  }));
+}
+
+// Last local date before `fromUtc`, used to end a series right before a given occurrence
+function dayBefore(fromUtc: string, tz: string): string {
+  return dayjs.utc(fromUtc).tz(tz).subtract(1, 'day').format('YYYY-MM-DD');
+}
+
+// Series-wide actions never reach back before now, even when started from a past session
+function upcomingFrom(fromSession: SeriesSession | null): string {
+  const now = dayjs.utc().toISOString();
+  return fromSession ? laterOf(fromSession.session_start, now) : now;
+}
+
+function toWriteResult(data: any): SessionSeriesWriteResult {
+  return {
+    series: data?.series ?? null,
+    sessions: data?.sessions ?? [],
+    removedEventIds: data?.removed_event_ids ?? [],
+  };
+}
+
+// For an existing session, input.firstSessionStart must be that session's start
+export async function createSeries(
+  tutorId: string,
+  input: CreateSessionSeriesInput
+): Promise<SessionSeriesWriteResult> {
+  const { firstSessionStart } = input;
+  const rule: RecurrenceRule = input.rule;
+  const materializedUntil = laterOf(defaultHorizon(), firstSessionStart);
+  const occurrences = expandRecurrence({
+    rule,
+    firstSessionStart,
+    duration: input.duration,
+    timezone: input.timezone,
+    toUtc: materializedUntil,
+  });
+
+  const seriesNotes = input.applyNotesToSeries ? input.notes ?? null : null;
+  const rows = occurrences
+    // An existing session already is occurrence 0
+    .filter(occurrence => !(input.existingSessionId && occurrence.index === 0))
+    .map(occurrence => ({
+      session_start: occurrence.start,
+      session_end: occurrence.end,
+      // Without "apply to series" only the first session keeps the notes
+      notes: occurrence.index === 0 ? input.notes ?? null : seriesNotes,
+    }));
+
+  const history = await loadRateHistory(input.studentId);
+
+  const { data, error } = await supabase.rpc('create_session_series', {
+    p_series: {
+      tutor_id: tutorId,
+      student_id: input.studentId,
+      ...ruleToSeriesColumns(rule),
+      first_session_start: firstSessionStart,
+      timezone: input.timezone,
+      duration: input.duration,
+      rate: input.rate,
+      color: input.color ?? '#3B82F6',
+      notes: seriesNotes,
+      materialized_until: materializedUntil,
+    },
+    p_sessions: withOccurrenceRates(rows, input.rate, history, firstSessionStart, input.timezone),
+    p_existing_session_id: input.existingSessionId ?? null,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return toWriteResult(data);
+}
+
+/**
+ * Load a series owned by the tutor. Groups created before session_series existed only
+ * share a recurrence_id; they are adopted as a weekly series ending at their last session
+ * so they can be edited the same way.
+ */
+export async function loadSeries(
+  tutorId: string,
+  seriesId: string,
+  tutorTimezone: string
+): Promise<SessionSeries | null> {
+  const { data: series, error } = await supabase
+    .from('session_series')
+    .select('*')
+    .eq('id', seriesId)
+    .eq('tutor_id', tutorId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (series) {
+    return series as SessionSeries;
+  }
+
+  const { data: groupSessions, error: groupError } = await supabase
+    .from('sessions')
+    .select('student_id, session_start, duration, rate, color')
+    .eq('recurrence_id', seriesId)
+    .eq('tutor_id', tutorId)
+    .order('session_start', { ascending: true });
+
+  if (groupError) {
+    throw new Error(groupError.message);
+  }
+  if (!groupSessions || groupSessions.length === 0) {
+    return null;
+  }
+
+  const first = groupSessions[0];
+  const last = groupSessions[groupSessions.length - 1];
+  const firstLocal = dayjs.utc(first.session_start).tz(tutorTimezone);
+
+  const { data: adopted, error: adoptError } = await supabase
+    .from('session_series')
+    .upsert({
+      id: seriesId,
+      tutor_id: tutorId,
+      student_id: first.student_id,
+      frequency: 'weekly',
+      interval: 1,
+      weekdays: [firstLocal.day()],
+      monthly_week: null,
+      until_date: dayjs.utc(last.session_start).tz(tutorTimezone).format('YYYY-MM-DD'),
+      occurrence_count: null,
+      first_session_start: first.session_start,
+      timezone: tutorTimezone,
+      duration: first.duration,
+      rate: first.rate,
+      color: first.color,
+      notes: null,
+      materialized_until: dayjs.utc(last.session_start).add(1, 'minute').toISOString(),
+    }, { onConflict: 'id' })
+    .select()
+    .single();
+
+  if (adoptError) {
+    throw new Error(adoptError.message);
+  }
+
+  console.log(`🔁 Adopted legacy recurring group ${seriesId} as a session series`);
+  return adopted as SessionSeries;
+}
+
+export async function getSeriesSession(
+  tutorId: string,
+  seriesId: string,
+  sessionId: string
+): Promise<SeriesSession | null> {
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('id, session_start, recurrence_id')
+    .eq('id', sessionId)
+    .eq('tutor_id', tutorId)
+    .eq('recurrence_id', seriesId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+/**
+ * Edit a whole series ("all", from now on) or split it at an occurrence ("following").
+ * Date/time or rule changes regenerate the affected occurrences; other changes update
+ * the existing rows in place. Past, paid (even partly) and cancelled lessons are never touched.
+ */
+export async function updateSeries(
+  tutorId: string,
+  series: SessionSeries,
+  input: UpdateSessionSeriesInput,
+  fromSession: SeriesSession | null
+): Promise<SessionSeriesWriteResult> {
+  const { changes } = input;
+  const tz = series.timezone;
+  const currentRule = seriesToRule(series);
+  const rule: RecurrenceRule = changes.rule ?? currentRule;
+  const seriesLocalTime = dayjs.utc(series.first_session_start).tz(tz).format('HH:mm');
+  const time = changes.time ?? seriesLocalTime;
+  const duration = changes.duration ?? series.duration;
+
+  const ruleChanged = JSON.stringify(ruleToSeriesColumns(rule)) !== JSON.stringify(ruleToSeriesColumns(currentRule));
+  const timingChanged = ruleChanged || time !== seriesLocalTime;
+
+  const attributes = {
+    ...(changes.studentId !== undefined && { student_id: changes.studentId }),
+    ...(changes.duration !== undefined && { duration: changes.duration }),
+    ...(changes.rate !== undefined && { rate: changes.rate }),
+    ...(changes.color !== undefined && { color: changes.color }),
+    ...(changes.notes !== undefined && { notes: changes.notes }),
+  };
+
+  const now = dayjs.utc().toISOString();
+  const horizon = laterOf(series.materialized_until, defaultHorizon());
+
+  // Past occurrences are never rewritten: "following" from a past session starts at the next upcoming occurrence
+  let from = now;
+  if (input.scope === 'following' && fromSession) {
+    from = dayjs.utc(fromSession.session_start).isAfter(dayjs.utc(now))
+      ? fromSession.session_start
+      : expandRecurrence({
+          rule: currentRule,
+          firstSessionStart: series.first_session_start,
+          duration: series.duration,
+          timezone: tz,
+          fromUtc: now,
+          toUtc: horizon,
+        })[0]?.start ?? now;
+  }
+
+  // Time, rate, duration or student changes to "following" split the series at `from`;
+  // cosmetic changes (color, notes) are applied to the existing rows without splitting
+  const definingChange = timingChanged
+    || (changes.rate !== undefined && changes.rate !== Number(series.rate))
+    || (changes.duration !== undefined && changes.duration !== series.duration)
+    || (changes.studentId !== undefined && changes.studentId !== series.student_id);
+
+  if (input.scope === 'following' && !definingChange) {
+    const { data, error } = await supabase.rpc('update_session_series', {
+      p_tutor_id: tutorId,
+      p_series_id: series.id,
+      p_from: from,
+      p_session_patch: Object.keys(attributes).length > 0 ? attributes : null,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    return toWriteResult(data);
+  }
+
+  // Occurrences of the current rule before the split point stay with the original series
+  const earlierCount = input.scope === 'following'
+    ? expandRecurrence({
+        rule: currentRule,
+        firstSessionStart: series.first_session_start,
+        duration: series.duration,
+        timezone: tz,
+        toUtc: from,
+      }).length
+    : 0;
+  const split = earlierCount > 0;
+
+  const anchorDate = split
+    ? dayjs.utc(from).tz(tz).format('YYYY-MM-DD')
+    : dayjs.utc(series.first_session_start).tz(tz).format('YYYY-MM-DD');
+  const firstSessionStart = timingChanged
+    ? dayjs.tz(`${anchorDate} ${time}`, tz).utc().toISOString()
+    : split ? from : series.first_session_start;
+
+  const notes = changes.notes !== undefined ? changes.notes : series.notes;
+
+  // A count-limited series keeps its total length across the split unless a new rule is given
+  const ruleForNewSeries: RecurrenceRule = split && !changes.rule && currentRule.count
+    ? { ...rule, count: Math.max(1, currentRule.count - earlierCount) }
+    : rule;
+
+  const regenerated = timingChanged
+    ? withOccurrenceRates(
+        toOccurrenceRows(expandRecurrence({
+          rule: ruleForNewSeries,
+          firstSessionStart,
+          duration,
+          timezone: tz,
+          fromUtc: split ? undefined : from,
+          toUtc: horizon,
+        }), notes),
+        changes.rate ?? Number(series.rate),
+        await loadRateHistory(changes.studentId ?? series.student_id),
+        firstSessionStart,
+        tz
+      )
+    : null;
+
+  // When a split moves the time earlier, the new first session must still fall inside the edited range
+  const rangeStart = split && timingChanged && dayjs.utc(firstSessionStart).isBefore(dayjs.utc(from))
+    ? firstSessionStart
+    : from;
+
+  const seriesColumns = {
+    ...attributes,
+    ...ruleToSeriesColumns(ruleForNewSeries),
+    first_session_start: firstSessionStart,
+    ...(timingChanged && { materialized_until: horizon }),
+  };
+
+  const { data, error } = await supabase.rpc('update_session_series', {
+    p_tutor_id: tutorId,
+    p_series_id: series.id,
+    p_from: rangeStart,
+    p_series_patch: split
+      ? { until_date: dayBefore(from, tz) }
+      : seriesColumns,
+    p_new_series: split
+      ? {
+          ...series,
+          id: undefined,
+          created_at: undefined,
+          ...seriesColumns,
+          materialized_until: timingChanged ? horizon : series.materialized_until,
+        }
+      : null,
+    p_session_patch: Object.keys(attributes).length > 0 ? attributes : null,
+    p_sessions: regenerated,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return toWriteResult(data);
+}
+
+/**
+ * Delete the upcoming occurrences of a series from a given session (or from now) onwards.
+ * Returns how many sessions were removed and their Google Calendar event ids.
+ */
+export async function deleteSeries(
+  tutorId: string,
+  series: SessionSeries,
+  fromSession: SeriesSession | null
+): Promise<{ deletedCount: number; removedEventIds: string[] }> {
+  const from = upcomingFrom(fromSession);
+
+  const { data, error } = await supabase.rpc('delete_session_series', {
+    p_tutor_id: tutorId,
+    p_series_id: series.id,
+    p_from: from,
+    p_series_patch: {
+      until_date: dayBefore(from, series.timezone),
+      materialized_until: from,
+    },
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return {
+    deletedCount: data?.deleted_count ?? 0,
+    removedEventIds: data?.removed_event_ids ?? [],
+  };
+}
+
+/**
+ * Cancel the upcoming occurrences of a series from a given session (or from now) onwards
+ * and end the series there. Cancelled rows are kept for the cancellation statistics; paid
+ * occurrences are left as they are.
+ */
+export async function cancelSeries(
+  tutorId: string,
+  series: SessionSeries,
+  input: CancelSessionSeriesInput,
+  fromSession: SeriesSession | null
+): Promise<{ cancelledCount: number; cancelledEventIds: string[] }> {
+  const from = upcomingFrom(fromSession);
+
+  const { data, error } = await supabase.rpc('cancel_session_series', {
+    p_tutor_id: tutorId,
+    p_series_id: series.id,
+    p_from: from,
+    p_cancellation: {
+      cancellation_reason: input.cancellationReason,
+      cancellation_note: input.cancellationNote || null,
+      bulk_excluded: input.excludeFromRate,
+    },
+    p_series_patch: {
+      until_date: dayBefore(from, series.timezone),
+      materialized_until: from,
+    },
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return {
+    cancelledCount: data?.cancelled_count ?? 0,
+    cancelledEventIds: data?.cancelled_event_ids ?? [],
+  };
+}
+
+/**
+ * Occurrences of the tutor's series in [fromUtc, toUtc) that don't exist as session rows yet
+ * (they lie past the series' materialized_until). Read-only: the public booking checks use it
+ * to see recurring lessons further out than the tutor's calendar has generated them.
+ */
+export async function unmaterializedOccurrences(
+  tutorId: string,
+  fromUtc: string,
+  toUtc: string
+): Promise<Array<RecurrenceOccurrence & { seriesId: string }>> {
+  const { data: pendingSeries, error } = await supabase
+    .from('session_series')
+    .select('*')
+    .eq('tutor_id', tutorId)
+    .lt('materialized_until', toUtc);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return ((pendingSeries || []) as SessionSeries[]).flatMap(series =>
+    expandRecurrence({
+      rule: seriesToRule(series),
+      firstSessionStart: series.first_session_start,
+      duration: series.duration,
+      timezone: series.timezone,
+      fromUtc: laterOf(series.materialized_until, fromUtc),
+      toUtc,
+    }).map(occurrence => ({ ...occurrence, seriesId: series.id }))
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * Student Packages Service
+ * Sells prepaid bundles to students and pays ended lessons out of them. Consumption runs in
+ * one Postgres function (migrations/create_student_packages.sql): right after a package is
+ * sold, and every few minutes for lessons that have ended since.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import type { StudentPackage } from "@shared/studentPackages";
+import type { CreateStudentPackageInput } from "@shared/schema";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const CONSUMPTION_INTERVAL_MS = 10 * 60 * 1000;
+
+let consumptionTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Pay ended, unpaid lessons from their students' packages. Limited to one tutor when given.
+ * Returns how many lessons were paid.
+ */
+export async function consumePackages(tutorId?: string): Promise<number> {
+  const { data, error } = await supabase.rpc('consume_student_packages', {
+    p_tutor_id: tutorId ?? null,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data ?? 0;
+}
+
+export async function createPackage(
+  tutorId: string,
+  input: CreateStudentPackageInput
+): Promise<{ package: StudentPackage; consumedCount: number }> {
+  const { data, error } = await supabase
+    .from('student_packages')
+    .insert({
+      tutor_id: tutorId,
+      student_id: input.studentId,
+      name: input.name,
+      kind: input.kind,
+      session_count: input.kind === 'sessions' ? input.sessionCount : null,
+      credit_amount: input.kind === 'credit' ? input.creditAmount : null,
+      price: input.price,
+      payment_method: input.paymentMethod,
+      purchased_on: input.purchasedOn,
+      expires_on: input.expiresOn,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  // Lessons since the purchase date that are still unpaid come out of the new package
+  const consumedCount = await consumePackages(tutorId);
+
+  const { data: updated } = await supabase
+    .from('student_packages')
+    .select('*')
+    .eq('id', data.id)
+    .single();
+
+  return { package: updated ?? data, consumedCount };
+}
+
+/**
+ * Delete a package and take what it paid off its lessons. Returns the ids of those lessons,
+ * or null if the package doesn't exist or belongs to another tutor.
+ */
+export async function deletePackage(tutorId: string, packageId: string): Promise<string[] | null> {
+  const { data, error } = await supabase.rpc('delete_student_package', {
+    p_tutor_id: tutorId,
+    p_package_id: packageId,
+  });
+
+  if (error) {
+    if (error.code === 'P0002' || error.code === '22P02') return null;
+    throw new Error(error.message);
+  }
+
+  return (data as { session_ids: string[] }).session_ids;
+}
+
+export function startPackageConsumption() {
+  if (consumptionTimer) return;
+
+  const run = () => {
+    consumePackages()
+      .then(count => {
+        if (count > 0) {
+          console.log(`📦 Paid ${count} ended session(s) from prepaid packages`);
+        }
+      })
+      .catch(error => {
+        console.error('❌ Package consumption failed:', error);
+      });
+  };
+
+  run();
+  consumptionTimer = setInterval(run, CONSUMPTION_INTERVAL_MS);
+  console.log('📦 Package consumption scheduled every 10 minutes');
+}
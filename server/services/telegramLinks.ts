@@ -0,0 +1,120 @@
+/**
+ * Telegram Links Service
+ * Ties a Telegram chat to a tutor with a one-time code (see shared/telegram.ts), and unties it
+ * again from the profile page or the bot's /stop command. A chat belongs to one tutor at a time.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import crypto from "crypto";
+import {
+  TELEGRAM_LINK_CODE_ALPHABET,
+  TELEGRAM_LINK_CODE_LENGTH,
+  TELEGRAM_LINK_CODE_TTL_MINUTES,
+} from "@shared/telegram";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// A clash with another tutor's live code is unlikely, but the unique index would reject it
+const CODE_ATTEMPTS = 3;
+
+function generateLinkCode(): string {
+  let code = '';
+  for (let i = 0; i < TELEGRAM_LINK_CODE_LENGTH; i++) {
+    code += TELEGRAM_LINK_CODE_ALPHABET[crypto.randomInt(TELEGRAM_LINK_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// A fresh code for the tutor; any earlier one stops working
+export async function createTelegramLinkCode(tutorId: string): Promise<{ code: string; expiresAt: string }> {
+  const expiresAt = new Date(Date.now() + TELEGRAM_LINK_CODE_TTL_MINUTES * 60 * 1000).toISOString();
+
+  for (let attempt = 1; ; attempt++) {
+    const code = generateLinkCode();
+    const { error } = await supabase
+      .from('telegram_link_codes')
+      .upsert({ tutor_id: tutorId, code, expires_at: expiresAt, created_at: new Date().toISOString() }, { onConflict: 'tutor_id' });
+
+    if (!error) return { code, expiresAt };
+    if (error.code !== '23505' || attempt >= CODE_ATTEMPTS) {
+      throw new Error(error.message);
+    }
+  }
+}
+
+/**
+ * Link the chat to the tutor whose unexpired code this is, using the code up. Returns the
+ * tutor's name, or null when the code is unknown, used or expired.
+ */
+export async function linkTelegramChat(code: string, chatId: string): Promise<{ tutorName: string } | null> {
+  // Deleting the row is what uses the code up, so two chats can't both claim it
+  const { data: linkCode, error: codeError } = await supabase
+    .from('telegram_link_codes')
+    .delete()
+    .eq('code', code)
+    .gt('expires_at', new Date().toISOString())
+    .select('tutor_id')
+    .maybeSingle();
+
+  if (codeError) {
+    throw new Error(codeError.message);
+  }
+  if (!linkCode) return null;
+
+  const { data: tutor, error } = await supabase
+    .from('tutors')
+    .update({ telegram_chat_id: chatId })
+    .eq('id', linkCode.tutor_id)
+    .select('id, full_name')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!tutor) return null;
+
+  // The chat may have belonged to another account before
+  const { error: unlinkError } = await supabase
+    .from('tutors')
+    .update({ telegram_chat_id: null })
+    .eq('telegram_chat_id', chatId)
+    .neq('id', tutor.id);
+
+  if (unlinkError) {
+    throw new Error(unlinkError.message);
+  }
+
+  return { tutorName: tutor.full_name || 'there' };
+}
+
+// Stop notifications for a tutor (profile page). Returns false if nothing was linked.
+export async function unlinkTelegramForTutor(tutorId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('tutors')
+    .update({ telegram_chat_id: null })
+    .eq('id', tutorId)
+    .not('telegram_chat_id', 'is', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return !!data && data.length > 0;
+}
+
+// Stop notifications to a chat (the bot's /stop). Returns false if the chat wasn't linked.
+export async function unlinkTelegramChat(chatId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('tutors')
+    .update({ telegram_chat_id: null })
+    .eq('telegram_chat_id', chatId)
+    .select('id');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return !!data && data.length > 0;
+}
@@ -0,0 +1,102 @@
+/**
+ * Time Off Service
+ * Moves the sessions booked inside a tutor's time off to the first free week after it. The
+ * new times are worked out here with shared/timeOff.ts; the Postgres function in
+ * migrations/add_move_sessions_past_time_off.sql moves them all in one go and takes moved
+ * occurrences out of their series, so a later edit of the series leaves them alone.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc.js";
+import { rangesOverlap, type TimeRange } from "@shared/conflicts";
+import { shiftPastTimeOff, type MoveSessionsPastTimeOffResult } from "@shared/timeOff";
+import type { MoveSessionsPastTimeOffInput } from "@shared/schema";
+import { unmaterializedOccurrences } from "./sessionSeries";
+
+dayjs.extend(utc);
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export type MoveSessionsOutcome =
+  | ({ status: 'moved' } & MoveSessionsPastTimeOffResult)
+  | { status: 'rejected'; reason: 'session_not_found' }; // unknown, another tutor's, or cancelled
+
+interface SessionMove {
+  id: string;
+  recurrence_id: string | null;
+  range: TimeRange;
+}
+
+/**
+ * Same weekday and time, as many weeks later as it takes to clear every block. A recurring
+ * lesson whose new time is taken by its own series is skipped (a weekly lesson always lands
+ * on next week's); the ones the series hasn't generated yet are checked here, the rest by
+ * the database function.
+ */
+export async function moveSessionsPastTimeOff(
+  tutorId: string,
+  tutorTimezone: string,
+  input: MoveSessionsPastTimeOffInput
+): Promise<MoveSessionsOutcome> {
+  const sessionIds = Array.from(new Set(input.sessionIds));
+
+  const [{ data: sessions, error }, { data: timeOff, error: timeOffError }] = await Promise.all([
+    supabase
+      .from('sessions')
+      .select('id, session_start, session_end, recurrence_id')
+      .eq('tutor_id', tutorId)
+      .in('id', sessionIds)
+      .or('status.is.null,status.neq.cancelled'),
+    supabase
+      .from('time_off')
+      .select('starts_at, ends_at')
+      .eq('tutor_id', tutorId),
+  ]);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (timeOffError) {
+    throw new Error(timeOffError.message);
+  }
+  if (!sessions || sessions.length !== sessionIds.length) {
+    return { status: 'rejected', reason: 'session_not_found' };
+  }
+
+  const moves: SessionMove[] = sessions.map(session => ({
+    id: session.id,
+    recurrence_id: session.recurrence_id,
+    range: shiftPastTimeOff({ start: session.session_start, end: session.session_end }, timeOff || [], tutorTimezone),
+  }));
+
+  const starts = moves.map(move => dayjs.utc(move.range.start).valueOf());
+  const ends = moves.map(move => dayjs.utc(move.range.end).valueOf());
+  const ungenerated = await unmaterializedOccurrences(
+    tutorId,
+    dayjs.utc(Math.min(...starts)).subtract(1, 'day').toISOString(),
+    dayjs.utc(Math.max(...ends)).add(1, 'day').toISOString()
+  );
+  const takenByOwnSeries = (move: SessionMove) =>
+    !!move.recurrence_id && ungenerated.some(occurrence => occurrence.seriesId === move.recurrence_id && rangesOverlap(move.range, occurrence));
+
+  const { data, error: moveError } = await supabase.rpc('move_sessions_past_time_off', {
+    p_tutor_id: tutorId,
+    p_moves: moves
+      .filter(move => !takenByOwnSeries(move))
+      .map(move => ({ id: move.id, session_start: move.range.start, session_end: move.range.end })),
+  });
+
+  if (moveError) {
+    throw new Error(moveError.message);
+  }
+
+  return {
+    status: 'moved',
+    sessions: data?.moved ?? [],
+    skippedIds: [...moves.filter(takenByOwnSeries).map(move => move.id), ...(data?.skipped_ids ?? [])],
+  };
+}
@@ -3,6 +3,13 @@ import { createClient } from '@supabase/supabase-js';
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc.js';
 import timezone from 'dayjs/plugin/timezone.js';
+import { sessionBalance } from '@shared/payments';
+import { acceptBookingRequestForBooker, declineBookingRequest } from './services/publicBookings';
+import { settleSessions } from './services/payments';
+import { linkTelegramChat, unlinkTelegramChat } from './services/telegramLinks';
+import { normalizeLinkCode } from '@shared/telegram';
+import { isNotificationDue, notificationSections } from '@shared/notificationSchedule';
+import { appOrigin } from './appUrl';
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
@@ -20,6 +27,8 @@ const supabase = createClient(supabaseUrl!, supabaseKey!);
 // Create bot without polling initially
 let bot: TelegramBot | null = null;
 let isInitializing = false;
+// Known once the bot is running; needed for t.me deep links
+let botUsername: string | null = null;
 // In-memory cache for sent notifications (fallback if database column doesn't exist)
 // Primary duplicate prevention now uses database column: tutors.last_daily_notification_date
 // This persists across server restarts and prevents duplicates reliably
@@ -63,37 +72,44 @@ function formatTime(utcTime: string, timezone: string, timeFormat: string = '24h
   return time.format('HH:mm');
 }
 
-async function calculateTodayEarnings(tutorId: number, timezone: string) {
-  const now = dayjs().tz(timezone);
-  const startOfToday = now.startOf('day').utc().toISOString();
-  const endOfToday = now.endOf('day').utc().toISOString();
+// Names and notes come from users; an unmatched _ * ` or [ makes Telegram reject a Markdown message
+function escapeMarkdown(text: string): string {
+  return text.replace(/([_*`\[])/g, '\\$1');
+}
+
+function pluralize(count: number, word: string): string {
+  return `${count} ${word}${count !== 1 ? 's' : ''}`;
+}
 
+async function calculateEarnings(tutorId: string, from: dayjs.Dayjs, to: dayjs.Dayjs) {
   const { data: sessions, error } = await supabase
     .from('sessions')
-    .select('duration, rate, paid')
+    .select('duration, rate, paid, amount_paid')
     .eq('tutor_id', tutorId)
-    .eq('paid', true)
-    .gte('session_start', startOfToday)
-    .lte('session_start', endOfToday);
+    .gt('amount_paid', 0)
+    .gte('session_start', from.utc().toISOString())
+    .lte('session_start', to.utc().toISOString());
 
   if (error) {
-    console.error('Error fetching today sessions:', error);
+    console.error('Error fetching earnings sessions:', error);
     return { earnings: 0, count: 0 };
   }
 
+  // Partial payments count for what was received
   const earnings = sessions.reduce((total, session) => {
-    return total + (session.duration / 60) * session.rate;
+    return total + Number(session.amount_paid);
   }, 0);
 
   return { earnings, count: sessions.length };
 }
 
-async function getTomorrowSessions(tutorId: number, timezone: string) {
-  const now = dayjs().tz(timezone);
-  const tomorrow = now.add(1, 'day');
-  const startOfTomorrow = tomorrow.startOf('day').utc().toISOString();
-  const endOfTomorrow = tomorrow.endOf('day').utc().toISOString();
+// The "today" helpers take the day a daily summary is for, which is today unless it's being refreshed later
+async function calculateTodayEarnings(tutorId: string, timezone: string, today: dayjs.Dayjs = dayjs().tz(timezone)) {
+  return calculateEarnings(tutorId, today.startOf('day'), today.endOf('day'));
+}
 
+// Sessions starting in a range, cancelled ones left out
+async function getSessionsBetween(tutorId: string, from: dayjs.Dayjs, to: dayjs.Dayjs) {
   const { data: sessions, error } = await supabase
     .from('sessions')
     .select(`
@@ -101,39 +117,50 @@ async function getTomorrowSessions(tutorId: number, timezone: string) {
       session_end,
       duration,
       rate,
+      paid,
+      amount_paid,
+      status,
+      unassigned_name,
       students (
         name
       )
     `)
     .eq('tutor_id', tutorId)
-    .gte('session_start', startOfTomorrow)
-    .lte('session_start', endOfTomorrow)
+    .neq('status', 'cancelled')
+    .gte('session_start', from.utc().toISOString())
+    .lte('session_start', to.utc().toISOString())
     .order('session_start', { ascending: true });
 
   if (error) {
-    console.error('Error fetching tomorrow sessions:', error);
+    console.error('Error fetching sessions:', error);
     return [];
   }
 
   return sessions.map((session: any) => ({
     ...session,
-    student_name: session.students?.name || 'Unknown Student'
+    student_name: session.students?.name || session.unassigned_name || 'Unknown Student'
   }));
 }
 
-async function getTodayUnpaidSessions(tutorId: number, timezone: string) {
-  const now = dayjs().tz(timezone);
-  const startOfToday = now.startOf('day').utc().toISOString();
-  const endOfToday = now.endOf('day').utc().toISOString();
+async function getTomorrowSessions(tutorId: string, timezone: string, today: dayjs.Dayjs = dayjs().tz(timezone)) {
+  const tomorrow = today.add(1, 'day');
+  return getSessionsBetween(tutorId, tomorrow.startOf('day'), tomorrow.endOf('day'));
+}
+
+async function getTodayUnpaidSessions(tutorId: string, timezone: string, today: dayjs.Dayjs = dayjs().tz(timezone)) {
+  const startOfToday = today.startOf('day').utc().toISOString();
+  const endOfToday = today.endOf('day').utc().toISOString();
 
   const { data: sessions, error } = await supabase
     .from('sessions')
     .select(`
+      id,
       session_start,
       session_end,
       duration,
       rate,
       paid,
+      amount_paid,
       students (
         name
       )
@@ -155,13 +182,12 @@ async function getTodayUnpaidSessions(tutorId: number, timezone: string) {
   }));
 }
 
-async function getPastUnpaidSessions(tutorId: number, timezone: string) {
-  const now = dayjs().tz(timezone);
-  const startOfToday = now.startOf('day').utc().toISOString();
+async function getPastUnpaidSessions(tutorId: string, timezone: string, today: dayjs.Dayjs = dayjs().tz(timezone)) {
+  const startOfToday = today.startOf('day').utc().toISOString();
 
   const { data: sessions, error } = await supabase
     .from('sessions')
-    .select('duration, rate, paid')
+    .select('duration, rate, paid, amount_paid')
     .eq('tutor_id', tutorId)
     .eq('paid', false)
     .lt('session_start', startOfToday);
@@ -172,12 +198,114 @@ async function getPastUnpaidSessions(tutorId: number, timezone: string) {
   }
 
   const amount = sessions.reduce((total, session) => {
-    return total + (session.duration / 60) * session.rate;
+    return total + sessionBalance(session);
   }, 0);
 
   return { count: sessions.length, amount };
 }
 
+// Inline buttons per unpaid session, beyond that the list only gets the "mark all" one
+const PAID_BUTTONS_LIMIT = 10;
+
+// Callback data: "paid:<summary date>:<session id>" or "paid:<summary date>:all"
+function dailySummaryKeyboard(todayUnpaidSessions: any[], date: string): TelegramBot.InlineKeyboardMarkup | undefined {
+  if (todayUnpaidSessions.length === 0) return undefined;
+
+  const keyboard: TelegramBot.InlineKeyboardButton[][] = todayUnpaidSessions
+    .slice(0, PAID_BUTTONS_LIMIT)
+    .map((session: any, index: number) => [{
+      text: `Paid ✅ ${index + 1}. ${session.student_name}`,
+      callback_data: `paid:${date}:${session.id}`,
+    }]);
+
+  if (todayUnpaidSessions.length > 1) {
+    keyboard.push([{ text: '✅ Mark all today paid', callback_data: `paid:${date}:all` }]);
+  }
+  return { inline_keyboard: keyboard };
+}
+
+// The past seven days up to the summary's day
+async function formatWeeklyRecap(tutor: any, today: dayjs.Dayjs): Promise<string> {
+  const weekStart = today.subtract(6, 'day').startOf('day');
+  const earned = await calculateEarnings(tutor.id, weekStart, today.endOf('day'));
+  const sessions = (await getSessionsBetween(tutor.id, weekStart, today.endOf('day')))
+    .filter((session: any) => session.status !== 'pending');
+  const expected = sessions.reduce((total: number, session: any) => total + (session.duration / 60) * session.rate, 0);
+
+  let message = `📈 *Weekly Recap (${weekStart.format('MMM D')} - ${today.format('MMM D')})*\n`;
+  message += `${pluralize(sessions.length, 'session')} worth ${formatCurrency(expected, tutor.currency)}\n`;
+  message += `${formatCurrency(earned.earnings, tutor.currency)} received\n\n`;
+  return message;
+}
+
+// Only the sections the tutor picked; tutor needs notification_sections (defaults if missing)
+async function buildDailySummary(tutor: any, today: dayjs.Dayjs) {
+  const { id, timezone, currency, time_format } = tutor;
+  const sections = notificationSections(tutor);
+
+  const todayUnpaidSessions = sections.includes('today_unpaid') ? await getTodayUnpaidSessions(id, timezone, today) : [];
+
+  let message = `📊 *Daily Summary for ${today.format('MMMM D, YYYY')}*\n\n`;
+
+  if (sections.includes('today_earnings')) {
+    const todayData = await calculateTodayEarnings(id, timezone, today);
+    message += `💰 *Today's Earnings*\n`;
+    message += `${formatCurrency(todayData.earnings, currency)} from ${todayData.count} session${todayData.count !== 1 ? 's' : ''}\n\n`;
+  }
+
+  // Add today's unpaid sessions
+  if (todayUnpaidSessions.length > 0) {
+    message += `⚠️ *Today's Unpaid Sessions*\n`;
+    todayUnpaidSessions.forEach((session: any, index: number) => {
+      const startTime = formatTime(session.session_start, timezone, time_format);
+      const endTime = formatTime(session.session_end, timezone, time_format);
+      const amount = sessionBalance(session);
+      message += `${index + 1}. ${escapeMarkdown(session.student_name)} • ${startTime} - ${endTime} • ${formatCurrency(amount, currency)}\n`;
+    });
+    
+    const totalUnpaidToday = todayUnpaidSessions.reduce((total: number, session: any) => {
+      return total + sessionBalance(session);
+    }, 0);
+    message += `*Total unpaid today:* ${formatCurrency(totalUnpaidToday, currency)}\n\n`;
+  }
+
+  // Add past unpaid sessions summary
+  if (sections.includes('past_unpaid')) {
+    const pastUnpaidData = await getPastUnpaidSessions(id, timezone, today);
+    if (pastUnpaidData.count > 0) {
+      message += `📋 *Past Unpaid Sessions*\n`;
+      message += `${pastUnpaidData.count} overdue session${pastUnpaidData.count !== 1 ? 's' : ''} from previous days\n`;
+      message += `*Total overdue:* ${formatCurrency(pastUnpaidData.amount, currency)}\n\n`;
+    }
+  }
+
+  if (sections.includes('weekly_recap') && today.day() === 0) {
+    message += await formatWeeklyRecap(tutor, today);
+  }
+
+  if (sections.includes('tomorrow')) {
+    const tomorrowSessions = await getTomorrowSessions(id, timezone, today);
+    message += `📅 *Tomorrow's Schedule*\n`;
+    if (tomorrowSessions.length === 0) {
+      message += `No sessions scheduled\n`;
+    } else {
+      tomorrowSessions.forEach((session: any, index: number) => {
+        const startTime = formatTime(session.session_start, timezone, time_format);
+        const endTime = formatTime(session.session_end, timezone, time_format);
+        const earnings = (session.duration / 60) * session.rate;
+        message += `${index + 1}. ${escapeMarkdown(session.student_name)} • ${startTime} - ${endTime} • ${formatCurrency(earnings, currency)}\n`;
+      });
+      
+      const totalTomorrow = tomorrowSessions.reduce((total: number, session: any) => {
+        return total + (session.duration / 60) * session.rate;
+      }, 0);
+      message += `\n*Total:* ${formatCurrency(totalTomorrow, currency)} from ${tomorrowSessions.length} session${tomorrowSessions.length !== 1 ? 's' : ''}`;
+    }
+  }
+
+  return { text: message.trimEnd(), keyboard: dailySummaryKeyboard(todayUnpaidSessions, today.format('YYYY-MM-DD')) };
+}
+
 async function sendDailyNotification(tutor: any) {
   if (!bot) {
     console.warn('⚠️ Cannot send daily notification - bot not initialized');
@@ -185,7 +313,7 @@ async function sendDailyNotification(tutor: any) {
   }
 
   try {
-    const { id, telegram_chat_id, timezone, currency, time_format, full_name, last_daily_notification_date } = tutor;
+    const { id, telegram_chat_id, timezone, full_name, last_daily_notification_date } = tutor;
     
     const today = dayjs().tz(timezone).format('YYYY-MM-DD');
     const now = dayjs().tz(timezone);
@@ -211,58 +339,10 @@ async function sendDailyNotification(tutor: any) {
 
     console.log(`📊 [${full_name}] ✅ Preparing notification (not sent today yet)`);
 
-    const todayData = await calculateTodayEarnings(id, timezone);
-    const todayUnpaidSessions = await getTodayUnpaidSessions(id, timezone);
-    const pastUnpaidData = await getPastUnpaidSessions(id, timezone);
-    const tomorrowSessions = await getTomorrowSessions(id, timezone);
-
-    let message = `📊 *Daily Summary for ${dayjs().tz(timezone).format('MMMM D, YYYY')}*\n\n`;
-    
-    message += `💰 *Today's Earnings*\n`;
-    message += `${formatCurrency(todayData.earnings, currency)} from ${todayData.count} session${todayData.count !== 1 ? 's' : ''}\n\n`;
-
-    // Add today's unpaid sessions
-    if (todayUnpaidSessions.length > 0) {
-      message += `⚠️ *Today's Unpaid Sessions*\n`;
-      todayUnpaidSessions.forEach((session: any, index: number) => {
-        const startTime = formatTime(session.session_start, timezone, time_format);
-        const endTime = formatTime(session.session_end, timezone, time_format);
-        const amount = (session.duration / 60) * session.rate;
-        message += `${index + 1}. ${session.student_name} • ${startTime} - ${endTime} • ${formatCurrency(amount, currency)}\n`;
-      });
-      
-      const totalUnpaidToday = todayUnpaidSessions.reduce((total: number, session: any) => {
-        return total + (session.duration / 60) * session.rate;
-      }, 0);
-      message += `*Total unpaid today:* ${formatCurrency(totalUnpaidToday, currency)}\n\n`;
-    }
-
-    // Add past unpaid sessions summary
-    if (pastUnpaidData.count > 0) {
-      message += `📋 *Past Unpaid Sessions*\n`;
-      message += `${pastUnpaidData.count} overdue session${pastUnpaidData.count !== 1 ? 's' : ''} from previous days\n`;
-      message += `*Total overdue:* ${formatCurrency(pastUnpaidData.amount, currency)}\n\n`;
-    }
-
-    message += `📅 *Tomorrow's Schedule*\n`;
-    if (tomorrowSessions.length === 0) {
-      message += `No sessions scheduled\n`;
-    } else {
-      tomorrowSessions.forEach((session: any, index: number) => {
-        const startTime = formatTime(session.session_start, timezone, time_format);
-        const endTime = formatTime(session.session_end, timezone, time_format);
-        const earnings = (session.duration / 60) * session.rate;
-        message += `${index + 1}. ${session.student_name} • ${startTime} - ${endTime} • ${formatCurrency(earnings, currency)}\n`;
-      });
-      
-      const totalTomorrow = tomorrowSessions.reduce((total: number, session: any) => {
-        return total + (session.duration / 60) * session.rate;
-      }, 0);
-      message += `\n*Total:* ${formatCurrency(totalTomorrow, currency)} from ${tomorrowSessions.length} session${tomorrowSessions.length !== 1 ? 's' : ''}`;
-    }
+    const summary = await buildDailySummary(tutor, dayjs().tz(timezone));
 
     console.log(`📤 [${full_name}] Sending message to Telegram...`);
-    await bot.sendMessage(telegram_chat_id, message, { parse_mode: 'Markdown' });
+    await bot.sendMessage(telegram_chat_id, summary.text, { parse_mode: 'Markdown', reply_markup: summary.keyboard });
     console.log(`✅ [${full_name}] Message sent successfully to Telegram`);
     
     // Update database with today's date to prevent duplicates (persists across server restarts)
@@ -289,6 +369,61 @@ async function sendDailyNotification(tutor: any) {
   }
 }
 
+// "Paid ✅" / "Mark all today paid" pressed on a daily summary
+async function handlePaidCallback(query: TelegramBot.CallbackQuery) {
+  if (!bot) return;
+
+  const [, date, target] = (query.data || '').split(':');
+  const message = query.message;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date || '') || !target || !message) {
+    await bot.answerCallbackQuery(query.id, { text: 'Unknown action' });
+    return;
+  }
+
+  // Sessions are only looked up among the linked tutor's own, so another tutor's can't be touched
+  const tutor = await getCommandTutor(message.chat.id);
+  if (!tutor) {
+    await bot.answerCallbackQuery(query.id, { text: "This chat isn't linked to a Classterly account.", show_alert: true });
+    return;
+  }
+
+  const summaryDay = dayjs.tz(date, tutor.timezone);
+  const sessionIds = target === 'all'
+    ? (await getTodayUnpaidSessions(tutor.id, tutor.timezone, summaryDay)).map((session: any) => session.id)
+    : [target];
+
+  const settled = await settleSessions(tutor.id, sessionIds, {
+    paymentDate: dayjs().tz(tutor.timezone).format('YYYY-MM-DD'),
+    method: 'cash',
+    note: 'Marked paid from Telegram',
+  });
+  console.log(`💵 ${tutor.full_name} marked ${pluralize(settled.length, 'session')} paid from Telegram`);
+
+  // Rebuilt with the same sections the tutor gets; defaults if the schedule can't be read
+  const { data: schedule } = await supabase
+    .from('tutors')
+    .select('notification_sections')
+    .eq('id', tutor.id)
+    .maybeSingle();
+
+  const summary = await buildDailySummary({ ...tutor, ...schedule }, summaryDay);
+  try {
+    await bot.editMessageText(summary.text, {
+      chat_id: message.chat.id,
+      message_id: message.message_id,
+      parse_mode: 'Markdown',
+      reply_markup: summary.keyboard,
+    });
+  } catch (error: any) {
+    // Pressed twice, or paid in the app in the meantime: nothing to refresh
+    if (!String(error?.message).includes('message is not modified')) throw error;
+  }
+
+  await bot.answerCallbackQuery(query.id, {
+    text: settled.length > 0 ? `Marked ${pluralize(settled.length, 'session')} paid` : 'Already paid',
+  });
+}
+
 async function checkAndSendNotifications() {
   try {
     const systemTime = dayjs().format('YYYY-MM-DD HH:mm:ss UTC');
@@ -298,13 +433,13 @@ async function checkAndSendNotifications() {
     // Try to fetch with last_daily_notification_date column (post-migration)
     let { data: tutors, error } = await supabase
       .from('tutors')
-      .select('id, telegram_chat_id, timezone, currency, time_format, full_name, last_daily_notification_date')
+      .select('id, telegram_chat_id, timezone, currency, time_format, full_name, last_daily_notification_date, notification_time, notification_days, notification_sections')
       .not('telegram_chat_id', 'is', null);
 
-    // If column doesn't exist (pre-migration), fetch without it
+    // If a column doesn't exist (pre-migration), fetch without them; the schedule falls back to its defaults
     // PostgreSQL error 42703 = "column does not exist"
     if (error && (error.code === '42703' || error.code === 'PGRST116')) {
-      console.log('⚠️ last_daily_notification_date column not found, using fallback mode');
+      console.log('⚠️ Notification columns not found, using fallback mode');
       const fallbackResult = await supabase
         .from('tutors')
         .select('id, telegram_chat_id, timezone, currency, time_format, full_name')
@@ -325,12 +460,10 @@ async function checkAndSendNotifications() {
     }
 
     console.log(`📊 Found ${tutors.length} tutor(s) subscribed to Telegram notifications`);
-    console.log(`🕐 Notification window: 9:00 PM - 9:59 PM (1 hour) in each tutor's timezone\n`);
+    console.log(`🕐 Each tutor's summary goes out in the hour after their chosen time, on their chosen days\n`);
 
-    for (const tutor of tutors) {
+    for (const tutor of tutors as any[]) {
       const now = dayjs().tz(tutor.timezone);
-      const hour = now.hour();
-      const minute = now.minute();
       const currentTime = now.format('HH:mm:ss');
       const currentDate = now.format('YYYY-MM-DD');
 
@@ -338,14 +471,14 @@ async function checkAndSendNotifications() {
       console.log(`   Local time: ${currentTime} on ${currentDate} (${tutor.timezone})`);
       console.log(`   Last notification: ${tutor.last_daily_notification_date || 'NULL (never)'}`);
 
-      // Check if it's within the 9 PM hour (21:00-21:59) - 1 hour window
+      // Within an hour of the tutor's time, on one of their days
       // The database column and sentNotifications Set prevent duplicates within the same day
-      if (hour === 21) {
-        console.log(`   ✅ IN NOTIFICATION WINDOW (hour ${hour})`);
+      if (isNotificationDue(tutor, now.day(), now.hour() * 60 + now.minute())) {
+        console.log(`   ✅ IN NOTIFICATION WINDOW (from ${tutor.notification_time || '21:00'})`);
         console.log(`   🚀 Triggering notification for ${tutor.full_name}...`);
         await sendDailyNotification(tutor);
       } else {
-        console.log(`   ⏸️  Outside window (hour ${hour}, need hour 21)`);
+        console.log(`   ⏸️  Outside window (from ${tutor.notification_time || '21:00'})`);
       }
       console.log(''); // Empty line for readability
     }
@@ -357,24 +490,23 @@ async function checkAndSendNotifications() {
 }
 
 async function resetDailyCache() {
-  // Check if any tutor is currently in their notification window (21:00-21:59)
+  // Check if any tutor is currently in their notification window
   // to prevent clearing the cache and causing duplicate notifications
   try {
     console.log(`🔄 Daily cache reset triggered at ${dayjs().format('YYYY-MM-DD HH:mm:ss UTC')}`);
     
     const { data: tutors } = await supabase
       .from('tutors')
-      .select('timezone')
+      .select('timezone, notification_time, notification_days')
       .not('telegram_chat_id', 'is', null);
 
     if (tutors) {
       for (const tutor of tutors) {
         const now = dayjs().tz(tutor.timezone);
-        const hour = now.hour();
         
-        // Check if it's during the 1-hour notification window (21:00-21:59)
-        if (hour === 21) {
-          console.log(`⏳ Delaying cache reset - tutor in timezone ${tutor.timezone} is in notification window (hour ${hour})`);
+        // Check if it's during the 1-hour notification window
+        if (isNotificationDue({ ...tutor, notification_sections: null }, now.day(), now.hour() * 60 + now.minute())) {
+          console.log(`⏳ Delaying cache reset - tutor in timezone ${tutor.timezone} is in notification window (from ${tutor.notification_time})`);
           console.log(`   Will retry cache reset in 5 minutes`);
           // Retry in 5 minutes
           setTimeout(resetDailyCache, 5 * 60 * 1000);
@@ -393,7 +525,34 @@ async function resetDailyCache() {
   console.log(`✅ Daily cache reset complete. Cleared ${dailyCacheSize} daily notification entries and ${bookingCacheSize} booking notification entries.`);
 }
 
-async function sendBookingNotification(session: any) {
+function formatBookingDetails(session: any, tutor: any, studentName: string): string {
+  const dateTime = formatDateTime(session.session_start, tutor.timezone, tutor.time_format);
+  const earnings = (session.duration / 60) * parseFloat(session.rate);
+
+  let message = `👤 *Student:* ${escapeMarkdown(studentName)}\n`;
+  message += `📅 *Date:* ${dateTime}\n`;
+  message += `⏱️ *Duration:* ${session.duration} minutes\n`;
+  message += `💰 *Expected Earnings:* ${formatCurrency(earnings, tutor.currency)}\n\n`;
+  return message;
+}
+
+// Callback data is limited to 64 bytes: "booking:accept:" plus a uuid fits
+function bookingRequestKeyboard(sessionId: string): TelegramBot.InlineKeyboardMarkup {
+  const keyboard: TelegramBot.InlineKeyboardButton[][] = [[
+    { text: '✅ Accept', callback_data: `booking:accept:${sessionId}` },
+    { text: '❌ Decline', callback_data: `booking:decline:${sessionId}` },
+  ]];
+
+  // Telegram rejects URL buttons that don't point at a public https address (e.g. localhost)
+  const origin = appOrigin();
+  if (origin.startsWith('https://')) {
+    keyboard.push([{ text: '📱 Open in app', url: `${origin}/calendar?request=${sessionId}` }]);
+  }
+  return { inline_keyboard: keyboard };
+}
+
+// autoAcceptedStudent: set when the booking was confirmed without the tutor's review
+async function sendBookingNotification(session: any, autoAcceptedStudent?: string) {
   if (!bot) {
     console.warn('⚠️ Cannot send booking notification - bot not initialized');
     return;
@@ -422,18 +581,18 @@ async function sendBookingNotification(session: any) {
       return;
     }
 
-    const studentName = session.unassigned_name || 'Unknown Student';
-    const dateTime = formatDateTime(session.session_start, tutor.timezone, tutor.time_format);
-    const earnings = (session.duration / 60) * parseFloat(session.rate);
+    const studentName = autoAcceptedStudent || session.unassigned_name || 'Unknown Student';
 
-    let message = `🔔 *New Booking Request!*\n\n`;
-    message += `👤 *Student:* ${studentName}\n`;
-    message += `📅 *Date:* ${dateTime}\n`;
-    message += `⏱️ *Duration:* ${session.duration} minutes\n`;
-    message += `💰 *Expected Earnings:* ${formatCurrency(earnings, tutor.currency)}\n\n`;
-    message += `⚠️ _Pending your approval - check your dashboard_`;
+    let message = autoAcceptedStudent ? `✅ *New Booking Confirmed!*\n\n` : `🔔 *New Booking Request!*\n\n`;
+    message += formatBookingDetails(session, tutor, studentName);
+    message += autoAcceptedStudent
+      ? `_Auto-accepted from your booking page_`
+      : `⚠️ _Pending your approval_`;
 
-    await bot.sendMessage(tutor.telegram_chat_id, message, { parse_mode: 'Markdown' });
+    await bot.sendMessage(tutor.telegram_chat_id, message, {
+      parse_mode: 'Markdown',
+      reply_markup: autoAcceptedStudent ? undefined : bookingRequestKeyboard(session.id),
+    });
     sentBookingNotifications.add(notificationKey);
     console.log(`✅ Booking notification sent to ${tutor.full_name} for session with ${studentName}`);
   } catch (error) {
@@ -441,6 +600,87 @@ async function sendBookingNotification(session: any) {
   }
 }
 
+// Accept / Decline pressed on a booking request notification
+async function handleBookingCallback(query: TelegramBot.CallbackQuery) {
+  if (!bot) return;
+
+  const [, action, sessionId] = (query.data || '').split(':');
+  const message = query.message;
+  if ((action !== 'accept' && action !== 'decline') || !sessionId || !message) {
+    await bot.answerCallbackQuery(query.id, { text: 'Unknown action' });
+    return;
+  }
+
+  const chatId = message.chat.id;
+  const editOptions = { chat_id: chatId, message_id: message.message_id };
+
+  const { data: session, error: sessionError } = await supabase
+    .from('sessions')
+    .select('id, tutor_id, session_start, duration, rate, status, unassigned_name')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (sessionError && sessionError.code !== '22P02') {
+    throw new Error(sessionError.message);
+  }
+
+  // Declined requests are deleted, so a missing session was most likely handled already
+  if (!session) {
+    await bot.answerCallbackQuery(query.id, { text: 'This request was already handled.' });
+    await bot.editMessageReplyMarkup({ inline_keyboard: [] }, editOptions);
+    return;
+  }
+
+  // Only the chat linked to the tutor who owns the request may act on it
+  const { data: tutor, error: tutorError } = await supabase
+    .from('tutors')
+    .select('id, telegram_chat_id, timezone, currency, time_format, full_name')
+    .eq('id', session.tutor_id)
+    .maybeSingle();
+
+  if (tutorError) {
+    throw new Error(tutorError.message);
+  }
+  if (!tutor || tutor.telegram_chat_id !== chatId.toString()) {
+    console.warn(`🚫 Chat ${chatId} tried to ${action} booking request ${sessionId} it doesn't own`);
+    await bot.answerCallbackQuery(query.id, { text: "You can't manage this booking request.", show_alert: true });
+    return;
+  }
+
+  let studentName = session.unassigned_name || 'Unknown Student';
+  let outcome: string;
+  if (session.status !== 'pending') {
+    outcome = `ℹ️ _This request was already handled._`;
+  } else if (action === 'accept') {
+    const accepted = await acceptBookingRequestForBooker(tutor.id, session.id);
+    if (accepted) {
+      studentName = accepted.studentName;
+      outcome = `✅ *Accepted* - added to your schedule for ${escapeMarkdown(accepted.studentName)}`;
+      console.log(`✅ Booking request ${session.id} accepted from Telegram by tutor ${tutor.id}`);
+    } else {
+      outcome = `ℹ️ _This request was already handled._`;
+    }
+  } else {
+    const declined = await declineBookingRequest(tutor.id, session.id);
+    outcome = declined ? `❌ *Declined* - the request was removed` : `ℹ️ _This request was already handled._`;
+    if (declined) {
+      console.log(`🗑️ Booking request ${session.id} declined from Telegram by tutor ${tutor.id}`);
+    }
+  }
+
+  // Editing without a keyboard removes the buttons, so the request can't be handled twice
+  await bot.editMessageText(
+    `🔔 *Booking Request*\n\n` + formatBookingDetails(session, tutor, studentName) + outcome,
+    { ...editOptions, parse_mode: 'Markdown' }
+  );
+  await bot.answerCallbackQuery(query.id);
+}
+
+// Auto-accepted bookings are inserted as confirmed, so the pending-insert listener doesn't see them
+export async function sendAutoAcceptedBookingNotification(session: any, studentName: string) {
+  await sendBookingNotification(session, studentName);
+}
+
 // Admin chat ID for receiving feedback notifications
 const ADMIN_CHAT_ID = '1610008120';
 
@@ -459,10 +699,10 @@ export async function sendFeedbackNotification(feedback: {
 
   try {
     const telegramMessage = `📬 *New ${feedback.type}*\n\n` +
-      `👤 *From:* ${feedback.userName}\n` +
-      `📧 *Email:* ${feedback.userEmail}\n` +
-      `📝 *Subject:* ${feedback.subject}\n\n` +
-      `💬 *Message:*\n${feedback.message}\n\n` +
+      `👤 *From:* ${escapeMarkdown(feedback.userName)}\n` +
+      `📧 *Email:* ${escapeMarkdown(feedback.userEmail)}\n` +
+      `📝 *Subject:* ${escapeMarkdown(feedback.subject)}\n\n` +
+      `💬 *Message:*\n${escapeMarkdown(feedback.message)}\n\n` +
       `🆔 Feedback ID: #${feedback.feedbackId}`;
 
     await bot.sendMessage(ADMIN_CHAT_ID, telegramMessage, { parse_mode: 'Markdown' });
@@ -501,6 +741,287 @@ export async function sendBroadcast(message: string, tutors: any[]) {
   return { success: true, sent, failed };
 }
 
+// ---- Bot commands ----
+// Only answered in a chat that is linked to a tutor, and only with that tutor's data
+
+interface CommandTutor {
+  id: string;
+  full_name: string;
+  timezone: string;
+  currency: string;
+  time_format: string;
+}
+
+const BOT_COMMANDS: TelegramBot.BotCommand[] = [
+  { command: 'today', description: "Today's sessions" },
+  { command: 'tomorrow', description: "Tomorrow's sessions" },
+  { command: 'week', description: 'Sessions for the next 7 days' },
+  { command: 'next', description: 'Your next session' },
+  { command: 'unpaid', description: 'Sessions waiting for payment' },
+  { command: 'earnings', description: 'Earnings: /earnings today | week | month | year' },
+  { command: 'help', description: 'List the commands' },
+  { command: 'stop', description: 'Stop notifications and unlink this chat' },
+];
+
+const EARNINGS_PERIODS: Record<string, { unit: 'day' | 'week' | 'month' | 'year'; label: string }> = {
+  today: { unit: 'day', label: 'today' },
+  week: { unit: 'week', label: 'this week' },
+  month: { unit: 'month', label: 'this month' },
+  year: { unit: 'year', label: 'this year' },
+};
+
+// Past the first ones, /unpaid only counts the rest so the message stays readable
+const UNPAID_LIST_LIMIT = 15;
+
+async function getCommandTutor(chatId: number): Promise<CommandTutor | null> {
+  const { data, error } = await supabase
+    .from('tutors')
+    .select('id, full_name, timezone, currency, time_format')
+    .eq('telegram_chat_id', chatId.toString())
+    .limit(1);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data || data.length === 0) return null;
+
+  const tutor = data[0];
+  return {
+    ...tutor,
+    timezone: tutor.timezone || 'UTC',
+    currency: tutor.currency || 'USD',
+    time_format: tutor.time_format || '24h',
+  };
+}
+
+function sessionPrice(session: any): number {
+  return (session.duration / 60) * Number(session.rate);
+}
+
+function formatSessionLine(session: any, index: number, tutor: CommandTutor): string {
+  const startTime = formatTime(session.session_start, tutor.timezone, tutor.time_format);
+  const endTime = formatTime(session.session_end, tutor.timezone, tutor.time_format);
+  let line = `${index + 1}. ${escapeMarkdown(session.student_name)} • ${startTime} - ${endTime} • ${formatCurrency(sessionPrice(session), tutor.currency)}`;
+  if (session.status === 'pending') {
+    line += ` • _pending_`;
+  } else if (session.paid) {
+    line += ` ✅`;
+  }
+  return line;
+}
+
+function formatDaySessions(sessions: any[], tutor: CommandTutor): string {
+  if (sessions.length === 0) {
+    return `No sessions scheduled\n`;
+  }
+
+  let message = sessions.map((session, index) => formatSessionLine(session, index, tutor)).join('\n') + '\n';
+  const total = sessions.reduce((sum: number, session: any) => sum + sessionPrice(session), 0);
+  message += `\n*Total:* ${formatCurrency(total, tutor.currency)} from ${pluralize(sessions.length, 'session')}`;
+  return message;
+}
+
+function buildDayMessage(tutor: CommandTutor, title: string, day: dayjs.Dayjs, sessions: any[]): string {
+  return `📅 *${title}, ${day.format('MMMM D')}*\n\n` + formatDaySessions(sessions, tutor);
+}
+
+async function buildWeekMessage(tutor: CommandTutor): Promise<string> {
+  const today = dayjs().tz(tutor.timezone).startOf('day');
+  const lastDay = today.add(6, 'day');
+  const sessions = await getSessionsBetween(tutor.id, today, lastDay.endOf('day'));
+
+  let message = `🗓 *Next 7 days (${today.format('MMM D')} - ${lastDay.format('MMM D')})*\n\n`;
+  if (sessions.length === 0) {
+    return message + `No sessions scheduled`;
+  }
+
+  for (let offset = 0; offset < 7; offset++) {
+    const day = today.add(offset, 'day');
+    const daySessions = sessions.filter((session: any) => dayjs(session.session_start).tz(tutor.timezone).isSame(day, 'day'));
+    if (daySessions.length === 0) continue;
+
+    message += `*${day.format('dddd, MMM D')}*\n`;
+    message += daySessions.map((session: any, index: number) => formatSessionLine(session, index, tutor)).join('\n') + '\n\n';
+  }
+
+  const total = sessions.reduce((sum: number, session: any) => sum + sessionPrice(session), 0);
+  message += `*Total:* ${formatCurrency(total, tutor.currency)} from ${pluralize(sessions.length, 'session')}`;
+  return message;
+}
+
+async function buildNextMessage(tutor: CommandTutor): Promise<string> {
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('session_start, duration, rate, status, unassigned_name, students (name)')
+    .eq('tutor_id', tutor.id)
+    .or('status.is.null,status.not.in.(cancelled,pending)')
+    .gt('session_start', new Date().toISOString())
+    .order('session_start', { ascending: true })
+    .limit(1);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data || data.length === 0) {
+    return `📭 No upcoming sessions scheduled.`;
+  }
+
+  const session: any = data[0];
+  const minutesAway = dayjs(session.session_start).diff(dayjs(), 'minute');
+  const hours = Math.floor(minutesAway / 60);
+  const countdown = hours >= 24
+    ? `in ${pluralize(Math.floor(hours / 24), 'day')}`
+    : hours > 0 ? `in ${hours} h ${minutesAway % 60} min` : `in ${pluralize(minutesAway, 'minute')}`;
+
+  let message = `⏭ *Next session* (${countdown})\n\n`;
+  message += `👤 *Student:* ${escapeMarkdown(session.students?.name || session.unassigned_name || 'Unknown Student')}\n`;
+  message += `📅 *Date:* ${formatDateTime(session.session_start, tutor.timezone, tutor.time_format)}\n`;
+  message += `⏱️ *Duration:* ${session.duration} minutes\n`;
+  message += `💰 *Earnings:* ${formatCurrency(sessionPrice(session), tutor.currency)}`;
+  return message;
+}
+
+async function buildUnpaidMessage(tutor: CommandTutor): Promise<string> {
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('session_start, duration, rate, paid, amount_paid, unassigned_name, students (name)')
+    .eq('tutor_id', tutor.id)
+    .eq('paid', false)
+    .or('status.is.null,status.not.in.(cancelled,pending)')
+    .lte('session_start', new Date().toISOString())
+    .order('session_start', { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const sessions = (data || []).filter((session: any) => sessionBalance(session) > 0);
+  if (sessions.length === 0) {
+    return `🎉 Nothing unpaid - all your sessions are settled!`;
+  }
+
+  const total = sessions.reduce((sum: number, session: any) => sum + sessionBalance(session), 0);
+  let message = `⚠️ *Unpaid Sessions*\n\n`;
+  sessions.slice(0, UNPAID_LIST_LIMIT).forEach((session: any, index: number) => {
+    const studentName = session.students?.name || session.unassigned_name || 'Unknown Student';
+    const date = dayjs(session.session_start).tz(tutor.timezone).format('MMM D');
+    message += `${index + 1}. ${escapeMarkdown(studentName)} • ${date} • ${formatCurrency(sessionBalance(session), tutor.currency)}\n`;
+  });
+  if (sessions.length > UNPAID_LIST_LIMIT) {
+    message += `_...and ${pluralize(sessions.length - UNPAID_LIST_LIMIT, 'more session')}_\n`;
+  }
+  message += `\n*Total owed:* ${formatCurrency(total, tutor.currency)} from ${pluralize(sessions.length, 'session')}`;
+  return message;
+}
+
+async function buildEarningsMessage(tutor: CommandTutor, periodArg: string | undefined): Promise<string> {
+  const period = EARNINGS_PERIODS[(periodArg || 'month').toLowerCase()];
+  if (!period) {
+    return `Usage: /earnings today | week | month | year`;
+  }
+
+  const now = dayjs().tz(tutor.timezone);
+  const { earnings, count } = await calculateEarnings(tutor.id, now.startOf(period.unit), now.endOf(period.unit));
+
+  return `💰 *Earnings ${period.label}*\n` +
+    `${formatCurrency(earnings, tutor.currency)} from ${pluralize(count, 'paid session')}`;
+}
+
+function buildHelpMessage(tutor: CommandTutor): string {
+  let message = `👋 Hi ${escapeMarkdown(tutor.full_name || 'there')}! Here's what I can do:\n\n`;
+  message += BOT_COMMANDS.map(({ command, description }) => `/${command} - ${description}`).join('\n');
+  return message;
+}
+
+// The profile page link to the bot, carrying a one-time link code
+export function telegramDeepLink(code: string): string | null {
+  return botUsername ? `https://t.me/${botUsername}?start=${code}` : null;
+}
+
+function linkInstructions(name: string): string {
+  return `👋 Hi ${name}! To get notifications here, open your Profile in Classterly, choose "Connect Telegram" and send me the code it shows (or tap the link next to it).`;
+}
+
+// Only a code handed out on the tutor's profile page links a chat, so knowing someone's email isn't enough
+async function linkChatWithCode(chatId: number, text: string) {
+  if (!bot) return;
+
+  const code = normalizeLinkCode(text);
+  const linked = code ? await linkTelegramChat(code, chatId.toString()) : null;
+  if (!linked) {
+    await bot.sendMessage(chatId, `⚠️ That code is invalid or has expired. Get a new one on your Classterly profile page.`);
+    return;
+  }
+
+  await bot.sendMessage(chatId, `✅ Hi ${linked.tutorName}! This chat is now linked to your Classterly account. You'll get booking alerts and a daily summary (9 PM unless you change it on your profile page).\n\nSend /help to see what else I can do, or /stop to unlink.`);
+  console.log(`✅ Telegram chat linked for ${linked.tutorName}`);
+}
+
+// Returns false when the text isn't a command, so the caller can treat it as a plain message
+async function handleCommand(chatId: number, text: string, name: string): Promise<boolean> {
+  if (!bot || !text.startsWith('/')) return false;
+
+  // In group chats commands arrive as /today@BotName
+  const [rawCommand, ...args] = text.split(/\s+/);
+  const command = rawCommand.slice(1).split('@')[0].toLowerCase();
+
+  // The deep link from the profile page opens the chat with "/start <code>"
+  if (command === 'start' && args[0]) {
+    await linkChatWithCode(chatId, args[0]);
+    return true;
+  }
+
+  if (command === 'stop') {
+    const unlinked = await unlinkTelegramChat(chatId.toString());
+    await bot.sendMessage(chatId, unlinked
+      ? `👋 This chat is unlinked and won't get Classterly notifications anymore. You can link it again from your profile page.`
+      : `This chat isn't linked to a Classterly account.`);
+    if (unlinked) {
+      console.log(`🔕 Telegram chat ${chatId} unlinked with /stop`);
+    }
+    return true;
+  }
+
+  const tutor = await getCommandTutor(chatId);
+  if (!tutor) {
+    await bot.sendMessage(chatId, linkInstructions(name));
+    return true;
+  }
+
+  const today = dayjs().tz(tutor.timezone);
+  let message: string;
+  switch (command) {
+    case 'today':
+      message = buildDayMessage(tutor, 'Today', today, await getSessionsBetween(tutor.id, today.startOf('day'), today.endOf('day')));
+      break;
+    case 'tomorrow':
+      message = buildDayMessage(tutor, 'Tomorrow', today.add(1, 'day'), await getTomorrowSessions(tutor.id, tutor.timezone));
+      break;
+    case 'week':
+      message = await buildWeekMessage(tutor);
+      break;
+    case 'next':
+      message = await buildNextMessage(tutor);
+      break;
+    case 'unpaid':
+      message = await buildUnpaidMessage(tutor);
+      break;
+    case 'earnings':
+      message = await buildEarningsMessage(tutor, args[0]);
+      break;
+    case 'start':
+    case 'help':
+      message = buildHelpMessage(tutor);
+      break;
+    default:
+      message = `🤔 Unknown command. Send /help to see what I can do.`;
+  }
+
+  await bot.sendMessage(chatId, message, { parse_mode: 'Markdown' });
+  console.log(`🤖 Answered /${command} for ${tutor.full_name}`);
+  return true;
+}
+
 export async function initializeTelegram() {
   if (!botToken || !supabaseUrl || !supabaseKey) {
     console.warn("⚠️ Telegram bot not initialized - missing environment variables");
@@ -547,6 +1068,7 @@ export async function initializeTelegram() {
     });
 
     bot.getMe().then((botInfo) => {
+      botUsername = botInfo.username || null;
       console.log("✅ Classterly Telegram bot is running!");
       console.log(`📱 Bot username: @${botInfo.username}`);
       console.log(`🔗 Bot link: https://t.me/${botInfo.username}`);
@@ -554,6 +1076,11 @@ export async function initializeTelegram() {
       console.error("❌ Error getting bot info:", error);
     });
 
+    // The command menu shown next to the message box
+    bot.setMyCommands(BOT_COMMANDS).catch((error) => {
+      console.error("❌ Error registering bot commands:", error);
+    });
+
     bot.on('message', async (msg) => {
       const chatId = msg.chat.id;
       const userInput = msg.text?.trim();
@@ -564,26 +1091,22 @@ export async function initializeTelegram() {
         return;
       }
 
-      if (!userInput || !userInput.includes('@')) {
-        await bot.sendMessage(chatId, `👋 Hi ${name}! Please reply with your email (the one you used to sign up in Classterly).`);
+      try {
+        if (userInput && await handleCommand(chatId, userInput, name)) return;
+      } catch (err) {
+        console.error("❌ Error handling command:", err);
+        await bot.sendMessage(chatId, `❌ Something went wrong. Please try again later.`);
         return;
       }
 
       try {
-        const { data, error } = await supabase
-          .from('tutors')
-          .update({ telegram_chat_id: chatId.toString() })
-          .eq('email', userInput.toLowerCase())
-          .select();
-
-        if (error) {
-          console.error("❌ Supabase update error:", error);
-          await bot.sendMessage(chatId, `❌ Something went wrong while saving your Telegram subscription. Please try again later.`);
-        } else if (!data || data.length === 0) {
-          await bot.sendMessage(chatId, `⚠️ Couldn't find a tutor with that email. Please double-check and try again.`);
+        // A code typed in by hand
+        if (userInput && normalizeLinkCode(userInput)) {
+          await linkChatWithCode(chatId, userInput);
+        } else if (await getCommandTutor(chatId)) {
+          await bot.sendMessage(chatId, `Send /help to see what I can do.`);
         } else {
-          await bot.sendMessage(chatId, `✅ You're now subscribed to daily updates from Classterly!`);
-          console.log(`✅ chat_id saved for: ${userInput}`);
+          await bot.sendMessage(chatId, linkInstructions(name));
         }
       } catch (err) {
         console.error("❌ Unexpected error:", err);
@@ -591,6 +1114,23 @@ export async function initializeTelegram() {
       }
     });
 
+    bot.on('callback_query', async (query) => {
+      if (!bot) return;
+
+      try {
+        if (query.data?.startsWith('booking:')) {
+          await handleBookingCallback(query);
+        } else if (query.data?.startsWith('paid:')) {
+          await handlePaidCallback(query);
+        } else {
+          await bot.answerCallbackQuery(query.id);
+        }
+      } catch (err) {
+        console.error("❌ Error handling button:", err);
+        await bot.answerCallbackQuery(query.id, { text: '❌ Something went wrong. Please try again later.' }).catch(() => {});
+      }
+    });
+
     bot.on('polling_error', (error: any) => {
       // 409 conflicts can happen during development when the server restarts quickly
       // The old instance hasn't fully released yet - this resolves itself
@@ -623,7 +1163,7 @@ export async function initializeTelegram() {
       });
 
     console.log("📱 Classterly notification scheduler is running...");
-    console.log("⏰ Checking for 9 PM notifications every minute");
+    console.log("⏰ Checking for scheduled daily summaries every minute");
 
     checkAndSendNotifications();
     setInterval(checkAndSendNotifications, 60 * 1000);
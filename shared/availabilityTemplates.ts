@@ -0,0 +1,90 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// Weekly availability templates (migrations/create_availability_templates.sql). Times are
+// wall-clock times in the tutor's timezone, so a template keeps its local hours across DST.
+
+export interface AvailabilityTemplate {
+  id: string;
+  tutor_id: string;
+  weekday: number; // 0 (Sun) - 6 (Sat)
+  start_time: string; // 'HH:mm' or 'HH:mm:ss'
+  end_time: string;
+}
+
+export interface AvailabilityException {
+  id: string;
+  tutor_id: string;
+  exception_date: string; // 'YYYY-MM-DD' in the tutor's timezone
+  note?: string | null;
+}
+
+// Same shape as a booking_slots row so callers can list both together
+export interface AvailabilityWindow {
+  id: string;
+  start_time: string; // UTC ISO
+  end_time: string; // UTC ISO
+  from_template: boolean;
+}
+
+
+// How far ahead templates are expanded when the tutor has no booking horizon
+export const TEMPLATE_HORIZON_DAYS = 60;
+
+const hhmm = (time: string) => time.slice(0, 5);
+
+/**
+ * Concrete windows generated by the templates between two instants, skipping exception
+ * dates. Windows that have already ended are left out; one still in progress is kept.
+ */
+export function expandAvailabilityTemplates(
+  templates: AvailabilityTemplate[],
+  exceptions: AvailabilityException[],
+  tutorTimezone: string,
+  from: string,
+  to: string
+): AvailabilityWindow[] {
+  if (templates.length === 0) return [];
+
+  const skipped = new Set(exceptions.map(exception => exception.exception_date));
+  const rangeStart = dayjs.utc(from);
+  const rangeEnd = dayjs.utc(to);
+  const lastDay = rangeEnd.tz(tutorTimezone).format('YYYY-MM-DD');
+  const windows: AvailabilityWindow[] = [];
+
+  // Walk calendar dates (not 24h steps, which drift across DST changes)
+  let day = dayjs.utc(rangeStart.tz(tutorTimezone).format('YYYY-MM-DD'));
+  while (day.format('YYYY-MM-DD') <= lastDay) {
+    const date = day.format('YYYY-MM-DD');
+
+    if (!skipped.has(date)) {
+      for (const template of templates) {
+        if (template.weekday !== day.day()) continue;
+
+        const start = dayjs.tz(`${date}T${hhmm(template.start_time)}:00`, tutorTimezone).utc();
+        const end = dayjs.tz(`${date}T${hhmm(template.end_time)}:00`, tutorTimezone).utc();
+        if (!end.isAfter(rangeStart) || start.isAfter(rangeEnd)) continue;
+
+        windows.push({
+          id: `template-${template.id}-${date}`,
+          start_time: start.toISOString(),
+          end_time: end.toISOString(),
+          from_template: true,
+        });
+      }
+    }
+
+    day = day.add(1, 'day');
+  }
+
+  return windows.sort((a, b) => a.start_time.localeCompare(b.start_time));
+}
+
+// Whether two ranges on the same weekday overlap ('HH:mm' strings compare lexically)
+export function templateRangesOverlap(a: { start_time: string; end_time: string }, b: { start_time: string; end_time: string }): boolean {
+  return hhmm(a.start_time) < hhmm(b.end_time) && hhmm(b.start_time) < hhmm(a.end_time);
+}
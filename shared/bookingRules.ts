@@ -0,0 +1,119 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+import type { ConflictCandidate, TimeRange } from './conflicts';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// Tutor-defined limits on what students can book from the public page. The page uses these
+// helpers to only offer valid times; public_booking_rejection() enforces the same rules
+// in the database (migrations/add_booking_rules.sql).
+
+export interface BookingRules {
+  minNoticeHours: number; // earliest start is now + this
+  maxDaysAhead: number | null; // null = no limit
+  allowedDurations: number[]; // minutes, ascending
+  slotGranularityMinutes: number; // starts are offered every N minutes from the window start
+  dailyCap: number | null; // max sessions on one day (tutor's timezone); null = no limit
+}
+
+export type BookingRuleViolation =
+  | 'too_soon'
+  | 'too_far_ahead'
+  | 'duration_not_allowed'
+  | 'invalid_start_time'
+  | 'daily_cap_reached';
+
+// The tutor's time grid (tutors.slot_granularity_minutes). Besides the public start times it
+// sets the availability grid's snapping, slot rounding and the calendar's rows.
+export const SLOT_GRANULARITY_OPTIONS = [10, 15, 20, 30, 60];
+export const DEFAULT_SLOT_GRANULARITY = 15;
+
+export const DEFAULT_BOOKING_RULES: BookingRules = {
+  minNoticeHours: 0,
+  maxDaysAhead: null,
+  allowedDurations: [30, 45, 60, 90, 120],
+  slotGranularityMinutes: DEFAULT_SLOT_GRANULARITY,
+  dailyCap: null,
+};
+
+// Choices offered in the availability settings
+export const BOOKING_DURATION_OPTIONS = [15, 20, 30, 45, 60, 75, 90, 120, 150, 180, 240];
+export const MIN_NOTICE_HOUR_OPTIONS = [0, 1, 2, 4, 6, 12, 24, 48, 72];
+export const MAX_DAYS_AHEAD_OPTIONS = [7, 14, 30, 60, 90, 180, 365];
+
+export function bookingRulesFromTutor(tutor?: {
+  booking_min_notice_hours?: number | null;
+  booking_max_days_ahead?: number | null;
+  booking_allowed_durations?: number[] | null;
+  slot_granularity_minutes?: number | null;
+  booking_daily_cap?: number | null;
+} | null): BookingRules {
+  const durations = tutor?.booking_allowed_durations?.length
+    ? [...tutor.booking_allowed_durations].sort((a, b) => a - b)
+    : DEFAULT_BOOKING_RULES.allowedDurations;
+
+  return {
+    minNoticeHours: tutor?.booking_min_notice_hours ?? DEFAULT_BOOKING_RULES.minNoticeHours,
+    maxDaysAhead: tutor?.booking_max_days_ahead ?? null,
+    allowedDurations: durations,
+    slotGranularityMinutes: tutor?.slot_granularity_minutes ?? DEFAULT_SLOT_GRANULARITY,
+    dailyCap: tutor?.booking_daily_cap ?? null,
+  };
+}
+
+export function formatBookingDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+// The span of start times the rules allow right now
+export function bookableRange(rules: BookingRules, now = dayjs.utc()): { earliest: dayjs.Dayjs; latest: dayjs.Dayjs | null } {
+  return {
+    earliest: now.add(rules.minNoticeHours, 'hour'),
+    latest: rules.maxDaysAhead === null ? null : now.add(rules.maxDaysAhead, 'day'),
+  };
+}
+
+// Non-cancelled sessions on the same calendar day as `start` in the tutor's timezone
+export function sessionsOnDay(sessions: ConflictCandidate[], start: string, tutorTimezone: string): number {
+  const day = dayjs.utc(start).tz(tutorTimezone).format('YYYY-MM-DD');
+  return sessions.filter(session =>
+    session.status !== 'cancelled' &&
+    dayjs.utc(session.session_start).tz(tutorTimezone).format('YYYY-MM-DD') === day
+  ).length;
+}
+
+export function isDailyCapReached(rules: BookingRules, sessions: ConflictCandidate[], start: string, tutorTimezone: string): boolean {
+  return rules.dailyCap !== null && sessionsOnDay(sessions, start, tutorTimezone) >= rules.dailyCap;
+}
+
+/**
+ * Start times (UTC ISO) inside an availability window that leave room for `duration`,
+ * step by the tutor's slot granularity from the window start and respect notice / horizon.
+ * Overlaps and the daily cap depend on loaded sessions and are checked by the caller.
+ */
+export function startTimesInWindow(window: TimeRange, duration: number, rules: BookingRules, now = dayjs.utc()): string[] {
+  const { earliest, latest } = bookableRange(rules, now);
+  const windowEnd = dayjs.utc(window.end);
+  const starts: string[] = [];
+
+  let current = dayjs.utc(window.start);
+  while (!current.add(duration, 'minute').isAfter(windowEnd)) {
+    if (latest && current.isAfter(latest)) break;
+    if (!current.isBefore(earliest)) {
+      starts.push(current.toISOString());
+    }
+    current = current.add(rules.slotGranularityMinutes, 'minute');
+  }
+
+  return starts;
+}
+
+// Whether any start in the window could still be booked under notice / horizon
+export function isWindowBookable(window: TimeRange, rules: BookingRules, now = dayjs.utc()): boolean {
+  const shortest = rules.allowedDurations[0] ?? DEFAULT_BOOKING_RULES.allowedDurations[0];
+  return startTimesInWindow(window, shortest, rules, now).length > 0;
+}
@@ -0,0 +1,121 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+
+dayjs.extend(utc);
+
+// Overlap checks shared by the calendar, the schedule modal and the public booking page.
+// Callers load the tutor's sessions; these helpers only compare time ranges. The public
+// booking API checks session rows in SQL instead (public_booking_rejection) and only uses
+// findConflicts for recurring lessons not generated yet, so a rule changed here has to be
+// changed there as well.
+
+export interface TimeRange {
+  start: string; // UTC ISO timestamp
+  end: string; // UTC ISO timestamp
+}
+
+export interface ConflictCandidate {
+  id: string;
+  session_start: string;
+  session_end: string;
+  status?: string | null;
+  recurrence_id?: string | null;
+  student_name?: string | null;
+  unassigned_name?: string | null;
+}
+
+// Minutes the tutor keeps free before / after each session
+export interface BufferSettings {
+  before: number;
+  after: number;
+}
+
+export type ConflictKind = 'overlap' | 'buffer';
+
+export interface SessionConflict {
+  proposed: TimeRange;
+  session: ConflictCandidate;
+  kind: ConflictKind; // 'buffer' = no real overlap, but closer than the tutor's buffer time
+  isPending: boolean; // conflicting with a booking request that hasn't been accepted yet
+}
+
+export const NO_BUFFERS: BufferSettings = { before: 0, after: 0 };
+
+// Buffer choices offered in the profile settings
+export const BUFFER_MINUTE_OPTIONS = [0, 5, 10, 15, 20, 30, 45, 60];
+
+export function buffersFromTutor(tutor?: { buffer_before_minutes?: number | null; buffer_after_minutes?: number | null } | null): BufferSettings {
+  return {
+    before: tutor?.buffer_before_minutes ?? 0,
+    after: tutor?.buffer_after_minutes ?? 0,
+  };
+}
+
+export function rangesOverlap(a: TimeRange, b: TimeRange): boolean {
+  return dayjs.utc(a.start).isBefore(dayjs.utc(b.end)) && dayjs.utc(b.start).isBefore(dayjs.utc(a.end));
+}
+
+// The range a session blocks once buffers are added around it
+export function withBuffers(range: TimeRange, buffers: BufferSettings = NO_BUFFERS): TimeRange {
+  return {
+    start: dayjs.utc(range.start).subtract(buffers.before, 'minute').toISOString(),
+    end: dayjs.utc(range.end).add(buffers.after, 'minute').toISOString(),
+  };
+}
+
+/**
+ * Compare proposed ranges (a single session or every occurrence of a series) against
+ * existing sessions. Cancelled sessions never conflict. Two sessions are too close when
+ * either one, buffers included, reaches into the other.
+ */
+export function findConflicts(
+  proposed: TimeRange[],
+  existing: ConflictCandidate[],
+  options: { buffers?: BufferSettings; excludeIds?: string[] } = {}
+): SessionConflict[] {
+  const buffers = options.buffers ?? NO_BUFFERS;
+  const excluded = new Set(options.excludeIds ?? []);
+  const candidates = existing.filter(session => session.status !== 'cancelled' && !excluded.has(session.id));
+
+  const conflicts: SessionConflict[] = [];
+
+  for (const range of proposed) {
+    const buffered = withBuffers(range, buffers);
+
+    for (const session of candidates) {
+      const sessionRange = { start: session.session_start, end: session.session_end };
+      let kind: ConflictKind | null = null;
+
+      if (rangesOverlap(range, sessionRange)) {
+        kind = 'overlap';
+      } else if (rangesOverlap(buffered, sessionRange) || rangesOverlap(range, withBuffers(sessionRange, buffers))) {
+        kind = 'buffer';
+      }
+
+      if (kind) {
+        conflicts.push({
+          proposed: range,
+          session,
+          kind,
+          isPending: session.status === 'pending',
+        });
+      }
+    }
+  }
+
+  return conflicts.sort((a, b) => dayjs.utc(a.proposed.start).diff(dayjs.utc(b.proposed.start)));
+}
+
+// Window to load existing sessions for, so that buffered neighbours are included too
+export function conflictSearchWindow(proposed: TimeRange[], buffers: BufferSettings = NO_BUFFERS): TimeRange | null {
+  if (proposed.length === 0) return null;
+
+  const margin = Math.max(buffers.before, buffers.after);
+  const starts = proposed.map(range => dayjs.utc(range.start).valueOf());
+  const ends = proposed.map(range => dayjs.utc(range.end).valueOf());
+
+  return {
+    start: dayjs.utc(Math.min(...starts)).subtract(margin, 'minute').toISOString(),
+    end: dayjs.utc(Math.max(...ends)).add(margin, 'minute').toISOString(),
+  };
+}
@@ -0,0 +1,55 @@
+// Invoices for one student and a billing period (migrations/create_invoices.sql). The line
+// items are copied from the sessions when the invoice is made and don't follow later edits.
+
+export type InvoiceStatus = 'draft' | 'sent' | 'paid';
+
+export const INVOICE_STATUSES: Array<{ value: InvoiceStatus; label: string }> = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'paid', label: 'Paid' },
+];
+
+export interface Invoice {
+  id: string;
+  tutor_id: string;
+  student_id: string | null;
+  student_name: string;
+  number: number;
+  period_start: string; // 'YYYY-MM-DD' in the tutor's timezone
+  period_end: string; // last day included
+  issued_on: string;
+  currency: string;
+  total: number;
+  amount_paid: number; // already paid on the sessions when the invoice was made
+  status: InvoiceStatus;
+  notes: string | null;
+  sent_at: string | null;
+  paid_at: string | null;
+  created_at?: string;
+}
+
+export interface InvoiceItem {
+  id: string;
+  invoice_id: string;
+  session_id: string | null; // null once the session is deleted
+  session_start: string;
+  description: string;
+  duration: number; // minutes
+  rate: number; // per hour
+  amount: number;
+  amount_paid: number;
+}
+
+export function invoiceStatusLabel(status: string): string {
+  return INVOICE_STATUSES.find(s => s.value === status)?.label ?? status;
+}
+
+// INV-0042
+export function formatInvoiceNumber(number: number): string {
+  return `INV-${String(number).padStart(4, '0')}`;
+}
+
+// What is left to pay on an invoice; never negative
+export function invoiceAmountDue(invoice: Pick<Invoice, 'total' | 'amount_paid'>): number {
+  return Math.max(Math.round((Number(invoice.total) - Number(invoice.amount_paid)) * 100) / 100, 0);
+}
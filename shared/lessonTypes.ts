@@ -0,0 +1,58 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+import type { TimeRange } from './conflicts';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// Lessons a tutor offers (migrations/create_lesson_types.sql). A type fixes the session length
+// and prefills rate and color; lesson_type_rejection() applies the same hours as
+// isLessonTypeAvailable() when a public booking is made or moved.
+
+export interface LessonType {
+  id: string;
+  tutor_id: string;
+  name: string;
+  duration: number; // minutes
+  price: number; // per lesson, in the tutor's currency; 0 = free
+  color: string;
+  is_public: boolean; // offered on the public booking page
+  available_weekdays: number[] | null; // 0 (Sun) - 6 (Sat); null = every day
+  available_from: string | null; // 'HH:mm' or 'HH:mm:ss' in the tutor's timezone; null = no limit
+  available_until: string | null;
+}
+
+export type LessonTypeInput = Omit<LessonType, 'id' | 'tutor_id'>;
+
+// Same choices as the session color picker
+export const LESSON_TYPE_COLORS = ['#3B82F6', '#F87171', '#34D399', '#FBBF24', '#A78BFA', '#6B7280'];
+
+const hhmm = (time: string) => time.slice(0, 5);
+
+// Sessions store an hourly rate; a lesson type has a price per lesson
+export function lessonTypeHourlyRate(lessonType: Pick<LessonType, 'price' | 'duration'>): number {
+  return Math.round((Number(lessonType.price) * 60 / lessonType.duration) * 100) / 100;
+}
+
+export function isLessonTypeRestricted(lessonType: LessonType): boolean {
+  return lessonType.available_weekdays !== null || lessonType.available_from !== null || lessonType.available_until !== null;
+}
+
+// Whether a lesson in this range fits the type's days and hours (tutor's timezone)
+export function isLessonTypeAvailable(lessonType: LessonType, range: TimeRange, tutorTimezone: string): boolean {
+  const start = dayjs.utc(range.start).tz(tutorTimezone);
+  const end = dayjs.utc(range.end).tz(tutorTimezone);
+
+  if (lessonType.available_weekdays && !lessonType.available_weekdays.includes(start.day())) {
+    return false;
+  }
+  if (lessonType.available_from && start.format('HH:mm') < hhmm(lessonType.available_from)) {
+    return false;
+  }
+  if (lessonType.available_until) {
+    const sameDay = end.format('YYYY-MM-DD') === start.format('YYYY-MM-DD');
+    if (!sameDay || end.format('HH:mm') > hhmm(lessonType.available_until)) return false;
+  }
+  return true;
+}
@@ -0,0 +1,50 @@
+// When the Telegram daily summary goes out and what it contains
+// (migrations/add_notification_schedule.sql). Times and days are in the tutor's timezone.
+
+export type NotificationSection = 'today_earnings' | 'today_unpaid' | 'past_unpaid' | 'tomorrow' | 'weekly_recap';
+
+export const NOTIFICATION_SECTIONS: Array<{ value: NotificationSection; label: string }> = [
+  { value: 'today_earnings', label: "Today's earnings" },
+  { value: 'today_unpaid', label: "Today's unpaid sessions" },
+  { value: 'past_unpaid', label: 'Past unpaid sessions' },
+  { value: 'tomorrow', label: "Tomorrow's sessions" },
+  { value: 'weekly_recap', label: 'Weekly recap (Sundays)' },
+];
+
+export const DEFAULT_NOTIFICATION_TIME = '21:00';
+export const DEFAULT_NOTIFICATION_DAYS = [0, 1, 2, 3, 4, 5, 6];
+export const DEFAULT_NOTIFICATION_SECTIONS: NotificationSection[] = ['today_earnings', 'today_unpaid', 'past_unpaid', 'tomorrow'];
+
+// Sunday first, as dayjs().day() counts
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// A summary missed at its exact minute (e.g. the server was restarting) still goes out within this
+export const NOTIFICATION_WINDOW_MINUTES = 60;
+
+export interface NotificationSchedule {
+  notification_time: string | null; // "HH:MM" or "HH:MM:SS" as Postgres returns TIME
+  notification_days: number[] | null;
+  notification_sections: string[] | null;
+}
+
+export function notificationMinutes(time: string | null | undefined): number {
+  const [hours, minutes] = (time || DEFAULT_NOTIFICATION_TIME).split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Whether the summary is due at this local day (0 = Sunday) and minute of the day. The window
+ * stops at midnight so it never spills into the next day, which would send that day's too.
+ */
+export function isNotificationDue(schedule: NotificationSchedule, localDay: number, localMinutes: number): boolean {
+  const days = schedule.notification_days ?? DEFAULT_NOTIFICATION_DAYS;
+  if (!days.includes(localDay)) return false;
+
+  const start = notificationMinutes(schedule.notification_time);
+  const end = Math.min(start + NOTIFICATION_WINDOW_MINUTES, 24 * 60);
+  return localMinutes >= start && localMinutes < end;
+}
+
+export function notificationSections(schedule: NotificationSchedule): NotificationSection[] {
+  return (schedule.notification_sections ?? DEFAULT_NOTIFICATION_SECTIONS) as NotificationSection[];
+}
@@ -0,0 +1,44 @@
+// Payment reminder emails (migrations/create_payment_reminders.sql). A tutor picks how many
+// days after an unpaid session its student is reminded; every step sends at most one email
+// per session, listing everything the student still owes.
+
+export const PAYMENT_REMINDER_DAY_OPTIONS = [1, 3, 7, 14, 30];
+export const DEFAULT_PAYMENT_REMINDER_DAYS = [3, 7];
+
+export interface PaymentReminder {
+  id: string;
+  tutor_id: string;
+  student_id: string | null;
+  sent_to: string;
+  days_after: number;
+  session_count: number;
+  amount: number;
+  currency: string;
+  status: 'sent' | 'failed';
+  error: string | null;
+  created_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The step a session is due a reminder for: the latest one that has passed since the session
+ * started and is later than the step it was last reminded at. Null if none is due. Steps that
+ * passed together (e.g. reminders were switched on late) send one email, not one per step.
+ */
+export function dueReminderStep(
+  sessionStart: string,
+  days: number[],
+  lastRemindedStep: number | null,
+  now: Date = new Date()
+): number | null {
+  const elapsedDays = (now.getTime() - new Date(sessionStart).getTime()) / DAY_MS;
+  const passed = days.filter(day => day <= elapsedDays && (lastRemindedStep === null || day > lastRemindedStep));
+  return passed.length > 0 ? Math.max(...passed) : null;
+}
+
+export function describeReminderDays(days: number[]): string {
+  const sorted = [...days].sort((a, b) => a - b);
+  if (sorted.length === 0) return 'No reminders';
+  return `${sorted.join(', ')} day${sorted[sorted.length - 1] !== 1 ? 's' : ''} after an unpaid session`;
+}
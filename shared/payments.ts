@@ -0,0 +1,93 @@
+// Payments tutors record against sessions (migrations/create_payments.sql). A payment can cover
+// several sessions and a session can be paid in parts; sessions.amount_paid adds up what it
+// has received, so the balance is what a session costs minus that. A session settled by a
+// prepaid lesson package is paid even if the package's per-lesson value is lower.
+
+export type PaymentMethod = 'cash' | 'bank_transfer' | 'card' | 'paypal' | 'other';
+
+export const PAYMENT_METHODS: Array<{ value: PaymentMethod; label: string }> = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'bank_transfer', label: 'Bank transfer' },
+  { value: 'card', label: 'Card' },
+  { value: 'paypal', label: 'PayPal' },
+  { value: 'other', label: 'Other' },
+];
+
+export interface Payment {
+  id: string;
+  tutor_id: string;
+  student_id: string | null;
+  amount: number;
+  payment_date: string; // 'YYYY-MM-DD' in the tutor's timezone
+  method: PaymentMethod;
+  note: string | null;
+  created_at?: string;
+}
+
+export interface PaymentAllocation {
+  session_id: string;
+  amount: number;
+}
+
+// The session fields a balance needs
+export interface PayableSession {
+  id: string;
+  session_start: string;
+  duration: number;
+  rate: number; // per hour
+  amount_paid?: number | null;
+  paid?: boolean | null;
+}
+
+export interface RecordPaymentResult {
+  payment: Payment;
+  sessions: any[]; // the updated session rows
+}
+
+const toCents = (amount: number) => Math.round(Number(amount) * 100);
+
+export function paymentMethodLabel(method: string): string {
+  return PAYMENT_METHODS.find(m => m.value === method)?.label ?? method;
+}
+
+// What a session costs, rounded to cents like session_amount_due() in SQL
+export function sessionAmountDue(session: Pick<PayableSession, 'duration' | 'rate'>): number {
+  return toCents((Number(session.duration) || 0) * (Number(session.rate) || 0) / 60) / 100;
+}
+
+export function sessionAmountPaid(session: Pick<PayableSession, 'amount_paid'>): number {
+  return Number(session.amount_paid) || 0;
+}
+
+// What is still owed on a session; never negative
+export function sessionBalance(session: Pick<PayableSession, 'duration' | 'rate' | 'amount_paid' | 'paid'>): number {
+  if (session.paid === true) return 0;
+  return Math.max(toCents(sessionAmountDue(session)) - toCents(sessionAmountPaid(session)), 0) / 100;
+}
+
+export function isPartiallyPaid(session: Pick<PayableSession, 'duration' | 'rate' | 'amount_paid' | 'paid'>): boolean {
+  return sessionAmountPaid(session) > 0 && sessionBalance(session) > 0;
+}
+
+/**
+ * Split a payment over sessions, settling the oldest first. The last session reached may be
+ * paid in part; sessions with nothing owed are skipped. Returns null if the amount is more
+ * than the sessions owe together.
+ */
+export function allocatePayment(amount: number, sessions: PayableSession[]): PaymentAllocation[] | null {
+  let remaining = toCents(amount);
+  const allocations: PaymentAllocation[] = [];
+
+  const oldestFirst = [...sessions].sort((a, b) => a.session_start.localeCompare(b.session_start));
+  for (const session of oldestFirst) {
+    if (remaining <= 0) break;
+    const balance = toCents(sessionBalance(session));
+    if (balance <= 0) continue;
+
+    const share = Math.min(balance, remaining);
+    allocations.push({ session_id: session.id, amount: share / 100 });
+    remaining -= share;
+  }
+
+  return remaining > 0 ? null : allocations;
+}
@@ -0,0 +1,179 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+import type { RecurrenceFrequency, SessionSeries } from './schema';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// Recurrence rules for session series.
+// A series stores the rule plus the first occurrence; concrete session rows are
+// materialized from it on demand and grouped by sessions.recurrence_id = series.id.
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // every N weeks / months
+  weekdays: number[]; // weekly only: 0 (Sun) - 6 (Sat); empty = weekday of the first session
+  monthlyWeek: number | null; // monthly only: 1-4 = nth weekday of the month, -1 = last weekday
+  until: string | null; // YYYY-MM-DD in the tutor's timezone, inclusive
+  count: number | null; // total number of occurrences, including the first one
+}
+
+export interface RecurrenceOccurrence {
+  index: number; // 0-based position in the series
+  start: string; // UTC ISO timestamp
+  end: string; // UTC ISO timestamp
+}
+
+// Hard stop so an open-ended rule can never spin forever
+const MAX_OCCURRENCES = 1000;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function seriesToRule(series: SessionSeries): RecurrenceRule {
+  return {
+    frequency: series.frequency,
+    interval: series.interval || 1,
+    weekdays: series.weekdays || [],
+    monthlyWeek: series.monthly_week,
+    until: series.until_date,
+    count: series.occurrence_count,
+  };
+}
+
+export function ruleToSeriesColumns(rule: RecurrenceRule) {
+  return {
+    frequency: rule.frequency,
+    interval: Math.max(1, rule.interval || 1),
+    weekdays: rule.frequency === 'weekly' ? rule.weekdays : null,
+    monthly_week: rule.frequency === 'monthly' ? rule.monthlyWeek : null,
+    until_date: rule.until,
+    occurrence_count: rule.count,
+  };
+}
+
+// Which "nth weekday" of its month a local date falls on (1-5)
+export function weekOfMonth(localDate: dayjs.Dayjs): number {
+  return Math.ceil(localDate.date() / 7);
+}
+
+export function isLastWeekdayOfMonth(localDate: dayjs.Dayjs): boolean {
+  return localDate.add(7, 'day').month() !== localDate.month();
+}
+
+function nthWeekdayOfMonth(monthStart: dayjs.Dayjs, weekday: number, nth: number): dayjs.Dayjs | null {
+  if (nth === -1) {
+    const lastDay = monthStart.endOf('month').startOf('day');
+    const offset = (lastDay.day() - weekday + 7) % 7;
+    return lastDay.subtract(offset, 'day');
+  }
+
+  const offset = (weekday - monthStart.day() + 7) % 7;
+  const candidate = monthStart.add(offset + (nth - 1) * 7, 'day');
+  return candidate.month() === monthStart.month() ? candidate : null;
+}
+
+/**
+ * Expand a recurrence rule into concrete occurrences.
+ * Local wall-clock time is kept across DST changes: "13:00 Kyiv" stays "13:00 Kyiv".
+ * Only occurrences starting in [fromUtc, toUtc) are returned, but indexes (and the
+ * `count` limit) are always counted from the first session of the series.
+ */
+export function expandRecurrence(params: {
+  rule: RecurrenceRule;
+  firstSessionStart: string;
+  duration: number;
+  timezone: string;
+  fromUtc?: string;
+  toUtc: string;
+}): RecurrenceOccurrence[] {
+  const { rule, firstSessionStart, duration, timezone: tz, fromUtc, toUtc } = params;
+
+  const firstLocal = dayjs.utc(firstSessionStart).tz(tz);
+  const localTime = firstLocal.format('HH:mm');
+  const firstDate = firstLocal.format('YYYY-MM-DD');
+  const from = fromUtc ? dayjs.utc(fromUtc) : null;
+  const to = dayjs.utc(toUtc);
+  const interval = Math.max(1, rule.interval || 1);
+
+  const occurrences: RecurrenceOccurrence[] = [];
+  let index = 0;
+
+  // Returns false once the rule is exhausted or we've passed the requested window
+  const push = (localDate: dayjs.Dayjs): boolean => {
+    const date = localDate.format('YYYY-MM-DD');
+    if (index > 0 && date <= firstDate) return true;
+    if (rule.until && date > rule.until) return false;
+    if (rule.count && index >= rule.count) return false;
+    if (index >= MAX_OCCURRENCES) return false;
+
+    const startUtc = dayjs.tz(`${date} ${localTime}`, tz).utc();
+    if (!startUtc.isBefore(to)) return false;
+
+    if (!from || !startUtc.isBefore(from)) {
+      occurrences.push({
+        index,
+        start: startUtc.toISOString(),
+        end: startUtc.add(duration, 'minute').toISOString(),
+      });
+    }
+    index++;
+    return true;
+  };
+
+  // Like RRULE's DTSTART, the first session is always occurrence 0 even if it doesn't match the pattern
+  if (!push(firstLocal)) return occurrences;
+
+  if (rule.frequency === 'monthly') {
+    const weekday = firstLocal.day();
+    const nth = rule.monthlyWeek ?? weekOfMonth(firstLocal);
+    const firstMonth = firstLocal.startOf('month');
+
+    for (let step = 0; index < MAX_OCCURRENCES; step += interval) {
+      const monthStart = firstMonth.add(step, 'month');
+      const date = nthWeekdayOfMonth(monthStart, weekday, nth);
+      if (date && !push(date)) break;
+      if (monthStart.isAfter(to.tz(tz))) break;
+    }
+  } else {
+    const weekdays = rule.weekdays.length > 0
+      ? Array.from(new Set(rule.weekdays)).sort((a, b) => a - b)
+      : [firstLocal.day()];
+    const firstWeek = firstLocal.startOf('week');
+
+    outer: for (let step = 0; index < MAX_OCCURRENCES; step += interval) {
+      const weekStart = firstWeek.add(step, 'week');
+      for (const weekday of weekdays) {
+        if (!push(weekStart.add(weekday, 'day'))) break outer;
+      }
+      if (weekStart.isAfter(to.tz(tz))) break;
+    }
+  }
+
+  return occurrences;
+}
+
+// Human readable summary, e.g. "Every 2 weeks on Mon, Thu until Dec 20, 2026"
+export function describeRecurrence(rule: RecurrenceRule, firstSessionStart: string, tz: string): string {
+  const firstLocal = dayjs.utc(firstSessionStart).tz(tz);
+  let text: string;
+
+  if (rule.frequency === 'monthly') {
+    const nth = rule.monthlyWeek ?? weekOfMonth(firstLocal);
+    const ordinal = nth === -1 ? 'last' : ['first', 'second', 'third', 'fourth', 'fifth'][nth - 1];
+    const every = rule.interval > 1 ? `Every ${rule.interval} months` : 'Monthly';
+    text = `${every} on the ${ordinal} ${firstLocal.format('dddd')}`;
+  } else {
+    const weekdays = rule.weekdays.length > 0 ? [...rule.weekdays].sort((a, b) => a - b) : [firstLocal.day()];
+    const every = rule.interval > 1 ? `Every ${rule.interval} weeks` : 'Weekly';
+    text = `${every} on ${weekdays.map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+  }
+
+  if (rule.until) {
+    text += ` until ${dayjs(rule.until).format('MMM D, YYYY')}`;
+  } else if (rule.count) {
+    text += `, ${rule.count} times`;
+  }
+
+  return text;
+}
@@ -1,6 +1,8 @@
 import { pgTable, text, serial, integer, boolean, timestamp, decimal } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { BookingRules, BookingRuleViolation } from "./bookingRules";
+import type { LessonType } from "./lessonTypes";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -40,7 +42,8 @@ export const sessions = pgTable("sessions", {
   duration: integer("duration").notNull(),
   rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
   status: text("status").notNull().default("scheduled"), // scheduled, completed, cancelled, pending
-  paid: boolean("paid").notNull().default(false),
+  paid: boolean("paid").notNull().default(false), // amount_paid covers the full amount
+  amountPaid: decimal("amount_paid", { precision: 10, scale: 2 }).notNull().default("0"), // sum of payment allocations
   recurrenceId: text("recurrence_id"), // UUID for grouping recurring sessions
   notes: text("notes"), // Optional notes for the session
   unassignedName: text("unassigned_name"), // For public bookings without student_id
@@ -64,10 +67,21 @@ export const bookingSlots = pgTable("booking_slots", {
 
 export const payments = pgTable("payments", {
   id: serial("id").primaryKey(),
+  tutorId: integer("tutor_id").notNull(),
+  studentId: integer("student_id"),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  paymentDate: text("payment_date").notNull(), // 'YYYY-MM-DD' in the tutor's timezone
+  method: text("method").notNull().default("cash"), // cash, bank_transfer, card, paypal, other
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// How much of a payment went to which session
+export const paymentAllocations = pgTable("payment_allocations", {
+  id: serial("id").primaryKey(),
+  paymentId: integer("payment_id").notNull(),
   sessionId: integer("session_id").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  paymentDate: timestamp("payment_date").notNull(),
-  method: text("method").notNull().default("cash"), // cash, bank_transfer, paypal, etc.
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
@@ -89,6 +103,7 @@ export const insertBookingSlotSchema = createInsertSchema(bookingSlots).omit({
 
 export const insertPaymentSchema = createInsertSchema(payments).omit({
   id: true,
+  createdAt: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -124,6 +139,237 @@ export interface Tutor {
   // USD exchange rate caching for tutor toggle
   usd_exchange_rate?: number | null;
   usd_rate_fetched_at?: string | null;
+  // Minutes kept free around every session
+  buffer_before_minutes?: number;
+  buffer_after_minutes?: number;
+  // Contact fields students must fill in on the public booking page
+  booking_required_fields?: BookingRequiredField[];
+  // Students can cancel / reschedule public bookings until this many hours before the start
+  booking_change_cutoff_hours?: number;
+  // Booking rules for the public page (see shared/bookingRules.ts)
+  booking_min_notice_hours?: number;
+  booking_max_days_ahead?: number | null;
+  booking_allowed_durations?: number[];
+  booking_daily_cap?: number | null;
+  // Minutes per step of the tutor's time grid: calendar rows, availability snapping, public start times
+  slot_granularity_minutes?: number;
+  // Which public booking requests are confirmed without the tutor's review
+  booking_auto_accept?: BookingAutoAccept;
+}
+
+// Recurring session series (session_series table, not managed by Drizzle).
+// Sessions belonging to a series carry recurrence_id = series.id.
+export type RecurrenceFrequency = 'weekly' | 'monthly';
+
+export interface SessionSeries {
+  id: string;
+  tutor_id: string;
+  student_id: string | null;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: number[] | null; // 0 (Sun) - 6 (Sat)
+  monthly_week: number | null; // 1-4 or -1 for the last weekday of the month
+  until_date: string | null; // YYYY-MM-DD in the series timezone
+  occurrence_count: number | null;
+  first_session_start: string; // UTC timestamp
+  timezone: string;
+  duration: number;
+  rate: number;
+  color: string | null;
+  notes: string | null;
+  materialized_until: string; // UTC timestamp - occurrences before this already exist as session rows
+  created_at?: string;
+}
+
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(['weekly', 'monthly']),
+  interval: z.number().int().min(1).max(12),
+  weekdays: z.array(z.number().int().min(0).max(6)),
+  monthlyWeek: z.number().int().min(-1).max(4).refine(v => v !== 0).nullable(),
+  until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").nullable(),
+  count: z.number().int().min(1).max(1000).nullable(),
+});
+
+// Request bodies for /api/sessions/series
+export const createSessionSeriesSchema = z.object({
+  studentId: z.string().uuid(),
+  firstSessionStart: z.string().datetime({ offset: true }),
+  duration: z.number().int().min(1),
+  rate: z.number().min(0),
+  color: z.string().optional(),
+  notes: z.string().nullable().optional(),
+  applyNotesToSeries: z.boolean().default(false),
+  timezone: z.string().min(1),
+  rule: recurrenceRuleSchema,
+  existingSessionId: z.string().uuid().optional(), // turn an existing one-off session into the first occurrence
+});
+
+// Which occurrences of a recurring series an edit or cancellation applies to.
+// "this" is a plain single-session write; the other two go through /api/sessions/series.
+export type SeriesEditScope = 'this' | 'following' | 'all';
+
+export const updateSessionSeriesSchema = z.object({
+  scope: z.enum(['following', 'all']),
+  fromSessionId: z.string().uuid().optional(), // required for "following"
+  changes: z.object({
+    studentId: z.string().uuid().optional(),
+    time: z.string().regex(/^\d{2}:\d{2}$/, "Use HH:mm").optional(), // local time in the series timezone
+    duration: z.number().int().min(1).optional(),
+    rate: z.number().min(0).optional(),
+    color: z.string().optional(),
+    notes: z.string().nullable().optional(),
+    rule: recurrenceRuleSchema.optional(),
+  }),
+}).refine(data => data.scope !== 'following' || !!data.fromSessionId, {
+  message: "fromSessionId is required when editing following sessions",
+  path: ['fromSessionId'],
+});
+
+export const cancelSessionSeriesSchema = z.object({
+  scope: z.enum(['following', 'all']),
+  fromSessionId: z.string().uuid().optional(), // required for "following"
+  cancellationReason: z.enum(['tutor', 'student']),
+  cancellationNote: z.string().nullable().optional(),
+  excludeFromRate: z.boolean().default(false),
+}).refine(data => data.scope !== 'following' || !!data.fromSessionId, {
+  message: "fromSessionId is required when cancelling following sessions",
+  path: ['fromSessionId'],
+});
+
+export type CreateSessionSeriesInput = z.infer<typeof createSessionSeriesSchema>;
+export type UpdateSessionSeriesInput = z.infer<typeof updateSessionSeriesSchema>;
+export type CancelSessionSeriesInput = z.infer<typeof cancelSessionSeriesSchema>;
+
+export interface SessionSeriesWriteResult {
+  series: SessionSeries | null;
+  sessions: any[];
+  removedEventIds: string[];
+}
+
+// Request body for POST /api/time-off/move-sessions. The new times are worked out on the
+// server (shiftPastTimeOff in shared/timeOff.ts) from the tutor's own time off.
+export const moveSessionsPastTimeOffSchema = z.object({
+  sessionIds: z.array(z.string().uuid()).min(1).max(500),
+});
+
+export type MoveSessionsPastTimeOffInput = z.infer<typeof moveSessionsPastTimeOffSchema>;
+
+// Request body for POST /api/payments. The amount is split over the sessions oldest first
+// (see allocatePayment in shared/payments.ts); the last one may be paid in part.
+export const recordPaymentSchema = z.object({
+  amount: z.number().positive().max(99999999),
+  paymentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  method: z.enum(['cash', 'bank_transfer', 'card', 'paypal', 'other']),
+  note: z.string().trim().max(500).nullable().optional(),
+  sessionIds: z.array(z.string().uuid()).min(1).max(500),
+});
+
+export type RecordPaymentInput = z.infer<typeof recordPaymentSchema>;
+
+// Request body for POST /api/packages (a prepaid bundle sold to a student)
+export const createStudentPackageSchema = z.object({
+  studentId: z.string().uuid(),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  kind: z.enum(['sessions', 'credit']),
+  sessionCount: z.number().int().min(1).max(500).nullable(),
+  creditAmount: z.number().positive().max(99999999).nullable(),
+  price: z.number().min(0).max(99999999),
+  paymentMethod: z.enum(['cash', 'bank_transfer', 'card', 'paypal', 'other']),
+  purchasedOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  expiresOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").nullable(),
+}).refine(data => data.kind === 'sessions' ? !!data.sessionCount && !data.creditAmount : !!data.creditAmount && !data.sessionCount, {
+  message: "Lesson packages need a number of lessons, credit packages an amount",
+  path: ['kind'],
+}).refine(data => !data.expiresOn || data.expiresOn >= data.purchasedOn, {
+  message: "The package can't expire before it was bought",
+  path: ['expiresOn'],
+});
+
+export type CreateStudentPackageInput = z.infer<typeof createStudentPackageSchema>;
+
+// Request body for POST /api/invoices: one student's sessions between two days (both included)
+export const createInvoiceSchema = z.object({
+  studentId: z.string().uuid(),
+  periodStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  periodEnd: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  notes: z.string().trim().max(1000).nullable().optional(),
+}).refine(data => data.periodEnd >= data.periodStart, {
+  message: "The period can't end before it starts",
+  path: ['periodEnd'],
+});
+
+export type CreateInvoiceInput = z.infer<typeof createInvoiceSchema>;
+
+export const updateInvoiceStatusSchema = z.object({
+  status: z.enum(['draft', 'sent', 'paid']),
+});
+
+// Request body for POST /api/public/bookings/:tutorId (students booking through the public page)
+export type BookingRequiredField = 'email' | 'phone';
+
+// 'known_students' = only requests whose email or name matches an active (not archived) student
+export type BookingAutoAccept = 'off' | 'known_students' | 'everyone';
+
+export const publicBookingSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters").max(100, "Name too long"),
+  email: z.string().trim().email("Please enter a valid email address").max(254).optional().or(z.literal('')),
+  phone: z.string().trim().regex(/^[+\d][\d\s().-]{5,24}$/, "Please enter a valid phone number").optional().or(z.literal('')),
+  timezone: z.string().max(64).optional(), // the student's timezone, used to format emails
+  sessionStart: z.string().datetime({ offset: true }),
+  duration: z.number().int().min(15).max(480),
+  lessonTypeId: z.string().uuid().optional(), // the type's duration, rate and color are used
+});
+
+export type PublicBookingInput = z.infer<typeof publicBookingSchema>;
+
+export const acceptBookingRequestSchema = z.object({
+  studentId: z.string().uuid(),
+});
+
+export type PublicBookingRejection =
+  | 'tutor_not_found'
+  | 'missing_contact'
+  | 'in_past'
+  | 'outside_availability'
+  | 'conflict'
+  | BookingRuleViolation
+  | 'lesson_type_unavailable' // unknown, private, or outside the lesson type's hours
+  | 'not_found' // management token doesn't match an active booking
+  | 'too_late'; // inside the tutor's change cutoff
+
+// Request body for POST /api/public/bookings/manage/:token/reschedule
+export const reschedulePublicBookingSchema = z.object({
+  sessionStart: z.string().datetime({ offset: true }),
+});
+
+export type ReschedulePublicBookingInput = z.infer<typeof reschedulePublicBookingSchema>;
+
+// GET /api/public/bookings/manage/:token
+export interface ManagedBooking {
+  booking: {
+    id: string;
+    name: string;
+    session_start: string;
+    session_end: string;
+    duration: number;
+    status: string;
+  };
+  tutor: {
+    id: string;
+    full_name: string;
+    avatar_url: string | null;
+  };
+  cutoffHours: number;
+  changeDeadline: string; // UTC ISO; no changes after this
+  canChange: boolean;
+  // For picking a new time: the tutor's open windows and everything already booked
+  slots: Array<{ id: string; start_time: string; end_time: string }>;
+  busy: Array<{ id: string; session_start: string; session_end: string; status: string | null }>;
+  buffers: { before: number; after: number };
+  timeOff: Array<{ starts_at: string; ends_at: string }>;
+  lessonType: LessonType | null; // a new time has to fit the lesson type's hours too
+  rules: BookingRules;
+  tutorTimezone: string; // days for the daily cap are counted in this timezone
 }
 
 // Cancellation tracking types
@@ -0,0 +1,85 @@
+import type { PaymentMethod } from './payments';
+
+// Prepaid bundles students buy up front (migrations/create_student_packages.sql): a number of
+// lessons or an amount of credit. consume_student_packages() pays ended lessons out of them,
+// so sessions_used / credit_used only ever change on the server.
+
+export type PackageKind = 'sessions' | 'credit';
+
+export interface StudentPackage {
+  id: string;
+  tutor_id: string;
+  student_id: string;
+  name: string;
+  kind: PackageKind;
+  session_count: number | null; // 'sessions' packages
+  credit_amount: number | null; // 'credit' packages, in the tutor's currency
+  price: number;
+  payment_method: PaymentMethod;
+  purchased_on: string; // 'YYYY-MM-DD' in the tutor's timezone
+  expires_on: string | null; // last day it can be used
+  sessions_used: number;
+  credit_used: number;
+  created_at?: string;
+}
+
+// Alert when a package is down to this many lessons, this share of its credit, or expires this soon
+export const LOW_BALANCE_SESSIONS = 2;
+export const LOW_BALANCE_CREDIT_SHARE = 0.2;
+export const EXPIRY_WARNING_DAYS = 14;
+
+// Lessons or credit left, in the package's own unit
+export function packageRemaining(pkg: StudentPackage): number {
+  if (pkg.kind === 'sessions') {
+    return Math.max((pkg.session_count ?? 0) - pkg.sessions_used, 0);
+  }
+  return Math.max(Math.round((Number(pkg.credit_amount ?? 0) - Number(pkg.credit_used)) * 100) / 100, 0);
+}
+
+export function isPackageExpired(pkg: StudentPackage, today: string): boolean {
+  return pkg.expires_on !== null && pkg.expires_on < today;
+}
+
+// Can still pay for lessons: not expired and not used up
+export function isPackageActive(pkg: StudentPackage, today: string): boolean {
+  return !isPackageExpired(pkg, today) && packageRemaining(pkg) > 0;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+export type PackageAlert = 'low_balance' | 'expiring';
+
+// Why an active package needs the tutor's attention, or null
+export function packageAlert(pkg: StudentPackage, today: string): PackageAlert | null {
+  if (!isPackageActive(pkg, today)) return null;
+
+  const remaining = packageRemaining(pkg);
+  const low = pkg.kind === 'sessions'
+    ? remaining <= LOW_BALANCE_SESSIONS
+    : remaining <= Number(pkg.credit_amount ?? 0) * LOW_BALANCE_CREDIT_SHARE;
+  if (low) return 'low_balance';
+
+  if (pkg.expires_on && daysBetween(today, pkg.expires_on) <= EXPIRY_WARNING_DAYS) return 'expiring';
+  return null;
+}
+
+// What a student has left over all active packages
+export interface StudentPackageBalance {
+  sessions: number;
+  credit: number;
+  packages: StudentPackage[]; // active ones, expiring first
+}
+
+export function studentPackageBalance(packages: StudentPackage[], studentId: string, today: string): StudentPackageBalance {
+  const active = packages
+    .filter(pkg => pkg.student_id === studentId && isPackageActive(pkg, today))
+    .sort((a, b) => (a.expires_on ?? '9999-12-31').localeCompare(b.expires_on ?? '9999-12-31'));
+
+  return {
+    sessions: active.filter(pkg => pkg.kind === 'sessions').reduce((total, pkg) => total + packageRemaining(pkg), 0),
+    credit: active.filter(pkg => pkg.kind === 'credit').reduce((total, pkg) => total + packageRemaining(pkg), 0),
+    packages: active,
+  };
+}
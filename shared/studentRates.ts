@@ -0,0 +1,72 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// A student's hourly rates over time (migrations/create_student_rates.sql). Each entry holds
+// from its effective date until the next one; the rate on a session's date prefills it.
+
+export interface StudentRate {
+  id: string;
+  tutor_id: string;
+  student_id: string;
+  rate: number; // per hour, like sessions.rate
+  effective_from: string; // 'YYYY-MM-DD' in the tutor's timezone
+  created_at?: string;
+}
+
+// A rate entry next to the one it replaced, for listing price changes
+export interface RateChange {
+  entry: StudentRate;
+  previousRate: number | null;
+}
+
+// The session's date in the tutor's timezone, as rate entries are dated
+export function rateDateOf(sessionStart: string, tutorTimezone: string): string {
+  return dayjs.utc(sessionStart).tz(tutorTimezone).format('YYYY-MM-DD');
+}
+
+function byEffectiveDate(history: StudentRate[]): StudentRate[] {
+  return [...history].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+}
+
+// The entry in effect on a date, or null before the first one
+export function rateEntryOn(history: StudentRate[], date: string): StudentRate | null {
+  return byEffectiveDate(history).filter(entry => entry.effective_from <= date).pop() ?? null;
+}
+
+export function rateOn(history: StudentRate[], date: string): number | null {
+  const entry = rateEntryOn(history, date);
+  return entry ? Number(entry.rate) : null;
+}
+
+// The first entry taking effect after a date, which ends that date's rate
+export function nextRateChange(history: StudentRate[], date: string): StudentRate | null {
+  return byEffectiveDate(history).find(entry => entry.effective_from > date) ?? null;
+}
+
+/**
+ * Rate for one occurrence of a recurring series. The series keeps the rate it was created
+ * with, except where a rate change that starts after its first session already applies.
+ */
+export function seriesOccurrenceRate(
+  seriesRate: number,
+  history: StudentRate[],
+  firstSessionDate: string,
+  occurrenceDate: string
+): number {
+  const entry = rateEntryOn(history, occurrenceDate);
+  return entry && entry.effective_from > firstSessionDate ? Number(entry.rate) : Number(seriesRate);
+}
+
+// Every entry with the rate it replaced, newest first
+export function rateChanges(history: StudentRate[]): RateChange[] {
+  return byEffectiveDate(history)
+    .map((entry, index, sorted) => ({
+      entry,
+      previousRate: index > 0 ? Number(sorted[index - 1].rate) : null,
+    }))
+    .reverse();
+}
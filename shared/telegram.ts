@@ -0,0 +1,22 @@
+// Linking a Telegram chat to a tutor (migrations/add_telegram_link_codes.sql). The profile page
+// asks for a one-time code; the bot links the chat that sends it, as "/start <code>" from the
+// deep link or typed in by hand.
+
+export const TELEGRAM_LINK_CODE_TTL_MINUTES = 15;
+export const TELEGRAM_LINK_CODE_LENGTH = 8;
+
+// No 0/O or 1/I, so a code read off the screen can be typed without guessing
+export const TELEGRAM_LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export interface TelegramLinkCode {
+  code: string;
+  expiresAt: string;
+  deepLink: string | null; // null until the bot is running and knows its username
+}
+
+// What the tutor typed, as it would be stored: case and separators don't matter
+export function normalizeLinkCode(text: string): string | null {
+  const code = text.replace(/[\s-]/g, '').toUpperCase();
+  const pattern = new RegExp(`^[${TELEGRAM_LINK_CODE_ALPHABET}]{${TELEGRAM_LINK_CODE_LENGTH}}$`);
+  return pattern.test(code) ? code : null;
+}
@@ -0,0 +1,77 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+import { rangesOverlap, type TimeRange } from './conflicts';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// Time off (migrations/create_time_off.sql): date ranges when the tutor takes no lessons.
+// A block overrides every availability window, one-off or weekly. Sessions already inside
+// it stay as they are until the tutor cancels or moves them.
+
+export interface TimeOff {
+  id: string;
+  tutor_id: string;
+  starts_at: string; // UTC ISO, midnight of the first day in the tutor's timezone
+  ends_at: string; // UTC ISO, exclusive (midnight after the last day)
+  reason?: string | null;
+}
+
+// What POST /api/time-off/move-sessions returns
+export interface MoveSessionsPastTimeOffResult {
+  sessions: Array<{ id: string; session_start: string; session_end: string }>; // moved, and out of their series
+  skippedIds: string[]; // recurring lessons whose own series already has a lesson at the new time
+}
+
+// What the public page sees (public_time_off leaves out the reason)
+export type TimeOffRange = Pick<TimeOff, 'starts_at' | 'ends_at'>;
+
+const asRange = (block: TimeOffRange): TimeRange => ({ start: block.starts_at, end: block.ends_at });
+
+export function overlapsTimeOff(range: TimeRange, timeOff: TimeOffRange[]): boolean {
+  return timeOff.some(block => rangesOverlap(range, asRange(block)));
+}
+
+// Whether a single block swallows the whole range
+export function isCoveredByTimeOff(range: TimeRange, timeOff: TimeOffRange[]): boolean {
+  return timeOff.some(block =>
+    !dayjs.utc(range.start).isBefore(dayjs.utc(block.starts_at)) &&
+    !dayjs.utc(range.end).isAfter(dayjs.utc(block.ends_at))
+  );
+}
+
+// Whole days, first to last inclusive ('YYYY-MM-DD' in the tutor's timezone)
+export function timeOffForDates(firstDate: string, lastDate: string, tutorTimezone: string): TimeOffRange {
+  const dayAfterLast = dayjs.utc(lastDate).add(1, 'day').format('YYYY-MM-DD');
+  return {
+    starts_at: dayjs.tz(`${firstDate}T00:00:00`, tutorTimezone).utc().toISOString(),
+    ends_at: dayjs.tz(`${dayAfterLast}T00:00:00`, tutorTimezone).utc().toISOString(),
+  };
+}
+
+// First and last day of a block in the tutor's timezone
+export function timeOffDates(block: TimeOffRange, tutorTimezone: string): { first: string; last: string } {
+  return {
+    first: dayjs.utc(block.starts_at).tz(tutorTimezone).format('YYYY-MM-DD'),
+    last: dayjs.utc(block.ends_at).subtract(1, 'minute').tz(tutorTimezone).format('YYYY-MM-DD'),
+  };
+}
+
+// The same weekday and local time, moved forward by whole weeks until it's clear of every block.
+// Used to push sessions booked before the time off was added past it.
+export function shiftPastTimeOff(range: TimeRange, timeOff: TimeOffRange[], tutorTimezone: string): TimeRange {
+  // Wall-clock start, stepped in UTC so the lesson keeps its hour across DST changes
+  const wallClock = dayjs.utc(dayjs.utc(range.start).tz(tutorTimezone).format('YYYY-MM-DDTHH:mm:ss'));
+  const minutes = dayjs.utc(range.end).diff(dayjs.utc(range.start), 'minute');
+
+  let weeks = 0;
+  let shifted = range;
+  while (overlapsTimeOff(shifted, timeOff)) {
+    weeks += 1;
+    const start = dayjs.tz(wallClock.add(weeks, 'week').format('YYYY-MM-DDTHH:mm:ss'), tutorTimezone).utc();
+    shifted = { start: start.toISOString(), end: start.add(minutes, 'minute').toISOString() };
+  }
+
+  return shifted;
+}